@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Price" ADD COLUMN     "stockQuantity" INTEGER;
+
+-- CreateTable
+CREATE TABLE "StockReservation" (
+    "id" SERIAL NOT NULL,
+    "checkoutAttemptId" TEXT NOT NULL,
+    "priceId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockReservation_priceId_expiresAt_idx" ON "StockReservation"("priceId", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "StockReservation_checkoutAttemptId_idx" ON "StockReservation"("checkoutAttemptId");
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_checkoutAttemptId_fkey" FOREIGN KEY ("checkoutAttemptId") REFERENCES "CheckoutAttempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockReservation" ADD CONSTRAINT "StockReservation_priceId_fkey" FOREIGN KEY ("priceId") REFERENCES "Price"("id") ON DELETE CASCADE ON UPDATE CASCADE;
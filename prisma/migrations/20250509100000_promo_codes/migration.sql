@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "PromoDiscountType" AS ENUM ('PERCENT', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "discountAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "promoCodeId" INTEGER,
+ADD COLUMN     "promoCodeText" TEXT;
+
+-- CreateTable
+CREATE TABLE "PromoCode" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "PromoDiscountType",
+    "discountValue" DECIMAL(10,2),
+    "freeShipping" BOOLEAN NOT NULL DEFAULT false,
+    "minSubtotal" DECIMAL(10,2),
+    "maxRedemptions" INTEGER,
+    "maxRedemptionsPerUser" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "startsAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromoCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoCode_code_key" ON "PromoCode"("code");
+
+-- CreateIndex
+CREATE INDEX "Order_promoCodeId_idx" ON "Order"("promoCodeId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "PromoCode"("id") ON DELETE SET NULL ON UPDATE CASCADE;
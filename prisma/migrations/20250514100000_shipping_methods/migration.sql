@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "shippingCost" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "shippingMethod" TEXT,
+ADD COLUMN     "shippingMethodName" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "estimatedDeliveryDate" DATE,
+ADD COLUMN     "estimatedShipDate" DATE;
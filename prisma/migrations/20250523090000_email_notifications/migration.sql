@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "notifiedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "SavedCard" ADD COLUMN     "expiryNoticeSentAt" TIMESTAMP(3);
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "cartRemindersOptOut" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "CheckoutReminder" (
+    "id" SERIAL NOT NULL,
+    "checkoutAttemptId" TEXT,
+    "userId" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "cartItems" JSONB NOT NULL,
+    "cartValue" DECIMAL(10,2) NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "clickedAt" TIMESTAMP(3),
+    "recoveredOrderId" INTEGER,
+    "recoveredAt" TIMESTAMP(3),
+
+    CONSTRAINT "CheckoutReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckoutReminder_checkoutAttemptId_key" ON "CheckoutReminder"("checkoutAttemptId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CheckoutReminder_recoveredOrderId_key" ON "CheckoutReminder"("recoveredOrderId");
+
+-- CreateIndex
+CREATE INDEX "CheckoutReminder_email_sentAt_idx" ON "CheckoutReminder"("email", "sentAt");
+
+-- CreateIndex
+CREATE INDEX "CheckoutReminder_sentAt_idx" ON "CheckoutReminder"("sentAt");
+
+-- AddForeignKey
+ALTER TABLE "CheckoutReminder" ADD CONSTRAINT "CheckoutReminder_checkoutAttemptId_fkey" FOREIGN KEY ("checkoutAttemptId") REFERENCES "CheckoutAttempt"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckoutReminder" ADD CONSTRAINT "CheckoutReminder_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CheckoutReminder" ADD CONSTRAINT "CheckoutReminder_recoveredOrderId_fkey" FOREIGN KEY ("recoveredOrderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "intervalCount" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "quantity" INTEGER NOT NULL DEFAULT 1;
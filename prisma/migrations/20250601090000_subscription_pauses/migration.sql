@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "pauseResumesAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "SubscriptionPause" (
+    "id" SERIAL NOT NULL,
+    "subscriptionId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "resumesAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SubscriptionPause_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SubscriptionPause_subscriptionId_createdAt_idx" ON "SubscriptionPause"("subscriptionId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "SubscriptionPause" ADD CONSTRAINT "SubscriptionPause_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "SubscriptionBoxItem" (
+    "id" SERIAL NOT NULL,
+    "subscriptionId" INTEGER NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SubscriptionBoxItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionBoxItem_subscriptionId_productId_key" ON "SubscriptionBoxItem"("subscriptionId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "SubscriptionBoxItem" ADD CONSTRAINT "SubscriptionBoxItem_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Subscription" ADD COLUMN     "shippingAddressId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Subscription_shippingAddressId_idx" ON "Subscription"("shippingAddressId");
+
+-- AddForeignKey
+ALTER TABLE "Subscription" ADD CONSTRAINT "Subscription_shippingAddressId_fkey" FOREIGN KEY ("shippingAddressId") REFERENCES "Address"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "SubscriptionDunning" (
+    "id" SERIAL NOT NULL,
+    "subscriptionId" INTEGER NOT NULL,
+    "stripeInvoiceId" TEXT NOT NULL,
+    "amountDueCent" INTEGER NOT NULL,
+    "attemptCount" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "requiresAction" BOOLEAN NOT NULL DEFAULT false,
+    "hostedInvoiceUrl" TEXT,
+    "notifiedAttempt" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SubscriptionDunning_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SubscriptionDunning_stripeInvoiceId_key" ON "SubscriptionDunning"("stripeInvoiceId");
+
+-- CreateIndex
+CREATE INDEX "SubscriptionDunning_subscriptionId_status_idx" ON "SubscriptionDunning"("subscriptionId", "status");
+
+-- AddForeignKey
+ALTER TABLE "SubscriptionDunning" ADD CONSTRAINT "SubscriptionDunning_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "Subscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
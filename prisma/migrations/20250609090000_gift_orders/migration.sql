@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "giftHidePrices" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "giftMessage" TEXT,
+ADD COLUMN     "giftSubscriptionId" INTEGER,
+ADD COLUMN     "isGift" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "GiftSubscription" (
+    "id" SERIAL NOT NULL,
+    "purchaseOrderId" INTEGER NOT NULL,
+    "priceId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productName" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "deliveriesTotal" INTEGER NOT NULL,
+    "deliveriesSent" INTEGER NOT NULL DEFAULT 1,
+    "nextDeliveryAt" TIMESTAMP(3),
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GiftSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GiftSubscription_purchaseOrderId_idx" ON "GiftSubscription"("purchaseOrderId");
+
+-- CreateIndex
+CREATE INDEX "GiftSubscription_status_nextDeliveryAt_idx" ON "GiftSubscription"("status", "nextDeliveryAt");
+
+-- CreateIndex
+CREATE INDEX "Order_giftSubscriptionId_idx" ON "Order"("giftSubscriptionId");
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_giftSubscriptionId_fkey" FOREIGN KEY ("giftSubscriptionId") REFERENCES "GiftSubscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftSubscription" ADD CONSTRAINT "GiftSubscription_purchaseOrderId_fkey" FOREIGN KEY ("purchaseOrderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "giftCardAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "GiftCard" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "initialAmountCent" INTEGER NOT NULL,
+    "balanceCent" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "recipientEmail" TEXT NOT NULL,
+    "recipientName" TEXT,
+    "senderName" TEXT,
+    "message" TEXT,
+    "purchaserEmail" TEXT NOT NULL,
+    "purchaserUserId" INTEGER,
+    "stripePaymentIntentId" TEXT,
+    "deliveredAt" TIMESTAMP(3),
+    "voidedAt" TIMESTAMP(3),
+    "voidReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GiftCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GiftCardTransaction" (
+    "id" SERIAL NOT NULL,
+    "giftCardId" INTEGER NOT NULL,
+    "orderId" INTEGER,
+    "type" TEXT NOT NULL,
+    "amountCent" INTEGER NOT NULL,
+    "balanceAfterCent" INTEGER NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GiftCardTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftCard_code_key" ON "GiftCard"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftCard_stripePaymentIntentId_key" ON "GiftCard"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE INDEX "GiftCard_status_createdAt_idx" ON "GiftCard"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GiftCardTransaction_giftCardId_createdAt_idx" ON "GiftCardTransaction"("giftCardId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GiftCardTransaction_orderId_idx" ON "GiftCardTransaction"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "GiftCard" ADD CONSTRAINT "GiftCard_purchaserUserId_fkey" FOREIGN KEY ("purchaserUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_giftCardId_fkey" FOREIGN KEY ("giftCardId") REFERENCES "GiftCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCardTransaction" ADD CONSTRAINT "GiftCardTransaction_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "lockedUntil" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "AuthAttempt" (
+    "id" SERIAL NOT NULL,
+    "action" TEXT NOT NULL,
+    "ip" TEXT NOT NULL,
+    "email" TEXT,
+    "succeeded" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuthAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuthAttempt_action_ip_createdAt_idx" ON "AuthAttempt"("action", "ip", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuthAttempt_action_email_createdAt_idx" ON "AuthAttempt"("action", "email", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuthAttempt_createdAt_idx" ON "AuthAttempt"("createdAt");
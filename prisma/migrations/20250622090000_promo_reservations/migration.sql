@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "PromoReservation" (
+    "id" SERIAL NOT NULL,
+    "checkoutAttemptId" TEXT NOT NULL,
+    "promoCodeId" INTEGER NOT NULL,
+    "userId" INTEGER,
+    "email" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromoReservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromoReservation_checkoutAttemptId_key" ON "PromoReservation"("checkoutAttemptId");
+
+-- CreateIndex
+CREATE INDEX "PromoReservation_promoCodeId_expiresAt_idx" ON "PromoReservation"("promoCodeId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "PromoReservation" ADD CONSTRAINT "PromoReservation_checkoutAttemptId_fkey" FOREIGN KEY ("checkoutAttemptId") REFERENCES "CheckoutAttempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromoReservation" ADD CONSTRAINT "PromoReservation_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "PromoCode"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "GiftCardHold" (
+    "id" SERIAL NOT NULL,
+    "checkoutAttemptId" TEXT NOT NULL,
+    "giftCardId" INTEGER NOT NULL,
+    "amountCent" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GiftCardHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftCardHold_checkoutAttemptId_key" ON "GiftCardHold"("checkoutAttemptId");
+
+-- CreateIndex
+CREATE INDEX "GiftCardHold_giftCardId_expiresAt_idx" ON "GiftCardHold"("giftCardId", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "GiftCardHold" ADD CONSTRAINT "GiftCardHold_checkoutAttemptId_fkey" FOREIGN KEY ("checkoutAttemptId") REFERENCES "CheckoutAttempt"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCardHold" ADD CONSTRAINT "GiftCardHold_giftCardId_fkey" FOREIGN KEY ("giftCardId") REFERENCES "GiftCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
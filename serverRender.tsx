@@ -2,20 +2,28 @@ import React from 'react';
 import express, { Express, Request, Response, NextFunction } from 'express';
 import { renderToString } from 'react-dom/server';
 import { StaticRouter } from 'react-router-dom/server';
-import Stripe from 'stripe';
 import dotenv from 'dotenv';
 import session from 'express-session';
 import connectPgSimple from 'connect-pg-simple';
 import authRouter from './src/server/routes/auth';
+import twoFactorRouter from './src/server/routes/twoFactor';
 import orderRouter from './src/server/routes/orders';
 import stripeRouter from './src/server/routes/stripe';
 import addressRouter from './src/server/routes/addresses';
 import userRouter from './src/server/routes/user';
 import { ProductProvider } from './src/context/ProductContext';
-import { getStripeProducts } from './src/server/utils/stripeProducts';
+import { getCatalogFlavors } from './src/server/utils/catalog';
 import { Flavor } from './src/types/flavor';
 import subscriptionsRouter from './src/server/routes/subscriptions';
 import cardRouter from './src/server/routes/cards';
+import adminCatalogRouter from './src/server/routes/adminCatalog';
+import adminUsersRouter from './src/server/routes/adminUsers';
+import sessionsRouter from './src/server/routes/sessions';
+import { recordSessionActivity } from './src/server/services/sessions';
+import cartRouter from './src/server/routes/cart';
+import giftCardRouter from './src/server/routes/giftCards';
+import { startScheduler } from './src/server/utils/scheduler';
+import { SCHEDULED_JOBS } from './src/server/services/scheduledJobs';
 
 import AppRoutes from './src/routes/index';
 import AppWrapper from './src/AppWrapper';
@@ -23,15 +31,19 @@ import { siteData } from './src/utils/content';
 
 dotenv.config();
 
-const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-if (!stripeSecretKey) {
+if (!process.env.STRIPE_SECRET_KEY) {
 	console.error("Error: STRIPE_SECRET_KEY is not set in the environment variables.");
 	// process.exit(1); // Optional: Exit if key is crucial for server start
 }
-const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, { apiVersion: '2025-03-31.basil' }) : null;
 
 const app: Express = express();
 
+// Behind a reverse proxy, set TRUST_PROXY to the number of proxies so req.ip is the client's address
+// (login throttling counts attempts per IP)
+if (process.env.TRUST_PROXY) {
+	app.set('trust proxy', parseInt(process.env.TRUST_PROXY, 10));
+}
+
 const sessionSecret = process.env.SESSION_SECRET;
 if (!sessionSecret) {
 	console.error("CRITICAL ERROR: SESSION_SECRET is not defined in .env file. Session management will fail.");
@@ -42,7 +54,8 @@ if (!sessionSecret) {
 const PgSessionStore = connectPgSimple(session);
 const sessionStore = new PgSessionStore({
 	conString: process.env.DATABASE_URL,
-	tableName: 'Session'
+	tableName: 'Session',
+	pruneSessionInterval: false // Expired sessions are purged by the 'cleanup' job (src/server/services/cleanup.ts)
 });
 
 app.use(session({
@@ -68,22 +81,32 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 	next();
 });
 
+// Device and IP of logged-in sessions, for the active sessions list on /profile
+app.use((req: Request, _res: Response, next: NextFunction) => {
+	if (req.session.user) {
+		recordSessionActivity(req.session, req.ip || 'unknown', req.get('user-agent') || null);
+	}
+	next();
+});
+
+app.use('/api/auth/2fa', twoFactorRouter);
+app.use('/api/auth/sessions', sessionsRouter);
 app.use('/api/auth', authRouter);
 app.use('/api/orders', orderRouter);
 app.use('/api/addresses', addressRouter);
 app.use('/api/users', userRouter);
 app.use('/api/subscriptions', subscriptionsRouter);
 app.use('/api/cards', cardRouter);
+app.use('/api/admin/catalog', adminCatalogRouter);
+app.use('/api/admin/users', adminUsersRouter);
+app.use('/api/cart', cartRouter);
+app.use('/api/gift-cards', giftCardRouter);
 
 app.get('*', async (req: Request, res: Response) => {
-	if (!stripe) {
-		console.error("SSR Error: Stripe is not initialized.");
-		return res.status(500).send("Server configuration error.");
-	}
-
+	// Products are read from the local catalog tables (synced from Stripe), not from Stripe directly
 	let flavorsData: Flavor[] = [];
 	try {
-		flavorsData = await getStripeProducts(stripe);
+		flavorsData = await getCatalogFlavors();
 	} catch (error) {
 		console.error("SSR Error fetching products:", error);
 	}
@@ -123,4 +146,8 @@ app.get('*', async (req: Request, res: Response) => {
 
 app.listen(3000, () => {
 	console.log("Server running on port 3000");
+	// Background jobs (cleanup, reminder emails). Set DISABLE_SCHEDULER=true to run them via `npm run jobs` instead.
+	if (process.env.DISABLE_SCHEDULER !== 'true') {
+		startScheduler(SCHEDULED_JOBS);
+	}
 });
\ No newline at end of file
@@ -8,47 +8,48 @@ interface AppWrapperProps {
 }
 
 // This component bundles all top-level context providers.
+// CartProvider sits inside AuthProvider so the cart can sync to the logged-in user's account.
 const AppWrapper: React.FC<AppWrapperProps> = ({ children }) => {
     return (
-        <CartProvider>
-            <Toaster 
-                position="bottom-right" 
-                toastOptions={{
-                    // Define default options
-                    className: '',
-                    duration: 5000, // Default duration
-                    style: {
-                        background: '#333', // Default background (can be overridden)
-                        color: '#fff',    // Default text color
-                    },
-                    // Define options for specific types
-                    success: {
-                        duration: 3000,
+        <AuthProvider>
+            <CartProvider>
+                <Toaster 
+                    position="bottom-right" 
+                    toastOptions={{
+                        // Define default options
+                        className: '',
+                        duration: 5000, // Default duration
                         style: {
-                            background: '#f59e0b', // Amber-600 equivalent
-                            color: 'white',
+                            background: '#333', // Default background (can be overridden)
+                            color: '#fff',    // Default text color
                         },
-                        iconTheme: {
-                            primary: 'white',
-                            secondary: '#f59e0b' // Match background
-                        }
-                    },
-                    error: {
-                         style: {
-                            background: '#dc2626', // Red-600 equivalent
-                            color: 'white',
+                        // Define options for specific types
+                        success: {
+                            duration: 3000,
+                            style: {
+                                background: '#f59e0b', // Amber-600 equivalent
+                                color: 'white',
+                            },
+                            iconTheme: {
+                                primary: 'white',
+                                secondary: '#f59e0b' // Match background
+                            }
                         },
-                        iconTheme: {
-                            primary: 'white',       
-                            secondary: '#dc2626' // Match background
+                        error: {
+                             style: {
+                                background: '#dc2626', // Red-600 equivalent
+                                color: 'white',
+                            },
+                            iconTheme: {
+                                primary: 'white',       
+                                secondary: '#dc2626' // Match background
+                            }
                         }
-                    }
-                }}
-            />
-            <AuthProvider>
+                    }}
+                />
                 {children}
-            </AuthProvider>
-        </CartProvider>
+            </CartProvider>
+        </AuthProvider>
     );
 };
 
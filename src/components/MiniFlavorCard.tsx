@@ -1,6 +1,7 @@
 import React from 'react'
 import { Link } from 'react-router-dom'
 import { Flavor } from '../types/flavor' // Import the correct Flavor type
+import { formatStockStatus } from '../utils/formatting'
 
 // Remove the outdated local interface
 // interface FlavorData { ... }
@@ -23,6 +24,8 @@ export const MiniFlavorCard: React.FC<MiniFlavorCardProps> = ({flavor}) => {
 	// Separate default price from other prices
 	const defaultPrice = flavor.prices.find(p => p.isDefault);
 	const otherPrices = flavor.prices.filter(p => !p.isDefault);
+	// Flavor is sold out only when every option is tracked and has nothing left
+	const isSoldOut = flavor.prices.length > 0 && flavor.prices.every(p => p.stockAvailable !== null && p.stockAvailable <= 0);
 
 	return (
 		<Link
@@ -34,9 +37,12 @@ export const MiniFlavorCard: React.FC<MiniFlavorCardProps> = ({flavor}) => {
 				!flavor.slug ? 'opacity-70 pointer-events-none' : '' // Visually indicate if link is just a fallback
 			}`}
 		>
-			<div className='aspect-square overflow-hidden'>
+			<div className='relative aspect-square overflow-hidden'>
+				{isSoldOut && (
+					<span className="absolute top-2 left-2 z-10 bg-slate-800/80 text-white text-xs font-semibold uppercase tracking-wide px-2 py-1 rounded">Sold out</span>
+				)}
 				<img
-					className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-105"
+					className={`w-full h-full object-cover transition-transform duration-300 group-hover:scale-105 ${isSoldOut ? 'grayscale' : ''}`}
 					// Use flavor.imageSrc which comes from Stripe now
 					src={flavor.imageSrc || `/images/${colors[randomNumber]}-soon.png`} 
 					alt={flavor.name}
@@ -56,12 +62,18 @@ export const MiniFlavorCard: React.FC<MiniFlavorCardProps> = ({flavor}) => {
 					{defaultPrice && (
 						<p key={defaultPrice.priceId} className="font-semibold text-lg text-amber-700"> {/* Slightly different style? */} 
 							{defaultPrice.displayName || defaultPrice.unitDescription || 'Default'}: ${defaultPrice.price}
+							{formatStockStatus(defaultPrice.stockAvailable) && (
+								<span className="ml-2 text-xs font-medium text-red-600">{formatStockStatus(defaultPrice.stockAvailable)}</span>
+							)}
 						</p>
 					)}
 					{/* Render other prices */} 
 					{otherPrices.map(priceOpt => (
 						<p key={priceOpt.priceId} className="font-semibold text-md text-amber-600"> {/* Original style */} 
 							{priceOpt.displayName || priceOpt.unitDescription || 'Option'}: ${priceOpt.price}
+							{formatStockStatus(priceOpt.stockAvailable) && (
+								<span className="ml-2 text-xs font-medium text-red-600">{formatStockStatus(priceOpt.stockAvailable)}</span>
+							)}
 						</p>
 					))}
 					{/* Handle case where no prices exist at all */} 
@@ -1,4 +1,5 @@
 import React, { useState, FormEvent, useEffect } from 'react';
+import toast from 'react-hot-toast';
 import { useAuth } from '../../context/AuthContext'; // Adjusted path
 
 interface LoginModalProps {
@@ -13,6 +14,11 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onSwitchToSign
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Second step for accounts with two-factor authentication
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  // Set once a passwordless login link has been requested
+  const [magicLinkMessage, setMagicLinkMessage] = useState<string | null>(null);
   const { login } = useAuth();
 
   // Reset form state when modal opens/closes
@@ -22,6 +28,9 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onSwitchToSign
       setPassword('');
       setError(null);
       setIsLoading(false);
+      setNeedsTwoFactor(false);
+      setTwoFactorCode('');
+      setMagicLinkMessage(null);
     }
   }, [isOpen]);
 
@@ -47,7 +56,10 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onSwitchToSign
 
       const data = await response.json();
 
-      if (response.ok) {
+      if (response.ok && data.twoFactorRequired) {
+        setPassword('');
+        setNeedsTwoFactor(true);
+      } else if (response.ok) {
         login(data.user); 
         onClose(); 
       } else {
@@ -61,6 +73,74 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onSwitchToSign
     }
   };
 
+  const handleTwoFactorSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/2fa/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code: twoFactorCode }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        if (typeof data.recoveryCodesLeft === 'number' && data.recoveryCodesLeft <= 2) {
+          toast(`You have ${data.recoveryCodesLeft} recovery code(s) left. Create new ones in your profile.`);
+        }
+        login(data.user);
+        onClose();
+      } else if (response.status === 401) {
+        // The password step expired; start over
+        setNeedsTwoFactor(false);
+        setTwoFactorCode('');
+        setError(data.message || 'Please log in again.');
+      } else {
+        setError(data.message || 'That code did not work.');
+      }
+    } catch (err) {
+      console.error('Two-factor login error:', err);
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMagicLinkRequest = async () => {
+    setError(null);
+
+    if (!email) {
+      setError('Enter your email address and we\'ll send you a login link.');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch('/api/auth/magic-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMagicLinkMessage(data.message);
+      } else {
+        setError(data.message || 'Failed to send a login link.');
+      }
+    } catch (err) {
+      console.error('Magic link request error:', err);
+      setError('An unexpected error occurred. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleSwitchToSignup = () => {
     onClose();
     onSwitchToSignup();
@@ -91,6 +171,48 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onSwitchToSign
 
         <h2 className="text-2xl font-bold mb-6 text-center">Login</h2>
 
+        {magicLinkMessage ? (
+        <div className="text-center">
+          <p className="text-green-700 text-sm mb-4">{magicLinkMessage}</p>
+          <button
+            type="button"
+            onClick={() => setMagicLinkMessage(null)}
+            className="font-bold text-sm text-blue-500 hover:text-blue-800"
+          >
+            Back to Login
+          </button>
+        </div>
+        ) : needsTwoFactor ? (
+        <form onSubmit={handleTwoFactorSubmit}>
+          {error && <p className="text-red-500 text-sm mb-4 text-center">{error}</p>}
+          <p className="text-sm text-gray-600 mb-4">Enter the 6-digit code from your authenticator app. Lost your phone? Enter one of your recovery codes instead.</p>
+          <div className="mb-4">
+            <label htmlFor="login-2fa-code" className="block text-gray-700 text-sm font-bold mb-2">
+              Authentication Code
+            </label>
+            <input
+              type="text"
+              id="login-2fa-code"
+              autoComplete="one-time-code"
+              autoFocus
+              value={twoFactorCode}
+              onChange={(e) => setTwoFactorCode(e.target.value)}
+              className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline tracking-widest"
+              required
+              disabled={isLoading}
+            />
+          </div>
+          <button
+            type="submit"
+            className={`w-full bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded focus:outline-none focus:shadow-outline ${
+              isLoading ? 'opacity-50 cursor-not-allowed' : ''
+            }`}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Verifying...' : 'Verify'}
+          </button>
+        </form>
+        ) : (
         <form onSubmit={handleSubmit}>
           {error && <p className="text-red-500 text-sm mb-4 text-center">{error}</p>}
           <div className="mb-4">
@@ -149,7 +271,18 @@ const LoginModal: React.FC<LoginModalProps> = ({ isOpen, onClose, onSwitchToSign
               Need an account? Sign Up
             </button>
           </div>
+          <div className="mt-4 pt-4 border-t text-center">
+            <button
+              type="button"
+              onClick={handleMagicLinkRequest}
+              className="font-bold text-sm text-blue-500 hover:text-blue-800"
+              disabled={isLoading}
+            >
+              Email Me a Login Link Instead
+            </button>
+          </div>
         </form>
+        )}
       </div>
     </div>
   );
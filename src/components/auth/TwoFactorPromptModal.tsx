@@ -0,0 +1,92 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+
+interface TwoFactorPromptModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onVerified: () => void; // Called once the code is accepted; the caller retries its request
+}
+
+// Asks for an authenticator or recovery code when the server answers a sensitive change with
+// { twoFactorRequired: true }. A code counts for a few minutes, so one prompt covers several changes.
+const TwoFactorPromptModal: React.FC<TwoFactorPromptModalProps> = ({ isOpen, onClose, onVerified }) => {
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setCode('');
+      setError(null);
+      setIsLoading(false);
+    }
+  }, [isOpen]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/2fa/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to verify the code.');
+      }
+      onVerified();
+    } catch (err: any) {
+      console.error('Two-factor verify error:', err);
+      setError(err.message || 'Failed to verify the code.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 z-50 flex justify-center items-center p-4">
+      <div className="bg-white p-6 rounded-lg shadow-xl z-50 w-full max-w-sm">
+        <h2 className="text-lg font-semibold mb-2 text-gray-800">Confirm It's You</h2>
+        <p className="text-sm text-gray-600 mb-4">Enter the 6-digit code from your authenticator app, or one of your recovery codes.</p>
+        <form onSubmit={handleSubmit}>
+          {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+          <input
+            type="text"
+            inputMode="text"
+            autoComplete="one-time-code"
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="123456"
+            className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline tracking-widest mb-4"
+            disabled={isLoading}
+          />
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isLoading}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isLoading || !code.trim()}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+            >
+              {isLoading ? 'Checking...' : 'Continue'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorPromptModal;
@@ -1,23 +1,74 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { CartItem } from '../../context/CartContext'; // Adjust path as needed
+import { AppliedPromoCode, AppliedGiftCard } from '../../types/data';
+import { giftSubscriptionLineName } from '../../utils/gifts';
 
 interface OrderSummaryProps {
     items: CartItem[];
     subtotal: number;
-    shippingCost: number;
+    shippingCost: number | null; // Null until a shipping method has been quoted for the address
+    taxAmount: number | null; // Null until initiate-checkout has calculated it for the address
     total: number;
+    giftMonths?: number | null; // Set when subscription items are prepaid gifts for this many months
     isLoadingShippingRate: boolean;
     errorLoadingShippingRate: string | null;
+    // Promo code props
+    appliedPromo: AppliedPromoCode | null;
+    canApplyPromo: boolean; // False for subscription carts
+    isApplyingPromo: boolean;
+    promoError: string | null;
+    onApplyPromo: (code: string) => void;
+    onRemovePromo: () => void;
+    // Gift card props
+    appliedGiftCard: AppliedGiftCard | null;
+    giftCardAmount: number; // Part of the total paid by the gift card
+    canApplyGiftCard: boolean; // False for subscription carts
+    isApplyingGiftCard: boolean;
+    giftCardError: string | null;
+    onApplyGiftCard: (code: string) => void;
+    onRemoveGiftCard: () => void;
 }
 
 export const OrderSummary: React.FC<OrderSummaryProps> = ({
     items,
     subtotal,
     shippingCost,
+    taxAmount,
     total,
+    giftMonths = null,
     isLoadingShippingRate,
-    errorLoadingShippingRate
+    errorLoadingShippingRate,
+    appliedPromo,
+    canApplyPromo,
+    isApplyingPromo,
+    promoError,
+    onApplyPromo,
+    onRemovePromo,
+    appliedGiftCard,
+    giftCardAmount,
+    canApplyGiftCard,
+    isApplyingGiftCard,
+    giftCardError,
+    onApplyGiftCard,
+    onRemoveGiftCard
 }) => {
+    const [promoInput, setPromoInput] = useState('');
+    const [giftCardInput, setGiftCardInput] = useState('');
+
+    const handleApplyPromo = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (promoInput.trim()) {
+            onApplyPromo(promoInput.trim());
+        }
+    };
+
+    const handleApplyGiftCard = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (giftCardInput.trim()) {
+            onApplyGiftCard(giftCardInput.trim());
+        }
+    };
+
     return (
         <div className="bg-slate-50 p-6 rounded-lg shadow-md sticky top-24">
             <h2 className="text-xl font-semibold text-slate-800 mb-6 border-b border-slate-200 pb-3">Order Summary</h2>
@@ -25,11 +76,12 @@ export const OrderSummary: React.FC<OrderSummaryProps> = ({
             {/* Cart Items Mini View */}
             <div className="space-y-4 mb-6 max-h-60 overflow-y-auto">
                 {items.map((item) => {
-                    const itemPrice = parseFloat(item.price);
+                    const giftTerm = item.isSubscription ? giftMonths : null;
+                    const itemPrice = parseFloat(item.price) * (giftTerm ?? 1);
                     const itemTotal = !isNaN(itemPrice) ? (itemPrice * item.quantity).toFixed(2) : 'Invalid';
                     return (
                         <div key={`${item.productId}-${item.priceId}`} className="flex justify-between items-center text-sm">
-                            <span className="flex-1 mr-2">{item.name} ({item.quantity})</span>
+                            <span className="flex-1 mr-2">{giftTerm ? giftSubscriptionLineName(item.name, giftTerm) : item.name} ({item.quantity})</span>
                             <span className="text-slate-700 font-medium">${itemTotal}</span>
                         </div>
                     );
@@ -49,12 +101,30 @@ export const OrderSummary: React.FC<OrderSummaryProps> = ({
                     {isLoadingShippingRate ? (
                         <span className="italic text-slate-400">Loading...</span>
                     ) : errorLoadingShippingRate ? (
-                        <span className="text-red-500 text-xs">Error</span> // Or display fallback price
+                        <span className="text-red-500 text-xs">Unavailable</span>
+                    ) : shippingCost === null ? (
+                        <span className="italic text-slate-400">Enter address</span>
                     ) : (
-                        <span>${shippingCost.toFixed(2)}</span>
+                        <span>{shippingCost === 0 ? 'Free' : `$${shippingCost.toFixed(2)}`}</span>
+                    )}
+                </div>
+                {appliedPromo && (
+                    <div className="flex justify-between text-sm text-green-700">
+                        <span>
+                            Discount ({appliedPromo.code})
+                            <button type="button" onClick={onRemovePromo} className="ml-2 text-xs text-slate-500 hover:text-red-600 underline">Remove</button>
+                        </span>
+                        <span>-${appliedPromo.discount.toFixed(2)}</span>
+                    </div>
+                )}
+                <div className="flex justify-between text-sm text-slate-600">
+                    <span>Tax</span>
+                    {taxAmount === null ? (
+                        <span className="italic text-slate-400">Calculated at payment</span>
+                    ) : (
+                        <span>${taxAmount.toFixed(2)}</span>
                     )}
                 </div>
-                {/* Tax Row Removed */}
                 <div className="flex justify-between text-lg font-bold text-slate-900 border-t border-slate-300 pt-3 mt-3">
                     <span>Total</span>
                     {/* Show loading for total as well */}
@@ -64,7 +134,80 @@ export const OrderSummary: React.FC<OrderSummaryProps> = ({
                         <span>${total.toFixed(2)}</span>
                     )}
                 </div>
+                {appliedGiftCard && (
+                    <>
+                        <div className="flex justify-between text-sm text-green-700">
+                            <span>
+                                Gift card ({appliedGiftCard.code})
+                                <button type="button" onClick={onRemoveGiftCard} className="ml-2 text-xs text-slate-500 hover:text-red-600 underline">Remove</button>
+                            </span>
+                            <span>-${giftCardAmount.toFixed(2)}</span>
+                        </div>
+                        <div className="flex justify-between text-base font-semibold text-slate-900">
+                            <span>Amount Due</span>
+                            <span>${Math.max(0, total - giftCardAmount).toFixed(2)}</span>
+                        </div>
+                        <p className="text-xs text-slate-500">
+                            ${Math.max(0, appliedGiftCard.balance - giftCardAmount).toFixed(2)} will remain on the gift card.
+                        </p>
+                    </>
+                )}
             </div>
+
+            {/* Promo Code */}
+            {canApplyPromo && !appliedPromo && items.length > 0 && (
+                <form onSubmit={handleApplyPromo} className="mt-6 border-t border-slate-200 pt-4">
+                    <label htmlFor="promoCode" className="block text-sm font-medium text-slate-700 mb-1">Promo Code</label>
+                    <div className="flex space-x-2">
+                        <input
+                            id="promoCode"
+                            type="text"
+                            value={promoInput}
+                            onChange={e => setPromoInput(e.target.value)}
+                            placeholder="Enter code"
+                            disabled={isApplyingPromo}
+                            className="flex-1 rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 uppercase disabled:bg-slate-100"
+                        />
+                        <button
+                            type="submit"
+                            disabled={isApplyingPromo || !promoInput.trim()}
+                            className="px-4 py-2 bg-slate-700 text-white text-sm font-medium rounded-md hover:bg-slate-800 disabled:opacity-50"
+                        >
+                            {isApplyingPromo ? 'Applying...' : 'Apply'}
+                        </button>
+                    </div>
+                    {promoError && <p className="text-red-600 text-xs mt-2">{promoError}</p>}
+                </form>
+            )}
+            {appliedPromo?.description && (
+                <p className="mt-3 text-xs text-green-700">{appliedPromo.description}</p>
+            )}
+
+            {/* Gift Card */}
+            {canApplyGiftCard && !appliedGiftCard && items.length > 0 && (
+                <form onSubmit={handleApplyGiftCard} className="mt-6 border-t border-slate-200 pt-4">
+                    <label htmlFor="giftCardCode" className="block text-sm font-medium text-slate-700 mb-1">Gift Card</label>
+                    <div className="flex space-x-2">
+                        <input
+                            id="giftCardCode"
+                            type="text"
+                            value={giftCardInput}
+                            onChange={e => setGiftCardInput(e.target.value)}
+                            placeholder="XXXX-XXXX-XXXX-XXXX"
+                            disabled={isApplyingGiftCard}
+                            className="flex-1 rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 uppercase disabled:bg-slate-100"
+                        />
+                        <button
+                            type="submit"
+                            disabled={isApplyingGiftCard || !giftCardInput.trim()}
+                            className="px-4 py-2 bg-slate-700 text-white text-sm font-medium rounded-md hover:bg-slate-800 disabled:opacity-50"
+                        >
+                            {isApplyingGiftCard ? 'Applying...' : 'Apply'}
+                        </button>
+                    </div>
+                    {giftCardError && <p className="text-red-600 text-xs mt-2">{giftCardError}</p>}
+                </form>
+            )}
         </div>
     );
-}; 
\ No newline at end of file
+};
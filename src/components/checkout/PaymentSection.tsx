@@ -105,6 +105,56 @@ const StripeCheckoutForm: React.FC<StripeCheckoutFormProps> = ({ clientSecret, c
 	)
 };
 
+// --- GiftCardOrderButton Component ---
+// Places the order when the gift card covers the whole total, so there is no PaymentIntent to confirm
+const GiftCardOrderButton: React.FC<{ checkoutAttemptId: string }> = ({ checkoutAttemptId }) => {
+	const navigate = useNavigate();
+	const [message, setMessage] = React.useState<string | null>(null);
+	const [isLoading, setIsLoading] = React.useState(false);
+
+	const handlePlaceOrder = async () => {
+		try {
+			sessionStorage.setItem('checkoutDataForConfirmation', checkoutAttemptId);
+		} catch (error) {
+			console.error("Error saving checkoutAttemptId to sessionStorage:", error);
+			setMessage("Error preparing session data. Please try again.");
+			return;
+		}
+		setIsLoading(true);
+		setMessage(null);
+		try {
+			const res = await fetch('/api/stripe/complete-gift-card-checkout', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ checkoutAttemptId })
+			});
+			const data = await res.json().catch(() => ({}));
+			if (!res.ok) {
+				throw new Error(data.error || `Server error: ${res.status}`);
+			}
+			navigate(`/order-confirmation?checkout_attempt=${encodeURIComponent(checkoutAttemptId)}`);
+		} catch (error: any) {
+			console.error("Error placing gift card order:", error);
+			setMessage(error.message || "Failed to place your order.");
+			setIsLoading(false);
+		}
+	};
+
+	return (
+		<div className="p-4 bg-green-50 border border-green-200 rounded-md text-sm text-green-800 space-y-3">
+			<p>Your gift card covers this order. Nothing will be charged to a card.</p>
+			<button
+				onClick={handlePlaceOrder}
+				disabled={isLoading}
+				className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg text-lg transition-colors duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+			>
+				{isLoading ? <div className="spinner border-t-2 border-white border-solid rounded-full w-5 h-5 animate-spin mx-auto"></div> : "Place Order"}
+			</button>
+			{message && <p className="text-red-600 text-sm text-center">{message}</p>}
+		</div>
+	);
+};
+
 // --- PaymentSectionContent Component (moved from Checkout.tsx) ---
 const PaymentSectionContent: React.FC<PaymentSectionContentProps> = ({
 	clientSecret,
@@ -244,7 +294,10 @@ const PaymentSectionContent: React.FC<PaymentSectionContentProps> = ({
 					}
 				</div>
 			)}
-			{auth.user && selectedCardId === '' && !containsSubscription && (
+			{auth.user && !auth.user.emailVerified && selectedCardId === '' && !containsSubscription && (
+				<p className="mt-4 pt-4 border-t border-slate-200 text-sm text-slate-500">Confirm your email address to save cards for future purchases.</p>
+			)}
+			{auth.user?.emailVerified && selectedCardId === '' && !containsSubscription && (
 				<div className="flex items-center mt-4 pt-4 border-t border-slate-200">
 					<input
 						id="saveNewCardForFuture"
@@ -273,6 +326,7 @@ interface PaymentSectionProps {
     // State related to Stripe intent loading
     clientSecret: string | null;
     checkoutAttemptId: string | null;
+    coveredByGiftCard: boolean; // Gift card pays the whole order: no client secret, just place the order
     isLoadingSecret: boolean;
     errorLoadingSecret: string | null;
 
@@ -292,7 +346,7 @@ interface PaymentSectionProps {
 // --- Main PaymentSection Component ---
 export const PaymentSection: React.FC<PaymentSectionProps> = ({
     notes, setNotes, isActive, isShippingComplete,
-    clientSecret, checkoutAttemptId, isLoadingSecret, errorLoadingSecret,
+    clientSecret, checkoutAttemptId, coveredByGiftCard, isLoadingSecret, errorLoadingSecret,
     // Pass down props for PaymentSectionContent
     auth, savedCards, isLoadingCards, errorLoadingCards, selectedCardId, handleSelectCard,
     containsSubscription, saveNewCardForFuture, setSaveNewCardForFuture, total
@@ -342,6 +396,8 @@ export const PaymentSection: React.FC<PaymentSectionProps> = ({
                         <p className="text-center text-red-600">Failed to initialize payment session. Please refresh or contact support.</p>
                     )}
 
+                    {coveredByGiftCard && checkoutAttemptId && <GiftCardOrderButton checkoutAttemptId={checkoutAttemptId} />}
+
                     {/* Render Elements provider only when client secret etc. are ready */}
                     {clientSecret && checkoutAttemptId && stripePromise && options ? (
                         <Elements options={options} stripe={stripePromise}>
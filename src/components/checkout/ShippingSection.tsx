@@ -2,8 +2,10 @@ import React from 'react';
 import classNames from 'classnames';
 import { SectionHeader } from './SectionHeader';
 import { FormInput } from '../ui/FormInput';
-import { Address } from '../../types/data';
+import { Address, ShippingOptionData } from '../../types/data';
 import { useAuth } from '../../context/AuthContext'; // Need auth context to conditionally show save checkbox
+import { formatDeliveryDate } from '../../utils/formatting';
+import { GIFT_SUBSCRIPTION_MONTHS, GIFT_MESSAGE_MAX_LENGTH } from '../../utils/gifts';
 
 interface ShippingSectionProps {
     // State Props
@@ -23,6 +25,16 @@ interface ShippingSectionProps {
     isComplete: boolean;
     canCompleteShipping: boolean;
     isContactComplete: boolean; // Needed to enable/disable the section wrapper
+    shippingOptions: ShippingOptionData[];
+    selectedShippingMethod: string;
+    isLoadingShippingOptions: boolean;
+    errorLoadingShippingOptions: string | null;
+    // Gift options: when isGift, the name and address are the recipient's
+    isGift: boolean;
+    giftMessage: string;
+    giftHidePrices: boolean;
+    giftMonths: number;
+    containsSubscription: boolean; // Subscriptions in a gift order are prepaid for giftMonths
 
     // Setter Props
     setFullName: (value: string) => void;
@@ -33,6 +45,11 @@ interface ShippingSectionProps {
     setPostalCode: (value: string) => void;
     setCountry: (value: string) => void;
     setSaveNewAddress: (value: boolean) => void;
+    setSelectedShippingMethod: (value: string) => void;
+    setIsGift: (value: boolean) => void;
+    setGiftMessage: (value: string) => void;
+    setGiftHidePrices: (value: boolean) => void;
+    setGiftMonths: (value: number) => void;
 
     // Handler Props
     handleSelectAddress: (event: React.ChangeEvent<HTMLSelectElement>) => void;
@@ -44,10 +61,20 @@ export const ShippingSection: React.FC<ShippingSectionProps> = ({
     fullName, address1, address2, city, state, postalCode, country,
     selectedAddressId, saveNewAddress, savedAddresses, isLoadingAddresses, errorLoadingAddresses,
     isActive, isComplete, canCompleteShipping, isContactComplete,
+    shippingOptions, selectedShippingMethod, isLoadingShippingOptions, errorLoadingShippingOptions,
+    isGift, giftMessage, giftHidePrices, giftMonths, containsSubscription,
     setFullName, setAddress1, setAddress2, setCity, setState, setPostalCode, setCountry, setSaveNewAddress,
+    setSelectedShippingMethod, setIsGift, setGiftMessage, setGiftHidePrices, setGiftMonths,
     handleSelectAddress, onContinue, onEdit
 }) => {
     const auth = useAuth(); // Get auth state
+    const selectedOption = shippingOptions.find(option => option.id === selectedShippingMethod);
+
+    // e.g. "1 business day" or "2-3 business days"
+    const formatTransitTime = (option: ShippingOptionData) =>
+        option.minDays === option.maxDays
+            ? `${option.minDays} business day${option.minDays === 1 ? '' : 's'}`
+            : `${option.minDays}-${option.maxDays} business days`;
 
     return (
         <div className={classNames(
@@ -64,6 +91,46 @@ export const ShippingSection: React.FC<ShippingSectionProps> = ({
             {/* Show form if section is active AND previous is complete, otherwise show read-only view IF this section complete */}
             {isActive && isContactComplete ? (
                 <div className="space-y-4">
+                    {/* Gift Option */}
+                    <div className="mb-6 pb-4 border-b border-slate-200">
+                        <div className="flex items-center">
+                            <input id="isGift" name="isGift" type="checkbox" checked={isGift} onChange={(e) => setIsGift(e.target.checked)} className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded" />
+                            <label htmlFor="isGift" className="ml-2 block text-sm text-gray-900">This is a gift (ship to someone else)</label>
+                        </div>
+                        {isGift && (
+                            <div className="mt-4 space-y-4">
+                                <div>
+                                    <label htmlFor="giftMessage" className="block text-sm font-medium text-slate-700 mb-1">Gift Message (Optional)</label>
+                                    <textarea
+                                        id="giftMessage"
+                                        name="giftMessage"
+                                        rows={3}
+                                        maxLength={GIFT_MESSAGE_MAX_LENGTH}
+                                        value={giftMessage}
+                                        onChange={(e) => setGiftMessage(e.target.value)}
+                                        className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2"
+                                        placeholder="Printed on the packing slip"
+                                    />
+                                    <p className="text-xs text-slate-500 mt-1">{giftMessage.length}/{GIFT_MESSAGE_MAX_LENGTH}</p>
+                                </div>
+                                <div className="flex items-center">
+                                    <input id="giftHidePrices" name="giftHidePrices" type="checkbox" checked={giftHidePrices} onChange={(e) => setGiftHidePrices(e.target.checked)} className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded" />
+                                    <label htmlFor="giftHidePrices" className="ml-2 block text-sm text-gray-900">Hide prices on the packing slip</label>
+                                </div>
+                                {containsSubscription && (
+                                    <div>
+                                        <label htmlFor="giftMonths" className="block text-sm font-medium text-slate-700 mb-1">Gift Subscription Length</label>
+                                        <select id="giftMonths" name="giftMonths" value={giftMonths} onChange={(e) => setGiftMonths(Number(e.target.value))} className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2">
+                                            {GIFT_SUBSCRIPTION_MONTHS.map(months => (
+                                                <option key={months} value={months}>{months} monthly deliveries</option>
+                                            ))}
+                                        </select>
+                                        <p className="text-xs text-slate-500 mt-1">Paid today and ends on its own after the last delivery. Only monthly subscriptions can be given.</p>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                    </div>
                     {/* Saved Address Dropdown */}
                     {auth.user && savedAddresses.length > 0 && (
                         <div className="mb-6 pb-4 border-b border-slate-200">
@@ -79,7 +146,7 @@ export const ShippingSection: React.FC<ShippingSectionProps> = ({
                         </div>
                     )}
                     {/* Manual input fields */}
-                    <FormInput label="Full Name" id="fullName" type="text" value={fullName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFullName(e.target.value)} required />
+                    <FormInput label={isGift ? "Recipient's Full Name" : "Full Name"} id="fullName" type="text" value={fullName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFullName(e.target.value)} required />
                     <FormInput label="Street Address" id="address1" type="text" value={address1} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAddress1(e.target.value)} required />
                     <FormInput label="Apartment, suite, etc. (Optional)" id="address2" type="text" value={address2} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setAddress2(e.target.value)} />
                     <FormInput label="City" id="city" type="text" value={city} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCity(e.target.value)} required />
@@ -89,12 +156,58 @@ export const ShippingSection: React.FC<ShippingSectionProps> = ({
                         <FormInput label="Postal Code" id="postalCode" type="text" value={postalCode} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPostalCode(e.target.value)} required />
                     </div>
                     {/* Save Address Checkbox */}
-                    {auth.user && selectedAddressId === '' && (
+                    {auth.user && selectedAddressId === '' && !isGift && (
                         <div className="flex items-center mt-4 pt-4 border-t border-slate-200">
                             <input id="saveNewAddress" name="saveNewAddress" type="checkbox" checked={saveNewAddress} onChange={(e) => setSaveNewAddress(e.target.checked)} className="h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded" />
                             <label htmlFor="saveNewAddress" className="ml-2 block text-sm text-gray-900">Save this address to my profile</label>
                         </div>
                     )}
+                    {/* Shipping Method Picker */}
+                    <div className="mt-4 pt-4 border-t border-slate-200">
+                        <h3 className="text-sm font-medium text-slate-700 mb-2">Shipping Method</h3>
+                        {isLoadingShippingOptions ? (
+                            <p className="text-sm text-slate-500 italic">Loading shipping options...</p>
+                        ) : errorLoadingShippingOptions ? (
+                            <p className="text-sm text-red-500">{errorLoadingShippingOptions}</p>
+                        ) : shippingOptions.length === 0 ? (
+                            <p className="text-sm text-slate-500">Enter your state and postal code to see shipping options.</p>
+                        ) : (
+                            <div className="space-y-2">
+                                {shippingOptions.map(option => (
+                                    <label
+                                        key={option.id}
+                                        htmlFor={`shipping-${option.id}`}
+                                        className={classNames(
+                                            "flex items-start p-3 border rounded-md cursor-pointer transition-colors",
+                                            option.id === selectedShippingMethod ? 'border-indigo-500 bg-indigo-50' : 'border-slate-300 hover:bg-slate-50'
+                                        )}
+                                    >
+                                        <input
+                                            id={`shipping-${option.id}`}
+                                            type="radio"
+                                            name="shippingMethod"
+                                            value={option.id}
+                                            checked={option.id === selectedShippingMethod}
+                                            onChange={() => setSelectedShippingMethod(option.id)}
+                                            className="mt-1 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300"
+                                        />
+                                        <span className="ml-3 flex-1">
+                                            <span className="flex justify-between text-sm font-medium text-slate-800">
+                                                <span>{option.name}</span>
+                                                <span>{option.isFree || option.amount === 0 ? 'Free' : `$${option.amount.toFixed(2)}`}</span>
+                                            </span>
+                                            <span className="block text-xs text-green-700">
+                                                Arrives by {formatDeliveryDate(option.estimatedDeliveryDate)} (ships {formatDeliveryDate(option.estimatedShipDate)})
+                                            </span>
+                                            <span className="block text-xs text-slate-500">
+                                                {formatTransitTime(option)}{option.description ? ` · ${option.description}` : ''}
+                                            </span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </div>
                     {/* Continue button */}
                     <button
                         type="button"
@@ -107,10 +220,22 @@ export const ShippingSection: React.FC<ShippingSectionProps> = ({
                 </div> // End content wrapper
             ) : isComplete ? (
                 <div className="text-slate-600 text-sm">
+                    {isGift && <p className="font-medium text-slate-700">Gift for:</p>}
                     <p>{fullName}</p>
                     <p>{address1}{address2 ? `, ${address2}` : ''}</p>
                     <p>{city}, {state} {postalCode}</p>
                     <p>{country}</p>
+                    {selectedOption && (
+                        <p className="mt-2">
+                            <span className="font-medium">Shipping:</span> {selectedOption.name}, arrives by {formatDeliveryDate(selectedOption.estimatedDeliveryDate)}
+                        </p>
+                    )}
+                    {isGift && (
+                        <p className="mt-2">
+                            <span className="font-medium">Gift message:</span> {giftMessage.trim() || 'None'}{giftHidePrices ? ' (prices hidden)' : ''}
+                            {containsSubscription && <><br /><span className="font-medium">Subscription:</span> {giftMonths} monthly deliveries, prepaid</>}
+                        </p>
+                    )}
                 </div>
             ) : null}
         </div>
@@ -1,5 +1,6 @@
 import React from 'react';
 import { OrderData, OrderItemData } from '../../types/data'; // Import necessary types
+import { formatDeliveryDate } from '../../utils/formatting';
 
 interface OrderSummaryDisplayProps {
     orderDetails: OrderData | null;
@@ -54,10 +55,41 @@ export const OrderSummaryDisplay: React.FC<OrderSummaryDisplayProps> = ({ orderD
                     );
                 })}
             </ul>
+            {orderDetails.discountAmount !== undefined && parseFloat(String(orderDetails.discountAmount)) > 0 && (
+                <div className="flex justify-between text-green-700 font-medium">
+                    <span>Discount{orderDetails.promoCodeText ? ` (${orderDetails.promoCodeText})` : ''}:</span>
+                    <span>-{formatCurrency(orderDetails.discountAmount)}</span>
+                </div>
+            )}
+            {orderDetails.taxAmount !== undefined && parseFloat(String(orderDetails.taxAmount)) > 0 && (
+                <div className="flex justify-between text-slate-600 font-medium">
+                    <span>Tax:</span>
+                    <span>{formatCurrency(orderDetails.taxAmount)}</span>
+                </div>
+            )}
             <div className="border-t-2 border-dashed border-purple-100 pt-4 mt-4 font-bold flex justify-between text-lg text-slate-900">
                 <span>Total:</span> 
                 <span className="text-purple-700">{formatCurrency(orderDetails.totalAmount)}</span>
             </div>
+            {orderDetails.giftCardAmount !== undefined && parseFloat(String(orderDetails.giftCardAmount)) > 0 && (
+                <>
+                    <div className="flex justify-between text-green-700 font-medium mt-2">
+                        <span>Paid with gift card:</span>
+                        <span>-{formatCurrency(orderDetails.giftCardAmount)}</span>
+                    </div>
+                    <div className="flex justify-between text-slate-700 font-medium">
+                        <span>Charged to card:</span>
+                        <span>{formatCurrency(parseFloat(String(orderDetails.totalAmount)) - parseFloat(String(orderDetails.giftCardAmount)))}</span>
+                    </div>
+                </>
+            )}
+            {orderDetails.estimatedDeliveryDate && (
+                <p className="mt-4 text-center text-slate-600">
+                    <span className="material-symbols-outlined align-middle mr-1 text-purple-600 text-base">local_shipping</span>
+                    Estimated delivery: <span className="font-semibold">{formatDeliveryDate(orderDetails.estimatedDeliveryDate)}</span>
+                    {orderDetails.shippingMethodName ? ` via ${orderDetails.shippingMethodName}` : ''}
+                </p>
+            )}
         </div>
     );
 }; 
\ No newline at end of file
@@ -1,6 +1,35 @@
 import React, { useState } from 'react';
 import classNames from 'classnames';
-import { OrderData, OrderItemData } from '../../types/data';
+import { OrderData, OrderItemData, ShipmentData, RefundData } from '../../types/data';
+import { formatDeliveryDate } from '../../utils/formatting';
+import { getTrackingUrl } from '../../utils/shipments';
+import ProfileItemModal from '../profile/ProfileItemModal';
+import ConfirmationModal from '../common/ConfirmationModal';
+import ShipmentForm, { ShipmentFormData } from '../profile/ShipmentForm';
+import RefundForm, { RefundFormData } from '../profile/RefundForm';
+
+// Statuses in which an admin can still pack and ship items
+const FULFILLABLE_STATUSES = ['PAID', 'PROCESSING', 'PARTIALLY_SHIPPED'];
+// Statuses in which an order can still be canceled (nothing has shipped yet)
+const CANCELABLE_STATUSES = ['PENDING', 'PAID', 'ON_HOLD', 'PROCESSING'];
+// Statuses in which a payment was taken and can be (partly) refunded
+const REFUNDABLE_STATUSES = ['PAID', 'ON_HOLD', 'PROCESSING', 'PARTIALLY_SHIPPED', 'SHIPPED', 'DELIVERED'];
+
+// Badge colors per order status
+const getStatusBadgeClass = (status: string): string => {
+    switch (status) {
+        case 'PAID': return 'bg-green-100 text-green-800';
+        case 'ON_HOLD': return 'bg-orange-100 text-orange-800';
+        case 'PROCESSING': return 'bg-indigo-100 text-indigo-800';
+        case 'PARTIALLY_SHIPPED': return 'bg-sky-100 text-sky-800';
+        case 'SHIPPED': return 'bg-blue-100 text-blue-800';
+        case 'DELIVERED': return 'bg-emerald-100 text-emerald-800';
+        case 'FAILED':
+        case 'CANCELED':
+        case 'REFUNDED': return 'bg-red-100 text-red-800';
+        default: return 'bg-yellow-100 text-yellow-800'; // PENDING etc.
+    }
+};
 
 // Define props required by this component
 interface OrderCardProps {
@@ -8,8 +37,8 @@ interface OrderCardProps {
     isAdminView?: boolean; // Optional flag for admin-specific details
     formatDate: (dateString: string) => string;
     formatCurrency: (amount: number | string) => string;
-    onOrderStatusUpdate?: (orderId: number, newStatus: string) => void;
-    activeAdminTab?: 'my' | 'all'; // Add prop for active tab in admin view
+    onOrderStatusUpdate?: (orderId: number, newStatus: string, changes?: Partial<OrderData>) => void;
+    activeAdminTab?: 'my' | 'all' | 'fulfillment'; // Add prop for active tab in admin view
 }
 
 export const OrderCard: React.FC<OrderCardProps> = ({
@@ -23,6 +52,16 @@ export const OrderCard: React.FC<OrderCardProps> = ({
     const [isOpen, setIsOpen] = useState(false); // State for collapsible section
     const [isUpdating, setIsUpdating] = useState(false); // State for button loading
     const [updateError, setUpdateError] = useState<string | null>(null); // State for error message
+    const [isShipmentModalOpen, setIsShipmentModalOpen] = useState(false);
+    const [isCancelConfirmOpen, setIsCancelConfirmOpen] = useState(false);
+    const [isRefundModalOpen, setIsRefundModalOpen] = useState(false);
+
+    const shipments = order.shipments || [];
+    const refunds = order.refunds || [];
+    const refundedAmount = parseFloat(String(order.refundedAmount ?? 0));
+    const giftCardAmount = parseFloat(String(order.giftCardAmount ?? 0));
+    const chargedAmount = parseFloat(String(order.totalAmount)) - giftCardAmount; // Refunds can only go back to the card
+    const canManageOrder = isAdminView && (activeAdminTab === 'all' || activeAdminTab === 'fulfillment');
 
     // Helper to render a single order item
     const renderOrderItem = (item: OrderItemData) => {
@@ -58,41 +97,134 @@ export const OrderCard: React.FC<OrderCardProps> = ({
         );
     };
 
-    // Handler for the "Mark as Shipped" button
-    const handleMarkAsShipped = async () => {
-        if (!onOrderStatusUpdate || isUpdating || order.status === 'SHIPPED' || activeAdminTab !== 'all') {
-            return;
+    // Shared request handler for admin actions. The endpoints return the order's new status, shipments and refunds
+    const runAdminAction = async (url: string, init: RequestInit) => {
+        if (!onOrderStatusUpdate || isUpdating || !canManageOrder) {
+            return false;
         }
 
         setIsUpdating(true);
         setUpdateError(null);
-        const newStatus = 'SHIPPED';
 
         try {
-            const response = await fetch(`/api/orders/${order.id}/status`, {
-                method: 'PATCH',
+            const response = await fetch(url, {
+                ...init,
                 headers: {
                     'Content-Type': 'application/json',
                 },
-                body: JSON.stringify({ status: newStatus }),
             });
 
             if (!response.ok) {
                 const errorData = await response.json().catch(() => ({}));
-                throw new Error(errorData.message || `Failed to update status: ${response.status}`);
+                throw new Error(errorData.message || `Failed to update order: ${response.status}`);
             }
 
+            const { id: _id, status, ...changes }: Partial<OrderData> & { status: string } = await response.json();
             // Call the callback passed from the parent to update the state there
-            onOrderStatusUpdate(order.id, newStatus);
+            onOrderStatusUpdate(order.id, status, changes);
+            return true;
 
         } catch (err: any) {
-            console.error("Error updating order status:", err);
-            setUpdateError(err.message || "Could not update order status.");
+            console.error("Error updating order:", err);
+            setUpdateError(err.message || "Could not update order.");
+            return false;
         } finally {
             setIsUpdating(false);
         }
     };
 
+    // Handler for status-only changes ("Start Processing")
+    const handleStatusChange = (newStatus: string) =>
+        runAdminAction(`/api/orders/${order.id}/status`, { method: 'PATCH', body: JSON.stringify({ status: newStatus }) });
+
+    // Handler for the shipment form (full or partial shipment)
+    const handleCreateShipment = async (formData: ShipmentFormData) => {
+        const success = await runAdminAction(`/api/orders/${order.id}/shipments`, { method: 'POST', body: JSON.stringify(formData) });
+        if (success) {
+            setIsShipmentModalOpen(false);
+        }
+    };
+
+    const handleMarkDelivered = (shipmentId: number) =>
+        runAdminAction(`/api/orders/shipments/${shipmentId}/delivered`, { method: 'POST' });
+
+    // Cancels the order; the server refunds it in full if it was paid
+    const handleConfirmCancel = async () => {
+        await runAdminAction(`/api/orders/${order.id}/cancel`, { method: 'POST', body: JSON.stringify({}) });
+        setIsCancelConfirmOpen(false);
+    };
+
+    const handleCreateRefund = async (formData: RefundFormData) => {
+        const success = await runAdminAction(`/api/orders/${order.id}/refunds`, { method: 'POST', body: JSON.stringify(formData) });
+        if (success) {
+            setIsRefundModalOpen(false);
+        }
+    };
+
+    // Helper to render a single refund line
+    const renderRefund = (refund: RefundData) => (
+        <li key={refund.id} className="text-sm py-2">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <span className={classNames('font-medium', refund.status === 'failed' || refund.status === 'canceled' ? 'text-slate-400 line-through' : 'text-slate-800')}>
+                    -{formatCurrency(refund.amount)}
+                    {refund.status !== 'succeeded' && <span className="ml-2 text-xs font-normal text-slate-500">({refund.status.replace('_', ' ')})</span>}
+                </span>
+                <span className="text-xs text-slate-600">{formatDate(refund.createdAt)}</span>
+            </div>
+            {refund.items.length > 0 && (
+                <p className="text-xs text-slate-500 mt-1">
+                    {refund.items.map(refundItem => {
+                        const orderItem = order.items.find(item => item.id === refundItem.orderItemId);
+                        return `${refundItem.quantity} × ${orderItem?.productName || `Item ${refundItem.orderItemId}`}`;
+                    }).join(', ')}
+                </p>
+            )}
+            {isAdminView && refund.note && <p className="text-xs text-slate-500 italic mt-1">Note: {refund.note}</p>}
+        </li>
+    );
+
+    // Helper to render a single shipment with its tracking link
+    const renderShipment = (shipment: ShipmentData) => {
+        const trackingUrl = getTrackingUrl(shipment.carrier, shipment.trackingNumber);
+        return (
+            <li key={shipment.id} className="text-sm py-2">
+                <div className="flex flex-wrap justify-between items-center gap-2">
+                    <span className="font-medium text-slate-800">
+                        {shipment.carrier}
+                        {shipment.trackingNumber && (
+                            trackingUrl ? (
+                                <a href={trackingUrl} target="_blank" rel="noopener noreferrer" className="ml-2 text-indigo-600 hover:underline">
+                                    {shipment.trackingNumber}
+                                </a>
+                            ) : (
+                                <span className="ml-2 text-slate-600">{shipment.trackingNumber}</span>
+                            )
+                        )}
+                    </span>
+                    <span className="text-xs text-slate-600">
+                        Shipped {formatDate(shipment.shippedAt)}
+                        {shipment.deliveredAt ? ` · Delivered ${formatDate(shipment.deliveredAt)}` : ''}
+                    </span>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">
+                    {shipment.items.map(shipmentItem => {
+                        const orderItem = order.items.find(item => item.id === shipmentItem.orderItemId);
+                        return `${shipmentItem.quantity} × ${orderItem?.productName || `Item ${shipmentItem.orderItemId}`}`;
+                    }).join(', ')}
+                </p>
+                {canManageOrder && !shipment.deliveredAt && (
+                    <button
+                        onClick={() => handleMarkDelivered(shipment.id)}
+                        disabled={isUpdating}
+                        className="mt-1 text-xs px-2 py-1 rounded bg-emerald-100 text-emerald-700 hover:bg-emerald-200 disabled:opacity-50"
+                    >
+                        Mark Delivered
+                    </button>
+                )}
+            </li>
+        );
+    };
+
     return (
         <div className="bg-white border border-slate-200 rounded-lg shadow-sm overflow-hidden">
             {/* Clickable Header */}
@@ -113,13 +245,12 @@ export const OrderCard: React.FC<OrderCardProps> = ({
                         chevron_right 
                     </span>
                     <span className="text-sm font-medium text-slate-800 mr-2">Order #{order.id}</span>
-                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${
-                        order.status === 'PAID' ? 'bg-green-100 text-green-800' 
-                        : order.status === 'SHIPPED' ? 'bg-blue-100 text-blue-800' 
-                        : 'bg-yellow-100 text-yellow-800' // Default for PENDING/PROCESSING etc.
-                    }`}>
-                        {order.status}
+                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-semibold ${getStatusBadgeClass(order.status)}`}>
+                        {order.status.replace('_', ' ')}
                     </span>
+                    {order.isGift && (
+                        <span className="ml-2 inline-block px-2 py-0.5 rounded text-xs font-semibold bg-pink-100 text-pink-800">Gift</span>
+                    )}
                 </div>
 
                 {/* User/Guest Info (Shown in Admin view or if user is logged in) */}
@@ -160,9 +291,25 @@ export const OrderCard: React.FC<OrderCardProps> = ({
                                 {order.shippingZip ? `${order.shippingZip}` : ''}
                                 {!order.shippingAddress1 && !order.shippingCity && '(Address details not available)'}
                             </p>
+                            {order.shippingMethodName && (
+                                <p className="text-sm text-slate-600 mt-1"><span className="font-medium">Method:</span> {order.shippingMethodName}</p>
+                            )}
+                            {order.estimatedDeliveryDate && (
+                                <p className="text-sm text-slate-600 mt-1"><span className="font-medium">Estimated Delivery:</span> {formatDeliveryDate(order.estimatedDeliveryDate)}</p>
+                            )}
                              <p className="text-sm text-slate-600 mt-1"><span className="font-medium">Contact:</span> {order.contactEmail || 'N/A'}</p>
                         </div>
 
+                        {/* Gift Details */}
+                        {order.isGift && (
+                            <div className="bg-pink-50 border border-pink-200 rounded p-3">
+                                <h4 className="text-sm font-semibold text-pink-800 mb-1">Gift{order.giftHidePrices ? ' (prices hidden on packing slip)' : ''}</h4>
+                                {order.giftMessage
+                                    ? <p className="text-sm text-slate-700 whitespace-pre-line">{order.giftMessage}</p>
+                                    : <p className="text-sm text-slate-500 italic">No gift message.</p>}
+                            </div>
+                        )}
+
                         {/* Order Items */}
                         <div>
                             <h4 className="text-sm font-semibold text-slate-700 mb-1">Items:</h4>
@@ -172,27 +319,110 @@ export const OrderCard: React.FC<OrderCardProps> = ({
                                     : <li className="text-sm text-slate-500 italic">No items found for this order.</li>
                                 }
                             </ul>
+                            {order.discountAmount !== undefined && parseFloat(String(order.discountAmount)) > 0 && (
+                                <p className="text-sm text-green-700 mt-2">
+                                    Discount{order.promoCodeText ? ` (${order.promoCodeText})` : ''}: -{formatCurrency(order.discountAmount)}
+                                </p>
+                            )}
+                            {order.taxAmount !== undefined && parseFloat(String(order.taxAmount)) > 0 && (
+                                <p className="text-sm text-slate-600 mt-1">Tax: {formatCurrency(order.taxAmount)}</p>
+                            )}
+                            {giftCardAmount > 0 && (
+                                <p className="text-sm text-slate-600 mt-1">
+                                    Paid with gift card: {formatCurrency(giftCardAmount)}
+                                    {chargedAmount > 0 && ` · Charged to card: ${formatCurrency(chargedAmount)}`}
+                                </p>
+                            )}
                         </div>
 
+                        {/* Refunds */}
+                        {refunds.length > 0 && (
+                            <div>
+                                <h4 className="text-sm font-semibold text-slate-700 mb-1">Refunds:</h4>
+                                <ul className="divide-y divide-slate-100">
+                                    {refunds.map(renderRefund)}
+                                </ul>
+                                {refundedAmount > 0 && (
+                                    <p className="text-sm text-slate-700 mt-1">
+                                        <span className="font-medium">Total Refunded:</span> {formatCurrency(refundedAmount)}
+                                        {refundedAmount < chargedAmount && ` · Net Paid: ${formatCurrency(chargedAmount - refundedAmount)}`}
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Shipments & Tracking */}
+                        {shipments.length > 0 && (
+                            <div>
+                                <h4 className="text-sm font-semibold text-slate-700 mb-1">Shipments:</h4>
+                                <ul className="divide-y divide-slate-100">
+                                    {shipments.map(renderShipment)}
+                                </ul>
+                            </div>
+                        )}
+
                          {/* Admin Actions - Conditionally rendered based on view AND tab */}
-                        {isAdminView && activeAdminTab === 'all' && (
+                        {canManageOrder && (
                             <div className="pt-3 border-t border-slate-200">
                                 <h4 className="text-sm font-semibold text-slate-700 mb-2">Admin Actions:</h4>
-                                <button
-                                    onClick={handleMarkAsShipped}
-                                    disabled={isUpdating || order.status === 'SHIPPED'}
-                                    className={classNames(
-                                        "text-xs px-2 py-1 rounded transition-colors duration-150",
-                                        "focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-blue-400",
-                                        {
-                                            'bg-blue-100 text-blue-700 hover:bg-blue-200': !isUpdating && order.status !== 'SHIPPED',
-                                            'bg-slate-200 text-slate-500 cursor-not-allowed': isUpdating || order.status === 'SHIPPED',
-                                            'opacity-75 cursor-wait': isUpdating,
-                                        }
+                                {order.status === 'ON_HOLD' && order.holdReason && (
+                                    <p className="text-xs text-orange-700 mb-2">On hold: {order.holdReason}</p>
+                                )}
+                                <div className="flex flex-wrap gap-2">
+                                    {order.status === 'PAID' && (
+                                        <button
+                                            onClick={() => handleStatusChange('PROCESSING')}
+                                            disabled={isUpdating}
+                                            className="text-xs px-2 py-1 rounded bg-indigo-100 text-indigo-700 hover:bg-indigo-200 disabled:opacity-50"
+                                        >
+                                            Start Processing
+                                        </button>
+                                    )}
+                                    {order.status === 'ON_HOLD' && (
+                                        <button
+                                            onClick={() => handleStatusChange('PAID')}
+                                            disabled={isUpdating}
+                                            className="text-xs px-2 py-1 rounded bg-green-100 text-green-700 hover:bg-green-200 disabled:opacity-50"
+                                        >
+                                            Release Hold
+                                        </button>
+                                    )}
+                                    {FULFILLABLE_STATUSES.includes(order.status) && (
+                                        <button
+                                            onClick={() => setIsShipmentModalOpen(true)}
+                                            disabled={isUpdating}
+                                            className={classNames(
+                                                "text-xs px-2 py-1 rounded transition-colors duration-150",
+                                                "focus:outline-none focus:ring-2 focus:ring-offset-1 focus:ring-blue-400",
+                                                {
+                                                    'bg-blue-100 text-blue-700 hover:bg-blue-200': !isUpdating,
+                                                    'opacity-75 cursor-wait': isUpdating,
+                                                }
+                                            )}
+                                        >
+                                            {order.status === 'PARTIALLY_SHIPPED' ? 'Ship Remaining Items' : 'Create Shipment'}
+                                        </button>
                                     )}
-                                >
-                                    {isUpdating ? 'Updating...' : order.status === 'SHIPPED' ? 'Shipped' : 'Mark as Shipped'}
-                                </button>
+                                    {REFUNDABLE_STATUSES.includes(order.status) && refundedAmount < chargedAmount && (
+                                        <button
+                                            onClick={() => setIsRefundModalOpen(true)}
+                                            disabled={isUpdating}
+                                            className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-800 hover:bg-amber-200 disabled:opacity-50"
+                                        >
+                                            Issue Refund
+                                        </button>
+                                    )}
+                                    {CANCELABLE_STATUSES.includes(order.status) && shipments.length === 0 && (
+                                        <button
+                                            onClick={() => setIsCancelConfirmOpen(true)}
+                                            disabled={isUpdating}
+                                            className="text-xs px-2 py-1 rounded bg-red-100 text-red-700 hover:bg-red-200 disabled:opacity-50"
+                                        >
+                                            Cancel Order
+                                        </button>
+                                    )}
+                                    {isUpdating && <span className="text-xs text-slate-500 self-center">Updating...</span>}
+                                </div>
                                 {updateError && (
                                     <p className="text-xs text-red-600 mt-1">{updateError}</p>
                                 )}
@@ -201,6 +431,37 @@ export const OrderCard: React.FC<OrderCardProps> = ({
                     </div>
                 )}
             </div>
+
+            {canManageOrder && (
+                <>
+                    <ProfileItemModal
+                        isOpen={isShipmentModalOpen}
+                        onClose={() => setIsShipmentModalOpen(false)}
+                        title={`Ship Order #${order.id}`}
+                    >
+                        <ShipmentForm order={order} onSubmit={handleCreateShipment} isLoading={isUpdating} />
+                        {updateError && <p className="text-sm text-red-600 mt-2">{updateError}</p>}
+                    </ProfileItemModal>
+                    <ProfileItemModal
+                        isOpen={isRefundModalOpen}
+                        onClose={() => setIsRefundModalOpen(false)}
+                        title={`Refund Order #${order.id}`}
+                    >
+                        <RefundForm order={order} onSubmit={handleCreateRefund} isLoading={isUpdating} />
+                        {updateError && <p className="text-sm text-red-600 mt-2">{updateError}</p>}
+                    </ProfileItemModal>
+                    <ConfirmationModal
+                        isOpen={isCancelConfirmOpen}
+                        onClose={() => setIsCancelConfirmOpen(false)}
+                        onConfirm={handleConfirmCancel}
+                        title="Cancel Order?"
+                        message={`Cancel order #${order.id}? ${order.status === 'PENDING' ? '' : ' The payment will be refunded in full.'}${giftCardAmount > 0 ? ' The gift card amount goes back on the gift card.' : ''} It will no longer appear in the fulfillment queue.`}
+                        confirmButtonText="Cancel Order"
+                        cancelButtonText="Keep Order"
+                        isLoading={isUpdating}
+                    />
+                </>
+            )}
         </div>
     );
 }; 
\ No newline at end of file
@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+
+interface ActiveSession {
+    id: string;
+    ip: string | null;
+    userAgent: string | null;
+    signedInAt: string | null;
+    lastSeenAt: string | null;
+    current: boolean;
+}
+
+// "Chrome on Windows" from a user agent string; good enough to recognise your own devices
+const describeDevice = (userAgent: string | null): string => {
+    if (!userAgent) return 'Unknown device';
+    const browser =
+        /Edg\//.test(userAgent) ? 'Edge'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+        : /Chrome\//.test(userAgent) ? 'Chrome'
+        : /Safari\//.test(userAgent) ? 'Safari'
+        : 'Browser';
+    const os =
+        /iPhone|iPad/.test(userAgent) ? 'iOS'
+        : /Android/.test(userAgent) ? 'Android'
+        : /Windows/.test(userAgent) ? 'Windows'
+        : /Mac OS X/.test(userAgent) ? 'macOS'
+        : /Linux/.test(userAgent) ? 'Linux'
+        : null;
+    return os ? `${browser} on ${os}` : browser;
+};
+
+const formatDateTime = (value: string | null): string => (value ? new Date(value).toLocaleString() : 'Unknown');
+
+// Where the account is logged in on /profile, with per-session sign out and "sign out everywhere else"
+const ActiveSessions: React.FC = () => {
+    const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+    const [workingId, setWorkingId] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadSessions = () => {
+        fetch('/api/auth/sessions')
+            .then(async (res) => {
+                if (!res.ok) {
+                    throw new Error(`Failed to load sessions: ${res.status}`);
+                }
+                return res.json();
+            })
+            .then((data: ActiveSession[]) => setSessions(data))
+            .catch(err => console.error('Error fetching sessions:', err));
+    };
+
+    useEffect(loadSessions, []);
+
+    const run = async (id: string, url: string, method: string) => {
+        setWorkingId(id);
+        setError(null);
+        setMessage(null);
+        try {
+            const res = await fetch(url, { method });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Request failed: ${res.status}`);
+            }
+            setMessage(data.message);
+            loadSessions();
+        } catch (err: any) {
+            console.error('Session management error:', err);
+            setError(err.message || 'An unknown error occurred.');
+        } finally {
+            setWorkingId(null);
+        }
+    };
+
+    if (!sessions) {
+        return null;
+    }
+
+    const hasOtherSessions = sessions.some(s => !s.current);
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <h3 className="text-lg font-semibold">Where You're Logged In</h3>
+                {hasOtherSessions && (
+                    <button
+                        onClick={() => run('others', '/api/auth/sessions/revoke-others', 'POST')}
+                        disabled={workingId !== null}
+                        className="px-3 py-1 bg-red-100 text-red-700 text-xs font-medium rounded-md hover:bg-red-200 disabled:opacity-50"
+                    >
+                        {workingId === 'others' ? 'Signing Out...' : 'Sign Out Everywhere Else'}
+                    </button>
+                )}
+            </div>
+            {error && <p className="text-red-600 text-sm mb-3">Error: {error}</p>}
+            {message && <p className="text-green-700 text-sm mb-3">{message}</p>}
+
+            <ul className="divide-y divide-slate-100">
+                {sessions.map(session => (
+                    <li key={session.id} className="py-2 flex justify-between items-center gap-4">
+                        <div>
+                            <p className="text-sm font-medium text-slate-800">
+                                {describeDevice(session.userAgent)}
+                                {session.current && <span className="ml-2 text-xs font-semibold px-2 py-0.5 rounded-full text-green-700 bg-green-100">This browser</span>}
+                            </p>
+                            <p className="text-xs text-slate-500">
+                                {session.ip ?? 'Unknown IP'} · Last active {formatDateTime(session.lastSeenAt)} · Logged in {formatDateTime(session.signedInAt)}
+                            </p>
+                        </div>
+                        {!session.current && (
+                            <button
+                                onClick={() => run(session.id, `/api/auth/sessions/${session.id}`, 'DELETE')}
+                                disabled={workingId !== null}
+                                className="px-3 py-1 bg-slate-200 text-slate-700 text-xs font-medium rounded-md hover:bg-slate-300 disabled:opacity-50"
+                            >
+                                {workingId === session.id ? 'Signing Out...' : 'Sign Out'}
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default ActiveSessions;
@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import classNames from 'classnames';
+import ProfileItemModal from './ProfileItemModal';
+import FlavorForm from './FlavorForm';
+import PriceForm from './PriceForm';
+import ConfirmationModal from '../common/ConfirmationModal';
+import { AdminCatalogProduct, AdminCatalogPrice, AdminFlavorFormData, AdminPriceFormData } from '../../types/data';
+
+// Which form (if any) is open in the modal
+type CatalogModalState =
+    | { kind: 'flavor'; product: AdminCatalogProduct | null }
+    | { kind: 'price'; product: AdminCatalogProduct; price: AdminCatalogPrice | null }
+    | null;
+
+// Pending archive confirmation
+type ArchiveTarget =
+    | { kind: 'product'; product: AdminCatalogProduct }
+    | { kind: 'price'; product: AdminCatalogProduct; price: AdminCatalogPrice }
+    | null;
+
+// Shared fetch wrapper: every catalog endpoint returns the updated product (or list) or { message }
+const catalogRequest = async <T,>(url: string, init: RequestInit, fallbackError: string): Promise<T> => {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+        let errorMsg = fallbackError;
+        try { const errorData = await response.json(); errorMsg = errorData.message || errorMsg; } catch {}
+        throw new Error(errorMsg);
+    }
+    return response.json();
+};
+
+const formatAmount = (price: AdminCatalogPrice): string => {
+    const amount = price.unitAmount !== null ? `$${(price.unitAmount / 100).toFixed(2)}` : 'N/A';
+    return price.recurringInterval ? `${amount} / ${price.recurringInterval}` : amount;
+};
+
+export const AdminCatalogManager: React.FC = () => {
+    const [products, setProducts] = useState<AdminCatalogProduct[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [showArchived, setShowArchived] = useState(false);
+    const [modal, setModal] = useState<CatalogModalState>(null);
+    const [archiveTarget, setArchiveTarget] = useState<ArchiveTarget>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [uploadProductId, setUploadProductId] = useState<string | null>(null);
+
+    const fetchCatalog = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            const data = await catalogRequest<AdminCatalogProduct[]>('/api/admin/catalog', {}, 'Failed to load catalog.');
+            setProducts(data);
+        } catch (err: any) {
+            console.error("Fetch Catalog Error:", err);
+            setError(err.message || 'An unknown error occurred');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchCatalog();
+    }, [fetchCatalog]);
+
+    // Replace (or add) a product in local state with the server's updated copy
+    const applyUpdatedProduct = (updated: AdminCatalogProduct) => {
+        setProducts(current => current.some(p => p.id === updated.id)
+            ? current.map(p => (p.id === updated.id ? updated : p))
+            : [...current, updated]);
+    };
+
+    const runMutation = async (url: string, init: RequestInit, fallbackError: string): Promise<boolean> => {
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            applyUpdatedProduct(await catalogRequest<AdminCatalogProduct>(url, init, fallbackError));
+            return true;
+        } catch (err: any) {
+            console.error("Catalog Update Error:", err);
+            setError(err.message || 'An unknown error occurred');
+            return false;
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const jsonRequest = (method: string, body?: unknown): RequestInit => ({
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    // --- Form submissions ---
+    const handleFlavorSubmit = async (formData: AdminFlavorFormData) => {
+        if (!modal || modal.kind !== 'flavor') return;
+        const ok = modal.product
+            ? await runMutation(`/api/admin/catalog/products/${modal.product.id}`, jsonRequest('PUT', formData), 'Failed to update flavor.')
+            : await runMutation('/api/admin/catalog/products', jsonRequest('POST', formData), 'Failed to create flavor.');
+        if (ok) setModal(null);
+    };
+
+    const handlePriceSubmit = async (formData: AdminPriceFormData) => {
+        if (!modal || modal.kind !== 'price') return;
+        const ok = modal.price
+            ? await runMutation(`/api/admin/catalog/prices/${modal.price.id}`, jsonRequest('PUT', formData), 'Failed to update price.')
+            : await runMutation(`/api/admin/catalog/products/${modal.product.id}/prices`, jsonRequest('POST', formData), 'Failed to create price.');
+        if (ok) setModal(null);
+    };
+
+    // --- Archive / restore ---
+    const confirmArchive = async () => {
+        if (!archiveTarget) return;
+        const url = archiveTarget.kind === 'product'
+            ? `/api/admin/catalog/products/${archiveTarget.product.id}/archive`
+            : `/api/admin/catalog/prices/${archiveTarget.price.id}/archive`;
+        await runMutation(url, jsonRequest('POST'), 'Failed to archive.');
+        setArchiveTarget(null);
+    };
+
+    const handleRestoreProduct = (product: AdminCatalogProduct) => {
+        runMutation(`/api/admin/catalog/products/${product.id}/restore`, jsonRequest('POST'), 'Failed to restore flavor.');
+    };
+
+    const handleRestorePrice = (price: AdminCatalogPrice) => {
+        runMutation(`/api/admin/catalog/prices/${price.id}/restore`, jsonRequest('POST'), 'Failed to restore price.');
+    };
+
+    // --- Image upload (raw body, content type taken from the file) ---
+    const openImagePicker = (productId: string) => {
+        setUploadProductId(productId);
+        fileInputRef.current?.click();
+    };
+
+    const handleImageSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow re-selecting the same file
+        if (!file || !uploadProductId) return;
+        await runMutation(
+            `/api/admin/catalog/products/${uploadProductId}/images`,
+            { method: 'POST', headers: { 'Content-Type': file.type }, body: file },
+            'Failed to upload image.'
+        );
+        setUploadProductId(null);
+    };
+
+    const visibleProducts = products.filter(p => showArchived || p.active);
+
+    return (
+        <div className="mt-8 pt-6 border-t border-slate-200">
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+                <h3 className="text-lg font-semibold">Catalog</h3>
+                <div className="flex items-center space-x-4">
+                    <label className="flex items-center space-x-2 text-sm text-slate-600">
+                        <input type="checkbox" checked={showArchived} onChange={e => setShowArchived(e.target.checked)} className="form-checkbox h-4 w-4 text-indigo-600 border-slate-300 rounded" />
+                        <span>Show archived</span>
+                    </label>
+                    <button
+                        onClick={() => { setError(null); setModal({ kind: 'flavor', product: null }); }}
+                        className="inline-flex items-center px-3 py-1.5 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+                        disabled={isLoading || isSubmitting}
+                    >
+                        <span className="material-symbols-outlined text-base mr-1 align-middle">add</span>
+                        New Flavor
+                    </button>
+                </div>
+            </div>
+
+            <input ref={fileInputRef} type="file" accept="image/png,image/jpeg,image/webp,image/gif" className="hidden" onChange={handleImageSelected} />
+
+            {isLoading && <p className="text-slate-500">Loading catalog...</p>}
+            {error && !modal && <p className="text-red-500 bg-red-50 p-3 rounded mb-4"><span className="font-bold">Error:</span> {error}</p>}
+
+            {!isLoading && visibleProducts.length === 0 && (
+                <p className="text-slate-500 bg-slate-50 p-4 rounded">No products in the catalog yet.</p>
+            )}
+
+            <div className="space-y-4">
+                {visibleProducts.map(product => (
+                    <div key={product.id} className={classNames('border p-4 rounded-md shadow-sm bg-white', { 'opacity-60': !product.active })}>
+                        <div className="flex flex-col sm:flex-row gap-4">
+                            <div className="w-20 h-20 flex-shrink-0 rounded overflow-hidden bg-slate-100 flex items-center justify-center">
+                                {product.images[0]
+                                    ? <img src={product.images[0]} alt={product.name} className="w-full h-full object-cover" />
+                                    : <span className="material-symbols-outlined text-slate-400">image</span>}
+                            </div>
+                            <div className="flex-grow">
+                                <p className="font-medium">
+                                    {product.name}
+                                    {!product.active && <span className="ml-2 text-xs font-semibold text-slate-700 bg-slate-200 px-2 py-0.5 rounded-full align-middle">Archived</span>}
+                                    {product.notFlavor && <span className="ml-2 text-xs font-semibold text-amber-700 bg-amber-100 px-2 py-0.5 rounded-full align-middle">Not a flavor</span>}
+                                    {product.boxEligible && <span className="ml-2 text-xs font-semibold text-indigo-700 bg-indigo-100 px-2 py-0.5 rounded-full align-middle">In boxes</span>}
+                                </p>
+                                <p className="text-sm text-slate-500">{product.slug ? `/flavors/${product.slug}` : 'No slug'}{product.simpleName ? ` · ${product.simpleName}` : ''}</p>
+                                <p className="text-xs text-slate-500 mt-1">
+                                    {[product.hasDairy && 'Dairy', product.hasEgg && 'Egg', product.withoutDairy && 'Dairy-free', product.withoutEgg && 'Egg-free'].filter(Boolean).join(', ') || 'No allergen flags'}
+                                </p>
+                            </div>
+                            <div className="flex-shrink-0 flex items-start space-x-2">
+                                <button title="Edit Flavor" onClick={() => { setError(null); setModal({ kind: 'flavor', product }); }} disabled={isSubmitting} className="p-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-md disabled:opacity-50">
+                                    <span className="material-symbols-outlined text-base align-middle">edit</span>
+                                </button>
+                                <button title="Upload Image" onClick={() => openImagePicker(product.id)} disabled={isSubmitting} className="p-1.5 text-sm text-slate-600 hover:bg-slate-50 rounded-md disabled:opacity-50">
+                                    <span className="material-symbols-outlined text-base align-middle">add_photo_alternate</span>
+                                </button>
+                                {product.active ? (
+                                    <button title="Archive Flavor" onClick={() => setArchiveTarget({ kind: 'product', product })} disabled={isSubmitting} className="p-1.5 text-sm text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50">
+                                        <span className="material-symbols-outlined text-base align-middle">archive</span>
+                                    </button>
+                                ) : (
+                                    <button title="Restore Flavor" onClick={() => handleRestoreProduct(product)} disabled={isSubmitting} className="p-1.5 text-sm text-green-600 hover:bg-green-50 rounded-md disabled:opacity-50">
+                                        <span className="material-symbols-outlined text-base align-middle">unarchive</span>
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+
+                        {/* Price options */}
+                        <div className="mt-3 border-t pt-3 space-y-2">
+                            {product.prices.filter(price => showArchived || price.active).map(price => (
+                                <div key={price.id} className={classNames('flex justify-between items-center text-sm', { 'opacity-60': !price.active })}>
+                                    <span>
+                                        <span className="font-medium text-slate-700">{price.displayName || price.unitDescription || 'Unnamed option'}</span>
+                                        <span className="ml-2 text-slate-600">{formatAmount(price)}</span>
+                                        {product.defaultPriceId === price.id && <span className="ml-2 text-xs font-semibold text-green-700 bg-green-100 px-2 py-0.5 rounded-full">Default</span>}
+                                        {!price.active && <span className="ml-2 text-xs font-semibold text-slate-700 bg-slate-200 px-2 py-0.5 rounded-full">Archived</span>}
+                                        {price.boxSize && <span className="ml-2 text-xs font-semibold text-indigo-700 bg-indigo-100 px-2 py-0.5 rounded-full">Box of {price.boxSize}</span>}
+                                        <span className="ml-2 text-xs text-slate-500">{price.stockQuantity === null ? 'Stock not tracked' : `${price.stockQuantity} in stock`}</span>
+                                    </span>
+                                    <span className="flex items-center space-x-1">
+                                        <button title="Edit Price" onClick={() => { setError(null); setModal({ kind: 'price', product, price }); }} disabled={isSubmitting} className="p-1 text-blue-600 hover:bg-blue-50 rounded-md disabled:opacity-50">
+                                            <span className="material-symbols-outlined text-base align-middle">edit</span>
+                                        </button>
+                                        {price.active ? (
+                                            <button title="Archive Price" onClick={() => setArchiveTarget({ kind: 'price', product, price })} disabled={isSubmitting || product.defaultPriceId === price.id} className="p-1 text-red-600 hover:bg-red-50 rounded-md disabled:opacity-50">
+                                                <span className="material-symbols-outlined text-base align-middle">archive</span>
+                                            </button>
+                                        ) : (
+                                            <button title="Restore Price" onClick={() => handleRestorePrice(price)} disabled={isSubmitting} className="p-1 text-green-600 hover:bg-green-50 rounded-md disabled:opacity-50">
+                                                <span className="material-symbols-outlined text-base align-middle">unarchive</span>
+                                            </button>
+                                        )}
+                                    </span>
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => { setError(null); setModal({ kind: 'price', product, price: null }); }}
+                                disabled={isSubmitting}
+                                className="text-sm text-indigo-600 hover:underline disabled:opacity-50"
+                            >
+                                + Add price option
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <ProfileItemModal
+                isOpen={!!modal}
+                onClose={() => setModal(null)}
+                title={
+                    modal?.kind === 'flavor'
+                        ? (modal.product ? `Edit ${modal.product.name}` : 'New Flavor')
+                        : modal?.kind === 'price'
+                            ? (modal.price ? `Edit Price for ${modal.product.name}` : `New Price for ${modal.product.name}`)
+                            : ''
+                }
+            >
+                {modal?.kind === 'flavor' && (
+                    <FlavorForm initialData={modal.product} onSubmit={handleFlavorSubmit} isLoading={isSubmitting} />
+                )}
+                {modal?.kind === 'price' && (
+                    <PriceForm product={modal.product} initialData={modal.price} onSubmit={handlePriceSubmit} isLoading={isSubmitting} />
+                )}
+                {error && modal ? <p className="text-red-600 mt-3 text-sm">Error: {error}</p> : null}
+            </ProfileItemModal>
+
+            <ConfirmationModal
+                isOpen={!!archiveTarget}
+                onClose={() => setArchiveTarget(null)}
+                onConfirm={confirmArchive}
+                title={archiveTarget?.kind === 'product' ? 'Archive Flavor?' : 'Archive Price?'}
+                message={archiveTarget?.kind === 'product'
+                    ? `"${archiveTarget.product.name}" and all of its prices will be hidden from the shop. You can restore it later.`
+                    : 'This price option will no longer be available for purchase. You can restore it later.'}
+                confirmButtonText="Archive"
+                isLoading={isSubmitting}
+            />
+        </div>
+    );
+};
+
+export default AdminCatalogManager;
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import classNames from 'classnames';
+import ConfirmationModal from '../common/ConfirmationModal';
+import { AdminGiftCard } from '../../types/data';
+import { formatDate, formatCurrency } from '../../utils/formatting';
+
+// Shared fetch wrapper: both gift card endpoints return the card with its ledger or { message }
+const giftCardRequest = async (url: string, init: RequestInit, fallbackError: string): Promise<AdminGiftCard> => {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+        let errorMsg = fallbackError;
+        try { const errorData = await response.json(); errorMsg = errorData.message || errorMsg; } catch {}
+        throw new Error(errorMsg);
+    }
+    return response.json();
+};
+
+const STATUS_CLASSES: Record<AdminGiftCard['status'], string> = {
+    pending: 'text-amber-700 bg-amber-100',
+    active: 'text-green-700 bg-green-100',
+    voided: 'text-slate-700 bg-slate-200',
+};
+
+const TRANSACTION_LABELS: Record<string, string> = {
+    issue: 'Issued',
+    redeem: 'Redeemed',
+    refund: 'Restored',
+    void: 'Voided',
+};
+
+// Look up a gift card by code, see its balance history, and void it (e.g. a reported lost or fraudulent card)
+export const AdminGiftCardManager: React.FC = () => {
+    const [code, setCode] = useState('');
+    const [giftCard, setGiftCard] = useState<AdminGiftCard | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isVoiding, setIsVoiding] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [voidReason, setVoidReason] = useState('');
+    const [isVoidConfirmOpen, setIsVoidConfirmOpen] = useState(false);
+
+    const handleLookup = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading(true);
+        setError(null);
+        setGiftCard(null);
+        try {
+            setGiftCard(await giftCardRequest(`/api/gift-cards/admin/lookup?code=${encodeURIComponent(code.trim())}`, {}, 'Failed to look up the gift card.'));
+            setVoidReason('');
+        } catch (err: any) {
+            console.error("Gift Card Lookup Error:", err);
+            setError(err.message || 'An unknown error occurred');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const confirmVoid = async () => {
+        if (!giftCard) return;
+        setIsVoiding(true);
+        setError(null);
+        try {
+            setGiftCard(await giftCardRequest(`/api/gift-cards/admin/${giftCard.id}/void`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ reason: voidReason.trim() || null }),
+            }, 'Failed to void the gift card.'));
+        } catch (err: any) {
+            console.error("Gift Card Void Error:", err);
+            setError(err.message || 'An unknown error occurred');
+        } finally {
+            setIsVoiding(false);
+            setIsVoidConfirmOpen(false);
+        }
+    };
+
+    return (
+        <div className="mt-8 pt-6 border-t border-slate-200">
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+                <h3 className="text-lg font-semibold">Gift Cards</h3>
+            </div>
+
+            <form onSubmit={handleLookup} className="flex space-x-2 mb-4">
+                <input
+                    type="text"
+                    value={code}
+                    onChange={e => setCode(e.target.value)}
+                    placeholder="Gift card code"
+                    className="flex-1 rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 uppercase"
+                />
+                <button
+                    type="submit"
+                    disabled={isLoading || !code.trim()}
+                    className="px-3 py-1.5 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+                >
+                    {isLoading ? 'Looking up...' : 'Look Up'}
+                </button>
+            </form>
+
+            {error && <p className="text-red-500 bg-red-50 p-3 rounded mb-4"><span className="font-bold">Error:</span> {error}</p>}
+
+            {giftCard && (
+                <div className="border p-4 rounded-md shadow-sm bg-white space-y-3">
+                    <div className="flex flex-col sm:flex-row sm:justify-between gap-2">
+                        <div>
+                            <p className="font-medium font-mono">
+                                {giftCard.code}
+                                <span className={classNames('ml-2 text-xs font-semibold px-2 py-0.5 rounded-full align-middle font-sans', STATUS_CLASSES[giftCard.status])}>
+                                    {giftCard.status}
+                                </span>
+                            </p>
+                            <p className="text-sm text-slate-600">
+                                Balance <span className="font-semibold">{formatCurrency(giftCard.balanceCent / 100)}</span> of {formatCurrency(giftCard.initialAmountCent / 100)}
+                            </p>
+                            <p className="text-xs text-slate-500 mt-1">
+                                To {giftCard.recipientName ? `${giftCard.recipientName} <${giftCard.recipientEmail}>` : giftCard.recipientEmail}
+                                {' · '}Bought by {giftCard.purchaserEmail} on {formatDate(giftCard.createdAt)}
+                                {giftCard.deliveredAt ? ` · Emailed ${formatDate(giftCard.deliveredAt)}` : ' · Not emailed yet'}
+                            </p>
+                            {giftCard.status === 'voided' && (
+                                <p className="text-xs text-slate-500 mt-1">Voided {formatDate(giftCard.voidedAt)}{giftCard.voidReason ? `: ${giftCard.voidReason}` : ''}</p>
+                            )}
+                        </div>
+                        {giftCard.status !== 'voided' && (
+                            <div className="flex-shrink-0 flex flex-col sm:items-end gap-2">
+                                <input
+                                    type="text"
+                                    value={voidReason}
+                                    onChange={e => setVoidReason(e.target.value)}
+                                    maxLength={500}
+                                    placeholder="Reason (internal)"
+                                    className="rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm p-1.5"
+                                />
+                                <button
+                                    onClick={() => setIsVoidConfirmOpen(true)}
+                                    disabled={isVoiding}
+                                    className="text-xs px-2 py-1 rounded bg-red-100 text-red-700 hover:bg-red-200 disabled:opacity-50"
+                                >
+                                    Void Gift Card
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <h4 className="text-sm font-semibold text-slate-700 mb-1">History:</h4>
+                        {giftCard.transactions.length === 0 ? (
+                            <p className="text-sm text-slate-500 italic">No balance changes yet (payment not received).</p>
+                        ) : (
+                            <ul className="divide-y divide-slate-100 text-sm">
+                                {giftCard.transactions.map(transaction => (
+                                    <li key={transaction.id} className="py-1.5 flex justify-between gap-4">
+                                        <span className="text-slate-700">
+                                            {formatDate(transaction.createdAt)} · {TRANSACTION_LABELS[transaction.type] || transaction.type}
+                                            {transaction.orderId ? ` · Order #${transaction.orderId}` : ''}
+                                            {transaction.note ? ` · ${transaction.note}` : ''}
+                                        </span>
+                                        <span className="whitespace-nowrap">
+                                            <span className={transaction.amountCent < 0 ? 'text-red-600' : 'text-green-700'}>
+                                                {transaction.amountCent < 0 ? '-' : '+'}{formatCurrency(Math.abs(transaction.amountCent) / 100)}
+                                            </span>
+                                            <span className="text-slate-500 ml-2">= {formatCurrency(transaction.balanceAfterCent / 100)}</span>
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+
+            <ConfirmationModal
+                isOpen={isVoidConfirmOpen}
+                onClose={() => setIsVoidConfirmOpen(false)}
+                onConfirm={confirmVoid}
+                title="Void Gift Card?"
+                message={giftCard
+                    ? `${giftCard.code} will stop working and its ${formatCurrency(giftCard.balanceCent / 100)} balance will be written off. This can't be undone.`
+                    : ''}
+                confirmButtonText="Void"
+                isLoading={isVoiding}
+            />
+        </div>
+    );
+};
+
+export default AdminGiftCardManager;
@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { LockedAccount } from '../../types/data';
+
+// Accounts locked after too many failed logins, with a way to unlock one early (e.g. after the customer calls in)
+export const AdminLockedAccounts: React.FC = () => {
+    const [accounts, setAccounts] = useState<LockedAccount[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [unlockingId, setUnlockingId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadAccounts = async () => {
+        setError(null);
+        try {
+            const response = await fetch('/api/admin/users/locked');
+            if (!response.ok) {
+                throw new Error(`Failed to load locked accounts: ${response.status}`);
+            }
+            setAccounts(await response.json());
+        } catch (err: any) {
+            console.error("Locked Accounts Error:", err);
+            setError(err.message || 'An unknown error occurred');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadAccounts();
+    }, []);
+
+    const handleUnlock = async (account: LockedAccount) => {
+        setUnlockingId(account.id);
+        setError(null);
+        try {
+            const response = await fetch(`/api/admin/users/${account.id}/unlock`, { method: 'POST' });
+            if (!response.ok) {
+                let errorMsg = 'Failed to unlock the account.';
+                try { const errorData = await response.json(); errorMsg = errorData.message || errorMsg; } catch {}
+                throw new Error(errorMsg);
+            }
+            setAccounts(prev => prev.filter(a => a.id !== account.id));
+        } catch (err: any) {
+            console.error("Unlock Account Error:", err);
+            setError(err.message || 'An unknown error occurred');
+        } finally {
+            setUnlockingId(null);
+        }
+    };
+
+    return (
+        <div className="mt-8 pt-6 border-t border-slate-200">
+            <div className="flex justify-between items-center mb-4 border-b pb-2">
+                <h3 className="text-lg font-semibold">Locked Accounts</h3>
+                <button
+                    onClick={loadAccounts}
+                    className="text-sm text-indigo-600 hover:text-indigo-800 font-medium"
+                >
+                    Refresh
+                </button>
+            </div>
+
+            {error && <p className="text-red-500 bg-red-50 p-3 rounded mb-4"><span className="font-bold">Error:</span> {error}</p>}
+
+            {isLoading ? (
+                <p className="text-sm text-slate-500">Loading...</p>
+            ) : accounts.length === 0 ? (
+                <p className="text-sm text-slate-500 italic">No accounts are locked right now.</p>
+            ) : (
+                <ul className="divide-y divide-slate-100">
+                    {accounts.map(account => (
+                        <li key={account.id} className="py-2 flex justify-between items-center gap-4">
+                            <div>
+                                <p className="font-medium text-sm">{account.name ? `${account.name} <${account.email}>` : account.email}</p>
+                                <p className="text-xs text-slate-500">Locked until {new Date(account.lockedUntil).toLocaleTimeString()}</p>
+                            </div>
+                            <button
+                                onClick={() => handleUnlock(account)}
+                                disabled={unlockingId === account.id}
+                                className="text-xs px-2 py-1 rounded bg-indigo-100 text-indigo-700 hover:bg-indigo-200 disabled:opacity-50"
+                            >
+                                {unlockingId === account.id ? 'Unlocking...' : 'Unlock'}
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default AdminLockedAccounts;
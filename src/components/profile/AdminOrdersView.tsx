@@ -11,7 +11,7 @@ interface AdminOrdersViewProps {
     errorLoadingOrders: string | null;
     formatDate: (dateString: string) => string;
     formatCurrency: (amount: number | string) => string;
-    onOrderStatusUpdate: (orderId: number, newStatus: string) => void;
+    onOrderStatusUpdate: (orderId: number, newStatus: string, changes?: Partial<OrderData>) => void;
 }
 
 export const AdminOrdersView: React.FC<AdminOrdersViewProps> = ({
@@ -23,15 +23,36 @@ export const AdminOrdersView: React.FC<AdminOrdersViewProps> = ({
     formatCurrency,
     onOrderStatusUpdate
 }) => {
-    const [activeTab, setActiveTab] = useState<'my' | 'all'>('all'); 
+    const [activeTab, setActiveTab] = useState<'my' | 'all' | 'fulfillment'>('all'); 
+    const [selectedOrderIds, setSelectedOrderIds] = useState<number[]>([]); // Orders picked for packing slips
 
     const myOrders = useMemo(() => {
         // Ensure allOrders is treated as an array
         return (allOrders || []).filter(order => order.userId === user.id);
     }, [allOrders, user]);
 
+    // Paid orders still waiting to be packed or with items left to ship, oldest first
+    const fulfillmentOrders = useMemo(() => {
+        return (allOrders || [])
+            .filter(order => ['PAID', 'PROCESSING', 'PARTIALLY_SHIPPED'].indexOf(order.status) !== -1)
+            .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+    }, [allOrders]);
+
     // Ensure ordersToDisplay is always an array
-    const ordersToDisplay = activeTab === 'my' ? myOrders : (allOrders || []);
+    const ordersToDisplay = activeTab === 'my' ? myOrders : activeTab === 'fulfillment' ? fulfillmentOrders : (allOrders || []);
+
+    const toggleOrderSelection = (orderId: number) => {
+        setSelectedOrderIds(current =>
+            current.indexOf(orderId) !== -1 ? current.filter(id => id !== orderId) : [...current, orderId]
+        );
+    };
+
+    // Opens the printable packing slips in a new window (selected orders, or every open order if none are selected)
+    const handlePrintPackingSlips = () => {
+        const ids = selectedOrderIds.filter(id => fulfillmentOrders.some(order => order.id === id));
+        const url = ids.length > 0 ? `/api/orders/packing-slips?ids=${ids.join(',')}` : '/api/orders/packing-slips';
+        window.open(url, '_blank', 'noopener');
+    };
 
     return (
         <div>
@@ -66,6 +87,19 @@ export const AdminOrdersView: React.FC<AdminOrdersViewProps> = ({
                     >
                         My Orders ({myOrders.length})
                     </button>
+                    <button
+                        type="button"
+                        onClick={() => setActiveTab('fulfillment')}
+                        className={classNames(
+                            'whitespace-nowrap py-3 px-1 border-b-2 font-medium text-sm',
+                            activeTab === 'fulfillment' 
+                                ? 'border-indigo-500 text-indigo-600' 
+                                : 'border-transparent text-slate-500 hover:text-slate-700 hover:border-slate-300'
+                        )}
+                        disabled={isLoadingOrders}
+                    >
+                        Fulfillment ({fulfillmentOrders.length})
+                    </button>
                 </nav>
             </div>
 
@@ -78,21 +112,47 @@ export const AdminOrdersView: React.FC<AdminOrdersViewProps> = ({
                 ) : ordersToDisplay.length === 0 ? ( 
                     <p className="text-slate-500 bg-slate-50 p-4 rounded">
                         <span className="italic">
-                            {activeTab === 'my' ? 'You haven\'t placed any orders yourself.' : 'There are no orders yet.'}
+                            {activeTab === 'my' ? 'You haven\'t placed any orders yourself.' : activeTab === 'fulfillment' ? 'No orders are waiting to ship.' : 'There are no orders yet.'}
                         </span>
                     </p>
                 ) : (
                     <div className="space-y-4">
+                        {activeTab === 'fulfillment' && (
+                            <div className="flex flex-wrap justify-between items-center gap-2 bg-slate-50 p-3 rounded">
+                                <span className="text-sm text-slate-600">
+                                    {selectedOrderIds.length > 0 ? `${selectedOrderIds.length} selected` : 'Select orders to print, or print all open orders.'}
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={handlePrintPackingSlips}
+                                    className="px-3 py-1 bg-indigo-600 text-white text-xs font-medium rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-1"
+                                >
+                                    Print Packing Slips
+                                </button>
+                            </div>
+                        )}
                         {ordersToDisplay.map((order) => (
-                            <OrderCard 
-                                key={order.id} 
-                                order={order} 
-                                isAdminView={true}
-                                formatDate={formatDate} 
-                                formatCurrency={formatCurrency} 
-                                onOrderStatusUpdate={onOrderStatusUpdate} 
-                                activeAdminTab={activeTab} 
-                            />
+                            <div key={order.id} className={classNames({ 'flex items-start gap-3': activeTab === 'fulfillment' })}>
+                                {activeTab === 'fulfillment' && (
+                                    <input
+                                        type="checkbox"
+                                        aria-label={`Select order ${order.id} for packing slips`}
+                                        checked={selectedOrderIds.indexOf(order.id) !== -1}
+                                        onChange={() => toggleOrderSelection(order.id)}
+                                        className="form-checkbox mt-4 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-slate-300 rounded"
+                                    />
+                                )}
+                                <div className="flex-1 min-w-0">
+                                    <OrderCard 
+                                        order={order} 
+                                        isAdminView={true}
+                                        formatDate={formatDate} 
+                                        formatCurrency={formatCurrency} 
+                                        onOrderStatusUpdate={onOrderStatusUpdate} 
+                                        activeAdminTab={activeTab} 
+                                    />
+                                </div>
+                            </div>
                         ))}
                     </div>
                 )}
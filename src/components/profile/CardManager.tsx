@@ -6,6 +6,7 @@ import { Elements } from '@stripe/react-stripe-js';
 import { loadStripe, StripeElementsOptions } from '@stripe/stripe-js';
 import AddCardForm from './AddCardForm'; // Import the new form
 import ProfileItemModal from './ProfileItemModal'; // Import the generic modal
+import TwoFactorPromptModal from '../auth/TwoFactorPromptModal';
 
 // Load Stripe promise outside component to avoid recreating on render
 // Use the exact variable name injected by Webpack DefinePlugin
@@ -22,6 +23,7 @@ const CardManager: React.FC = () => {
     // --- Confirmation Modal State ---
     const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
     const [cardToDeletePmId, setCardToDeletePmId] = useState<string | null>(null);
+    const [isTwoFactorPromptOpen, setIsTwoFactorPromptOpen] = useState(false); // Two-factor accounts confirm a code before deleting
 
     // State for Add Card Form
     const [isItemModalOpen, setIsItemModalOpen] = useState(false);
@@ -80,7 +82,14 @@ const CardManager: React.FC = () => {
                 if (response.status === 404) {
                     errorMsg = 'Saved card not found.';
                 } else if (response.status === 403) {
-                     errorMsg = 'Forbidden: You do not own this card.';
+                    const errorData = await response.json().catch(() => ({}));
+                    if (errorData.twoFactorRequired) {
+                        // Ask for a code, then retry the delete (see TwoFactorPromptModal below)
+                        setIsConfirmModalOpen(false);
+                        setIsTwoFactorPromptOpen(true);
+                        return;
+                    }
+                    errorMsg = 'Forbidden: You do not own this card.';
                 } else if (response.status === 401) {
                     errorMsg = 'Authentication required.';
                 } else {
@@ -309,6 +318,11 @@ const CardManager: React.FC = () => {
                 confirmButtonText="Delete"
                 isLoading={actionLoading} // Use renamed state
             />
+            <TwoFactorPromptModal
+                isOpen={isTwoFactorPromptOpen}
+                onClose={() => { setIsTwoFactorPromptOpen(false); setCardToDeletePmId(null); }}
+                onVerified={() => { setIsTwoFactorPromptOpen(false); confirmDelete(); }}
+            />
         </div>
     );
 };
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+
+// Shown at the top of /profile until the account's email address is confirmed
+const EmailVerificationBanner: React.FC = () => {
+    const { user, checkAuthStatus } = useAuth();
+    const [isSending, setIsSending] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!user || user.emailVerified) {
+        return null;
+    }
+
+    const handleResend = async () => {
+        setIsSending(true);
+        setMessage(null);
+        setError(null);
+        try {
+            const res = await fetch('/api/auth/resend-verification', { method: 'POST' });
+            const data = await res.json();
+            if (res.status === 409) {
+                await checkAuthStatus(); // Confirmed in another browser; the banner goes away
+                return;
+            }
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to send the email: ${res.status}`);
+            }
+            setMessage(data.message);
+        } catch (err: any) {
+            console.error('Error resending verification email:', err);
+            setError(err.message || 'An unknown error occurred while sending the email.');
+        } finally {
+            setIsSending(false);
+        }
+    };
+
+    return (
+        <div className="mb-8 bg-amber-50 p-4 rounded border border-amber-200">
+            <p className="text-amber-800 font-semibold">Please confirm your email address.</p>
+            <p className="text-amber-700 text-sm mt-1">
+                We sent a link to {user.email}. You need a confirmed address to start a subscription or save a card.
+            </p>
+            {message && <p className="text-green-700 mt-2 text-sm">{message}</p>}
+            {error && <p className="text-red-600 mt-2 text-sm">Error: {error}</p>}
+            <button
+                onClick={handleResend}
+                disabled={isSending}
+                className="mt-3 px-3 py-1 bg-amber-600 text-white text-xs font-medium rounded-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-wait"
+            >
+                {isSending ? 'Sending...' : 'Resend Email'}
+            </button>
+        </div>
+    );
+};
+
+export default EmailVerificationBanner;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+import { AdminCatalogProduct, AdminFlavorFormData } from '../../types/data';
+import { FormInput } from '../ui/FormInput';
+
+interface FlavorFormProps {
+    initialData?: AdminCatalogProduct | null;
+    onSubmit: (formData: AdminFlavorFormData) => Promise<void>;
+    isLoading: boolean;
+}
+
+// Allergen/diet flags stored as 'true'/'false' strings in Stripe metadata
+const FLAG_FIELDS: { name: 'hasDairy' | 'hasEgg' | 'withoutDairy' | 'withoutEgg' | 'notFlavor' | 'boxEligible'; label: string }[] = [
+    { name: 'hasDairy', label: 'Contains dairy' },
+    { name: 'hasEgg', label: 'Contains egg' },
+    { name: 'withoutDairy', label: 'Dairy-free' },
+    { name: 'withoutEgg', label: 'Egg-free' },
+    { name: 'notFlavor', label: 'Not a flavor (hide from flavor lists, e.g. shipping)' },
+    { name: 'boxEligible', label: 'Available in build-your-own boxes' },
+];
+
+const toFormData = (product: AdminCatalogProduct | null): AdminFlavorFormData => ({
+    name: product?.name || '',
+    description: product?.description || '',
+    simpleName: product?.simpleName || '',
+    slug: product?.slug || '',
+    hasDairy: product?.hasDairy || false,
+    hasEgg: product?.hasEgg || false,
+    withoutDairy: product?.withoutDairy || false,
+    withoutEgg: product?.withoutEgg || false,
+    notFlavor: product?.notFlavor || false,
+    boxEligible: product?.boxEligible || false,
+});
+
+// Suggests a slug from the flavor name (e.g. "Yeti Vanilla Dream" -> "yeti-vanilla-dream")
+const slugify = (value: string): string =>
+    value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const FlavorForm: React.FC<FlavorFormProps> = ({ initialData = null, onSubmit, isLoading }) => {
+    const [formData, setFormData] = useState<AdminFlavorFormData>(() => toFormData(initialData));
+    const [slugMessage, setSlugMessage] = useState<string | null>(null);
+    const [isSlugAvailable, setIsSlugAvailable] = useState(true);
+
+    useEffect(() => {
+        setFormData(toFormData(initialData));
+    }, [initialData]);
+
+    // Debounced slug availability check against the server
+    useEffect(() => {
+        const slug = (formData.slug || '').trim();
+        if (!slug) {
+            setSlugMessage(null);
+            setIsSlugAvailable(true);
+            return;
+        }
+        const timer = setTimeout(() => {
+            const params = new URLSearchParams({ slug });
+            if (initialData) params.set('productId', initialData.id);
+            fetch(`/api/admin/catalog/slug-available?${params.toString()}`)
+                .then(res => res.json())
+                .then((data: { available: boolean; message: string | null }) => {
+                    setIsSlugAvailable(data.available);
+                    setSlugMessage(data.message);
+                })
+                .catch(err => console.error("Slug check failed:", err));
+        }, 400);
+        return () => clearTimeout(timer);
+    }, [formData.slug, initialData]);
+
+    const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+        const { name, value, type } = e.target;
+        const inputValue = type === 'checkbox' ? (e.target as HTMLInputElement).checked : value;
+        setFormData(prev => ({ ...prev, [name]: inputValue }));
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        onSubmit({
+            ...formData,
+            name: formData.name.trim(),
+            description: formData.description?.trim() || null,
+            simpleName: formData.simpleName?.trim() || null,
+            slug: formData.slug?.trim() || null,
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <FormInput label="Name" id="flavor-name" name="name" value={formData.name} onChange={handleChange} required disabled={isLoading} />
+            <FormInput label="Simple Name" id="flavor-simpleName" name="simpleName" value={formData.simpleName || ''} onChange={handleChange} placeholder="e.g. Vanilla" disabled={isLoading} />
+            <div>
+                <FormInput label="Slug (URL)" id="flavor-slug" name="slug" value={formData.slug || ''} onChange={handleChange} placeholder="e.g. yeti-vanilla-dream" disabled={isLoading} />
+                <div className="flex justify-between mt-1">
+                    {slugMessage ? <p className="text-xs text-red-600">{slugMessage}</p> : <span />}
+                    {!formData.slug && formData.name && (
+                        <button type="button" onClick={() => setFormData(prev => ({ ...prev, slug: slugify(prev.name) }))} className="text-xs text-indigo-600 hover:underline">
+                            Generate from name
+                        </button>
+                    )}
+                </div>
+            </div>
+            <div>
+                <label htmlFor="flavor-description" className="block text-sm font-medium text-slate-700 mb-1">Description</label>
+                <textarea
+                    id="flavor-description"
+                    name="description"
+                    value={formData.description || ''}
+                    onChange={handleChange}
+                    rows={3}
+                    disabled={isLoading}
+                    className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 disabled:bg-slate-100"
+                />
+            </div>
+            <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-slate-700 mb-1">Allergens &amp; Flags</legend>
+                {FLAG_FIELDS.map(flag => (
+                    <label key={flag.name} className="flex items-center space-x-2 text-sm text-slate-700">
+                        <input
+                            type="checkbox"
+                            name={flag.name}
+                            checked={formData[flag.name]}
+                            onChange={handleChange}
+                            disabled={isLoading}
+                            className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-slate-300 rounded"
+                        />
+                        <span>{flag.label}</span>
+                    </label>
+                ))}
+            </fieldset>
+            <div className="flex justify-end pt-2">
+                <button
+                    type="submit"
+                    disabled={isLoading || !isSlugAvailable}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                >
+                    {isLoading ? 'Saving...' : initialData ? 'Save Flavor' : 'Create Flavor'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default FlavorForm;
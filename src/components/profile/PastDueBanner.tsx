@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { SubscriptionDunningNotice } from '../../types/data';
+import { formatDate, formatCurrency } from '../../utils/formatting';
+
+interface PastDueNoticeProps {
+    notice: SubscriptionDunningNotice;
+    onRecovered: (notice: SubscriptionDunningNotice) => void;
+}
+
+// One failed renewal: what happened, when Stripe retries, and a button to pay now with the default card
+export const PastDueNotice: React.FC<PastDueNoticeProps> = ({ notice, onRecovered }) => {
+    const [isRetrying, setIsRetrying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleRetry = async () => {
+        setIsRetrying(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/subscriptions/${notice.stripeSubscriptionId}/retry-payment`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to retry payment: ${res.status}`);
+            }
+            onRecovered(data.dunning as SubscriptionDunningNotice);
+        } catch (err: any) {
+            console.error(`Error retrying payment for ${notice.stripeSubscriptionId}:`, err);
+            setError(err.message || 'An unknown error occurred while retrying the payment.');
+        } finally {
+            setIsRetrying(false);
+        }
+    };
+
+    return (
+        <div className="bg-red-50 p-4 rounded border border-red-200">
+            <p className="text-red-800 font-semibold">
+                {notice.requiresAction
+                    ? `Your bank needs you to confirm the ${formatCurrency(notice.amountDueCent / 100)} payment for ${notice.productName}.`
+                    : `We couldn't collect ${formatCurrency(notice.amountDueCent / 100)} for your ${notice.productName} subscription.`}
+            </p>
+            <p className="text-red-700 text-sm mt-1">
+                {notice.nextAttemptAt
+                    ? `We'll try again on ${formatDate(notice.nextAttemptAt)}. Update your card or pay now to keep your deliveries on schedule.`
+                    : 'This was the last attempt. Pay now to keep your subscription.'}
+            </p>
+            {error && <p className="text-red-600 mt-2 text-sm">Error: {error}</p>}
+            <div className="flex flex-wrap gap-2 mt-3">
+                <button
+                    onClick={handleRetry}
+                    disabled={isRetrying}
+                    className="px-3 py-1 bg-red-600 text-white text-xs font-medium rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-wait"
+                >
+                    {isRetrying ? 'Retrying...' : 'Retry Payment Now'}
+                </button>
+                {notice.requiresAction && notice.hostedInvoiceUrl && (
+                    <a
+                        href={notice.hostedInvoiceUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="px-3 py-1 bg-white text-red-700 border border-red-300 text-xs font-medium rounded-md hover:bg-red-100"
+                    >
+                        Confirm Payment
+                    </a>
+                )}
+            </div>
+        </div>
+    );
+};
+
+// Shown at the top of /profile while any subscription renewal is past due
+const PastDueBanner: React.FC = () => {
+    const [notices, setNotices] = useState<SubscriptionDunningNotice[]>([]);
+
+    useEffect(() => {
+        fetch('/api/subscriptions/dunning')
+            .then(async (res) => {
+                if (!res.ok) {
+                    throw new Error(`Failed to load payment status: ${res.status}`);
+                }
+                return res.json();
+            })
+            .then((data: SubscriptionDunningNotice[]) => setNotices(data))
+            .catch(err => console.error('Error fetching past due subscriptions:', err));
+    }, []);
+
+    if (notices.length === 0) {
+        return null;
+    }
+
+    return (
+        <div className="mb-8 space-y-3">
+            {notices.map(notice => (
+                <PastDueNotice
+                    key={notice.id}
+                    notice={notice}
+                    onRecovered={(recovered) => setNotices(current => current.filter(n => n.id !== recovered.id))}
+                />
+            ))}
+            <p className="text-sm text-slate-600">
+                To use a different card, add it under <a href="#payment-methods" className="text-indigo-600 hover:text-indigo-800 font-medium">Saved Payment Methods</a> and make it your default, then retry.
+            </p>
+        </div>
+    );
+};
+
+export default PastDueBanner;
@@ -0,0 +1,160 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+import { AdminCatalogPrice, AdminCatalogProduct, AdminPriceFormData } from '../../types/data';
+import { FormInput } from '../ui/FormInput';
+
+interface PriceFormProps {
+    product: AdminCatalogProduct;
+    initialData?: AdminCatalogPrice | null; // Null when creating a new price
+    onSubmit: (formData: AdminPriceFormData) => Promise<void>;
+    isLoading: boolean;
+}
+
+const PriceForm: React.FC<PriceFormProps> = ({ product, initialData = null, onSubmit, isLoading }) => {
+    const isEditing = !!initialData;
+    const [amount, setAmount] = useState(''); // Dollars, converted to cents on submit
+    const [recurringInterval, setRecurringInterval] = useState<string>('');
+    const [displayName, setDisplayName] = useState('');
+    const [unitDescription, setUnitDescription] = useState('');
+    const [packSize, setPackSize] = useState('');
+    const [subscriptionId, setSubscriptionId] = useState('');
+    const [boxSize, setBoxSize] = useState(''); // Blank = not a build-your-own box
+    const [stockQuantity, setStockQuantity] = useState(''); // Blank = not tracked
+    const [isDefault, setIsDefault] = useState(false);
+
+    useEffect(() => {
+        setAmount(initialData?.unitAmount ? (initialData.unitAmount / 100).toFixed(2) : '');
+        setRecurringInterval(initialData?.recurringInterval || '');
+        setDisplayName(initialData?.displayName || '');
+        setUnitDescription(initialData?.unitDescription || '');
+        setPackSize(initialData?.packSize || '');
+        setSubscriptionId(initialData?.subscriptionId || '');
+        setBoxSize(initialData?.boxSize ? String(initialData.boxSize) : '');
+        setStockQuantity(initialData?.stockQuantity !== null && initialData?.stockQuantity !== undefined ? String(initialData.stockQuantity) : '');
+        setIsDefault(!!initialData && product.defaultPriceId === initialData.id);
+    }, [initialData, product]);
+
+    // One-time prices can link to a recurring price of the same flavor ("Subscribe & Save")
+    const subscriptionOptions = product.prices.filter(p => p.recurringInterval && p.active && p.id !== initialData?.id);
+    const isRecurring = !!recurringInterval;
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        const trimmedStock = stockQuantity.trim();
+        const trimmedBoxSize = boxSize.trim();
+        onSubmit({
+            unitAmount: Math.round(parseFloat(amount) * 100),
+            currency: initialData?.currency || 'usd',
+            recurringInterval: recurringInterval || null,
+            displayName: displayName.trim() || null,
+            unitDescription: unitDescription.trim() || null,
+            packSize: packSize.trim() || null,
+            subscriptionId: isRecurring ? null : (subscriptionId || null),
+            boxSize: isRecurring && trimmedBoxSize !== '' ? parseInt(trimmedBoxSize, 10) : null,
+            stockQuantity: trimmedStock === '' ? null : parseInt(trimmedStock, 10),
+            isDefault,
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+                <FormInput
+                    label="Price (USD)"
+                    id="price-amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={amount}
+                    onChange={e => setAmount(e.target.value)}
+                    required={!isEditing}
+                    disabled={isLoading || isEditing}
+                />
+                <div>
+                    <label htmlFor="price-interval" className="block text-sm font-medium text-slate-700 mb-1">Billing</label>
+                    <select
+                        id="price-interval"
+                        value={recurringInterval}
+                        onChange={e => setRecurringInterval(e.target.value)}
+                        disabled={isLoading || isEditing}
+                        className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 disabled:bg-slate-100"
+                    >
+                        <option value="">One-time</option>
+                        <option value="week">Weekly subscription</option>
+                        <option value="month">Monthly subscription</option>
+                    </select>
+                </div>
+            </div>
+            {isEditing && (
+                <p className="text-xs text-slate-500">Amount and billing cannot be changed on an existing price. Create a new price and archive this one instead.</p>
+            )}
+            <FormInput label="Display Name" id="price-displayName" value={displayName} onChange={e => setDisplayName(e.target.value)} placeholder="e.g. Single Pint" disabled={isLoading} />
+            <div className="grid grid-cols-2 gap-4">
+                <FormInput label="Unit Description" id="price-unitDescription" value={unitDescription} onChange={e => setUnitDescription(e.target.value)} placeholder="e.g. Pint" disabled={isLoading} />
+                <FormInput label="Pack Size" id="price-packSize" value={packSize} onChange={e => setPackSize(e.target.value)} placeholder="e.g. single, 3-pack" disabled={isLoading} />
+            </div>
+            {!isRecurring && (
+                <div>
+                    <label htmlFor="price-subscriptionId" className="block text-sm font-medium text-slate-700 mb-1">Subscribe &amp; Save Price</label>
+                    <select
+                        id="price-subscriptionId"
+                        value={subscriptionId}
+                        onChange={e => setSubscriptionId(e.target.value)}
+                        disabled={isLoading}
+                        className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 disabled:bg-slate-100"
+                    >
+                        <option value="">None</option>
+                        {subscriptionOptions.map(option => (
+                            <option key={option.id} value={option.id}>
+                                {option.displayName || option.unitDescription || option.id} - ${((option.unitAmount || 0) / 100).toFixed(2)} / {option.recurringInterval}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
+            {isRecurring && (
+                <FormInput
+                    label="Build-Your-Own Box Size (pints, leave blank for a regular subscription)"
+                    id="price-boxSize"
+                    type="number"
+                    min="2"
+                    max="24"
+                    step="1"
+                    value={boxSize}
+                    onChange={e => setBoxSize(e.target.value)}
+                    disabled={isLoading}
+                />
+            )}
+            <FormInput
+                label="Stock on Hand (leave blank to not track)"
+                id="price-stock"
+                type="number"
+                min="0"
+                step="1"
+                value={stockQuantity}
+                onChange={e => setStockQuantity(e.target.value)}
+                disabled={isLoading}
+            />
+            <label className="flex items-center space-x-2 text-sm text-slate-700">
+                <input
+                    type="checkbox"
+                    checked={isDefault}
+                    onChange={e => setIsDefault(e.target.checked)}
+                    disabled={isLoading || (isEditing && product.defaultPriceId === initialData?.id)}
+                    className="form-checkbox h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-slate-300 rounded"
+                />
+                <span>Default price for this flavor</span>
+            </label>
+            <div className="flex justify-end pt-2">
+                <button
+                    type="submit"
+                    disabled={isLoading}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                >
+                    {isLoading ? 'Saving...' : isEditing ? 'Save Price' : 'Create Price'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default PriceForm;
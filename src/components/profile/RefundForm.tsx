@@ -0,0 +1,164 @@
+import React, { useState, useMemo, FormEvent } from 'react';
+import { OrderData } from '../../types/data';
+import { FormInput } from '../ui/FormInput';
+import { isShippingLineItem } from '../../utils/shipments';
+
+export interface RefundFormData {
+    items?: { orderItemId: number; quantity: number }[];
+    amount?: number; // Dollars
+    reason?: 'requested_by_customer' | 'duplicate' | 'fraudulent';
+    note: string | null;
+}
+
+interface RefundFormProps {
+    order: OrderData;
+    onSubmit: (formData: RefundFormData) => Promise<void>;
+    isLoading: boolean;
+}
+
+type RefundMode = 'full' | 'items' | 'amount';
+
+const RefundForm: React.FC<RefundFormProps> = ({ order, onSubmit, isLoading }) => {
+    const [mode, setMode] = useState<RefundMode>('full');
+    const [quantities, setQuantities] = useState<Record<number, string>>({});
+    const [amount, setAmount] = useState('');
+    const [reason, setReason] = useState<RefundFormData['reason'] | ''>('requested_by_customer');
+    const [note, setNote] = useState('');
+
+    // Pending and succeeded refunds count against what is left; only the card-paid part can be refunded
+    const activeRefunds = (order.refunds || []).filter(refund => refund.status !== 'failed' && refund.status !== 'canceled');
+    const giftCardAmount = parseFloat(String(order.giftCardAmount ?? 0));
+    const chargedAmount = parseFloat(String(order.totalAmount)) - giftCardAmount;
+    const refundableAmount = Math.max(0,
+        chargedAmount - activeRefunds.reduce((sum, refund) => sum + parseFloat(String(refund.amount)), 0));
+
+    // Units of each item not refunded yet
+    const refundableItems = useMemo(() => order.items
+        .filter(item => !isShippingLineItem(item))
+        .map(item => {
+            const refunded = activeRefunds
+                .reduce((sum, refund) => sum + refund.items.filter(r => r.orderItemId === item.id).reduce((itemSum, r) => itemSum + r.quantity, 0), 0);
+            return { item, remaining: Math.max(0, item.quantity - refunded) };
+        }), [order]);
+
+    const selectedItems = refundableItems
+        .map(({ item }) => ({ orderItemId: item.id, quantity: parseInt(quantities[item.id] || '0', 10) || 0 }))
+        .filter(item => item.quantity > 0);
+    const itemsTotal = selectedItems.reduce((sum, selected) => {
+        const orderItem = order.items.find(item => item.id === selected.orderItemId);
+        return sum + (orderItem ? parseFloat(String(orderItem.price)) * selected.quantity : 0);
+    }, 0);
+
+    const refundTotal = mode === 'full' ? refundableAmount : mode === 'items' ? Math.min(itemsTotal, refundableAmount) : (parseFloat(amount) || 0);
+    const isValid = refundTotal > 0 && refundTotal <= refundableAmount + 0.001 && (mode !== 'items' || selectedItems.length > 0);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        onSubmit({
+            items: mode === 'items' ? selectedItems : undefined,
+            amount: mode === 'amount' ? Math.round(parseFloat(amount) * 100) / 100 : undefined,
+            reason: reason || undefined,
+            note: note.trim() || null,
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-slate-600">
+                Refundable: <span className="font-semibold">${refundableAmount.toFixed(2)}</span> of ${chargedAmount.toFixed(2)}
+                {giftCardAmount > 0 && ` (plus $${giftCardAmount.toFixed(2)} paid by gift card, restored if the order is canceled)`}
+            </p>
+            <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+                {([['full', 'Full refund'], ['items', 'Selected items'], ['amount', 'Custom amount']] as [RefundMode, string][]).map(([value, label]) => (
+                    <label key={value} className="flex items-center space-x-2">
+                        <input
+                            type="radio"
+                            name="refund-mode"
+                            value={value}
+                            checked={mode === value}
+                            onChange={() => setMode(value)}
+                            disabled={isLoading}
+                            className="form-radio h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-slate-300"
+                        />
+                        <span>{label}</span>
+                    </label>
+                ))}
+            </div>
+
+            {mode === 'items' && (
+                <ul className="divide-y divide-slate-100">
+                    {refundableItems.map(({ item, remaining }) => (
+                        <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                            <span className="text-slate-800">
+                                {item.productName}
+                                <span className="text-xs text-slate-500 ml-2">({remaining} of {item.quantity} refundable @ ${parseFloat(String(item.price)).toFixed(2)})</span>
+                            </span>
+                            <input
+                                type="number"
+                                min="0"
+                                max={remaining}
+                                step="1"
+                                aria-label={`Quantity of ${item.productName} to refund`}
+                                value={quantities[item.id] ?? ''}
+                                onChange={e => setQuantities(current => ({ ...current, [item.id]: e.target.value }))}
+                                disabled={isLoading || remaining === 0}
+                                className="w-20 rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-1 text-right disabled:bg-slate-100"
+                            />
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {mode === 'amount' && (
+                <FormInput
+                    label="Amount (USD)"
+                    id="refund-amount"
+                    type="number"
+                    min="0.01"
+                    max={refundableAmount.toFixed(2)}
+                    step="0.01"
+                    value={amount}
+                    onChange={e => setAmount(e.target.value)}
+                    required
+                    disabled={isLoading}
+                />
+            )}
+
+            <div>
+                <label htmlFor="refund-reason" className="block text-sm font-medium text-slate-700 mb-1">Reason</label>
+                <select
+                    id="refund-reason"
+                    value={reason}
+                    onChange={e => setReason(e.target.value as RefundFormData['reason'] | '')}
+                    disabled={isLoading}
+                    className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 disabled:bg-slate-100"
+                >
+                    <option value="requested_by_customer">Requested by customer</option>
+                    <option value="duplicate">Duplicate</option>
+                    <option value="fraudulent">Fraudulent</option>
+                    <option value="">Other</option>
+                </select>
+            </div>
+            <FormInput
+                label="Internal Note"
+                id="refund-note"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                placeholder="e.g. Melted in transit"
+                maxLength={500}
+                disabled={isLoading}
+            />
+            <div className="flex justify-end pt-2">
+                <button
+                    type="submit"
+                    disabled={isLoading || !isValid}
+                    className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                >
+                    {isLoading ? 'Refunding...' : `Refund $${refundTotal.toFixed(2)}`}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default RefundForm;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useMemo, FormEvent } from 'react';
+import { OrderData } from '../../types/data';
+import { FormInput } from '../ui/FormInput';
+import { SHIPPING_CARRIERS, isShippingLineItem } from '../../utils/shipments';
+
+export interface ShipmentFormData {
+    carrier: string;
+    trackingNumber: string | null;
+    items: { orderItemId: number; quantity: number }[];
+}
+
+interface ShipmentFormProps {
+    order: OrderData;
+    onSubmit: (formData: ShipmentFormData) => Promise<void>;
+    isLoading: boolean;
+}
+
+const ShipmentForm: React.FC<ShipmentFormProps> = ({ order, onSubmit, isLoading }) => {
+    const [carrier, setCarrier] = useState<string>(SHIPPING_CARRIERS[0]);
+    const [trackingNumber, setTrackingNumber] = useState('');
+    const [quantities, setQuantities] = useState<Record<number, string>>({});
+
+    // Units of each item not yet covered by an earlier shipment
+    const remainingItems = useMemo(() => order.items
+        .filter(item => !isShippingLineItem(item))
+        .map(item => {
+            const shipped = (order.shipments || []).reduce((sum, shipment) =>
+                sum + shipment.items.filter(s => s.orderItemId === item.id).reduce((itemSum, s) => itemSum + s.quantity, 0), 0);
+            return { item, remaining: Math.max(0, item.quantity - shipped) };
+        }), [order]);
+
+    // Default to shipping everything that's left
+    useEffect(() => {
+        setQuantities(remainingItems.reduce<Record<number, string>>((acc, { item, remaining }) => {
+            acc[item.id] = String(remaining);
+            return acc;
+        }, {}));
+    }, [remainingItems]);
+
+    const selectedItems = remainingItems
+        .map(({ item }) => ({ orderItemId: item.id, quantity: parseInt(quantities[item.id] || '0', 10) || 0 }))
+        .filter(item => item.quantity > 0);
+    const isPartial = remainingItems.some(({ item, remaining }) => (parseInt(quantities[item.id] || '0', 10) || 0) < remaining);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        onSubmit({
+            carrier,
+            trackingNumber: trackingNumber.trim() || null,
+            items: selectedItems,
+        });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="shipment-carrier" className="block text-sm font-medium text-slate-700 mb-1">Carrier</label>
+                    <select
+                        id="shipment-carrier"
+                        value={carrier}
+                        onChange={e => setCarrier(e.target.value)}
+                        disabled={isLoading}
+                        className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 disabled:bg-slate-100"
+                    >
+                        {SHIPPING_CARRIERS.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                        ))}
+                    </select>
+                </div>
+                <FormInput
+                    label="Tracking Number"
+                    id="shipment-tracking"
+                    value={trackingNumber}
+                    onChange={e => setTrackingNumber(e.target.value)}
+                    placeholder="Optional"
+                    disabled={isLoading}
+                />
+            </div>
+            <div>
+                <h4 className="text-sm font-medium text-slate-700 mb-1">Items in this package</h4>
+                <ul className="divide-y divide-slate-100">
+                    {remainingItems.map(({ item, remaining }) => (
+                        <li key={item.id} className="flex items-center justify-between py-2 text-sm">
+                            <span className="text-slate-800">
+                                {item.productName}
+                                <span className="text-xs text-slate-500 ml-2">({remaining} of {item.quantity} left)</span>
+                            </span>
+                            <input
+                                type="number"
+                                min="0"
+                                max={remaining}
+                                step="1"
+                                aria-label={`Quantity of ${item.productName}`}
+                                value={quantities[item.id] ?? ''}
+                                onChange={e => setQuantities(current => ({ ...current, [item.id]: e.target.value }))}
+                                disabled={isLoading || remaining === 0}
+                                className="w-20 rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-1 text-right disabled:bg-slate-100"
+                            />
+                        </li>
+                    ))}
+                </ul>
+                {isPartial && selectedItems.length > 0 && (
+                    <p className="text-xs text-amber-700 mt-1">Some units are left out. The order will be marked Partially Shipped.</p>
+                )}
+            </div>
+            <div className="flex justify-end pt-2">
+                <button
+                    type="submit"
+                    disabled={isLoading || selectedItems.length === 0}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                >
+                    {isLoading ? 'Saving...' : 'Create Shipment'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default ShipmentForm;
@@ -0,0 +1,73 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+import { Address } from '../../types/data';
+
+interface SubscriptionAddressFormProps {
+    addresses: Address[]; // The user's saved SHIPPING addresses
+    currentAddressId: number | null;
+    onSubmit: (addressId: number) => Promise<void>;
+    isLoading: boolean;
+}
+
+export const formatAddressLine = (address: Pick<Address, 'streetAddress' | 'city' | 'state' | 'postalCode'>): string =>
+    `${address.streetAddress}, ${address.city}, ${address.state} ${address.postalCode}`;
+
+const SubscriptionAddressForm: React.FC<SubscriptionAddressFormProps> = ({ addresses, currentAddressId, onSubmit, isLoading }) => {
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+
+    useEffect(() => {
+        const fallback = addresses.find(address => address.isDefault) || addresses[0];
+        setSelectedId(currentAddressId ?? (fallback ? fallback.id : null));
+    }, [addresses, currentAddressId]);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (selectedId !== null) {
+            onSubmit(selectedId);
+        }
+    };
+
+    if (addresses.length === 0) {
+        return (
+            <p className="text-sm text-slate-500">
+                You have no saved shipping addresses. Add one under Addresses, then come back to choose it here.
+            </p>
+        );
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2 text-sm text-slate-700">
+                {addresses.map(address => (
+                    <label key={address.id} className="flex items-start space-x-2">
+                        <input
+                            type="radio"
+                            name="subscription-address"
+                            value={address.id}
+                            checked={selectedId === address.id}
+                            onChange={() => setSelectedId(address.id)}
+                            disabled={isLoading}
+                            className="form-radio h-4 w-4 mt-0.5 text-indigo-600 focus:ring-indigo-500 border-slate-300"
+                        />
+                        <span>
+                            {formatAddressLine(address)}
+                            {address.isDefault && <span className="ml-2 text-xs text-slate-500">(Default)</span>}
+                        </span>
+                    </label>
+                ))}
+            </div>
+            <p className="text-xs text-slate-500">Upcoming deliveries, including the next one, ship to this address.</p>
+
+            <div className="flex justify-end pt-2">
+                <button
+                    type="submit"
+                    disabled={isLoading || selectedId === null || selectedId === currentAddressId}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                >
+                    {isLoading ? 'Saving...' : 'Save Address'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default SubscriptionAddressForm;
@@ -0,0 +1,104 @@
+import React, { useState, useEffect, FormEvent } from 'react';
+import { SubscriptionBoxData } from '../../types/data';
+import { formatDate } from '../../utils/formatting';
+
+interface SubscriptionBoxFormProps {
+    box: SubscriptionBoxData;
+    onSubmit: (items: { productId: string; quantity: number }[]) => Promise<void>;
+    isLoading: boolean;
+}
+
+const SubscriptionBoxForm: React.FC<SubscriptionBoxFormProps> = ({ box, onSubmit, isLoading }) => {
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+    useEffect(() => {
+        setQuantities(box.items.reduce<Record<string, number>>((acc, item) => {
+            acc[item.productId] = item.quantity;
+            return acc;
+        }, {}));
+    }, [box]);
+
+    const picked = Object.keys(quantities).reduce((sum, productId) => sum + (quantities[productId] || 0), 0);
+    const remaining = box.boxSize - picked;
+
+    const adjust = (productId: string, delta: number) => {
+        setQuantities(current => {
+            const next = Math.max(0, (current[productId] || 0) + delta);
+            return { ...current, [productId]: next };
+        });
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        onSubmit(Object.keys(quantities)
+            .filter(productId => quantities[productId] > 0)
+            .map(productId => ({ productId, quantity: quantities[productId] })));
+    };
+
+    const isDisabled = isLoading || box.isLocked;
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            {box.isLocked ? (
+                <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-2">
+                    Your box for {box.nextDeliveryDate ? formatDate(box.nextDeliveryDate) : 'the next delivery'} is being packed. You can change it again after it ships.
+                </p>
+            ) : box.editableUntil && (
+                <p className="text-xs text-slate-500">Changes apply to the delivery on {formatDate(box.nextDeliveryDate)} if saved by {formatDate(box.editableUntil)}.</p>
+            )}
+            <p className="text-sm text-slate-700">
+                Pick <span className="font-semibold">{box.boxSize}</span> pints per box
+                {box.boxCount > 1 ? ` (you get ${box.boxCount} boxes each delivery)` : ''}.
+                {' '}<span className={remaining === 0 ? 'text-green-600 font-medium' : 'text-slate-500'}>{picked} of {box.boxSize} chosen</span>
+            </p>
+
+            {box.eligibleFlavors.length === 0 ? (
+                <p className="text-sm text-slate-500">No flavors are available for boxes right now.</p>
+            ) : (
+                <ul className="divide-y divide-slate-100">
+                    {box.eligibleFlavors.map(flavor => (
+                        <li key={flavor.productId} className="flex items-center justify-between py-2 text-sm">
+                            <span className="flex items-center gap-2 text-slate-800">
+                                {flavor.imageSrc && <img src={flavor.imageSrc} alt="" className="w-8 h-8 rounded object-cover" />}
+                                {flavor.name}
+                            </span>
+                            <span className="flex items-center gap-2">
+                                <button
+                                    type="button"
+                                    onClick={() => adjust(flavor.productId, -1)}
+                                    disabled={isDisabled || !quantities[flavor.productId]}
+                                    aria-label={`One less ${flavor.name}`}
+                                    className="w-7 h-7 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+                                >
+                                    -
+                                </button>
+                                <span className="w-6 text-center">{quantities[flavor.productId] || 0}</span>
+                                <button
+                                    type="button"
+                                    onClick={() => adjust(flavor.productId, 1)}
+                                    disabled={isDisabled || remaining <= 0}
+                                    aria-label={`One more ${flavor.name}`}
+                                    className="w-7 h-7 rounded-md border border-slate-300 text-slate-700 hover:bg-slate-100 disabled:opacity-40"
+                                >
+                                    +
+                                </button>
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="flex justify-end pt-2">
+                <button
+                    type="submit"
+                    disabled={isDisabled || remaining !== 0}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                >
+                    {isLoading ? 'Saving...' : 'Save Box'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default SubscriptionBoxForm;
@@ -1,6 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Subscription } from '@prisma/client'; // Import Prisma Subscription type
+import ProfileItemModal from './ProfileItemModal';
+import SubscriptionPlanForm, { SubscriptionPlanFormData } from './SubscriptionPlanForm';
+import SubscriptionPauseForm from './SubscriptionPauseForm';
+import SubscriptionBoxForm from './SubscriptionBoxForm';
+import SubscriptionAddressForm, { formatAddressLine } from './SubscriptionAddressForm';
+import { SubscriptionPlanPreview, SubscriptionBoxData, Address } from '../../types/data';
+import { describeInterval, getNextDeliveryDate } from '../../utils/subscriptions';
 
 // Helper to format date
 const formatDate = (dateString: string | Date): string => {
@@ -23,6 +30,8 @@ const formatDate = (dateString: string | Date): string => {
 interface DisplaySubscription extends Subscription {
     productName?: string; // Add productName (optional)
     productImage?: string | null; // Add productImage (optional, can be null)
+    boxSize?: number | null; // Set for build-your-own box subscriptions
+    shippingAddress?: Address | null; // Where renewals ship
 }
 
 const SubscriptionList: React.FC = () => {
@@ -36,8 +45,27 @@ const SubscriptionList: React.FC = () => {
     // --- Action States --- 
     const [isPausing, setIsPausing] = useState<string | null>(null); // State for pause action
     const [isResuming, setIsResuming] = useState<string | null>(null); // State for resume action
+    const [isSkipping, setIsSkipping] = useState<string | null>(null); // State for skip action
+    const [pausingSub, setPausingSub] = useState<DisplaySubscription | null>(null); // Subscription open in the pause modal
     const [pauseResumeError, setPauseResumeError] = useState<string | null>(null); // Combined error for pause/resume
 
+    // --- Plan Change State ---
+    const [changingSub, setChangingSub] = useState<DisplaySubscription | null>(null); // Subscription open in the change modal
+    const [isChangingPlan, setIsChangingPlan] = useState(false);
+    const [planChangeError, setPlanChangeError] = useState<string | null>(null); // Shown inside the modal
+
+    // --- Box Contents State ---
+    const [boxSub, setBoxSub] = useState<DisplaySubscription | null>(null); // Subscription open in the box modal
+    const [box, setBox] = useState<SubscriptionBoxData | null>(null);
+    const [isSavingBox, setIsSavingBox] = useState(false);
+    const [boxError, setBoxError] = useState<string | null>(null); // Shown inside the modal
+
+    // --- Shipping Address State ---
+    const [addressSub, setAddressSub] = useState<DisplaySubscription | null>(null); // Subscription open in the address modal
+    const [shippingAddresses, setShippingAddresses] = useState<Address[] | null>(null);
+    const [isSavingAddress, setIsSavingAddress] = useState(false);
+    const [addressError, setAddressError] = useState<string | null>(null); // Shown inside the modal
+
     useEffect(() => {
         setIsLoading(true);
         setError(null);
@@ -104,8 +132,9 @@ const SubscriptionList: React.FC = () => {
     };
 
     // --- Pause Handler --- 
-    const handlePause = async (stripeSubId: string) => {
-        if (isPausing || isResuming || isCancelling) return; // Prevent concurrent actions
+    // resumesAt: ISO date to resume on, or null to pause until resumed
+    const handlePause = async (stripeSubId: string, resumesAt: string | null) => {
+        if (isPausing || isResuming || isCancelling || isSkipping) return; // Prevent concurrent actions
 
         setIsPausing(stripeSubId);
         setPauseResumeError(null); // Clear previous errors
@@ -115,7 +144,8 @@ const SubscriptionList: React.FC = () => {
         try {
             const res = await fetch(`/api/subscriptions/${stripeSubId}/pause`, {
                 method: 'POST',
-                headers: { 'Content-Type': 'application/json' }
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ resumesAt }),
             });
             const data = await res.json();
             if (!res.ok) {
@@ -125,7 +155,7 @@ const SubscriptionList: React.FC = () => {
             setSubscriptions(currentSubs =>
                 currentSubs.map(sub =>
                     sub.stripeSubscriptionId === stripeSubId
-                        ? { ...sub, collectionPaused: true } // Update paused flag
+                        ? { ...sub, collectionPaused: true, pauseResumesAt: data.subscription?.pauseResumesAt ?? null } // Update paused flag
                         : sub
                 )
             );
@@ -134,12 +164,47 @@ const SubscriptionList: React.FC = () => {
             setPauseResumeError(err.message || 'An unknown error occurred while pausing.');
         } finally {
             setIsPausing(null);
+            setPausingSub(null);
+        }
+    };
+
+    // --- Skip Handler --- 
+    const handleSkip = async (stripeSubId: string) => {
+        if (isPausing || isResuming || isCancelling || isSkipping) return; // Prevent concurrent actions
+
+        setIsSkipping(stripeSubId);
+        setPauseResumeError(null);
+        setCancelError(null);
+        setError(null);
+
+        try {
+            const res = await fetch(`/api/subscriptions/${stripeSubId}/skip`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' }
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to skip delivery: ${res.status}`);
+            }
+            // A skip is a short pause that ends after the skipped renewal
+            setSubscriptions(currentSubs =>
+                currentSubs.map(sub =>
+                    sub.stripeSubscriptionId === stripeSubId
+                        ? { ...sub, collectionPaused: true, pauseResumesAt: data.subscription?.pauseResumesAt ?? null }
+                        : sub
+                )
+            );
+        } catch (err: any) {
+            console.error(`Error skipping delivery for ${stripeSubId}:`, err);
+            setPauseResumeError(err.message || 'An unknown error occurred while skipping the delivery.');
+        } finally {
+            setIsSkipping(null);
         }
     };
 
     // --- Resume Handler --- 
     const handleResume = async (stripeSubId: string) => {
-        if (isPausing || isResuming || isCancelling) return; // Prevent concurrent actions
+        if (isPausing || isResuming || isCancelling || isSkipping) return; // Prevent concurrent actions
 
         setIsResuming(stripeSubId);
         setPauseResumeError(null); // Clear previous errors
@@ -159,7 +224,7 @@ const SubscriptionList: React.FC = () => {
             setSubscriptions(currentSubs =>
                 currentSubs.map(sub =>
                     sub.stripeSubscriptionId === stripeSubId
-                        ? { ...sub, collectionPaused: false } // Update paused flag
+                        ? { ...sub, collectionPaused: false, pauseResumesAt: null } // Update paused flag
                         : sub
                 )
             );
@@ -171,6 +236,167 @@ const SubscriptionList: React.FC = () => {
         }
     };
 
+    // --- Plan Change Handlers ---
+    const openPlanChange = (sub: DisplaySubscription) => {
+        setPlanChangeError(null);
+        setChangingSub(sub);
+    };
+
+    const closePlanChange = () => {
+        if (isChangingPlan) return;
+        setChangingSub(null);
+    };
+
+    // Fetches the proration quote for the selected plan
+    const handlePreviewPlanChange = async (input: { priceId: string; quantity: number }): Promise<SubscriptionPlanPreview | null> => {
+        if (!changingSub) return null;
+        setIsChangingPlan(true);
+        setPlanChangeError(null);
+        try {
+            const res = await fetch(`/api/subscriptions/${changingSub.stripeSubscriptionId}/change/preview`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(input),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to preview change: ${res.status}`);
+            }
+            return data as SubscriptionPlanPreview;
+        } catch (err: any) {
+            console.error(`Error previewing change for ${changingSub.stripeSubscriptionId}:`, err);
+            setPlanChangeError(err.message || 'An unknown error occurred while previewing the change.');
+            return null;
+        } finally {
+            setIsChangingPlan(false);
+        }
+    };
+
+    const handleChangePlan = async (formData: SubscriptionPlanFormData) => {
+        if (!changingSub) return;
+        setIsChangingPlan(true);
+        setPlanChangeError(null);
+        try {
+            const res = await fetch(`/api/subscriptions/${changingSub.stripeSubscriptionId}/change`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(formData),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to change subscription: ${res.status}`);
+            }
+            // The response carries the updated row in the same shape as the list (keep its address)
+            setSubscriptions(currentSubs =>
+                currentSubs.map(sub => sub.id === data.subscription.id ? { ...sub, ...data.subscription } : sub)
+            );
+            setChangingSub(null);
+        } catch (err: any) {
+            console.error(`Error changing subscription ${changingSub.stripeSubscriptionId}:`, err);
+            setPlanChangeError(err.message || 'An unknown error occurred while changing the plan.');
+        } finally {
+            setIsChangingPlan(false);
+        }
+    };
+
+    // --- Box Handlers ---
+    const openBox = async (sub: DisplaySubscription) => {
+        setBoxSub(sub);
+        setBox(null);
+        setBoxError(null);
+        try {
+            const res = await fetch(`/api/subscriptions/${sub.stripeSubscriptionId}/box`);
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to load box: ${res.status}`);
+            }
+            setBox(data as SubscriptionBoxData);
+        } catch (err: any) {
+            console.error(`Error loading box for ${sub.stripeSubscriptionId}:`, err);
+            setBoxError(err.message || 'An unknown error occurred while loading your box.');
+        }
+    };
+
+    const closeBox = () => {
+        if (isSavingBox) return;
+        setBoxSub(null);
+    };
+
+    const handleSaveBox = async (items: { productId: string; quantity: number }[]) => {
+        if (!boxSub) return;
+        setIsSavingBox(true);
+        setBoxError(null);
+        try {
+            const res = await fetch(`/api/subscriptions/${boxSub.stripeSubscriptionId}/box`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ items }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to save box: ${res.status}`);
+            }
+            setBox(data as SubscriptionBoxData);
+            setBoxSub(null);
+        } catch (err: any) {
+            console.error(`Error saving box for ${boxSub.stripeSubscriptionId}:`, err);
+            setBoxError(err.message || 'An unknown error occurred while saving your box.');
+        } finally {
+            setIsSavingBox(false);
+        }
+    };
+
+    // --- Shipping Address Handlers ---
+    const openAddress = async (sub: DisplaySubscription) => {
+        setAddressSub(sub);
+        setShippingAddresses(null);
+        setAddressError(null);
+        try {
+            const res = await fetch('/api/addresses');
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to load addresses: ${res.status}`);
+            }
+            setShippingAddresses((data as Address[]).filter(address => address.type === 'SHIPPING'));
+        } catch (err: any) {
+            console.error('Error loading addresses:', err);
+            setAddressError(err.message || 'An unknown error occurred while loading your addresses.');
+        }
+    };
+
+    const closeAddress = () => {
+        if (isSavingAddress) return;
+        setAddressSub(null);
+    };
+
+    const handleSaveAddress = async (addressId: number) => {
+        if (!addressSub) return;
+        setIsSavingAddress(true);
+        setAddressError(null);
+        try {
+            const res = await fetch(`/api/subscriptions/${addressSub.stripeSubscriptionId}/address`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ addressId }),
+            });
+            const data = await res.json();
+            if (!res.ok) {
+                throw new Error(data.message || `Failed to update address: ${res.status}`);
+            }
+            setSubscriptions(currentSubs =>
+                currentSubs.map(sub =>
+                    sub.id === addressSub.id ? { ...sub, shippingAddressId: addressId, shippingAddress: data.subscription?.shippingAddress ?? null } : sub
+                )
+            );
+            setAddressSub(null);
+        } catch (err: any) {
+            console.error(`Error updating address for ${addressSub.stripeSubscriptionId}:`, err);
+            setAddressError(err.message || 'An unknown error occurred while updating the address.');
+        } finally {
+            setIsSavingAddress(false);
+        }
+    };
+
     const renderContent = () => {
         if (isLoading) {
             return <p className="text-slate-500 animate-pulse">Loading subscriptions...</p>;
@@ -204,9 +430,11 @@ const SubscriptionList: React.FC = () => {
                     // Determine if any action is currently processing for *this* subscription
                     const isProcessingThis = isCancelling === sub.stripeSubscriptionId || 
                                            isPausing === sub.stripeSubscriptionId || 
-                                           isResuming === sub.stripeSubscriptionId;
+                                           isResuming === sub.stripeSubscriptionId ||
+                                           isSkipping === sub.stripeSubscriptionId;
                     // Determine if *any* action is processing (for disabling other buttons)
-                    const isAnyProcessing = !!(isCancelling || isPausing || isResuming);
+                    const isAnyProcessing = !!(isCancelling || isPausing || isResuming || isSkipping);
+                    const nextDelivery = getNextDeliveryDate(sub);
                     
                     return (
                         <li key={sub.id} className="p-4 border border-slate-200 rounded-lg shadow-sm bg-white flex flex-col sm:flex-row justify-between items-start gap-4">
@@ -252,26 +480,76 @@ const SubscriptionList: React.FC = () => {
                                         )}
                                     </div>
                                     <p className="text-sm text-slate-500">
-                                        Interval: <span className="font-medium text-slate-700 capitalize">{sub.interval || 'N/A'}</span>
+                                        Delivery: <span className="font-medium text-slate-700">{sub.quantity} x {sub.interval ? describeInterval(sub.interval, sub.intervalCount) : 'N/A'}</span>
                                     </p>
                                     {sub.cancelAtPeriodEnd && (
                                         <p className="text-sm text-red-600 font-medium">Cancels on: {sub.currentPeriodEnd ? formatDate(sub.currentPeriodEnd) : 'N/A'}</p>
                                     )} 
-                                    {!sub.cancelAtPeriodEnd && sub.status !== 'canceled' && (
-                                        sub.currentPeriodEnd ? (
-                                            <p className="text-sm text-slate-500">Next Renewal: {formatDate(sub.currentPeriodEnd)}</p>
-                                        ) : null
-                                    )} 
+                                    {nextDelivery && (
+                                        <p className="text-sm text-slate-500">Next Delivery: {formatDate(nextDelivery)}</p>
+                                    )}
+                                    {sub.collectionPaused && sub.status === 'active' && (
+                                        <p className="text-sm text-yellow-700">
+                                            {sub.pauseResumesAt
+                                                ? `Skipping deliveries until ${nextDelivery ? formatDate(nextDelivery) : 'the pause ends'}`
+                                                : 'Paused until you resume it'}
+                                        </p>
+                                    )}
+                                    {sub.status !== 'canceled' && (sub.shippingAddress ? (
+                                        <p className="text-sm text-slate-500">Ships to: {formatAddressLine(sub.shippingAddress)}</p>
+                                    ) : (
+                                        <p className="text-sm text-amber-700">No shipping address chosen. Deliveries go to your default shipping address.</p>
+                                    ))}
                                     <p className="text-xs text-slate-400 mt-1">Stripe ID: {sub.stripeSubscriptionId}</p>
                                 </div>
                             </div>
                             
                             {/* Action Button Area - Add Pause/Resume */}
                             <div className="flex-shrink-0 mt-3 sm:mt-0 self-start sm:self-center flex flex-col sm:flex-row items-start sm:items-center gap-2">
+                                {/* Edit Box Button */}
+                                {sub.boxSize && sub.status !== 'canceled' && (
+                                    <button
+                                        onClick={() => openBox(sub)}
+                                        disabled={isProcessingThis || isAnyProcessing}
+                                        className="px-3 py-1 bg-indigo-100 text-indigo-700 text-xs font-medium rounded-md hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-wait"
+                                    >
+                                        Edit Box
+                                    </button>
+                                )}
+                                {/* Change Address Button */}
+                                {sub.status !== 'canceled' && (
+                                    <button
+                                        onClick={() => openAddress(sub)}
+                                        disabled={isProcessingThis || isAnyProcessing}
+                                        className="px-3 py-1 bg-indigo-100 text-indigo-700 text-xs font-medium rounded-md hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-wait"
+                                    >
+                                        Change Address
+                                    </button>
+                                )}
+                                {/* Change Plan Button */}
+                                {sub.status === 'active' && !sub.cancelAtPeriodEnd && (
+                                    <button
+                                        onClick={() => openPlanChange(sub)}
+                                        disabled={isProcessingThis || isAnyProcessing}
+                                        className="px-3 py-1 bg-indigo-100 text-indigo-700 text-xs font-medium rounded-md hover:bg-indigo-200 focus:outline-none focus:ring-2 focus:ring-indigo-400 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-wait"
+                                    >
+                                        Change Plan
+                                    </button>
+                                )}
+                                {/* Skip Next Delivery Button */}
+                                {sub.status === 'active' && !sub.collectionPaused && !sub.cancelAtPeriodEnd && (
+                                    <button
+                                        onClick={() => handleSkip(sub.stripeSubscriptionId)}
+                                        disabled={isProcessingThis || isAnyProcessing}
+                                        className="px-3 py-1 bg-slate-100 text-slate-700 text-xs font-medium rounded-md hover:bg-slate-200 focus:outline-none focus:ring-2 focus:ring-slate-400 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-wait"
+                                    >
+                                        {isSkipping === sub.stripeSubscriptionId ? 'Skipping...' : 'Skip Next'}
+                                    </button>
+                                )}
                                 {/* Pause Button */}
                                 {sub.status === 'active' && !sub.collectionPaused && !sub.cancelAtPeriodEnd && (
                                     <button 
-                                        onClick={() => handlePause(sub.stripeSubscriptionId)}
+                                        onClick={() => setPausingSub(sub)}
                                         disabled={isProcessingThis || isAnyProcessing} 
                                         className="px-3 py-1 bg-yellow-100 text-yellow-800 text-xs font-medium rounded-md hover:bg-yellow-200 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:ring-offset-1 disabled:opacity-50 disabled:cursor-wait"
                                     >
@@ -328,6 +606,70 @@ const SubscriptionList: React.FC = () => {
                 </div>
             )}
             {renderContent()}
+
+            {/* Modal for Changing a Plan */}
+            <ProfileItemModal
+                isOpen={!!changingSub}
+                onClose={closePlanChange}
+                title="Change Subscription"
+            >
+                {planChangeError && <p className="text-red-600 mb-3 text-sm">Error: {planChangeError}</p>}
+                {changingSub && (
+                    <SubscriptionPlanForm
+                        subscription={changingSub}
+                        onPreview={handlePreviewPlanChange}
+                        onSubmit={handleChangePlan}
+                        isLoading={isChangingPlan}
+                    />
+                )}
+            </ProfileItemModal>
+
+            {/* Modal for Box Contents */}
+            <ProfileItemModal
+                isOpen={!!boxSub}
+                onClose={closeBox}
+                title="Build Your Box"
+            >
+                {boxError && <p className="text-red-600 mb-3 text-sm">Error: {boxError}</p>}
+                {box ? (
+                    <SubscriptionBoxForm box={box} onSubmit={handleSaveBox} isLoading={isSavingBox} />
+                ) : !boxError && (
+                    <p className="text-slate-500 animate-pulse">Loading your box...</p>
+                )}
+            </ProfileItemModal>
+
+            {/* Modal for Shipping Address */}
+            <ProfileItemModal
+                isOpen={!!addressSub}
+                onClose={closeAddress}
+                title="Subscription Shipping Address"
+            >
+                {addressError && <p className="text-red-600 mb-3 text-sm">Error: {addressError}</p>}
+                {addressSub && shippingAddresses ? (
+                    <SubscriptionAddressForm
+                        addresses={shippingAddresses}
+                        currentAddressId={addressSub.shippingAddressId}
+                        onSubmit={handleSaveAddress}
+                        isLoading={isSavingAddress}
+                    />
+                ) : !addressError && (
+                    <p className="text-slate-500 animate-pulse">Loading your addresses...</p>
+                )}
+            </ProfileItemModal>
+
+            {/* Modal for Pausing */}
+            <ProfileItemModal
+                isOpen={!!pausingSub}
+                onClose={() => { if (!isPausing) setPausingSub(null); }}
+                title="Pause Subscription"
+            >
+                {pausingSub && (
+                    <SubscriptionPauseForm
+                        onSubmit={(resumesAt) => handlePause(pausingSub.stripeSubscriptionId, resumesAt)}
+                        isLoading={isPausing === pausingSub.stripeSubscriptionId}
+                    />
+                )}
+            </ProfileItemModal>
         </div>
     );
 };
@@ -0,0 +1,80 @@
+import React, { useState, FormEvent } from 'react';
+import { FormInput } from '../ui/FormInput';
+
+// Keep in sync with MAX_PAUSE_DAYS on the server
+const MAX_PAUSE_DAYS = 180;
+
+interface SubscriptionPauseFormProps {
+    onSubmit: (resumesAt: string | null) => Promise<void>; // ISO date, or null to pause until resumed
+    isLoading: boolean;
+}
+
+// yyyy-mm-dd for date inputs
+const toDateInputValue = (date: Date): string => date.toISOString().slice(0, 10);
+
+const SubscriptionPauseForm: React.FC<SubscriptionPauseFormProps> = ({ onSubmit, isLoading }) => {
+    const [mode, setMode] = useState<'date' | 'indefinite'>('date');
+    const [resumeDate, setResumeDate] = useState('');
+
+    const today = new Date();
+    const minDate = toDateInputValue(new Date(today.getTime() + 24 * 60 * 60 * 1000));
+    const maxDate = toDateInputValue(new Date(today.getTime() + MAX_PAUSE_DAYS * 24 * 60 * 60 * 1000));
+    const isValid = mode === 'indefinite' || (resumeDate >= minDate && resumeDate <= maxDate);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        onSubmit(mode === 'date' ? new Date(`${resumeDate}T00:00:00Z`).toISOString() : null);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2 text-sm text-slate-700">
+                {([['date', 'Until a date'], ['indefinite', 'Until I resume it']] as ['date' | 'indefinite', string][]).map(([value, label]) => (
+                    <label key={value} className="flex items-center space-x-2">
+                        <input
+                            type="radio"
+                            name="pause-mode"
+                            value={value}
+                            checked={mode === value}
+                            onChange={() => setMode(value)}
+                            disabled={isLoading}
+                            className="form-radio h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-slate-300"
+                        />
+                        <span>{label}</span>
+                    </label>
+                ))}
+            </div>
+
+            {mode === 'date' && (
+                <FormInput
+                    label="Resume on"
+                    id="pause-resume-date"
+                    type="date"
+                    min={minDate}
+                    max={maxDate}
+                    value={resumeDate}
+                    onChange={e => setResumeDate(e.target.value)}
+                    required
+                    disabled={isLoading}
+                />
+            )}
+            <p className="text-xs text-slate-500">
+                {mode === 'date'
+                    ? "Deliveries due before this date are skipped and you won't be charged for them."
+                    : 'No deliveries are sent until you resume the subscription.'}
+            </p>
+
+            <div className="flex justify-end pt-2">
+                <button
+                    type="submit"
+                    disabled={isLoading || !isValid}
+                    className="px-4 py-2 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 focus:outline-none focus:ring-2 focus:ring-yellow-400 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                >
+                    {isLoading ? 'Pausing...' : 'Pause Subscription'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default SubscriptionPauseForm;
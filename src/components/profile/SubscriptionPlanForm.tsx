@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useMemo, FormEvent } from 'react';
+import { useProducts } from '../../context/ProductContext';
+import { SubscriptionPlanPreview } from '../../types/data';
+import { FormInput } from '../ui/FormInput';
+import { describeInterval } from '../../utils/subscriptions';
+
+// Keep in sync with MAX_SUBSCRIPTION_QUANTITY on the server
+const MAX_QUANTITY = 12;
+
+export interface SubscriptionPlanFormData {
+    priceId: string;
+    quantity: number;
+    prorationDate?: number; // From the preview, so the charge matches what was shown
+}
+
+interface SubscriptionPlanFormProps {
+    subscription: { stripePriceId: string; quantity: number };
+    onPreview: (input: { priceId: string; quantity: number }) => Promise<SubscriptionPlanPreview | null>;
+    onSubmit: (formData: SubscriptionPlanFormData) => Promise<void>;
+    isLoading: boolean;
+}
+
+const formatCents = (cents: number): string => `$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+const SubscriptionPlanForm: React.FC<SubscriptionPlanFormProps> = ({ subscription, onPreview, onSubmit, isLoading }) => {
+    const { flavors } = useProducts();
+    const [priceId, setPriceId] = useState(subscription.stripePriceId);
+    const [quantity, setQuantity] = useState(String(subscription.quantity));
+    const [preview, setPreview] = useState<SubscriptionPlanPreview | null>(null);
+
+    // Only flavors that can be subscribed to, with just their subscription options
+    const subscriptionFlavors = useMemo(() => flavors
+        .map(flavor => ({ ...flavor, prices: flavor.prices.filter(price => price.isSubscription) }))
+        .filter(flavor => flavor.prices.length > 0), [flavors]);
+
+    const currentFlavor = subscriptionFlavors.find(flavor => flavor.prices.some(price => price.priceId === subscription.stripePriceId));
+    const [flavorId, setFlavorId] = useState(currentFlavor?.id || '');
+    const selectedFlavor = subscriptionFlavors.find(flavor => flavor.id === flavorId);
+
+    // Any edit invalidates the quote
+    useEffect(() => {
+        setPreview(null);
+    }, [priceId, quantity]);
+
+    const parsedQuantity = parseInt(quantity, 10);
+    const isQuantityValid = Number.isInteger(parsedQuantity) && parsedQuantity >= 1 && parsedQuantity <= MAX_QUANTITY;
+    const isUnchanged = priceId === subscription.stripePriceId && parsedQuantity === subscription.quantity;
+    const isPriceInFlavor = !!selectedFlavor?.prices.some(price => price.priceId === priceId);
+    const isValid = isQuantityValid && isPriceInFlavor && !isUnchanged;
+
+    const handleFlavorChange = (newFlavorId: string) => {
+        setFlavorId(newFlavorId);
+        const flavor = subscriptionFlavors.find(f => f.id === newFlavorId);
+        // Keep the same pack size and interval if the new flavor offers it
+        const current = selectedFlavor?.prices.find(price => price.priceId === priceId);
+        const match = flavor?.prices.find(price => current
+            && price.packSize === current.packSize
+            && price.recurringInterval === current.recurringInterval
+            && (price.recurringIntervalCount ?? 1) === (current.recurringIntervalCount ?? 1));
+        setPriceId(match?.priceId || flavor?.prices.find(price => price.isDefault)?.priceId || flavor?.prices[0]?.priceId || '');
+    };
+
+    const handleReview = async () => {
+        if (!isValid) return;
+        setPreview(await onPreview({ priceId, quantity: parsedQuantity }));
+    };
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        if (!preview) return;
+        onSubmit({ priceId, quantity: parsedQuantity, prorationDate: preview.prorationDate });
+    };
+
+    const renderPreview = (quote: SubscriptionPlanPreview) => (
+        <div className="bg-slate-50 border border-slate-200 rounded-md p-3 text-sm text-slate-700 space-y-1">
+            <p>
+                New plan: <span className="font-medium">{quote.newPlan.quantity} x {quote.newPlan.productName}{quote.newPlan.unitDescription ? ` (${quote.newPlan.unitDescription})` : ''}</span>,
+                {' '}{formatCents(quote.nextPaymentCent)} {describeInterval(quote.newPlan.interval, quote.newPlan.intervalCount)}.
+            </p>
+            {quote.chargesImmediately ? (
+                <p>
+                    The billing schedule changes, so you will be charged <span className="font-semibold">{formatCents(quote.amountDueNowCent)}</span> today
+                    {quote.prorationAmountCent < 0 ? `, after a ${formatCents(quote.prorationAmountCent)} credit for the rest of your current period` : ''}.
+                </p>
+            ) : quote.prorationAmountCent < 0 ? (
+                <p>You'll get a <span className="font-semibold">{formatCents(quote.prorationAmountCent)}</span> credit on your next invoice for the rest of the current period.</p>
+            ) : quote.prorationAmountCent > 0 ? (
+                <p>Your next invoice will include <span className="font-semibold">{formatCents(quote.prorationAmountCent)}</span> for the rest of the current period.</p>
+            ) : (
+                <p>Nothing is charged for the rest of the current period.</p>
+            )}
+        </div>
+    );
+
+    if (subscriptionFlavors.length === 0) {
+        return <p className="text-slate-500 text-sm">No subscription options are available right now.</p>;
+    }
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+                <label htmlFor="plan-flavor" className="block text-sm font-medium text-slate-700 mb-1">Flavor</label>
+                <select
+                    id="plan-flavor"
+                    value={flavorId}
+                    onChange={e => handleFlavorChange(e.target.value)}
+                    disabled={isLoading}
+                    className="block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 disabled:bg-slate-100"
+                >
+                    {!selectedFlavor && <option value="">Select a flavor</option>}
+                    {subscriptionFlavors.map(flavor => (
+                        <option key={flavor.id} value={flavor.id}>{flavor.name}</option>
+                    ))}
+                </select>
+            </div>
+
+            {selectedFlavor && (
+                <fieldset>
+                    <legend className="block text-sm font-medium text-slate-700 mb-1">Option</legend>
+                    <div className="space-y-2">
+                        {selectedFlavor.prices.map(price => (
+                            <label key={price.priceId} className="flex items-center space-x-2 text-sm text-slate-700">
+                                <input
+                                    type="radio"
+                                    name="plan-price"
+                                    value={price.priceId}
+                                    checked={priceId === price.priceId}
+                                    onChange={() => setPriceId(price.priceId)}
+                                    disabled={isLoading}
+                                    className="form-radio h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-slate-300"
+                                />
+                                <span>
+                                    {price.displayName || price.unitDescription || 'Subscription'} - {price.price}
+                                    {price.recurringInterval ? ` ${describeInterval(price.recurringInterval, price.recurringIntervalCount ?? 1)}` : ''}
+                                    {price.priceId === subscription.stripePriceId && <span className="text-xs text-slate-500 ml-2">(current)</span>}
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
+            )}
+
+            <FormInput
+                label={`Quantity per delivery (1-${MAX_QUANTITY})`}
+                id="plan-quantity"
+                type="number"
+                min="1"
+                max={MAX_QUANTITY}
+                step="1"
+                value={quantity}
+                onChange={e => setQuantity(e.target.value)}
+                required
+                disabled={isLoading}
+            />
+
+            {preview && renderPreview(preview)}
+
+            <div className="flex justify-end pt-2">
+                {preview ? (
+                    <button
+                        type="submit"
+                        disabled={isLoading}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                    >
+                        {isLoading ? 'Updating...' : 'Confirm Change'}
+                    </button>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={handleReview}
+                        disabled={isLoading || !isValid}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                    >
+                        {isLoading ? 'Checking...' : 'Review Change'}
+                    </button>
+                )}
+            </div>
+        </form>
+    );
+};
+
+export default SubscriptionPlanForm;
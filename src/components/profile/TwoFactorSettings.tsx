@@ -0,0 +1,205 @@
+import React, { useState, useEffect } from 'react';
+
+interface TwoFactorStatus {
+    enabled: boolean;
+    enabledAt: string | null;
+    recoveryCodesLeft: number;
+}
+
+// Turning off or replacing recovery codes both need a current code
+type CodeAction = 'disable' | 'recovery-codes';
+
+const postJson = async (url: string, body: object = {}) => {
+    const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    const data = await res.json();
+    if (!res.ok) {
+        throw new Error(data.message || `Request failed: ${res.status}`);
+    }
+    return data;
+};
+
+// Two-factor authentication on /profile: set up an authenticator app, show recovery codes once, turn it off
+const TwoFactorSettings: React.FC = () => {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+    const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+    const [code, setCode] = useState('');
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadStatus = () => {
+        fetch('/api/auth/2fa')
+            .then(async (res) => {
+                if (!res.ok) {
+                    throw new Error(`Failed to load two-factor settings: ${res.status}`);
+                }
+                return res.json();
+            })
+            .then((data: TwoFactorStatus) => setStatus(data))
+            .catch(err => console.error('Error fetching two-factor status:', err));
+    };
+
+    useEffect(loadStatus, []);
+
+    const run = async (action: () => Promise<void>) => {
+        setIsWorking(true);
+        setError(null);
+        try {
+            await action();
+        } catch (err: any) {
+            console.error('Two-factor settings error:', err);
+            setError(err.message || 'An unknown error occurred.');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleStartSetup = () => run(async () => {
+        setSetup(await postJson('/api/auth/2fa/setup'));
+        setCode('');
+    });
+
+    const handleEnable = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            const data = await postJson('/api/auth/2fa/enable', { code });
+            setRecoveryCodes(data.recoveryCodes);
+            setSetup(null);
+            setCode('');
+            loadStatus();
+        });
+    };
+
+    const handleCodeAction = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            if (codeAction === 'disable') {
+                await postJson('/api/auth/2fa/disable', { code });
+                setRecoveryCodes(null);
+            } else {
+                const data = await postJson('/api/auth/2fa/recovery-codes', { code });
+                setRecoveryCodes(data.recoveryCodes);
+            }
+            setCodeAction(null);
+            setCode('');
+            loadStatus();
+        });
+    };
+
+    if (!status) {
+        return null;
+    }
+
+    const codeInput = (
+        <input
+            type="text"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            placeholder="123456"
+            className="rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2 w-40 tracking-widest"
+        />
+    );
+
+    return (
+        <div>
+            <h3 className="text-lg font-semibold mb-2">Two-Factor Authentication</h3>
+            {error && <p className="text-red-600 text-sm mb-3">Error: {error}</p>}
+
+            {recoveryCodes && (
+                <div className="bg-amber-50 border border-amber-200 rounded p-4 mb-4">
+                    <p className="text-amber-800 font-semibold text-sm">Save these recovery codes somewhere safe.</p>
+                    <p className="text-amber-700 text-sm mt-1">Each one logs you in once if you lose your phone. They won't be shown again.</p>
+                    <ul className="grid grid-cols-2 gap-1 font-mono text-sm mt-3">
+                        {recoveryCodes.map(recoveryCode => <li key={recoveryCode}>{recoveryCode}</li>)}
+                    </ul>
+                    <button
+                        onClick={() => setRecoveryCodes(null)}
+                        className="mt-3 px-3 py-1 bg-amber-600 text-white text-xs font-medium rounded-md hover:bg-amber-700"
+                    >
+                        I've Saved Them
+                    </button>
+                </div>
+            )}
+
+            {status.enabled ? (
+                <>
+                    <p className="text-sm text-slate-600">
+                        On. You'll be asked for a code from your authenticator app when you log in, delete a card or change your email.
+                        {' '}{status.recoveryCodesLeft} recovery code(s) left.
+                    </p>
+                    {codeAction ? (
+                        <form onSubmit={handleCodeAction} className="flex flex-wrap items-center gap-2 mt-3">
+                            {codeInput}
+                            <button
+                                type="submit"
+                                disabled={isWorking || !code.trim()}
+                                className="px-3 py-1.5 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+                            >
+                                {isWorking ? 'Checking...' : codeAction === 'disable' ? 'Turn Off' : 'Create New Codes'}
+                            </button>
+                            <button type="button" onClick={() => { setCodeAction(null); setCode(''); }} className="text-sm text-slate-600 hover:text-slate-800">
+                                Cancel
+                            </button>
+                        </form>
+                    ) : (
+                        <div className="flex gap-2 mt-3">
+                            <button
+                                onClick={() => setCodeAction('recovery-codes')}
+                                className="px-3 py-1 bg-slate-200 text-slate-700 text-xs font-medium rounded-md hover:bg-slate-300"
+                            >
+                                New Recovery Codes
+                            </button>
+                            <button
+                                onClick={() => setCodeAction('disable')}
+                                className="px-3 py-1 bg-red-100 text-red-700 text-xs font-medium rounded-md hover:bg-red-200"
+                            >
+                                Turn Off
+                            </button>
+                        </div>
+                    )}
+                </>
+            ) : setup ? (
+                <form onSubmit={handleEnable} className="space-y-3">
+                    <p className="text-sm text-slate-600">
+                        Add this account to an authenticator app (Google Authenticator, 1Password, Authy...) with the setup key below,
+                        or <a href={setup.otpauthUrl} className="text-indigo-600 hover:text-indigo-800 font-medium">open it in the app</a> on this device.
+                    </p>
+                    <p className="font-mono text-sm bg-slate-100 rounded p-2 break-all select-all">{setup.secret.match(/.{1,4}/g)?.join(' ')}</p>
+                    <p className="text-sm text-slate-600">Then enter the 6-digit code the app shows:</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                        {codeInput}
+                        <button
+                            type="submit"
+                            disabled={isWorking || !code.trim()}
+                            className="px-3 py-1.5 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+                        >
+                            {isWorking ? 'Checking...' : 'Turn On'}
+                        </button>
+                        <button type="button" onClick={() => setSetup(null)} className="text-sm text-slate-600 hover:text-slate-800">
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <>
+                    <p className="text-sm text-slate-600">Protect your account with a code from an authenticator app in addition to your password.</p>
+                    <button
+                        onClick={handleStartSetup}
+                        disabled={isWorking}
+                        className="mt-3 px-3 py-1.5 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm font-medium disabled:opacity-50"
+                    >
+                        {isWorking ? 'Starting...' : 'Set Up Two-Factor Authentication'}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TwoFactorSettings;
@@ -2,6 +2,7 @@ import React, { useState, FormEvent, useEffect } from 'react';
 import UserProfileForm, { UserProfileFormData } from './UserProfileForm';
 import { useAuth } from '../../context/AuthContext'; // Need access to update user state
 import { ApiUser } from '../../types/data'; // Use the shared user type
+import TwoFactorPromptModal from '../auth/TwoFactorPromptModal';
 
 interface UserProfileModalProps {
   isOpen: boolean;
@@ -12,6 +13,8 @@ interface UserProfileModalProps {
 const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, currentUser }) => {
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Changes held back until a two-factor code is entered (email changes on two-factor accounts)
+  const [pendingFormData, setPendingFormData] = useState<UserProfileFormData | null>(null);
   const { login } = useAuth(); // Get login function to update context
 
   // Reset error when modal opens/closes
@@ -57,6 +60,8 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, cu
         // Update AuthContext with the new user data from the API response
         login(data.user); 
         onClose(); // Close modal on success
+      } else if (response.status === 403 && data.twoFactorRequired) {
+        setPendingFormData(formData); // Resubmitted once the code is accepted
       } else {
         setError(data.message || 'Failed to update profile.');
       }
@@ -99,6 +104,15 @@ const UserProfileModal: React.FC<UserProfileModalProps> = ({ isOpen, onClose, cu
           isLoading={isLoading} 
         />
       </div>
+      <TwoFactorPromptModal
+        isOpen={!!pendingFormData}
+        onClose={() => setPendingFormData(null)}
+        onVerified={() => {
+          const formData = pendingFormData;
+          setPendingFormData(null);
+          if (formData) handleFormSubmit(formData);
+        }}
+      />
       {/* Animation style */}
        <style>{`
           @keyframes modal-enter {
@@ -7,6 +7,7 @@ interface User {
   name?: string | null;
   role: 'USER' | 'ADMIN';
   phone?: string | null;
+  emailVerified?: boolean; // False until the link in the verification email is followed
   // Add other relevant user fields
 }
 
@@ -1,5 +1,6 @@
-import React, { createContext, useState, useContext, ReactNode, useMemo, useEffect } from 'react';
+import React, { createContext, useState, useContext, ReactNode, useMemo, useEffect, useRef } from 'react';
 import toast from 'react-hot-toast'; // Import toast
+import { useAuth } from './AuthContext';
 
 // --- Types ---
 
@@ -29,12 +30,28 @@ export interface AddItemPayload {
     recurringInterval?: string | null; // New: Optional interval if subscription
 }
 
+// What the server reports back from /api/cart (see src/server/services/cart.ts)
+interface CartChange {
+    priceId: string;
+    name: string | null;
+    type: 'removed' | 'price_changed' | 'quantity_reduced';
+    previousPrice?: string;
+    newPrice?: string;
+    quantity?: number;
+}
+
+export interface CartApiResponse {
+    items: CartItem[];
+    changes: CartChange[];
+}
+
 interface CartContextState {
     items: CartItem[];
     addItem: (itemToAdd: AddItemPayload, quantity?: number) => void;
     removeItem: (priceId: string) => void; // Use priceId
     updateQuantity: (priceId: string, quantity: number) => void; // Use priceId
     clearCart: () => void;
+    restoreCart: (cart: CartApiResponse) => void; // Adds items from a recovery link (larger quantity wins)
     getCartTotal: () => number;
     getItemCount: () => number;
 }
@@ -72,6 +89,42 @@ const getInitialState = (): CartItem[] => {
     return []; 
 };
 
+// Tells the user what changed when the cart was re-checked against the catalog
+const notifyCartChanges = (changes: CartChange[]) => {
+    changes.forEach(change => {
+        const name = change.name || 'An item';
+        if (change.type === 'removed') {
+            toast.error(`${name} is no longer available and was removed from your cart.`);
+        } else if (change.type === 'price_changed') {
+            toast(`${name} is now $${change.newPrice} (was $${change.previousPrice}).`);
+        } else {
+            toast(`Only ${change.quantity} of ${name} left in stock. Your cart was updated.`);
+        }
+    });
+};
+
+// Sends a cart request and returns the server's view of the cart (null on failure)
+const cartRequest = async (url: string, method: string, body?: unknown): Promise<CartApiResponse | null> => {
+    try {
+        const response = await fetch(url, {
+            method,
+            headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+            body: body !== undefined ? JSON.stringify(body) : undefined,
+        });
+        if (!response.ok) {
+            console.error(`Cart request ${method} ${url} failed with status ${response.status}`);
+            return null;
+        }
+        return await response.json();
+    } catch (error) {
+        console.error(`Cart request ${method} ${url} failed:`, error);
+        return null;
+    }
+};
+
+// Lines sent to the server: price IDs, quantities and the price currently shown
+const toCartLines = (items: CartItem[]) => items.map(item => ({ priceId: item.priceId, quantity: item.quantity, price: item.price }));
+
 // --- Provider Component ---
 interface CartProviderProps {
     children: ReactNode;
@@ -79,6 +132,16 @@ interface CartProviderProps {
 
 export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     const [items, setItems] = useState<CartItem[]>(getInitialState);
+    const { user, isLoading: isAuthLoading } = useAuth();
+    const userId = user ? user.id : null;
+
+    // Latest items for effects that shouldn't re-run on every cart change
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+    // User the cart was last synced for: undefined until the auth check finishes
+    const syncedUserIdRef = useRef<number | null | undefined>(undefined);
+    // Only the newest server response is applied, so quick edits can't be undone by a slow reply
+    const requestCounterRef = useRef(0);
 
     // Effect to save state to localStorage whenever items change
     useEffect(() => {
@@ -91,6 +154,45 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
         }
     }, [items]); 
 
+    // Applies a server response (if it is still the newest one) and reports what changed
+    const applyServerCart = (requestId: number, result: CartApiResponse | null) => {
+        if (!result || requestId !== requestCounterRef.current) return;
+        setItems(result.items);
+        notifyCartChanges(result.changes);
+    };
+
+    // Mirrors a local change to the account cart while logged in
+    const syncToServer = async (url: string, method: string, body?: unknown) => {
+        if (syncedUserIdRef.current === undefined || syncedUserIdRef.current === null) return;
+        const requestId = ++requestCounterRef.current;
+        applyServerCart(requestId, await cartRequest(url, method, body));
+    };
+
+    // Effect to load, merge or validate the cart whenever the logged-in user changes
+    useEffect(() => {
+        if (isAuthLoading) return;
+        const previousUserId = syncedUserIdRef.current;
+        if (previousUserId === userId) return;
+        syncedUserIdRef.current = userId;
+        const requestId = ++requestCounterRef.current;
+
+        if (userId !== null && previousUserId === undefined) {
+            // Page load with an existing session: the account cart is the source of truth
+            cartRequest('/api/cart', 'GET').then(result => applyServerCart(requestId, result));
+        } else if (userId !== null) {
+            // Just logged in: fold the guest cart into the account cart
+            cartRequest('/api/cart/merge', 'POST', { items: toCartLines(itemsRef.current) })
+                .then(result => applyServerCart(requestId, result));
+        } else if (previousUserId !== undefined) {
+            // Logged out: the cart stays with the account, not on this device
+            setItems([]);
+        } else if (itemsRef.current.length > 0) {
+            // Guest page load: re-check prices and availability of the stored cart
+            cartRequest('/api/cart/validate', 'POST', { items: toCartLines(itemsRef.current) })
+                .then(result => applyServerCart(requestId, result));
+        }
+    }, [userId, isAuthLoading]);
+
     // Add item to cart
     const addItem = (itemToAdd: AddItemPayload, quantity: number = 1) => {
         let itemAddedName = itemToAdd.name; // Store name for toast message
@@ -120,6 +222,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
                 return [...prevItems, newItem];
             }
         });
+        syncToServer('/api/cart/items', 'POST', { priceId: itemToAdd.priceId, quantity });
         // Display toast notification
         toast.success(`${quantity} x ${itemAddedName} added to cart!`);
         console.log("Added item (Price ID):", itemToAdd.priceId, "Product ID:", itemToAdd.productId, "Slug:", itemToAdd.slug, "Quantity:", quantity);
@@ -128,6 +231,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     // Remove item from cart (using priceId)
     const removeItem = (priceId: string) => {
         setItems(prevItems => prevItems.filter(item => item.priceId !== priceId));
+        syncToServer(`/api/cart/items/${encodeURIComponent(priceId)}`, 'DELETE');
         console.log("Removed item (Price ID):", priceId);
     };
 
@@ -141,6 +245,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
                     item.priceId === priceId ? { ...item, quantity } : item
                 )
             );
+            syncToServer(`/api/cart/items/${encodeURIComponent(priceId)}`, 'PATCH', { quantity });
              console.log("Updated quantity for (Price ID):", priceId, "New Quantity:", quantity);
         }
     };
@@ -148,9 +253,27 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
     // Clear all items from cart
     const clearCart = () => {
         setItems([]);
+        syncToServer('/api/cart', 'DELETE');
          console.log("Cart cleared");
     };
 
+    // Put items back from an abandoned checkout recovery link, keeping anything already in the cart
+    const restoreCart = (cart: CartApiResponse) => {
+        const merged = [...itemsRef.current];
+        cart.items.forEach(restored => {
+            const index = merged.findIndex(item => item.priceId === restored.priceId);
+            if (index === -1) {
+                merged.push(restored);
+            } else {
+                merged[index] = { ...restored, quantity: Math.max(merged[index].quantity, restored.quantity) };
+            }
+        });
+        setItems(merged);
+        notifyCartChanges(cart.changes);
+        syncToServer('/api/cart/merge', 'POST', { items: toCartLines(merged) });
+        console.log("Cart restored from recovery link:", cart.items.length, "item(s)");
+    };
+
     // Calculate total price of items in cart (parsing price string)
     const getCartTotal = useMemo(() => {
         return () => items.reduce((total, item) => {
@@ -175,6 +298,7 @@ export const CartProvider: React.FC<CartProviderProps> = ({ children }) => {
         removeItem,
         updateQuantity,
         clearCart,
+        restoreCart,
         getCartTotal,
         getItemCount
     }), [items, getCartTotal, getItemCount]);
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams, useNavigate, Link } from 'react-router-dom';
+import { useCart, CartApiResponse } from '../context/CartContext';
+
+// Landing page for the link in abandoned checkout reminder emails: rebuilds the cart, then shows it
+const CartRecovery = () => {
+    const [searchParams] = useSearchParams();
+    const navigate = useNavigate();
+    const { restoreCart } = useCart();
+    const [error, setError] = useState<string | null>(null);
+    const hasRequested = useRef(false); // The token is only redeemed once per visit
+
+    useEffect(() => {
+        if (hasRequested.current) return;
+        hasRequested.current = true;
+
+        const token = searchParams.get('token');
+        if (!token) {
+            setError('This cart link is missing its token.');
+            return;
+        }
+
+        const recover = async () => {
+            try {
+                const response = await fetch(`/api/cart/recover?token=${encodeURIComponent(token)}`);
+                const data = await response.json();
+                if (!response.ok) {
+                    throw new Error(data.message || 'Failed to restore your cart.');
+                }
+                const cart = data as CartApiResponse;
+                if (cart.items.length === 0) {
+                    setError('The items from your checkout are no longer available.');
+                    return;
+                }
+                restoreCart(cart);
+                navigate('/cart', { replace: true });
+            } catch (err: any) {
+                console.error("Cart Recovery UI Error:", err);
+                setError(err.message || 'Failed to restore your cart.');
+            }
+        };
+        recover();
+    }, [searchParams]);
+
+    if (error) {
+        return (
+            <div className="container mx-auto px-4 py-8 max-w-md text-center">
+                <h1 className="text-2xl font-bold mb-4">We couldn't restore your cart</h1>
+                <p className="text-red-600 mb-6">{error}</p>
+                <Link to="/flavors" className="text-indigo-600 hover:text-indigo-800 font-medium">Browse flavors</Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-md text-center">
+            <p className="text-slate-600">Restoring your cart...</p>
+        </div>
+    );
+};
+
+export default CartRecovery;
@@ -3,11 +3,12 @@ import { useNavigate } from 'react-router-dom';
 import { useCart } from '../context/CartContext';
 import { useAuth } from '../context/AuthContext';
 import { StripeElementsOptions } from '@stripe/stripe-js'; 
-import { Address, ApiSavedCard } from '../types/data'; 
+import { Address, ApiSavedCard, AppliedPromoCode, AppliedGiftCard, ShippingOptionData } from '../types/data'; 
 import { OrderSummary } from '../components/checkout/OrderSummary'; 
 import { ContactSection } from '../components/checkout/ContactSection'; 
 import { ShippingSection } from '../components/checkout/ShippingSection'; 
 import { PaymentSection } from '../components/checkout/PaymentSection';
+import { GIFT_SUBSCRIPTION_MONTHS, GIFT_MESSAGE_MAX_LENGTH } from '../utils/gifts';
 
 interface CheckoutData {
 	items: {
@@ -51,6 +52,7 @@ export const Checkout = () => {
 	const [checkoutAttemptId, setCheckoutAttemptId] = useState<string | null>(null);
 	const [isLoadingSecret, setIsLoadingSecret] = useState(false);
 	const [errorLoadingSecret, setErrorLoadingSecret] = useState<string | null>(null);
+	const [coveredByGiftCard, setCoveredByGiftCard] = useState(false); // No PaymentIntent: the gift card pays everything
 
 	// Form State
 	const [email, setEmail] = useState('');
@@ -63,6 +65,12 @@ export const Checkout = () => {
 	const [postalCode, setPostalCode] = useState('');
 	const [country, setCountry] = useState('United States');
 
+	// --- Gift State (name/address fields above are the recipient's when isGift) ---
+	const [isGift, setIsGift] = useState(false);
+	const [giftMessage, setGiftMessage] = useState('');
+	const [giftHidePrices, setGiftHidePrices] = useState(false);
+	const [giftMonths, setGiftMonths] = useState<number>(GIFT_SUBSCRIPTION_MONTHS[0]);
+
 	// --- Order Notes State ---
 	const [notes, setNotes] = useState('');
 
@@ -84,48 +92,96 @@ export const Checkout = () => {
 	// --- State for "Save Card" checkbox ---
 	const [saveNewCardForFuture, setSaveNewCardForFuture] = useState<boolean>(false);
 
-	// --- Shipping Rate State --- 
-	const [shippingRate, setShippingRate] = useState<number | null>(null);
-	const [isLoadingShippingRate, setIsLoadingShippingRate] = useState(true);
-	const [errorLoadingShippingRate, setErrorLoadingShippingRate] = useState<string | null>(null);
+	// --- Shipping Options State ---
+	const [shippingOptions, setShippingOptions] = useState<ShippingOptionData[]>([]);
+	const [selectedShippingMethod, setSelectedShippingMethod] = useState<string>('');
+	const [isLoadingShippingOptions, setIsLoadingShippingOptions] = useState(false);
+	const [errorLoadingShippingOptions, setErrorLoadingShippingOptions] = useState<string | null>(null);
 
-	// --- Get shipping rate from API --- 
+	// --- Quote shipping options whenever the destination or cart changes ---
 	useEffect(() => {
-		setIsLoadingShippingRate(true);
-		setErrorLoadingShippingRate(null);
-		fetch('/api/stripe/shipping-rate')
-			.then(async (res) => {
-				if (!res.ok) {
-					const errorData = await res.json().catch(() => ({}));
-					throw new Error(errorData.error || `Server error: ${res.status}`);
-				}
-				return res.json();
-			})
-			.then((data) => {
-				if (typeof data.amount === 'number') {
-					setShippingRate(data.amount);
-					console.log("Checkout: Fetched shipping rate:", data.amount);
-				} else {
-					throw new Error("Invalid shipping rate received from server.");
-				}
-			})
-			.catch((err) => {
-				console.error("Checkout: Failed to fetch shipping rate:", err);
-				setErrorLoadingShippingRate(err.message || "Could not load shipping cost.");
-				setShippingRate(9.99); // Use fallback on error
-				console.warn("Using fallback shipping rate $9.99 due to fetch error.")
+		if (items.length === 0 || !state.trim() || !postalCode.trim() || !country.trim()) {
+			setShippingOptions([]);
+			return;
+		}
+		// Debounce so typing a postal code doesn't fire a request per keystroke
+		const timer = setTimeout(() => {
+			setIsLoadingShippingOptions(true);
+			setErrorLoadingShippingOptions(null);
+			fetch('/api/stripe/shipping-options', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					items: items.map(item => ({ priceId: item.priceId, quantity: item.quantity })),
+					shippingAddress: { state, postalCode, country }
+				})
 			})
-			.finally(() => {
-				setIsLoadingShippingRate(false);
-			});
-	}, []); // Fetch once on mount
+				.then(async (res) => {
+					if (!res.ok) {
+						const errorData = await res.json().catch(() => ({}));
+						throw new Error(errorData.error || `Server error: ${res.status}`);
+					}
+					return res.json();
+				})
+				.then((data: { options: ShippingOptionData[] }) => {
+					setShippingOptions(data.options);
+					// Keep the current choice if it's still offered, otherwise pick the cheapest
+					setSelectedShippingMethod(current =>
+						data.options.some(option => option.id === current) ? current : (data.options[0]?.id || '')
+					);
+					if (data.options.length === 0) {
+						setErrorLoadingShippingOptions("We can't ship to this address.");
+					}
+					console.log("Checkout: Fetched shipping options:", data.options.map(option => option.id));
+				})
+				.catch((err) => {
+					console.error("Checkout: Failed to fetch shipping options:", err);
+					setShippingOptions([]);
+					setErrorLoadingShippingOptions(err.message || "Could not load shipping options.");
+				})
+				.finally(() => {
+					setIsLoadingShippingOptions(false);
+				});
+		}, 400);
+		return () => clearTimeout(timer);
+	}, [items, state, postalCode, country]);
 
-	// Calculate Costs (now depends on fetched shipping rate)
-	const subtotal = getCartTotal();
-	// Use fetched rate, handle loading state by showing 0 temporarily, use fallback on error (already set in state)
-	const currentShippingRate = isLoadingShippingRate ? 0 : (shippingRate ?? 9.99); 
-	const shippingCost = items.length > 0 ? currentShippingRate : 0; 
-	const total = subtotal + shippingCost; 
+	// Determine if cart contains subscription items
+	const containsSubscription = useMemo(() => items.some(item => item.isSubscription), [items]);
+	// Subscriptions in a gift order are prepaid for giftMonths deliveries and charged like one-time items
+	const isGiftSubscription = isGift && containsSubscription;
+
+	// Calculate Costs
+	const subtotal = isGiftSubscription
+		? items.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity * (item.isSubscription ? giftMonths : 1), 0)
+		: getCartTotal();
+	const selectedShippingOption = shippingOptions.find(option => option.id === selectedShippingMethod) || null;
+	// Null until an address has been quoted and a method picked
+	const shippingCost = selectedShippingOption ? selectedShippingOption.amount : null;
+
+	// --- Promo Code State ---
+	const [appliedPromo, setAppliedPromo] = useState<AppliedPromoCode | null>(null);
+	const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+	const [promoError, setPromoError] = useState<string | null>(null);
+
+	// --- Tax State (calculated by initiate-checkout for the shipping address) ---
+	const [taxAmount, setTaxAmount] = useState<number | null>(null);
+
+	const promoDiscount = appliedPromo ? appliedPromo.discount : 0;
+	const total = Math.max(0, subtotal + (shippingCost ?? 0) - promoDiscount) + (taxAmount ?? 0); 
+
+	// --- Gift Card State (the balance is redeemed when the order is created) ---
+	const [appliedGiftCard, setAppliedGiftCard] = useState<AppliedGiftCard | null>(null);
+	const [isApplyingGiftCard, setIsApplyingGiftCard] = useState(false);
+	const [giftCardError, setGiftCardError] = useState<string | null>(null);
+	// Quoted by initiate-checkout; estimated from the balance until then
+	const [quotedGiftCardAmount, setQuotedGiftCardAmount] = useState<number | null>(null);
+	// Gift subscriptions are paid once like one-time items, so gift cards work for them; real subscriptions are billed by Stripe
+	const canApplyGiftCard = !containsSubscription || isGiftSubscription;
+	const giftCardAmount = appliedGiftCard && canApplyGiftCard
+		? (quotedGiftCardAmount ?? Math.min(appliedGiftCard.balance, total))
+		: 0;
+	const amountDue = Math.max(0, total - giftCardAmount);
 
 	// Validation Logic
 	const canCompleteContact = useMemo(() => email.trim() !== '' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) && phone.trim() !== '', [email, phone]);
@@ -135,13 +191,12 @@ export const Checkout = () => {
 		city.trim() !== '' &&
 		state.trim() !== '' &&
 		postalCode.trim() !== '' &&
-		country.trim() !== '',
-		[fullName, address1, city, state, postalCode, country]
+		country.trim() !== '' &&
+		selectedShippingOption !== null &&
+		(!isGift || giftMessage.length <= GIFT_MESSAGE_MAX_LENGTH),
+		[fullName, address1, city, state, postalCode, country, selectedShippingOption, isGift, giftMessage]
 	);
 
-	// Determine if cart contains subscription items
-	const containsSubscription = useMemo(() => items.some(item => item.isSubscription), [items]);
-
 	// Effect to redirect if cart is empty
 	useEffect(() => {
 		if (items.length === 0 && activeSection !== 'auth_choice') {
@@ -181,6 +236,101 @@ export const Checkout = () => {
 		}
 	}, [auth.user, auth.isLoading, activeSection]); // Dependencies: auth state and current section
 
+	// Drop the applied promo when the cart changes; the discount was calculated for the old contents
+	useEffect(() => {
+		setAppliedPromo(null);
+		setPromoError(null);
+	}, [items]);
+
+	// Promo changes alter the amount, so any existing PaymentIntent has to be recreated
+	const resetPaymentIntent = () => {
+		setClientSecret(null);
+		setCheckoutAttemptId(null);
+		setErrorLoadingSecret(null);
+		setTaxAmount(null);
+		setQuotedGiftCardAmount(null);
+		setCoveredByGiftCard(false);
+	};
+
+	// Tax and shipping depend on the destination and method, so changing either needs a new PaymentIntent.
+	// Gift options are saved with the checkout attempt (and gift subscription months change the amount).
+	useEffect(() => {
+		resetPaymentIntent();
+	}, [state, postalCode, country, selectedShippingMethod, shippingCost, isGift, giftMessage, giftHidePrices, giftMonths]);
+
+	// Re-check an applied promo when shipping changes; free-shipping discounts depend on the quoted amount
+	useEffect(() => {
+		if (appliedPromo) {
+			handleApplyPromo(appliedPromo.code);
+		}
+	}, [selectedShippingMethod, shippingCost]);
+
+	const handleApplyPromo = async (code: string) => {
+		setIsApplyingPromo(true);
+		setPromoError(null);
+		try {
+			const res = await fetch('/api/stripe/promo-code', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({
+					code,
+					items: items.map(item => ({ priceId: item.priceId, quantity: item.quantity })),
+					email: email || undefined,
+					shippingAddress: selectedShippingOption ? { state, postalCode, country } : undefined,
+					shippingMethod: selectedShippingOption?.id
+				})
+			});
+			const data = await res.json().catch(() => ({}));
+			if (!res.ok) {
+				throw new Error(data.error || `Server error: ${res.status}`);
+			}
+			setAppliedPromo(data as AppliedPromoCode);
+			resetPaymentIntent();
+			console.log("Checkout: Applied promo code:", data.code);
+		} catch (err: any) {
+			console.error("Checkout: Failed to apply promo code:", err);
+			setPromoError(err.message || "Could not apply promo code.");
+		} finally {
+			setIsApplyingPromo(false);
+		}
+	};
+
+	const handleRemovePromo = () => {
+		setAppliedPromo(null);
+		setPromoError(null);
+		resetPaymentIntent();
+	};
+
+	const handleApplyGiftCard = async (code: string) => {
+		setIsApplyingGiftCard(true);
+		setGiftCardError(null);
+		try {
+			const res = await fetch('/api/gift-cards/check', {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json' },
+				body: JSON.stringify({ code })
+			});
+			const data = await res.json().catch(() => ({}));
+			if (!res.ok) {
+				throw new Error(data.message || `Server error: ${res.status}`);
+			}
+			setAppliedGiftCard(data as AppliedGiftCard);
+			resetPaymentIntent();
+			console.log("Checkout: Applied gift card:", data.code);
+		} catch (err: any) {
+			console.error("Checkout: Failed to apply gift card:", err);
+			setGiftCardError(err.message || "Could not apply gift card.");
+		} finally {
+			setIsApplyingGiftCard(false);
+		}
+	};
+
+	const handleRemoveGiftCard = () => {
+		setAppliedGiftCard(null);
+		setGiftCardError(null);
+		resetPaymentIntent();
+	};
+
 	// Effect to fetch Payment/Setup Intent client secret AND checkoutAttemptId
 	useEffect(() => {
 		if (
@@ -188,6 +338,7 @@ export const Checkout = () => {
 			!clientSecret && // Only fetch if we don't have one
 			!checkoutAttemptId && // AND we don't have an ID
 			isShippingComplete &&
+			selectedShippingMethod && // Wait until a shipping method is available
 			items.length > 0 &&
 			!isLoadingSecret // Avoid fetching if already loading
 		) {
@@ -214,7 +365,15 @@ export const Checkout = () => {
 				shippingAddress: shippingAddress,
 				notes: notes, // Include notes in the payload
 				selectedCardId: selectedCardId || undefined, // <-- Pass selected card ID if available
-				saveNewCardForFuture: saveNewCardForFuture || undefined // <-- Pass save card flag if available
+				saveNewCardForFuture: saveNewCardForFuture || undefined, // <-- Pass save card flag if available
+				promoCode: appliedPromo?.code, // Server re-validates the code and applies the discount
+				giftCardCode: canApplyGiftCard ? appliedGiftCard?.code : undefined, // Server checks the balance and takes it off the amount charged
+				shippingMethod: selectedShippingMethod, // Server re-quotes the method for this address
+				gift: isGift ? {
+					message: giftMessage.trim() || undefined,
+					hidePrices: giftHidePrices,
+					subscriptionMonths: containsSubscription ? giftMonths : undefined
+				} : undefined
 			};
 			// ---------------------------------------------
 			console.log("Checkout: Sending payload to /api/stripe/initiate-checkout:", JSON.stringify(payload, null, 2));
@@ -233,11 +392,15 @@ export const Checkout = () => {
 					return res.json();
 				})
 				.then((data) => {
-					if (!data.clientSecret || !data.checkoutAttemptId) { // <-- CHECK for both fields
+					// No client secret when the gift card covers the whole order
+					if ((!data.clientSecret && !data.coveredByGiftCard) || !data.checkoutAttemptId) { // <-- CHECK for both fields
 						throw new Error('Client secret OR checkoutAttemptId not received from server.');
 					}
 					setClientSecret(data.clientSecret);
 					setCheckoutAttemptId(data.checkoutAttemptId); // <-- STORE the ID
+					setTaxAmount(typeof data.taxAmount === 'number' ? data.taxAmount : 0);
+					setQuotedGiftCardAmount(typeof data.giftCardAmount === 'number' ? data.giftCardAmount : 0);
+					setCoveredByGiftCard(!!data.coveredByGiftCard);
 					console.log("Received clientSecret and checkoutAttemptId.");
 				})
 				.catch((error) => {
@@ -252,7 +415,7 @@ export const Checkout = () => {
 				});
 		}
 		// Removed dependency comments
-	}, [activeSection, isShippingComplete, items, clientSecret, checkoutAttemptId, isLoadingSecret, email, phone, fullName, address1, address2, city, state, postalCode, country, notes, selectedCardId, saveNewCardForFuture]);
+	}, [activeSection, isShippingComplete, items, clientSecret, checkoutAttemptId, isLoadingSecret, email, phone, fullName, address1, address2, city, state, postalCode, country, notes, selectedCardId, saveNewCardForFuture, appliedPromo, appliedGiftCard, canApplyGiftCard, selectedShippingMethod, isGift, giftMessage, giftHidePrices, giftMonths, containsSubscription]);
 
 	// --- Effect to fetch Saved Addresses ---
 	useEffect(() => {
@@ -532,6 +695,15 @@ export const Checkout = () => {
 							isComplete={isShippingComplete}
 							canCompleteShipping={canCompleteShipping}
 							isContactComplete={isContactComplete}
+							shippingOptions={shippingOptions}
+							selectedShippingMethod={selectedShippingMethod}
+							isLoadingShippingOptions={isLoadingShippingOptions}
+							errorLoadingShippingOptions={errorLoadingShippingOptions}
+							isGift={isGift}
+							giftMessage={giftMessage}
+							giftHidePrices={giftHidePrices}
+							giftMonths={giftMonths}
+							containsSubscription={containsSubscription}
 							// Setter Props
 							setFullName={setFullName}
 							setAddress1={setAddress1}
@@ -541,6 +713,11 @@ export const Checkout = () => {
 							setPostalCode={setPostalCode}
 							setCountry={setCountry}
 							setSaveNewAddress={setSaveNewAddress}
+							setSelectedShippingMethod={setSelectedShippingMethod}
+							setIsGift={setIsGift}
+							setGiftMessage={setGiftMessage}
+							setGiftHidePrices={setGiftHidePrices}
+							setGiftMonths={setGiftMonths}
 							// Handler Props
 							handleSelectAddress={handleSelectAddress}
 							onContinue={handleContinueToPayment}
@@ -559,6 +736,7 @@ export const Checkout = () => {
 							// Intent State
 							clientSecret={clientSecret}
 							checkoutAttemptId={checkoutAttemptId}
+							coveredByGiftCard={coveredByGiftCard}
 							isLoadingSecret={isLoadingSecret}
 							errorLoadingSecret={errorLoadingSecret}
 							// Payment Content Props
@@ -568,10 +746,10 @@ export const Checkout = () => {
 							errorLoadingCards={errorLoadingCards}
 							selectedCardId={selectedCardId}
 							handleSelectCard={handleSelectCard}
-							containsSubscription={containsSubscription}
+							containsSubscription={containsSubscription && !isGiftSubscription} // Gift subscriptions are paid once, like one-time items
 							saveNewCardForFuture={saveNewCardForFuture}
 							setSaveNewCardForFuture={setSaveNewCardForFuture}
-							total={total}
+							total={amountDue}
 						/>
 					)}
 				</div>
@@ -583,9 +761,24 @@ export const Checkout = () => {
 						items={items}
 						subtotal={subtotal}
 						shippingCost={shippingCost}
+						taxAmount={taxAmount}
 						total={total}
-						isLoadingShippingRate={isLoadingShippingRate}
-						errorLoadingShippingRate={errorLoadingShippingRate}
+						giftMonths={isGiftSubscription ? giftMonths : null}
+						isLoadingShippingRate={isLoadingShippingOptions}
+						errorLoadingShippingRate={errorLoadingShippingOptions}
+						appliedPromo={appliedPromo}
+						canApplyPromo={!containsSubscription}
+						isApplyingPromo={isApplyingPromo}
+						promoError={promoError}
+						onApplyPromo={handleApplyPromo}
+						onRemovePromo={handleRemovePromo}
+						appliedGiftCard={canApplyGiftCard ? appliedGiftCard : null}
+						giftCardAmount={giftCardAmount}
+						canApplyGiftCard={canApplyGiftCard}
+						isApplyingGiftCard={isApplyingGiftCard}
+						giftCardError={giftCardError}
+						onApplyGiftCard={handleApplyGiftCard}
+						onRemoveGiftCard={handleRemoveGiftCard}
 					/>
 				</div>
 
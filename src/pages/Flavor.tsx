@@ -5,6 +5,8 @@ import { useProducts } from '../context/ProductContext'; // Import product conte
 import { Flavor as FlavorType, PriceOption } from '../types/flavor'; // Import correct types
 import { useCart, AddItemPayload } from '../context/CartContext'; // Import useCart AND AddItemPayload from context
 import { useAuth } from '../context/AuthContext'; // <--- Import useAuth
+import { formatStockStatus } from '../utils/formatting';
+import { buildCartItemName } from '../utils/cartItems';
 // import { AddItemPayload } from '../types/cart'; // Remove incorrect import
 
 // Remove local FlavorData type
@@ -75,7 +77,10 @@ export const Flavor = () => {
 	// Effect to set the default selected radio button when flavor/prices load
 	useEffect(() => {
 		if (displayablePrices.length > 0) {
-			const defaultPrice = displayablePrices.find(p => p.isDefault) || displayablePrices[0];
+			// Prefer an option that is still in stock
+			const inStockPrices = displayablePrices.filter(p => p.stockAvailable === null || p.stockAvailable > 0);
+			const candidates = inStockPrices.length > 0 ? inStockPrices : displayablePrices;
+			const defaultPrice = candidates.find(p => p.isDefault) || candidates[0];
 			setSelectedPriceId(defaultPrice.priceId);
 			setIsSubscribed(false); // Default to not subscribed
 		} else {
@@ -113,14 +118,22 @@ export const Flavor = () => {
 		);
 	}
 
+	// Stock for the currently selected option (null = not tracked)
+	const selectedStock = selectedEffectivePrice ? selectedEffectivePrice.stockAvailable : null;
+	const isSelectedSoldOut = selectedStock !== null && selectedStock <= 0;
+
 	const handleQuantityChange = (amount: number) => {
-		setQuantity(prev => Math.max(1, prev + amount)); 
+		setQuantity(prev => {
+			const next = Math.max(1, prev + amount);
+			return selectedStock !== null && selectedStock > 0 ? Math.min(next, selectedStock) : next;
+		});
 	};
 
 	// Handler for Radio Button Selection Change
 	const handlePriceSelectionChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
 		setSelectedPriceId(event.target.value);
 		setIsSubscribed(false); // Selecting radio always defaults to one-time
+		setQuantity(1); // Stock limits differ per option
 	}, []);
 
 	// Handler for Subscription Checkbox Change
@@ -141,7 +154,7 @@ export const Flavor = () => {
 	}, [selectedPriceId]);
 
 	const handleAddToCart = () => {
-		if (!flavorData || !selectedEffectivePrice) return;
+		if (!flavorData || !selectedEffectivePrice || isSelectedSoldOut) return;
 		// --- Add check: Prevent adding subscription if not logged in --- 
 		if (selectedEffectivePrice.isSubscription && !auth.user) {
 			console.error("Attempted to add subscription item while logged out.");
@@ -155,7 +168,7 @@ export const Flavor = () => {
 			priceId: selectedEffectivePrice.priceId,
 			productId: flavorData.id,
 			slug: flavorData.slug,
-			name: `${flavorData.name} ${selectedEffectivePrice.unitDescription ? `(${selectedEffectivePrice.unitDescription})` : ''}${selectedEffectivePrice.isSubscription ? ' (Subscription)' : ''}`,
+			name: buildCartItemName(flavorData.name, selectedEffectivePrice.unitDescription, selectedEffectivePrice.isSubscription),
 			price: selectedEffectivePrice.price,
 			imageSrc: flavorData.imageSrc || undefined,
 			isSubscription: selectedEffectivePrice.isSubscription,
@@ -228,16 +241,20 @@ export const Flavor = () => {
 							const effectivePrice = isThisOptionSubscribed && subPriceOpt ? subPriceOpt.price : priceOpt.price;
 							const savings = isThisOptionSubscribed && subPriceOpt ? getSubscriptionSavings(priceOpt, subPriceOpt) : null;
 							const interval = isThisOptionSubscribed && subPriceOpt ? subPriceOpt.recurringInterval : null;
+							// Stock label follows whichever price (one-time or subscription) is in effect for this option
+							const stockStatus = formatStockStatus(isThisOptionSubscribed && subPriceOpt ? subPriceOpt.stockAvailable : priceOpt.stockAvailable);
+							const isOptionSoldOut = priceOpt.stockAvailable !== null && priceOpt.stockAvailable <= 0;
 
 							return (
-								<div key={priceOpt.priceId} className={`p-3 border rounded-md transition-colors duration-150 ${selectedPriceId === priceOpt.priceId ? 'border-indigo-500 ring-1 ring-indigo-500 bg-indigo-50' : 'border-slate-200'}`}>
-									<label className="flex items-center space-x-3 cursor-pointer">
+								<div key={priceOpt.priceId} className={`p-3 border rounded-md transition-colors duration-150 ${selectedPriceId === priceOpt.priceId ? 'border-indigo-500 ring-1 ring-indigo-500 bg-indigo-50' : 'border-slate-200'} ${isOptionSoldOut ? 'opacity-60' : ''}`}>
+									<label className={`flex items-center space-x-3 ${isOptionSoldOut ? 'cursor-not-allowed' : 'cursor-pointer'}`}>
 										<input
 											type="radio"
 											name={`priceOption-${flavorData.id}`}
 											value={priceOpt.priceId}
 											checked={selectedPriceId === priceOpt.priceId}
 											onChange={handlePriceSelectionChange}
+											disabled={isOptionSoldOut}
 											className="form-radio h-5 w-5 text-amber-600 focus:ring-amber-500 border-slate-300 mt-1 self-start flex-shrink-0"
 										/>
 										<div className="flex-grow flex items-center justify-between">
@@ -245,6 +262,9 @@ export const Flavor = () => {
 												<span className="block text-md font-medium text-slate-700">
 													{priceOpt.displayName || priceOpt.unitDescription || 'Standard'}
 												</span>
+												{stockStatus && (
+													<span className="block text-sm font-medium text-red-600">{stockStatus}</span>
+												)}
 											</span>
 											<div className="flex items-baseline space-x-2 flex-shrink-0">
 												<span className="text-xl font-semibold text-amber-600">
@@ -327,11 +347,11 @@ export const Flavor = () => {
 						<button
 							onClick={handleAddToCart}
 							// Disable if no effective price is selected or no displayable prices available
-							disabled={!flavorData || !selectedEffectivePrice || displayablePrices.length === 0 || (isSubscribed && !auth.user)}
-							className={`w-full md:w-auto bg-amber-500 hover:bg-amber-600 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors duration-300 ease-in-out flex items-center justify-center space-x-2 shadow hover:shadow-md ${!flavorData || !selectedEffectivePrice || displayablePrices.length === 0 ? 'opacity-50 cursor-not-allowed' : ''}`}
+							disabled={!flavorData || !selectedEffectivePrice || displayablePrices.length === 0 || (isSubscribed && !auth.user) || isSelectedSoldOut}
+							className={`w-full md:w-auto bg-amber-500 hover:bg-amber-600 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors duration-300 ease-in-out flex items-center justify-center space-x-2 shadow hover:shadow-md ${!flavorData || !selectedEffectivePrice || displayablePrices.length === 0 || isSelectedSoldOut ? 'opacity-50 cursor-not-allowed' : ''}`}
 						>
 							<span className="material-symbols-outlined">add_shopping_cart</span>
-							<span>{selectedEffectivePrice?.isSubscription ? 'Add Subscription to Cart' : 'Add to Cart'}</span>
+							<span>{isSelectedSoldOut ? 'Sold Out' : selectedEffectivePrice?.isSubscription ? 'Add Subscription to Cart' : 'Add to Cart'}</span>
 						</button>
 					</div>
 
@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { loadStripe } from '@stripe/stripe-js';
+import { Elements, PaymentElement, useStripe, useElements } from '@stripe/react-stripe-js';
+import { useAuth } from '../context/AuthContext';
+import { PageTitle } from '../components/common/PageTitle';
+import { GiftCardPurchaseStatus } from '../types/data';
+import { formatCurrency } from '../utils/formatting';
+import { GIFT_CARD_AMOUNTS, GIFT_CARD_MIN_AMOUNT, GIFT_CARD_MAX_AMOUNT, GIFT_MESSAGE_MAX_LENGTH } from '../utils/gifts';
+
+const inputClassName = "block w-full rounded-md border-slate-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm p-2";
+
+// Confirms the gift card PaymentIntent; Stripe returns to /gift-cards?payment_intent=...
+const GiftCardPaymentForm: React.FC<{ amount: number }> = ({ amount }) => {
+    const stripe = useStripe();
+    const elements = useElements();
+    const [message, setMessage] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!stripe || !elements) return;
+        setIsLoading(true);
+        setMessage(null);
+        const { error } = await stripe.confirmPayment({
+            elements,
+            confirmParams: { return_url: `${window.location.origin}/gift-cards` },
+        });
+        if (error) {
+            setMessage(error.type === "card_error" || error.type === "validation_error"
+                ? error.message || "An unexpected payment error occurred."
+                : "An unexpected payment error occurred.");
+        }
+        setIsLoading(false);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <PaymentElement options={{ layout: "tabs" }} />
+            <button
+                disabled={isLoading || !stripe || !elements}
+                className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg text-lg transition-colors duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {isLoading ? <div className="spinner border-t-2 border-white border-solid rounded-full w-5 h-5 animate-spin mx-auto"></div> : `Pay ${formatCurrency(amount)}`}
+            </button>
+            {message && <p className="text-center text-red-600 text-sm">{message}</p>}
+        </form>
+    );
+};
+
+// What the buyer sees after paying
+const PurchaseStatus: React.FC<{ paymentIntentId: string }> = ({ paymentIntentId }) => {
+    const [purchase, setPurchase] = useState<GiftCardPurchaseStatus | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetch(`/api/gift-cards/purchase/${encodeURIComponent(paymentIntentId)}`)
+            .then(async (res) => {
+                const data = await res.json();
+                if (!res.ok) {
+                    throw new Error(data.message || 'Failed to load your gift card purchase.');
+                }
+                setPurchase(data as GiftCardPurchaseStatus);
+            })
+            .catch(err => {
+                console.error("Gift Card Purchase UI Error:", err);
+                setError(err.message || 'Failed to load your gift card purchase.');
+            });
+    }, [paymentIntentId]);
+
+    if (error) {
+        return <p className="text-red-600 bg-red-50 p-3 rounded"><span className="font-bold">Error:</span> {error}</p>;
+    }
+    if (!purchase) {
+        return <p className="text-center text-slate-500">Loading...</p>;
+    }
+    const recipient = purchase.recipientName || purchase.recipientEmail;
+    return (
+        <div className={purchase.status === 'active' ? "text-green-800 bg-green-50 p-4 rounded border border-green-200" : "text-slate-700 bg-slate-50 p-4 rounded border border-slate-200"}>
+            {purchase.status === 'active' ? (
+                <p>
+                    Thank you! Your {formatCurrency(purchase.amountCent / 100)} gift card {purchase.delivered ? 'has been emailed' : 'is on its way'} to {recipient}.
+                </p>
+            ) : purchase.status === 'pending' ? (
+                <p>
+                    We're confirming your payment. The {formatCurrency(purchase.amountCent / 100)} gift card will be emailed to {recipient} as soon as it goes through.
+                </p>
+            ) : (
+                <p>This gift card is no longer valid. Please contact us if you have questions.</p>
+            )}
+            <p className="mt-4 text-sm">
+                <Link to="/gift-cards" className="text-indigo-600 hover:text-indigo-800 font-medium">Buy another gift card</Link>
+            </p>
+        </div>
+    );
+};
+
+// Balance lookup for a code the customer has
+const BalanceCheck: React.FC = () => {
+    const [code, setCode] = useState('');
+    const [result, setResult] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
+
+    const handleCheck = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsChecking(true);
+        setResult(null);
+        setError(null);
+        try {
+            const res = await fetch('/api/gift-cards/check', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ code }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                throw new Error(data.message || `Server error: ${res.status}`);
+            }
+            setResult(`${data.code} has ${formatCurrency(data.balance)} left.`);
+        } catch (err: any) {
+            setError(err.message || 'Could not check the gift card.');
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleCheck} className="bg-white p-6 rounded-lg shadow-md">
+            <h2 className="text-lg font-semibold text-slate-800 mb-3">Check a Balance</h2>
+            <div className="flex space-x-2">
+                <input
+                    type="text"
+                    value={code}
+                    onChange={e => setCode(e.target.value)}
+                    placeholder="XXXX-XXXX-XXXX-XXXX"
+                    className={`${inputClassName} flex-1 uppercase`}
+                />
+                <button
+                    type="submit"
+                    disabled={isChecking || !code.trim()}
+                    className="px-4 py-2 bg-slate-700 text-white text-sm font-medium rounded-md hover:bg-slate-800 disabled:opacity-50"
+                >
+                    {isChecking ? 'Checking...' : 'Check'}
+                </button>
+            </div>
+            {result && <p className="text-green-700 text-sm mt-2">{result}</p>}
+            {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+        </form>
+    );
+};
+
+// Buy a gift card for someone: it is emailed to them with its code once the payment goes through
+const GiftCards = () => {
+    const [searchParams] = useSearchParams();
+    const { user } = useAuth();
+    const [amount, setAmount] = useState<number>(GIFT_CARD_AMOUNTS[1]);
+    const [customAmount, setCustomAmount] = useState('');
+    const [recipientEmail, setRecipientEmail] = useState('');
+    const [recipientName, setRecipientName] = useState('');
+    const [senderName, setSenderName] = useState('');
+    const [message, setMessage] = useState('');
+    const [purchaserEmail, setPurchaserEmail] = useState('');
+    const [clientSecret, setClientSecret] = useState<string | null>(null);
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const paymentIntentId = searchParams.get('payment_intent');
+    const stripePromise = process.env.STRIPE_PUBLISHABLE_KEY ? loadStripe(process.env.STRIPE_PUBLISHABLE_KEY) : null;
+
+    useEffect(() => {
+        if (user?.name && !senderName) {
+            setSenderName(user.name);
+        }
+    }, [user]);
+
+    const chosenAmount = customAmount ? parseInt(customAmount, 10) : amount;
+    const isAmountValid = Number.isInteger(chosenAmount) && chosenAmount >= GIFT_CARD_MIN_AMOUNT && chosenAmount <= GIFT_CARD_MAX_AMOUNT;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSubmitting(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/gift-cards', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    amount: chosenAmount,
+                    recipientEmail,
+                    recipientName: recipientName.trim() || null,
+                    senderName: senderName.trim() || null,
+                    message: message.trim() || null,
+                    purchaserEmail: user ? undefined : purchaserEmail,
+                }),
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                throw new Error(data.message || `Server error: ${res.status}`);
+            }
+            setClientSecret(data.clientSecret);
+        } catch (err: any) {
+            console.error("Gift card purchase error:", err);
+            setError(err.message || 'Failed to start the gift card purchase.');
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (paymentIntentId) {
+        return (
+            <div className="container mx-auto px-4 py-8 max-w-2xl">
+                <PageTitle title="Gift Cards" />
+                <PurchaseStatus paymentIntentId={paymentIntentId} />
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-2xl space-y-8">
+            <PageTitle title="Gift Cards" />
+            <p className="text-slate-600">
+                Send a gift card by email. The recipient gets a code they can use at checkout, and any balance left stays on the card for next time.
+            </p>
+
+            {clientSecret && stripePromise ? (
+                <div className="bg-white p-6 rounded-lg shadow-md space-y-4">
+                    <p className="text-sm text-slate-700">
+                        {formatCurrency(chosenAmount)} gift card for <span className="font-medium">{recipientName.trim() || recipientEmail}</span>.{' '}
+                        <button type="button" onClick={() => setClientSecret(null)} className="text-indigo-600 hover:text-indigo-800 underline">Change</button>
+                    </p>
+                    <Elements options={{ clientSecret, appearance: { theme: 'stripe' } }} stripe={stripePromise}>
+                        <GiftCardPaymentForm amount={chosenAmount} />
+                    </Elements>
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+                    <div>
+                        <span className="block text-sm font-medium text-slate-700 mb-1">Amount</span>
+                        <div className="flex flex-wrap gap-2">
+                            {GIFT_CARD_AMOUNTS.map(preset => (
+                                <button
+                                    key={preset}
+                                    type="button"
+                                    onClick={() => { setAmount(preset); setCustomAmount(''); }}
+                                    className={!customAmount && amount === preset
+                                        ? "px-4 py-2 rounded-md text-sm font-medium bg-indigo-600 text-white"
+                                        : "px-4 py-2 rounded-md text-sm font-medium bg-slate-100 text-slate-700 hover:bg-slate-200"}
+                                >
+                                    {formatCurrency(preset)}
+                                </button>
+                            ))}
+                            <input
+                                type="number"
+                                min={GIFT_CARD_MIN_AMOUNT}
+                                max={GIFT_CARD_MAX_AMOUNT}
+                                step={1}
+                                value={customAmount}
+                                onChange={e => setCustomAmount(e.target.value)}
+                                placeholder="Other amount"
+                                className={`${inputClassName} w-36`}
+                            />
+                        </div>
+                        {!isAmountValid && (
+                            <p className="text-xs text-red-600 mt-1">Choose a whole-dollar amount from ${GIFT_CARD_MIN_AMOUNT} to ${GIFT_CARD_MAX_AMOUNT}.</p>
+                        )}
+                    </div>
+                    <div>
+                        <label htmlFor="recipientEmail" className="block text-sm font-medium text-slate-700 mb-1">Recipient's Email</label>
+                        <input id="recipientEmail" type="email" required value={recipientEmail} onChange={e => setRecipientEmail(e.target.value)} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="recipientName" className="block text-sm font-medium text-slate-700 mb-1">Recipient's Name (Optional)</label>
+                        <input id="recipientName" type="text" maxLength={100} value={recipientName} onChange={e => setRecipientName(e.target.value)} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="senderName" className="block text-sm font-medium text-slate-700 mb-1">From (Optional)</label>
+                        <input id="senderName" type="text" maxLength={100} value={senderName} onChange={e => setSenderName(e.target.value)} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label htmlFor="giftCardMessage" className="block text-sm font-medium text-slate-700 mb-1">Message (Optional)</label>
+                        <textarea id="giftCardMessage" rows={3} maxLength={GIFT_MESSAGE_MAX_LENGTH} value={message} onChange={e => setMessage(e.target.value)} className={inputClassName} />
+                        <p className="text-xs text-slate-500 mt-1 text-right">{message.length}/{GIFT_MESSAGE_MAX_LENGTH}</p>
+                    </div>
+                    {!user && (
+                        <div>
+                            <label htmlFor="purchaserEmail" className="block text-sm font-medium text-slate-700 mb-1">Your Email (for the receipt)</label>
+                            <input id="purchaserEmail" type="email" required value={purchaserEmail} onChange={e => setPurchaserEmail(e.target.value)} className={inputClassName} />
+                        </div>
+                    )}
+                    {error && <p className="text-red-600 text-sm">{error}</p>}
+                    <button
+                        type="submit"
+                        disabled={isSubmitting || !isAmountValid}
+                        className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-bold py-3 px-6 rounded-lg transition-colors duration-300 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isSubmitting ? 'Preparing payment...' : 'Continue to Payment'}
+                    </button>
+                </form>
+            )}
+
+            <BalanceCheck />
+        </div>
+    );
+};
+
+export default GiftCards;
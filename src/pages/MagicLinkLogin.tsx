@@ -0,0 +1,111 @@
+import React, { useState, FormEvent } from 'react';
+import { useSearchParams, useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+
+// Linked from the login link email. Asks for a click rather than logging in on load, so link
+// scanners in mail clients don't use up the link. Accounts with two-factor authentication
+// enter their code here too.
+const MagicLinkLogin = () => {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+    const navigate = useNavigate();
+    const { user, login } = useAuth();
+    const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+    const [twoFactorCode, setTwoFactorCode] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const postLogin = async (url: string, body: object) => {
+        setError(null);
+        setLoading(true);
+        try {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.message || 'Failed to log you in.');
+            }
+            if (data.twoFactorRequired) {
+                setNeedsTwoFactor(true);
+                return;
+            }
+            login(data.user);
+            navigate('/profile');
+        } catch (err: any) {
+            console.error("Magic Link Login UI Error:", err);
+            setError(err.message || 'Failed to log you in.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleLogin = () => {
+        if (!token) return;
+        postLogin('/api/auth/magic-link/consume', { token });
+    };
+
+    const handleTwoFactorSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        postLogin('/api/auth/2fa/login', { code: twoFactorCode });
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-md text-center">
+            <h1 className="text-2xl font-bold mb-4">Log In</h1>
+            {!token ? (
+                <p className="text-red-600">This login link is invalid.</p>
+            ) : user ? (
+                <>
+                    <p className="text-slate-600 mb-6">You're already logged in as {user.email}.</p>
+                    <Link to="/profile" className="text-indigo-600 hover:text-indigo-800 font-medium">
+                        Go to your profile
+                    </Link>
+                </>
+            ) : needsTwoFactor ? (
+                <form onSubmit={handleTwoFactorSubmit}>
+                    <p className="text-slate-600 mb-6">
+                        Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                    </p>
+                    {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+                    <input
+                        type="text"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        value={twoFactorCode}
+                        onChange={(e) => setTwoFactorCode(e.target.value)}
+                        placeholder="123456"
+                        className="shadow appearance-none border rounded w-full py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline tracking-widest mb-4"
+                        disabled={loading}
+                    />
+                    <button
+                        type="submit"
+                        disabled={loading || !twoFactorCode.trim()}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                    >
+                        {loading ? 'Verifying...' : 'Verify'}
+                    </button>
+                </form>
+            ) : (
+                <>
+                    <p className="text-slate-600 mb-6">
+                        Log in to your account with the link we emailed you. It works once.
+                    </p>
+                    {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+                    <button
+                        type="button"
+                        onClick={handleLogin}
+                        disabled={loading}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                    >
+                        {loading ? 'Logging In...' : 'Log In'}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MagicLinkLogin;
@@ -97,6 +97,8 @@ export const OrderConfirmation = () => {
         const paymentIntentId = searchParams.get('payment_intent');
         const setupIntentId = searchParams.get('setup_intent');
         const redirectStatus = searchParams.get('redirect_status');
+        // Set instead of an intent when a gift card paid the whole order
+        const checkoutAttemptParam = searchParams.get('checkout_attempt');
 
         // Removed dependency/check on retrievedCheckoutData
 
@@ -222,6 +224,37 @@ export const OrderConfirmation = () => {
                 .finally(() => {
                      setIsLoading(false);
                 });
+        } else if (checkoutAttemptParam) {
+            // --- Handle Gift Card Flow (order already placed, nothing charged) ---
+            console.log(`Order Confirmation: Handling gift card order for checkout ${checkoutAttemptParam}`);
+            setIsLoading(true);
+            setOrderError(null);
+            setMessage('Retrieving order details...');
+            setConfirmationType('order');
+
+            fetch(`/api/stripe/order/${encodeURIComponent(checkoutAttemptParam)}`)
+                .then(async (res) => {
+                    if (!res.ok) {
+                        const errorData = await res.json().catch(() => ({}));
+                        throw new Error(errorData.error || `Server error: ${res.status}`);
+                    }
+                    return res.json();
+                })
+                .then((data) => {
+                    setFetchedOrderDetails(data.orderDetails);
+                    setMessage(`Paid with your gift card! Your order #${data.orderDetails.id} is confirmed.`);
+                    setIsSuccess(true);
+                })
+                .catch(error => {
+                    console.error("Error fetching gift card order:", error);
+                    setMessage(error.message || "Failed to retrieve your order.");
+                    setOrderError(error.message || "An error occurred while loading your order.");
+                    setIsSuccess(false);
+                    setConfirmationType(null);
+                })
+                .finally(() => {
+                    setIsLoading(false);
+                });
         } else {
             // --- No Intent ID Found --- 
             console.error("Order Confirmation: Missing payment_intent OR setup_intent in URL.");
@@ -6,9 +6,16 @@ import { OrderData, ApiUser } from '../types/data';
 // Import the new view components
 import { UserProfileView } from '../components/profile/UserProfileView';
 import { AdminOrdersView } from '../components/profile/AdminOrdersView';
+import AdminCatalogManager from '../components/profile/AdminCatalogManager';
+import AdminGiftCardManager from '../components/profile/AdminGiftCardManager';
+import AdminLockedAccounts from '../components/profile/AdminLockedAccounts';
 import AddressManager from '../components/profile/AddressManager';
 import UserProfileModal from '../components/profile/UserProfileModal';
 import CardManager from '../components/profile/CardManager';
+import PastDueBanner from '../components/profile/PastDueBanner';
+import EmailVerificationBanner from '../components/profile/EmailVerificationBanner';
+import TwoFactorSettings from '../components/profile/TwoFactorSettings';
+import ActiveSessions from '../components/profile/ActiveSessions';
 import { formatPhoneNumber } from '../utils/formatting';
 
 // NOTE: The interfaces ApiUser, OrderItemData, OrderData were moved to ../types/data.ts
@@ -69,10 +76,11 @@ const Profile: React.FC = () => {
     };
 
     // Handler to update local state after status change via API
-    const handleOrderStatusUpdate = (orderId: number, newStatus: string) => {
+    // Shipment and refund actions also return the order's updated shipments/refunds
+    const handleOrderStatusUpdate = (orderId: number, newStatus: string, changes?: Partial<OrderData>) => {
         setFetchedOrders(currentOrders => 
             currentOrders.map(order => 
-                order.id === orderId ? { ...order, status: newStatus } : order
+                order.id === orderId ? { ...order, ...changes, status: newStatus } : order
             )
         );
         // Optional: Show a success toast/message here
@@ -119,10 +127,19 @@ const Profile: React.FC = () => {
                     formatCurrency={formatCurrency} 
                     onOrderStatusUpdate={handleOrderStatusUpdate} 
                 />
+                <AdminCatalogManager />
+                <AdminGiftCardManager />
+                <AdminLockedAccounts />
                 <div className="mt-8 pt-6 border-t border-slate-200">
                   <h3 className="text-lg font-semibold mb-4">Your Saved Addresses</h3>
                   <AddressManager />
                 </div>
+                <div className="mt-8 pt-6 border-t border-slate-200">
+                  <TwoFactorSettings />
+                </div>
+                <div className="mt-8 pt-6 border-t border-slate-200">
+                  <ActiveSessions />
+                </div>
 
                 <UserProfileModal 
                     isOpen={isProfileModalOpen} 
@@ -132,6 +149,8 @@ const Profile: React.FC = () => {
               </>
             ) : (
                 <>
+                    <EmailVerificationBanner />
+                    <PastDueBanner />
                     <UserProfileView 
                         user={user as ApiUser} 
                         orders={fetchedOrders} 
@@ -143,9 +162,15 @@ const Profile: React.FC = () => {
                     <div className="mt-8 pt-6 border-t border-slate-200">
                         <AddressManager />
                     </div>
-                    <div className="mt-8 pt-6 border-t border-slate-200">
+                    <div id="payment-methods" className="mt-8 pt-6 border-t border-slate-200">
                         <CardManager />
                     </div>
+                    <div className="mt-8 pt-6 border-t border-slate-200">
+                        <TwoFactorSettings />
+                    </div>
+                    <div className="mt-8 pt-6 border-t border-slate-200">
+                        <ActiveSessions />
+                    </div>
                 </>
             )}
         </div>
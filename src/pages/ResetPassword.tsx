@@ -66,6 +66,12 @@ const ResetPassword = () => {
                 throw new Error(data.message || 'Failed to reset password.');
             }
 
+            // Accounts with two-factor authentication aren't logged in automatically
+            if (data.twoFactorRequired) {
+                setSuccess(data.message);
+                return;
+            }
+
             // On successful password reset, the backend logs the user in.
             // We might want to update AuthContext here if it exists and is used.
             // For now, just show success and redirect.
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+
+// Linked from the footer of abandoned checkout reminder emails. Asks for a click rather than
+// unsubscribing on load, so link scanners in mail clients can't unsubscribe people.
+const UnsubscribeCartReminders = () => {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const handleUnsubscribe = async () => {
+        if (!token) return;
+        setError(null);
+        setLoading(true);
+        try {
+            const response = await fetch('/api/cart/reminders/unsubscribe', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.message || 'Failed to unsubscribe.');
+            }
+            setSuccess(data.message);
+        } catch (err: any) {
+            console.error("Unsubscribe UI Error:", err);
+            setError(err.message || 'Failed to unsubscribe.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-md text-center">
+            <h1 className="text-2xl font-bold mb-4">Cart Reminder Emails</h1>
+            {!token ? (
+                <p className="text-red-600">This unsubscribe link is invalid.</p>
+            ) : success ? (
+                <>
+                    <p className="text-green-700 mb-6">{success}</p>
+                    <Link to="/" className="text-indigo-600 hover:text-indigo-800 font-medium">Back to the shop</Link>
+                </>
+            ) : (
+                <>
+                    <p className="text-slate-600 mb-6">
+                        Stop emails reminding you about checkouts you didn't finish? Order and subscription emails are not affected.
+                    </p>
+                    {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+                    <button
+                        type="button"
+                        onClick={handleUnsubscribe}
+                        disabled={loading}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                    >
+                        {loading ? 'Unsubscribing...' : 'Unsubscribe'}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default UnsubscribeCartReminders;
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { PageTitle } from '../components/common/PageTitle';
+import CardManager from '../components/profile/CardManager';
+import { PastDueNotice } from '../components/profile/PastDueBanner';
+import { SubscriptionDunningNotice } from '../types/data';
+
+// Landing page for the link in payment failed emails: update the card, then retry the renewal.
+// Not behind ProtectedRoute, so the token survives logging in from here.
+const UpdatePayment = () => {
+    const [searchParams] = useSearchParams();
+    const { user, isLoading: isAuthLoading, openLogin } = useAuth();
+    const [notice, setNotice] = useState<SubscriptionDunningNotice | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const token = searchParams.get('token');
+
+    useEffect(() => {
+        if (isAuthLoading || !user) return;
+        if (!token) {
+            setError('This link is missing its token.');
+            return;
+        }
+
+        setError(null);
+        fetch(`/api/subscriptions/dunning/link?token=${encodeURIComponent(token)}`)
+            .then(async (res) => {
+                const data = await res.json();
+                if (!res.ok) {
+                    throw new Error(data.message || 'Failed to load your payment details.');
+                }
+                setNotice(data as SubscriptionDunningNotice);
+            })
+            .catch(err => {
+                console.error("Update Payment UI Error:", err);
+                setError(err.message || 'Failed to load your payment details.');
+            });
+    }, [token, user, isAuthLoading]);
+
+    if (isAuthLoading) {
+        return <div className="container mx-auto px-4 py-8 text-center"><p>Loading...</p></div>;
+    }
+
+    if (!user) {
+        return (
+            <div className="container mx-auto px-4 py-8 max-w-md text-center">
+                <h1 className="text-2xl font-bold mb-4">Update your payment method</h1>
+                <p className="text-slate-600 mb-6">Please log in to the account this email was sent to.</p>
+                <button
+                    onClick={openLogin}
+                    className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium"
+                >
+                    Log In
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-2xl">
+            <PageTitle title="Update Payment Method" />
+
+            {error && <p className="text-red-600 bg-red-50 p-3 rounded mb-4"><span className="font-bold">Error:</span> {error}</p>}
+
+            {notice && (notice.status === 'open' ? (
+                <PastDueNotice notice={notice} onRecovered={setNotice} />
+            ) : notice.status === 'recovered' ? (
+                <p className="text-green-700 bg-green-50 p-4 rounded border border-green-200">
+                    Your {notice.productName} subscription is paid up. Thank you!
+                </p>
+            ) : (
+                <p className="text-slate-600 bg-slate-50 p-4 rounded">
+                    Your {notice.productName} subscription was canceled because the payment couldn't be collected.
+                    You can start a new one from the <Link to="/flavors" className="text-indigo-600 hover:text-indigo-800 font-medium">shop</Link>.
+                </p>
+            ))}
+
+            <div className="mt-8">
+                <CardManager />
+            </div>
+            <p className="mt-6 text-sm">
+                <Link to="/profile" className="text-indigo-600 hover:text-indigo-800 font-medium">Back to your profile</Link>
+            </p>
+        </div>
+    );
+};
+
+export default UpdatePayment;
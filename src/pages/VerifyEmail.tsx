@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+
+// Linked from the verification email. Asks for a click rather than verifying on load, so link
+// scanners in mail clients don't confirm addresses nobody has looked at.
+const VerifyEmail = () => {
+    const [searchParams] = useSearchParams();
+    const token = searchParams.get('token');
+    const { user, checkAuthStatus } = useAuth();
+    const [error, setError] = useState<string | null>(null);
+    const [success, setSuccess] = useState<string | null>(null);
+    const [loading, setLoading] = useState(false);
+
+    const handleVerify = async () => {
+        if (!token) return;
+        setError(null);
+        setLoading(true);
+        try {
+            const response = await fetch('/api/auth/verify-email', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ token }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.message || 'Failed to confirm your email.');
+            }
+            setSuccess(data.message);
+            if (user) {
+                await checkAuthStatus(); // Pick up the verified flag
+            }
+        } catch (err: any) {
+            console.error("Verify Email UI Error:", err);
+            setError(err.message || 'Failed to confirm your email.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="container mx-auto px-4 py-8 max-w-md text-center">
+            <h1 className="text-2xl font-bold mb-4">Confirm Your Email</h1>
+            {!token ? (
+                <p className="text-red-600">This verification link is invalid.</p>
+            ) : success ? (
+                <>
+                    <p className="text-green-700 mb-6">{success}</p>
+                    <Link to={user ? '/profile' : '/'} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                        {user ? 'Go to your profile' : 'Back to the shop'}
+                    </Link>
+                </>
+            ) : (
+                <>
+                    <p className="text-slate-600 mb-6">
+                        Confirm this email address for your account so you can start subscriptions and save cards.
+                    </p>
+                    {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+                    <button
+                        type="button"
+                        onClick={handleVerify}
+                        disabled={loading}
+                        className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 text-sm font-medium disabled:opacity-50"
+                    >
+                        {loading ? 'Confirming...' : 'Confirm Email'}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default VerifyEmail;
@@ -18,6 +18,12 @@ import { Checkout } from '../pages/Checkout';
 import { OrderConfirmation } from '../pages/OrderConfirmation';
 import Profile from '../pages/Profile';
 import ResetPassword from '../pages/ResetPassword';
+import VerifyEmail from '../pages/VerifyEmail';
+import MagicLinkLogin from '../pages/MagicLinkLogin';
+import CartRecovery from '../pages/CartRecovery';
+import UnsubscribeCartReminders from '../pages/UnsubscribeCartReminders';
+import UpdatePayment from '../pages/UpdatePayment';
+import GiftCards from '../pages/GiftCards';
 
 import { Header } from '../components/header/Header';
 import { Footer } from '../components/footer/Footer';
@@ -39,12 +45,18 @@ const AppRoutes: React.FC = () => {
 					<Route path="/stores" element={<Stores />} />
 					<Route path="/story" element={<Story />} />
 					<Route path="/cart" element={<Cart />} />
+					<Route path="/cart/recover" element={<CartRecovery />} />
 					<Route path="/checkout" element={<Checkout />} />
 					<Route path="/order-confirmation" element={<OrderConfirmation />} />
+					<Route path="/gift-cards" element={<GiftCards />} />
 					<Route path="/contact" element={<Contact />} />
 					<Route path="/news" element={<News />} />
 					<Route path="/news/:slug" element={<NewsArticlePage />} />
 					<Route path="/reset-password" element={<ResetPassword />} />
+					<Route path="/verify-email" element={<VerifyEmail />} />
+					<Route path="/login/magic" element={<MagicLinkLogin />} />
+					<Route path="/unsubscribe/cart-reminders" element={<UnsubscribeCartReminders />} />
+					<Route path="/billing/update-payment" element={<UpdatePayment />} />
 					<Route element={<ProtectedRoute />}>
 						<Route path="/profile" element={<Profile />} />
 					</Route>
@@ -1,5 +1,6 @@
 import express, { Request, Response, NextFunction } from 'express';
 import { PrismaClient, Prisma } from '@prisma/client';
+import { checkServiceability } from '../services/shipping';
 // SessionData type will be augmented by the declaration in auth.ts
 
 const prisma = new PrismaClient();
@@ -156,6 +157,8 @@ router.put('/:addressId', async (req: Request, res: Response) => {
     return res.status(400).json({ message: 'Invalid address type. Must be SHIPPING or BILLING.' });
   }
 
+  let notServiceableMessage: string | null = null; // Set when a subscription's address is moved somewhere we don't ship
+
   try {
     // Use transaction to ensure atomicity
     const updatedAddress = await prisma.$transaction(async (tx) => {
@@ -172,6 +175,28 @@ router.put('/:addressId', async (req: Request, res: Response) => {
         throw new Error('Forbidden'); // Custom error type for handling
       }
 
+      // Subscriptions ship to this address, so it has to stay a shipping address we can deliver to
+      if (existingAddress.type === 'SHIPPING') {
+        const linkedCount = await tx.subscription.count({
+          where: { shippingAddressId: id, status: { not: 'canceled' } },
+        });
+        if (linkedCount > 0 && type === 'BILLING') {
+          throw new Error('AddressInUse');
+        }
+        if (linkedCount > 0) {
+          // Same check as checkout and choosing the subscription's address, so the next renewal can ship
+          const serviceability = checkServiceability({
+            state: state ?? existingAddress.state,
+            postalCode: postalCode ?? existingAddress.postalCode,
+            country: country ?? existingAddress.country,
+          });
+          if (!serviceability.ok) {
+            notServiceableMessage = serviceability.message;
+            throw new Error('AddressNotServiceable');
+          }
+        }
+      }
+
       // 2. If setting as default, unset other defaults of the same type
       if (isDefault === true && !existingAddress.isDefault) {
         await tx.address.updateMany({
@@ -223,6 +248,12 @@ router.put('/:addressId', async (req: Request, res: Response) => {
       // Use 403 or 404 to avoid revealing existence
       return res.status(404).json({ message: 'Address not found or access denied.' }); 
     }
+    if (error.message === 'AddressInUse') {
+      return res.status(409).json({ message: 'This address is used by a subscription. Choose another address for the subscription first.' });
+    }
+    if (error.message === 'AddressNotServiceable') {
+      return res.status(400).json({ message: `${notServiceableMessage} This address is used by a subscription, so it has to be one we can ship to.` });
+    }
     // Handle potential Prisma errors
     if (error instanceof Prisma.PrismaClientKnownRequestError) {
       // e.g., if update fails validation defined in schema
@@ -258,6 +289,14 @@ router.delete('/:addressId', async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Address not found or access denied.' }); 
     }
 
+    // Don't leave a subscription without anywhere to ship
+    const linkedCount = await prisma.subscription.count({
+      where: { shippingAddressId: id, status: { not: 'canceled' } },
+    });
+    if (linkedCount > 0) {
+      return res.status(409).json({ message: 'This address is used by a subscription. Choose another address for the subscription first.' });
+    }
+
     // 2. Delete the address if ownership is verified
     await prisma.address.delete({
       where: {
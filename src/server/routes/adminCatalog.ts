@@ -0,0 +1,422 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import dotenv from 'dotenv';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { upsertProductFromStripe, upsertPriceFromStripe } from '../services/catalogSync';
+import { getMetadataValue, getIntMetadataValue, parseBooleanMetadata, buildProductMetadata, buildPriceMetadata } from '../utils/catalog';
+
+dotenv.config();
+
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+if (!stripeSecretKey) {
+    console.error("ADMIN CATALOG ROUTE Error: STRIPE_SECRET_KEY is not set. Catalog changes cannot be written to Stripe.");
+}
+const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, { apiVersion: '2025-03-31.basil' }) : null;
+
+// Uploaded product images are served from /public like the rest of the static assets
+const PRODUCT_IMAGE_DIR = path.join(process.cwd(), 'public', 'images', 'products');
+const MAX_PRODUCT_IMAGES = 8; // Stripe limit for Product.images
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+};
+
+const router: Router = express.Router();
+
+// --- Middleware ---
+const isAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.user || req.session.user.role !== 'ADMIN') {
+        return res.status(403).json({ message: 'Forbidden: Admin access required.' });
+    }
+    next();
+};
+
+const requireStripe = (_req: Request, res: Response, next: NextFunction) => {
+    if (!stripe) {
+        return res.status(500).json({ message: 'Stripe is not configured.' });
+    }
+    next();
+};
+
+router.use(isAdmin);
+
+// --- Zod Schemas ---
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const optionalText = z.string().trim().max(200).nullable().optional();
+
+const FlavorSchema = z.object({
+    name: z.string().trim().min(1, { message: "Name is required" }).max(200),
+    description: z.string().trim().max(2000).nullable().optional(),
+    simpleName: optionalText,
+    slug: z.string().trim().regex(SLUG_PATTERN, { message: "Slug may only contain lowercase letters, numbers and single dashes" }).nullable().optional(),
+    hasDairy: z.boolean(),
+    hasEgg: z.boolean(),
+    withoutDairy: z.boolean(),
+    withoutEgg: z.boolean(),
+    notFlavor: z.boolean(),
+    boxEligible: z.boolean().default(false),
+}).refine(data => data.notFlavor || !!data.slug, { message: "Slug is required for flavors", path: ['slug'] });
+
+const PriceMetadataSchema = z.object({
+    packSize: optionalText,
+    unitDescription: optionalText,
+    displayName: optionalText,
+    subscriptionId: z.string().trim().nullable().optional(),
+    boxSize: z.number().int().min(2).max(24).nullable().optional(),
+    stockQuantity: z.number().int().min(0).nullable().optional(),
+    isDefault: z.boolean().optional(),
+});
+
+const CreatePriceSchema = PriceMetadataSchema.extend({
+    unitAmount: z.number().int().positive({ message: "Amount (in cents) must be positive" }),
+    currency: z.string().trim().length(3).default('usd'),
+    recurringInterval: z.enum(['day', 'week', 'month', 'year']).nullable().optional(),
+});
+
+// --- Helpers ---
+
+type CatalogProductWithPrices = Prisma.ProductGetPayload<{ include: { prices: true } }>;
+
+// Shapes a local product row for the admin UI (metadata parsed into typed fields)
+const toAdminProduct = (product: CatalogProductWithPrices) => ({
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    active: product.active,
+    images: product.images,
+    defaultPriceId: product.defaultPriceId,
+    simpleName: getMetadataValue(product.metadata, 'simpleName') || null,
+    slug: getMetadataValue(product.metadata, 'slug') || null,
+    hasDairy: parseBooleanMetadata(getMetadataValue(product.metadata, 'hasDairy')),
+    hasEgg: parseBooleanMetadata(getMetadataValue(product.metadata, 'hasEgg')),
+    withoutDairy: parseBooleanMetadata(getMetadataValue(product.metadata, 'withoutDairy')),
+    withoutEgg: parseBooleanMetadata(getMetadataValue(product.metadata, 'withoutEgg')),
+    notFlavor: parseBooleanMetadata(getMetadataValue(product.metadata, 'notFlavor')),
+    boxEligible: parseBooleanMetadata(getMetadataValue(product.metadata, 'boxEligible')),
+    prices: product.prices.map(price => ({
+        id: price.id,
+        active: price.active,
+        currency: price.currency,
+        unitAmount: price.unitAmount,
+        recurringInterval: price.recurringInterval,
+        packSize: getMetadataValue(price.metadata, 'packSize') || null,
+        unitDescription: getMetadataValue(price.metadata, 'unitDescription') || null,
+        displayName: getMetadataValue(price.metadata, 'displayName') || null,
+        subscriptionId: getMetadataValue(price.metadata, 'subscriptionId') || null,
+        boxSize: getIntMetadataValue(price.metadata, 'boxSize'),
+        stockQuantity: price.stockQuantity,
+    })),
+});
+
+const loadAdminProduct = async (productId: string) => {
+    const product = await prisma.product.findUnique({
+        where: { id: productId },
+        include: { prices: { orderBy: [{ active: 'desc' }, { unitAmount: 'asc' }] } },
+    });
+    return product ? toAdminProduct(product) : null;
+};
+
+/**
+ * Checks whether a slug is already used by another product in the local catalog
+ * (archived products included, so restoring one can never create a duplicate).
+ */
+const isSlugTaken = async (slug: string, excludeProductId?: string): Promise<boolean> => {
+    const match = await prisma.product.findFirst({
+        where: {
+            metadata: { path: ['slug'], equals: slug },
+            ...(excludeProductId ? { id: { not: excludeProductId } } : {}),
+        },
+        select: { id: true },
+    });
+    return !!match;
+};
+
+/**
+ * Ensures a subscriptionId on a one-time price points at a recurring price of the same product.
+ * @returns An error message, or null if valid.
+ */
+const validateSubscriptionLink = async (productId: string, subscriptionId: string | null | undefined): Promise<string | null> => {
+    if (!subscriptionId) return null;
+    const target = await prisma.price.findUnique({ where: { id: subscriptionId } });
+    if (!target || target.productId !== productId) {
+        return 'Linked subscription price must belong to the same flavor.';
+    }
+    if (!target.recurringInterval) {
+        return 'Linked subscription price must be a recurring price.';
+    }
+    return null;
+};
+
+// Surfaces Stripe validation errors to the admin instead of a generic 500
+const sendCatalogError = (res: Response, action: string, error: any) => {
+    console.error(`Admin Catalog: Error trying to ${action}:`, error);
+    if (error?.type === 'StripeInvalidRequestError') {
+        return res.status(400).json({ message: `Stripe rejected the change: ${error.message}` });
+    }
+    res.status(500).json({ message: `Failed to ${action}.` });
+};
+
+// --- Routes ---
+
+// GET /api/admin/catalog - All products (active and archived) with all prices
+router.get('/', async (_req: Request, res: Response) => {
+    try {
+        const products = await prisma.product.findMany({
+            include: { prices: { orderBy: [{ active: 'desc' }, { unitAmount: 'asc' }] } },
+            orderBy: [{ active: 'desc' }, { name: 'asc' }],
+        });
+        res.status(200).json(products.map(toAdminProduct));
+    } catch (error) {
+        sendCatalogError(res, 'load catalog', error);
+    }
+});
+
+// GET /api/admin/catalog/slug-available?slug=...&productId=... - Live slug check for the form
+router.get('/slug-available', async (req: Request, res: Response) => {
+    const slug = typeof req.query.slug === 'string' ? req.query.slug.trim() : '';
+    const productId = typeof req.query.productId === 'string' ? req.query.productId : undefined;
+    if (!SLUG_PATTERN.test(slug)) {
+        return res.status(200).json({ available: false, message: 'Slug may only contain lowercase letters, numbers and single dashes.' });
+    }
+    try {
+        const taken = await isSlugTaken(slug, productId);
+        res.status(200).json({ available: !taken, message: taken ? 'Slug is already used by another product.' : null });
+    } catch (error) {
+        sendCatalogError(res, 'check slug', error);
+    }
+});
+
+// POST /api/admin/catalog/products - Create a flavor in Stripe and the local catalog
+router.post('/products', requireStripe, async (req: Request, res: Response) => {
+    const validation = FlavorSchema.safeParse(req.body);
+    if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid flavor data.', errors: validation.error.flatten() });
+    }
+    const data = validation.data;
+
+    try {
+        if (data.slug && await isSlugTaken(data.slug)) {
+            return res.status(409).json({ message: `Slug "${data.slug}" is already in use.` });
+        }
+        const product = await stripe!.products.create({
+            name: data.name,
+            description: data.description || undefined,
+            metadata: buildProductMetadata(data),
+        });
+        await upsertProductFromStripe(product);
+        console.log(`Admin Catalog: Created product ${product.id} (${product.name}).`);
+        res.status(201).json(await loadAdminProduct(product.id));
+    } catch (error) {
+        sendCatalogError(res, 'create flavor', error);
+    }
+});
+
+// PUT /api/admin/catalog/products/:productId - Update flavor name/description/metadata
+router.put('/products/:productId', requireStripe, async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const validation = FlavorSchema.safeParse(req.body);
+    if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid flavor data.', errors: validation.error.flatten() });
+    }
+    const data = validation.data;
+
+    try {
+        const existing = await prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+        if (!existing) {
+            return res.status(404).json({ message: 'Product not found.' });
+        }
+        if (data.slug && await isSlugTaken(data.slug, productId)) {
+            return res.status(409).json({ message: `Slug "${data.slug}" is already in use.` });
+        }
+        const product = await stripe!.products.update(productId, {
+            name: data.name,
+            description: data.description || '',
+            metadata: buildProductMetadata(data),
+        });
+        await upsertProductFromStripe(product);
+        console.log(`Admin Catalog: Updated product ${productId}.`);
+        res.status(200).json(await loadAdminProduct(productId));
+    } catch (error) {
+        sendCatalogError(res, 'update flavor', error);
+    }
+});
+
+// POST /api/admin/catalog/products/:productId/archive and /restore - Toggle product visibility
+const setProductActive = (active: boolean) => async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    try {
+        const existing = await prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+        if (!existing) {
+            return res.status(404).json({ message: 'Product not found.' });
+        }
+        const product = await stripe!.products.update(productId, { active });
+        await upsertProductFromStripe(product);
+        console.log(`Admin Catalog: ${active ? 'Restored' : 'Archived'} product ${productId}.`);
+        res.status(200).json(await loadAdminProduct(productId));
+    } catch (error) {
+        sendCatalogError(res, active ? 'restore flavor' : 'archive flavor', error);
+    }
+};
+router.post('/products/:productId/archive', requireStripe, setProductActive(false));
+router.post('/products/:productId/restore', requireStripe, setProductActive(true));
+
+// POST /api/admin/catalog/products/:productId/images - Upload an image (raw body, Content-Type image/*)
+router.post('/products/:productId/images', requireStripe, express.raw({ type: 'image/*', limit: '5mb' }), async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const contentType = (req.headers['content-type'] || '').split(';')[0].trim();
+    const extension = IMAGE_EXTENSIONS[contentType];
+    if (!extension) {
+        return res.status(400).json({ message: 'Unsupported image type. Use PNG, JPEG, WebP or GIF.' });
+    }
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: 'Image data is missing.' });
+    }
+
+    try {
+        const existing = await prisma.product.findUnique({ where: { id: productId }, select: { images: true } });
+        if (!existing) {
+            return res.status(404).json({ message: 'Product not found.' });
+        }
+
+        await fs.promises.mkdir(PRODUCT_IMAGE_DIR, { recursive: true });
+        const fileName = `${productId}-${crypto.randomUUID()}.${extension}`;
+        await fs.promises.writeFile(path.join(PRODUCT_IMAGE_DIR, fileName), req.body);
+
+        // Stripe requires absolute URLs for product images
+        const baseUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+        const imageUrl = `${baseUrl}/images/products/${fileName}`;
+        const images = [imageUrl, ...existing.images.filter(url => url !== imageUrl)].slice(0, MAX_PRODUCT_IMAGES);
+
+        const product = await stripe!.products.update(productId, { images });
+        await upsertProductFromStripe(product);
+        console.log(`Admin Catalog: Uploaded image ${fileName} for product ${productId}.`);
+        res.status(200).json(await loadAdminProduct(productId));
+    } catch (error) {
+        sendCatalogError(res, 'upload image', error);
+    }
+});
+
+// POST /api/admin/catalog/products/:productId/prices - Create a price option
+router.post('/products/:productId/prices', requireStripe, async (req: Request, res: Response) => {
+    const { productId } = req.params;
+    const validation = CreatePriceSchema.safeParse(req.body);
+    if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid price data.', errors: validation.error.flatten() });
+    }
+    const data = validation.data;
+
+    try {
+        const existing = await prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+        if (!existing) {
+            return res.status(404).json({ message: 'Product not found.' });
+        }
+        if (data.recurringInterval && data.subscriptionId) {
+            return res.status(400).json({ message: 'A subscription price cannot link to another subscription price.' });
+        }
+        if (data.boxSize && !data.recurringInterval) {
+            return res.status(400).json({ message: 'Only subscription prices can be build-your-own boxes.' });
+        }
+        const linkError = await validateSubscriptionLink(productId, data.subscriptionId);
+        if (linkError) {
+            return res.status(400).json({ message: linkError });
+        }
+
+        const price = await stripe!.prices.create({
+            product: productId,
+            unit_amount: data.unitAmount,
+            currency: data.currency.toLowerCase(),
+            recurring: data.recurringInterval ? { interval: data.recurringInterval } : undefined,
+            metadata: buildPriceMetadata(data),
+        });
+        await upsertPriceFromStripe(price, stripe!);
+        if (data.stockQuantity !== undefined) {
+            await prisma.price.update({ where: { id: price.id }, data: { stockQuantity: data.stockQuantity } });
+        }
+        if (data.isDefault) {
+            await upsertProductFromStripe(await stripe!.products.update(productId, { default_price: price.id }));
+        }
+        console.log(`Admin Catalog: Created price ${price.id} for product ${productId}.`);
+        res.status(201).json(await loadAdminProduct(productId));
+    } catch (error) {
+        sendCatalogError(res, 'create price', error);
+    }
+});
+
+// PUT /api/admin/catalog/prices/:priceId - Update price metadata, default flag and stock.
+// Amount/currency/interval are immutable in Stripe; create a new price and archive the old one instead.
+router.put('/prices/:priceId', requireStripe, async (req: Request, res: Response) => {
+    const { priceId } = req.params;
+    const validation = PriceMetadataSchema.safeParse(req.body);
+    if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid price data.', errors: validation.error.flatten() });
+    }
+    const data = validation.data;
+
+    try {
+        const existing = await prisma.price.findUnique({ where: { id: priceId } });
+        if (!existing) {
+            return res.status(404).json({ message: 'Price not found.' });
+        }
+        if (existing.recurringInterval && data.subscriptionId) {
+            return res.status(400).json({ message: 'A subscription price cannot link to another subscription price.' });
+        }
+        if (data.boxSize && !existing.recurringInterval) {
+            return res.status(400).json({ message: 'Only subscription prices can be build-your-own boxes.' });
+        }
+        if (data.subscriptionId === priceId) {
+            return res.status(400).json({ message: 'A price cannot link to itself.' });
+        }
+        const linkError = await validateSubscriptionLink(existing.productId, data.subscriptionId);
+        if (linkError) {
+            return res.status(400).json({ message: linkError });
+        }
+
+        const price = await stripe!.prices.update(priceId, { metadata: buildPriceMetadata(data) });
+        await upsertPriceFromStripe(price, stripe!);
+        if (data.stockQuantity !== undefined) {
+            await prisma.price.update({ where: { id: priceId }, data: { stockQuantity: data.stockQuantity } });
+        }
+        if (data.isDefault) {
+            await upsertProductFromStripe(await stripe!.products.update(existing.productId, { default_price: priceId }));
+        }
+        console.log(`Admin Catalog: Updated price ${priceId}.`);
+        res.status(200).json(await loadAdminProduct(existing.productId));
+    } catch (error) {
+        sendCatalogError(res, 'update price', error);
+    }
+});
+
+// POST /api/admin/catalog/prices/:priceId/archive and /restore - Toggle a price option
+const setPriceActive = (active: boolean) => async (req: Request, res: Response) => {
+    const { priceId } = req.params;
+    try {
+        const existing = await prisma.price.findUnique({
+            where: { id: priceId },
+            include: { product: { select: { defaultPriceId: true } } },
+        });
+        if (!existing) {
+            return res.status(404).json({ message: 'Price not found.' });
+        }
+        if (!active && existing.product.defaultPriceId === priceId) {
+            return res.status(400).json({ message: 'Cannot archive the default price. Set another price as default first.' });
+        }
+        const price = await stripe!.prices.update(priceId, { active });
+        await upsertPriceFromStripe(price, stripe!);
+        console.log(`Admin Catalog: ${active ? 'Restored' : 'Archived'} price ${priceId}.`);
+        res.status(200).json(await loadAdminProduct(existing.productId));
+    } catch (error) {
+        sendCatalogError(res, active ? 'restore price' : 'archive price', error);
+    }
+};
+router.post('/prices/:priceId/archive', requireStripe, setPriceActive(false));
+router.post('/prices/:priceId/restore', requireStripe, setPriceActive(true));
+
+export default router;
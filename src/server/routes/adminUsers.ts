@@ -0,0 +1,48 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { getLockedAccounts, unlockAccount } from '../services/authThrottle';
+
+const router: Router = express.Router();
+
+// --- Middleware ---
+const isAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.user || req.session.user.role !== 'ADMIN') {
+        return res.status(403).json({ message: 'Forbidden: Admin access required.' });
+    }
+    next();
+};
+
+router.use(isAdmin);
+
+// --- Routes ---
+
+// GET /api/admin/users/locked - Accounts locked after too many failed logins
+router.get('/locked', async (_req: Request, res: Response) => {
+    try {
+        res.status(200).json(await getLockedAccounts());
+    } catch (error) {
+        console.error("Error fetching locked accounts:", error);
+        res.status(500).json({ message: 'Failed to load locked accounts.' });
+    }
+});
+
+// POST /api/admin/users/:userId/unlock - Unlock an account before its lockout runs out
+router.post('/:userId/unlock', async (req: Request, res: Response) => {
+    const userId = parseInt(req.params.userId, 10);
+    if (isNaN(userId)) {
+        return res.status(400).json({ message: 'Invalid user ID.' });
+    }
+
+    try {
+        const result = await unlockAccount(userId);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        console.log(`[AuthThrottle] Admin ${req.session.user!.id} unlocked user ${userId} (${result.value.email}).`);
+        res.status(200).json({ message: `${result.value.email} can log in again.` });
+    } catch (error) {
+        console.error(`Error unlocking user ${userId}:`, error);
+        res.status(500).json({ message: 'Failed to unlock the account.' });
+    }
+});
+
+export default router;
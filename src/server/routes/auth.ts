@@ -1,11 +1,18 @@
 import express, { Router, Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
+import { Prisma } from '@prisma/client';
 import prisma from '../db'; // Import the singleton instance
 // Import SessionUser from the shared types file
-import { SessionUser } from '../types';
+import { SessionUser, SessionClientInfo } from '../types';
 // import { v4 as uuidv4 } from 'uuid'; // REMOVE - Use built-in crypto
 import crypto from 'crypto'; // ADD - For randomUUID
 import { sendEmail } from '../../utils/emailService'; // <-- Import sendEmail
+import { sendVerificationEmail, verifyEmailToken, isEmailVerified } from '../services/emailVerification';
+import { TWO_FACTOR_LOGIN_TTL_MS } from '../services/twoFactor';
+import { requestMagicLink, consumeMagicLink, MAGIC_LINK_TTL_MINUTES } from '../services/magicLinks';
+import { unlockAccount } from '../services/authThrottle';
+import { throttle } from '../utils/throttle';
+import { revokeUserSessions } from '../services/sessions';
 
 const router: Router = express.Router();
 const SALT_ROUNDS = 10; // Cost factor for bcrypt hashing
@@ -14,6 +21,12 @@ const SALT_ROUNDS = 10; // Cost factor for bcrypt hashing
 declare module 'express-session' {
 	interface SessionData {
 		user?: SessionUser; // Use the defined interface
+		cartRecoveryReminderId?: number; // Set by the abandoned checkout recovery link, credited when the order is paid
+		pendingTwoFactor?: { userId: number; email: string; expiresAt: number }; // Password checked, waiting for the second step (routes/twoFactor.ts)
+		pendingTotpSecret?: string; // Two-factor setup in progress, saved to the user once a code from it is entered
+		twoFactorVerifiedAt?: number; // Last time this session entered a two-factor code (ms), for sensitive changes
+		client?: SessionClientInfo; // Device and IP of a logged-in session, for the active sessions list
+		checkoutAttemptIds?: string[]; // Checkouts started in this session, allowed to load their confirmation (routes/stripe.ts)
 	}
 }
 
@@ -34,6 +47,48 @@ const checkNotAuthenticated = (req: Request, res: Response, next: NextFunction)
     next();
 };
 
+// Fields needed to start a session for a user who has just proven who they are
+const loginUserSelect = {
+    id: true,
+    email: true,
+    name: true,
+    phone: true,
+    role: true,
+    stripeCustomerId: true,
+    emailVerifiedAt: true,
+    totpEnabledAt: true,
+} satisfies Prisma.UserSelect;
+
+type LoginUser = Prisma.UserGetPayload<{ select: typeof loginUserSelect }>;
+
+// Finishes a login by password (/login) or by emailed link (/magic-link/consume). Accounts with
+// two-factor authentication finish logging in at POST /api/auth/2fa/login.
+const completeLogin = (req: Request, res: Response, user: LoginUser) => {
+    if (user.totpEnabledAt) {
+        req.session.pendingTwoFactor = { userId: user.id, email: user.email, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS };
+        // Not a successful login for throttling until the code is entered (counted under '2fa')
+        res.locals.authAttemptIncomplete = true;
+        console.log('Credentials accepted, waiting for two-factor code:', user.email);
+        return res.status(200).json({ twoFactorRequired: true });
+    }
+
+    // Login successful - Create session
+    // Assign ONLY fields defined in SessionUser to req.session.user
+    req.session.user = {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        phone: user.phone,
+        role: user.role,
+        stripeCustomerId: user.stripeCustomerId,
+        emailVerified: !!user.emailVerifiedAt,
+        twoFactorEnabled: false,
+    };
+
+    console.log('User logged in:', user.email);
+    return res.status(200).json({ user: req.session.user });
+};
+
 // --- Routes ---
 
 // POST /api/auth/signup
@@ -91,13 +146,17 @@ router.post('/signup', checkNotAuthenticated, async (req: Request, res: Response
             name: newUser.name,
             phone: newUser.phone,
             role: newUser.role,
-            stripeCustomerId: newUser.stripeCustomerId // Should be selected now
+            stripeCustomerId: newUser.stripeCustomerId, // Should be selected now
+            emailVerified: false,
+            twoFactorEnabled: false,
             // Remove fields not in SessionUser
             // createdAt: newUser.createdAt,
             // updatedAt: newUser.updatedAt,
         };
 
         console.log('User signed up and logged in:', newUser.email);
+        // Failures are logged by the service; the user can resend from their profile
+        await sendVerificationEmail(newUser.id);
         res.status(201).json({ user: req.session.user }); // Send back session user data
 
     } catch (error) {
@@ -107,7 +166,7 @@ router.post('/signup', checkNotAuthenticated, async (req: Request, res: Response
 });
 
 // POST /api/auth/login
-router.post('/login', checkNotAuthenticated, async (req: Request, res: Response) => {
+router.post('/login', checkNotAuthenticated, throttle('login'), async (req: Request, res: Response) => {
     const { email, password } = req.body;
 
     if (!email || !password) {
@@ -119,14 +178,7 @@ router.post('/login', checkNotAuthenticated, async (req: Request, res: Response)
         const user = await prisma.user.findUnique({
             where: { email },
             // Select the fields needed for the session AND the hash for comparison
-             select: {
-                id: true,
-                email: true,
-                name: true,
-                phone: true,
-                role: true,
-                passwordHash: true,
-            }
+            select: { ...loginUserSelect, passwordHash: true }
         });
         if (!user) {
             return res.status(401).json({ message: 'Invalid email or password' });
@@ -138,19 +190,7 @@ router.post('/login', checkNotAuthenticated, async (req: Request, res: Response)
             return res.status(401).json({ message: 'Invalid email or password' }); 
         }
 
-        // Login successful - Create session
-        // Assign ONLY fields defined in SessionUser to req.session.user
-        req.session.user = {
-            id: user.id,
-            email: user.email,
-            name: user.name,
-            phone: user.phone,
-            role: user.role,
-            stripeCustomerId: (user as any).stripeCustomerId || null // Need to ensure stripeCustomerId is selected or handle potentially missing field
-        };
-
-        console.log('User logged in:', user.email);
-        res.status(200).json({ user: req.session.user });
+        completeLogin(req, res, user);
 
     } catch (error) {
         console.error("Login Error:", error);
@@ -158,6 +198,46 @@ router.post('/login', checkNotAuthenticated, async (req: Request, res: Response)
     }
 });
 
+// POST /api/auth/magic-link
+// Emails a one-time login link. Always answers the same way so it can't be used to find accounts.
+router.post('/magic-link', checkNotAuthenticated, throttle('magic_link_request'), async (req: Request, res: Response) => {
+    const { email } = req.body;
+    const message = `If an account with that email exists, we sent it a login link. It works once, for ${MAGIC_LINK_TTL_MINUTES} minutes.`;
+
+    if (!email || typeof email !== 'string' || !isValidEmail(email)) {
+        return res.status(200).json({ message });
+    }
+
+    try {
+        await requestMagicLink(email);
+        res.status(200).json({ message });
+    } catch (error) {
+        console.error("Magic Link Request Error:", error);
+        res.status(500).json({ message: 'An internal error occurred. Please try again later.' });
+    }
+});
+
+// POST /api/auth/magic-link/consume
+// Logs in with the token from a login link, exactly like /login does after checking the password
+router.post('/magic-link/consume', checkNotAuthenticated, throttle('magic_link_login'), async (req: Request, res: Response) => {
+    const { token } = req.body;
+    if (!token || typeof token !== 'string') {
+        return res.status(400).json({ message: 'Login token is required.' });
+    }
+
+    try {
+        const result = await consumeMagicLink(token);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        const user = await prisma.user.findUniqueOrThrow({ where: { id: result.value.userId }, select: loginUserSelect });
+        completeLogin(req, res, user);
+    } catch (error) {
+        console.error("Magic Link Login Error:", error);
+        res.status(500).json({ message: 'Internal server error during login' });
+    }
+});
+
 // POST /api/auth/logout
 router.post('/logout', (req: Request, res: Response, next: NextFunction) => {
     req.session.destroy((err) => {
@@ -172,8 +252,15 @@ router.post('/logout', (req: Request, res: Response, next: NextFunction) => {
 });
 
 // GET /api/auth/me
-router.get('/me', (req: Request, res: Response) => {
+router.get('/me', async (req: Request, res: Response) => {
     if (req.session.user) {
+        if (!req.session.user.emailVerified) {
+            try {
+                req.session.user.emailVerified = await isEmailVerified(req.session.user.id);
+            } catch (error) {
+                console.error("Error refreshing email verification status:", error);
+            }
+        }
         res.status(200).json({ user: req.session.user });
     } else {
         res.status(401).json({ message: 'Not authenticated' }); // Unauthorized
@@ -181,7 +268,7 @@ router.get('/me', (req: Request, res: Response) => {
 });
 
 // POST /api/auth/request-password-reset
-router.post('/request-password-reset', async (req: Request, res: Response) => {
+router.post('/request-password-reset', throttle('password_reset_request'), async (req: Request, res: Response) => {
     const { email } = req.body;
 
     if (!email || !isValidEmail(email)) {
@@ -252,7 +339,7 @@ router.post('/request-password-reset', async (req: Request, res: Response) => {
 });
 
 // POST /api/auth/reset-password
-router.post('/reset-password', async (req: Request, res: Response) => {
+router.post('/reset-password', throttle('password_reset'), async (req: Request, res: Response) => {
     const { token, password } = req.body;
 
     // Basic Validation
@@ -290,7 +377,9 @@ router.post('/reset-password', async (req: Request, res: Response) => {
                 name: true,
                 phone: true,
                 role: true,
-                stripeCustomerId: true
+                stripeCustomerId: true,
+                emailVerifiedAt: true,
+                totpEnabledAt: true
             }
         });
 
@@ -305,16 +394,29 @@ router.post('/reset-password', async (req: Request, res: Response) => {
         // 3. Hash the new password
         const newPasswordHash = await bcrypt.hash(password, SALT_ROUNDS);
 
-        // 4. Update the user's password
+        // 4. Update the user's password. The link was emailed to them, so this also confirms the address
+        const emailVerifiedAt = user.emailVerifiedAt ?? new Date();
         await prisma.user.update({
             where: { id: user.id },
-            data: { passwordHash: newPasswordHash },
+            data: { passwordHash: newPasswordHash, emailVerifiedAt },
         });
 
         // 5. Delete the used token
         await prisma.passwordResetToken.delete({ where: { id: resetToken.id } });
 
-        // 6. Log the user in (create a new session)
+        // A new password ends any lockout from failed logins
+        await unlockAccount(user.id);
+
+        // ...and signs out every session that was logged in with the old one (this browser gets a new session below)
+        await revokeUserSessions(user.id);
+
+        // 6. Accounts with two-factor authentication still need a code, so they log in as usual
+        if (user.totpEnabledAt) {
+            console.log(`User ${user.email} password reset; two-factor login required.`);
+            return res.status(200).json({ twoFactorRequired: true, message: 'Your password has been reset. Log in with your new password and a code from your authenticator app.' });
+        }
+
+        // 7. Log the user in (create a new session)
         req.session.regenerate((err) => {
              if (err) {
                 console.error("Session regeneration failed after password reset:", err);
@@ -329,7 +431,9 @@ router.post('/reset-password', async (req: Request, res: Response) => {
                 name: user.name,
                 phone: user.phone,
                 role: user.role,
-                stripeCustomerId: user.stripeCustomerId
+                stripeCustomerId: user.stripeCustomerId,
+                emailVerified: true,
+                twoFactorEnabled: false
             };
             console.log(`User ${user.email} password reset and logged in.`);
             res.status(200).json({ user: req.session.user }); // Send back session user data
@@ -341,5 +445,50 @@ router.post('/reset-password', async (req: Request, res: Response) => {
     }
 });
 
+// POST /api/auth/verify-email
+// Confirms the address from a verification link. Works without being logged in (the link may be
+// opened on another device); the current session is updated when it belongs to the same user.
+router.post('/verify-email', async (req: Request, res: Response) => {
+    const { token } = req.body;
+    if (!token || typeof token !== 'string') {
+        return res.status(400).json({ message: 'Verification token is required.' });
+    }
+
+    try {
+        const result = await verifyEmailToken(token);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        if (req.session.user && req.session.user.id === result.value.userId) {
+            req.session.user.emailVerified = true;
+        }
+        res.status(200).json({ message: `Thanks! ${result.value.email} is confirmed.`, user: req.session.user ?? null });
+    } catch (error) {
+        console.error("Verify Email Error:", error);
+        res.status(500).json({ message: 'Internal server error during email verification.' });
+    }
+});
+
+// POST /api/auth/resend-verification
+router.post('/resend-verification', async (req: Request, res: Response) => {
+    if (!req.session.user) {
+        return res.status(401).json({ message: 'Not authenticated' });
+    }
+
+    try {
+        const result = await sendVerificationEmail(req.session.user.id, { throttle: true });
+        if (!result.ok) {
+            if (result.status === 409) {
+                req.session.user.emailVerified = true; // Verified in another browser
+            }
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json({ message: `We sent a new link to ${result.value.email}.` });
+    } catch (error) {
+        console.error("Resend Verification Error:", error);
+        res.status(500).json({ message: 'Internal server error while sending the verification email.' });
+    }
+});
+
 export default router;
  
\ No newline at end of file
@@ -4,6 +4,8 @@ import Stripe from 'stripe';
 
 // Use the default export from the generated client location
 import prisma from '../db';
+import { isEmailVerified, EMAIL_NOT_VERIFIED_MESSAGE } from '../services/emailVerification';
+import { needsTwoFactorReauth, TWO_FACTOR_REAUTH_MESSAGE } from '../services/twoFactor';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
     apiVersion: '2025-03-31.basil', // Update API version based on linter feedback
@@ -91,6 +93,11 @@ router.post('/setup-intent', async (req: Request, res: Response) => {
     const userEmail = req.session.user!.email;
 
     try {
+        // Saved cards are charged off-session, so the account's address must be confirmed first
+        if (!(await isEmailVerified(userId))) {
+            return res.status(403).json({ message: EMAIL_NOT_VERIFIED_MESSAGE });
+        }
+
         // Get or create a Stripe Customer ID for the user
         const customerId = await getOrCreateStripeCustomer(userId, userEmail);
 
@@ -133,6 +140,11 @@ router.delete('/:paymentMethodId', async (req: Request, res: Response) => {
     }
 
     try {
+        // Accounts with two-factor authentication confirm a code first (POST /api/auth/2fa/verify, then retry)
+        if (await needsTwoFactorReauth(userId, req.session.twoFactorVerifiedAt)) {
+            return res.status(403).json({ message: TWO_FACTOR_REAUTH_MESSAGE, twoFactorRequired: true });
+        }
+
         // 1. Find the local SavedCard record first to ensure ownership and existence
         const savedCard = await prisma.savedCard.findUnique({
             where: {
@@ -0,0 +1,200 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import {
+    validateCartLines,
+    getUserCart,
+    setUserCartItem,
+    clearUserCart,
+    mergeGuestCart,
+} from '../services/cart';
+import { openRecoveryLink, unsubscribeFromCartReminders, getRecoveryStats } from '../services/cartRecovery';
+
+const router = express.Router();
+
+// Middleware to check for authenticated users
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+    if (req.session && req.session.user && typeof req.session.user.id === 'number') {
+        return next();
+    }
+    return res.status(401).json({ message: 'Unauthorized: Please log in.' });
+};
+
+// Middleware to check for admin users
+const isAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.user || req.session.user.role !== 'ADMIN') {
+        return res.status(403).json({ message: 'Forbidden: Admin access required.' });
+    }
+    next();
+};
+
+// --- Zod Schemas ---
+const CartLineSchema = z.object({
+    priceId: z.string().min(1),
+    quantity: z.number().int().min(1),
+    price: z.string().optional(), // Unit price the client currently shows
+});
+
+const CartLinesSchema = z.object({
+    items: z.array(CartLineSchema).max(100),
+});
+
+const AddItemSchema = z.object({
+    priceId: z.string().min(1),
+    quantity: z.number().int().min(1).default(1),
+});
+
+const UpdateQuantitySchema = z.object({
+    quantity: z.number().int().min(0),
+});
+
+const TokenSchema = z.object({
+    token: z.string().min(1),
+});
+
+// --- Guest Cart ---
+
+// POST /api/cart/validate - Re-check a guest (localStorage) cart against the catalog.
+// Returns the refreshed lines plus any removals, price changes or stock reductions.
+router.post('/validate', async (req: Request, res: Response) => {
+    const validationResult = CartLinesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+        return res.status(400).json({ message: 'Invalid cart data', errors: validationResult.error.flatten() });
+    }
+    try {
+        res.status(200).json(await validateCartLines(validationResult.data.items));
+    } catch (error) {
+        console.error('[Cart] Error validating guest cart:', error);
+        res.status(500).json({ message: 'Failed to validate cart.' });
+    }
+});
+
+// --- Abandoned Checkout Recovery ---
+
+// GET /api/cart/recover?token= - Resolve a reminder email link into cart items.
+// Remembers the reminder in the session so the order placed afterwards is credited to it.
+router.get('/recover', async (req: Request, res: Response) => {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    if (!token) {
+        return res.status(400).json({ message: 'Missing recovery token.' });
+    }
+    try {
+        const result = await openRecoveryLink(token);
+        if (!result) {
+            return res.status(404).json({ message: 'This link has expired or is invalid.' });
+        }
+        req.session.cartRecoveryReminderId = result.reminderId;
+        res.status(200).json(result.cart);
+    } catch (error) {
+        console.error('[Cart] Error opening recovery link:', error);
+        res.status(500).json({ message: 'Failed to restore cart.' });
+    }
+});
+
+// POST /api/cart/reminders/unsubscribe - Stop abandoned checkout reminders (token from the email)
+router.post('/reminders/unsubscribe', async (req: Request, res: Response) => {
+    const validationResult = TokenSchema.safeParse(req.body);
+    if (!validationResult.success) {
+        return res.status(400).json({ message: 'Missing unsubscribe token.' });
+    }
+    try {
+        const email = await unsubscribeFromCartReminders(validationResult.data.token);
+        if (!email) {
+            return res.status(404).json({ message: 'This unsubscribe link is invalid.' });
+        }
+        res.status(200).json({ message: `${email} will no longer receive cart reminders.` });
+    } catch (error) {
+        console.error('[Cart] Error unsubscribing from cart reminders:', error);
+        res.status(500).json({ message: 'Failed to unsubscribe.' });
+    }
+});
+
+// GET /api/cart/recovery-stats?days=30 - Reminder conversion numbers (Admin only)
+router.get('/recovery-stats', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    const days = Math.min(Math.max(parseInt(String(req.query.days || '30'), 10) || 30, 1), 365);
+    try {
+        res.status(200).json(await getRecoveryStats(new Date(Date.now() - days * 24 * 60 * 60 * 1000)));
+    } catch (error) {
+        console.error('[Cart] Error loading recovery stats:', error);
+        res.status(500).json({ message: 'Failed to load recovery stats.' });
+    }
+});
+
+// --- Account Cart (logged-in users) ---
+
+// GET /api/cart - Load the saved cart
+router.get('/', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+        res.status(200).json(await getUserCart(req.session.user!.id));
+    } catch (error) {
+        console.error('[Cart] Error loading cart:', error);
+        res.status(500).json({ message: 'Failed to load cart.' });
+    }
+});
+
+// POST /api/cart/merge - Merge the guest cart into the saved cart right after login
+router.post('/merge', isAuthenticated, async (req: Request, res: Response) => {
+    const validationResult = CartLinesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+        return res.status(400).json({ message: 'Invalid cart data', errors: validationResult.error.flatten() });
+    }
+    try {
+        res.status(200).json(await mergeGuestCart(req.session.user!.id, validationResult.data.items));
+    } catch (error) {
+        console.error('[Cart] Error merging guest cart:', error);
+        res.status(500).json({ message: 'Failed to merge cart.' });
+    }
+});
+
+// POST /api/cart/items - Add units of a price
+router.post('/items', isAuthenticated, async (req: Request, res: Response) => {
+    const validationResult = AddItemSchema.safeParse(req.body);
+    if (!validationResult.success) {
+        return res.status(400).json({ message: 'Invalid cart item', errors: validationResult.error.flatten() });
+    }
+    const { priceId, quantity } = validationResult.data;
+    try {
+        res.status(200).json(await setUserCartItem(req.session.user!.id, priceId, quantity, false));
+    } catch (error) {
+        console.error(`[Cart] Error adding ${priceId} to cart:`, error);
+        res.status(500).json({ message: 'Failed to add item to cart.' });
+    }
+});
+
+// PATCH /api/cart/items/:priceId - Set a line's quantity (0 removes it)
+router.patch('/items/:priceId', isAuthenticated, async (req: Request, res: Response) => {
+    const validationResult = UpdateQuantitySchema.safeParse(req.body);
+    if (!validationResult.success) {
+        return res.status(400).json({ message: 'Invalid quantity', errors: validationResult.error.flatten() });
+    }
+    const { priceId } = req.params;
+    try {
+        res.status(200).json(await setUserCartItem(req.session.user!.id, priceId, validationResult.data.quantity, true));
+    } catch (error) {
+        console.error(`[Cart] Error updating ${priceId} in cart:`, error);
+        res.status(500).json({ message: 'Failed to update cart item.' });
+    }
+});
+
+// DELETE /api/cart/items/:priceId - Remove a line
+router.delete('/items/:priceId', isAuthenticated, async (req: Request, res: Response) => {
+    const { priceId } = req.params;
+    try {
+        res.status(200).json(await setUserCartItem(req.session.user!.id, priceId, 0, true));
+    } catch (error) {
+        console.error(`[Cart] Error removing ${priceId} from cart:`, error);
+        res.status(500).json({ message: 'Failed to remove cart item.' });
+    }
+});
+
+// DELETE /api/cart - Empty the cart
+router.delete('/', isAuthenticated, async (req: Request, res: Response) => {
+    try {
+        await clearUserCart(req.session.user!.id);
+        res.status(200).json({ items: [], changes: [] });
+    } catch (error) {
+        console.error('[Cart] Error clearing cart:', error);
+        res.status(500).json({ message: 'Failed to clear cart.' });
+    }
+});
+
+export default router;
@@ -0,0 +1,186 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import Stripe from 'stripe';
+import { z } from 'zod';
+import { SessionUser } from '../types';
+import {
+    createGiftCardPurchase,
+    getGiftCardPurchase,
+    checkGiftCard,
+    findGiftCard,
+    voidGiftCard,
+    GiftCardWithTransactions,
+} from '../services/giftCards';
+import { GIFT_CARD_MIN_AMOUNT, GIFT_CARD_MAX_AMOUNT, GIFT_MESSAGE_MAX_LENGTH } from '../../utils/gifts';
+
+const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, { apiVersion: '2025-03-31.basil' }) : null;
+
+const router: Router = express.Router();
+
+// --- Middleware ---
+const isAdmin = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.user || req.session.user.role !== 'ADMIN') {
+        return res.status(403).json({ message: 'Forbidden: Admin access required.' });
+    }
+    next();
+};
+
+// --- Zod Schemas ---
+const optionalName = z.string().trim().max(100).nullable().optional();
+
+const PurchaseSchema = z.object({
+    amount: z.number().int({ message: "Amount must be whole dollars" })
+        .min(GIFT_CARD_MIN_AMOUNT, { message: `Gift cards start at $${GIFT_CARD_MIN_AMOUNT}` })
+        .max(GIFT_CARD_MAX_AMOUNT, { message: `Gift cards can be at most $${GIFT_CARD_MAX_AMOUNT}` }),
+    recipientEmail: z.string().trim().email({ message: "Please enter the recipient's email" }),
+    recipientName: optionalName,
+    senderName: optionalName,
+    message: z.string().trim().max(GIFT_MESSAGE_MAX_LENGTH, { message: `Message can be at most ${GIFT_MESSAGE_MAX_LENGTH} characters` }).nullable().optional(),
+    purchaserEmail: z.string().trim().email({ message: "Please enter your email" }).optional(),
+});
+
+const VoidSchema = z.object({
+    reason: z.string().trim().max(500).nullable().optional(),
+});
+
+// The ledger as the admin page shows it
+const toAdminGiftCard = (giftCard: GiftCardWithTransactions) => ({
+    id: giftCard.id,
+    code: giftCard.code,
+    status: giftCard.status,
+    initialAmountCent: giftCard.initialAmountCent,
+    balanceCent: giftCard.balanceCent,
+    recipientEmail: giftCard.recipientEmail,
+    recipientName: giftCard.recipientName,
+    senderName: giftCard.senderName,
+    purchaserEmail: giftCard.purchaserEmail,
+    stripePaymentIntentId: giftCard.stripePaymentIntentId,
+    deliveredAt: giftCard.deliveredAt,
+    voidedAt: giftCard.voidedAt,
+    voidReason: giftCard.voidReason,
+    createdAt: giftCard.createdAt,
+    transactions: giftCard.transactions.map(transaction => ({
+        id: transaction.id,
+        type: transaction.type,
+        amountCent: transaction.amountCent,
+        balanceAfterCent: transaction.balanceAfterCent,
+        orderId: transaction.orderId,
+        note: transaction.note,
+        createdAt: transaction.createdAt,
+    })),
+});
+
+// --- Routes ---
+
+// POST /api/gift-cards - Start buying a gift card; the client confirms the returned PaymentIntent
+router.post('/', async (req: Request, res: Response) => {
+    if (!stripe) {
+        console.error("POST /api/gift-cards Error: Stripe not configured.");
+        return res.status(500).json({ message: 'Server configuration error.' });
+    }
+    const validation = PurchaseSchema.safeParse(req.body);
+    if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid gift card details.', errors: validation.error.flatten() });
+    }
+    const sessionUser = req.session.user as SessionUser | undefined;
+    const purchaserEmail = sessionUser?.email || validation.data.purchaserEmail;
+    if (!purchaserEmail) {
+        return res.status(400).json({ message: 'Please enter your email' });
+    }
+
+    try {
+        const result = await createGiftCardPurchase(stripe, {
+            amountCent: validation.data.amount * 100,
+            recipientEmail: validation.data.recipientEmail,
+            recipientName: validation.data.recipientName || null,
+            senderName: validation.data.senderName || null,
+            message: validation.data.message || null,
+            purchaserEmail,
+        }, sessionUser ? { id: sessionUser.id, stripeCustomerId: sessionUser.stripeCustomerId } : null);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json(result.value);
+    } catch (error: any) {
+        console.error('Error starting gift card purchase:', error);
+        res.status(500).json({ message: error.message || 'Failed to start the gift card purchase.' });
+    }
+});
+
+// GET /api/gift-cards/purchase/:paymentIntentId - Purchase status for the page Stripe returns to
+router.get('/purchase/:paymentIntentId', async (req: Request, res: Response) => {
+    try {
+        const giftCard = await getGiftCardPurchase(req.params.paymentIntentId);
+        if (!giftCard) {
+            return res.status(404).json({ message: 'Gift card purchase not found.' });
+        }
+        // The code itself only goes to the recipient
+        res.status(200).json({
+            status: giftCard.status,
+            amountCent: giftCard.initialAmountCent,
+            recipientEmail: giftCard.recipientEmail,
+            recipientName: giftCard.recipientName,
+            delivered: !!giftCard.deliveredAt,
+        });
+    } catch (error) {
+        console.error(`Error fetching gift card purchase ${req.params.paymentIntentId}:`, error);
+        res.status(500).json({ message: 'Failed to load the gift card purchase.' });
+    }
+});
+
+// POST /api/gift-cards/check - Balance check, also used to apply a code at checkout
+router.post('/check', async (req: Request, res: Response) => {
+    const code = typeof req.body?.code === 'string' ? req.body.code : '';
+    try {
+        const result = await checkGiftCard(code);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json({ code: result.value.code, balance: result.value.balanceCent / 100 });
+    } catch (error) {
+        console.error('Error checking gift card:', error);
+        res.status(500).json({ message: 'Failed to check the gift card.' });
+    }
+});
+
+// GET /api/gift-cards/admin/lookup?code=... - A card and its ledger
+router.get('/admin/lookup', isAdmin, async (req: Request, res: Response) => {
+    const code = typeof req.query.code === 'string' ? req.query.code : '';
+    if (!code.trim()) {
+        return res.status(400).json({ message: 'Please enter a gift card code.' });
+    }
+    try {
+        const giftCard = await findGiftCard(code);
+        if (!giftCard) {
+            return res.status(404).json({ message: 'No gift card with that code.' });
+        }
+        res.status(200).json(toAdminGiftCard(giftCard));
+    } catch (error) {
+        console.error('Error looking up gift card:', error);
+        res.status(500).json({ message: 'Failed to look up the gift card.' });
+    }
+});
+
+// POST /api/gift-cards/admin/:giftCardId/void - Write off the balance and disable the code
+router.post('/admin/:giftCardId/void', isAdmin, async (req: Request, res: Response) => {
+    const giftCardId = parseInt(req.params.giftCardId, 10);
+    if (isNaN(giftCardId)) {
+        return res.status(400).json({ message: 'Invalid gift card ID.' });
+    }
+    const validation = VoidSchema.safeParse(req.body ?? {});
+    if (!validation.success) {
+        return res.status(400).json({ message: validation.error.errors[0]?.message || 'Invalid reason.', errors: validation.error.flatten() });
+    }
+    try {
+        const result = await voidGiftCard(giftCardId, validation.data.reason || null);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json(toAdminGiftCard(result.value));
+    } catch (error) {
+        console.error(`Error voiding gift card ${giftCardId}:`, error);
+        res.status(500).json({ message: 'Failed to void the gift card.' });
+    }
+});
+
+export default router;
@@ -1,10 +1,16 @@
 import express, { Router, Request, Response, NextFunction } from 'express';
 import prisma from '../db'; // Import the singleton Prisma client
 import { z, infer as ZodInfer } from 'zod'; // Using Zod for validation
-import { Prisma } from '@prisma/client'; // Import Prisma types
+import { Prisma, OrderStatus } from '@prisma/client'; // Import Prisma types
 import Stripe from 'stripe'; // Import Stripe
 import dotenv from 'dotenv'; // Import dotenv
 import { sendEmail } from '../../utils/emailService'; // <-- Import sendEmail
+import { createShipment, markShipmentDelivered, shipmentSelect, FULFILLABLE_STATUSES } from '../services/fulfillment';
+import { renderPackingSlips, packingSlipOrderSelect } from '../utils/packingSlip';
+import { SHIPPING_CARRIERS } from '../../utils/shipments';
+import { createRefund, cancelOrder, refundSelect } from '../services/refunds';
+import { startPendingGiftSubscriptions } from '../services/giftSubscriptions';
+import { sendOrderShippedEmail, sendRefundEmails } from '../services/notifications';
 
 // Load environment variables
 dotenv.config();
@@ -269,6 +275,10 @@ router.get('/my', isAuthenticated, async (req: Request, res: Response) => {
                 contactEmail: true,
                 status: true,
                 totalAmount: true,
+                discountAmount: true,
+                promoCodeText: true,
+                taxAmount: true,
+                giftCardAmount: true,
                 createdAt: true,
                 // Select shipping address fields
                 shippingName: true,
@@ -278,6 +288,12 @@ router.get('/my', isAuthenticated, async (req: Request, res: Response) => {
                 shippingState: true,
                 shippingPostalCode: true,
                 shippingCountry: true,
+                shippingMethodName: true,
+                shippingCost: true,
+                estimatedDeliveryDate: true,
+                isGift: true,
+                giftMessage: true,
+                giftHidePrices: true,
                 // Include related items
                 items: {
                     select: {
@@ -288,6 +304,9 @@ router.get('/my', isAuthenticated, async (req: Request, res: Response) => {
                         price: true,
                     }
                 }, 
+                shipments: { select: shipmentSelect, orderBy: { shippedAt: 'asc' } },
+                refundedAmount: true,
+                refunds: { select: refundSelect, orderBy: { createdAt: 'asc' } },
             },
             orderBy: {
                 createdAt: 'desc', 
@@ -312,6 +331,10 @@ router.get('/all', isAuthenticated, isAdmin, async (req: Request, res: Response)
                 contactEmail: true,
                 status: true,
                 totalAmount: true,
+                discountAmount: true,
+                promoCodeText: true,
+                taxAmount: true,
+                giftCardAmount: true,
                 createdAt: true,
                 // Select shipping address fields
                 shippingName: true,
@@ -321,6 +344,12 @@ router.get('/all', isAuthenticated, isAdmin, async (req: Request, res: Response)
                 shippingState: true,
                 shippingPostalCode: true,
                 shippingCountry: true,
+                shippingMethodName: true,
+                shippingCost: true,
+                estimatedDeliveryDate: true,
+                isGift: true,
+                giftMessage: true,
+                giftHidePrices: true,
                 // Include related items
                 items: {
                     select: {
@@ -331,6 +360,10 @@ router.get('/all', isAuthenticated, isAdmin, async (req: Request, res: Response)
                         price: true,
                     }
                 },
+                shipments: { select: shipmentSelect, orderBy: { shippedAt: 'asc' } },
+                refundedAmount: true,
+                refunds: { select: { ...refundSelect, note: true }, orderBy: { createdAt: 'asc' } },
+                holdReason: true,
                 // Include related user info
                 user: {      
                     select: {
@@ -357,31 +390,46 @@ router.get('/all', isAuthenticated, isAdmin, async (req: Request, res: Response)
 // PATCH /api/orders/:orderId/status - Update order status (Admin only)
 router.patch('/:orderId/status', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
     const { orderId } = req.params;
-    const { status } = req.body; // Expecting { status: "SHIPPED" } or similar
+    const { status } = req.body; // Expecting { status: "PROCESSING" } or similar
 
     // Basic validation
-    if (!orderId || !status) {
+    if (!orderId || !status || typeof status !== 'string') {
         return res.status(400).json({ message: 'Missing order ID or status in request.' });
     }
 
-    // Validate status value (optional but recommended)
-    const validStatuses = ['PENDING', 'PAID', 'SHIPPED', 'PROCESSING', 'CANCELLED', 'DELIVERED']; // Example statuses
+    // Validate status value against the OrderStatus enum
+    const validStatuses: string[] = Object.values(OrderStatus);
     if (!validStatuses.includes(status.toUpperCase())) {
          return res.status(400).json({ message: `Invalid status value. Must be one of: ${validStatuses.join(', ')}` });
     }
+    // These need money returned, so they go through the cancel/refund endpoints
+    if (status.toUpperCase() === OrderStatus.CANCELED || status.toUpperCase() === OrderStatus.REFUNDED) {
+         return res.status(400).json({ message: 'Use the cancel or refund actions to cancel or refund an order.' });
+    }
 
     try {
-        const updatedOrder = await prisma.order.update({
-            where: {
-                id: parseInt(orderId, 10), // Ensure orderId is an integer
-            },
-            data: {
-                status: status.toUpperCase(), // Ensure consistent casing
-            },
-            select: { // Return only essential fields to confirm update
-                id: true,
-                status: true,
+        const newStatus = status.toUpperCase() as OrderStatus; // Ensure consistent casing
+        const updatedOrder = await prisma.$transaction(async (tx) => {
+            const order = await tx.order.update({
+                where: {
+                    id: parseInt(orderId, 10), // Ensure orderId is an integer
+                },
+                data: {
+                    status: newStatus,
+                    // Releasing a held order (e.g. once the rest has been collected) clears the reason it was held
+                    ...(newStatus !== OrderStatus.ON_HOLD ? { holdReason: null } : {}),
+                },
+                select: { // Return only essential fields to confirm update
+                    id: true,
+                    status: true,
+                    holdReason: true,
+                }
+            });
+            // Gift subscriptions bought with an order that was ON_HOLD start once it can be fulfilled
+            if (FULFILLABLE_STATUSES.includes(newStatus)) {
+                await startPendingGiftSubscriptions(order.id, new Date(), tx);
             }
+            return order;
         });
 
         console.log(`Admin ${req.session.user?.id} updated order ${orderId} status to ${status.toUpperCase()}`);
@@ -402,4 +450,166 @@ router.patch('/:orderId/status', isAuthenticated, isAdmin, async (req: Request,
     }
 });
 
+// --- Fulfillment Routes (Admin only) ---
+
+// What the admin actions below return so the dashboard can update the order in place
+const adminOrderUpdateSelect = {
+    id: true,
+    status: true,
+    refundedAmount: true,
+    holdReason: true,
+    shipments: { select: shipmentSelect, orderBy: { shippedAt: 'asc' } },
+    refunds: { select: { ...refundSelect, note: true }, orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.OrderSelect;
+
+const CreateShipmentSchema = z.object({
+    carrier: z.enum(SHIPPING_CARRIERS),
+    trackingNumber: z.string().trim().max(100).optional().nullable(),
+    items: z.array(z.object({
+        orderItemId: z.number().int().positive(),
+        quantity: z.number().int().min(0),
+    })).optional(), // Omit to ship all remaining items
+});
+
+// GET /api/orders/packing-slips?ids=1,2,3 - Printable packing slips (Admin only)
+// Without ids, returns slips for every order waiting to be packed (PAID, PROCESSING, PARTIALLY_SHIPPED)
+router.get('/packing-slips', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    const idsParam = typeof req.query.ids === 'string' ? req.query.ids : '';
+    const ids = idsParam.split(',').map(id => parseInt(id, 10)).filter(id => !isNaN(id));
+    if (idsParam && ids.length === 0) {
+        return res.status(400).json({ message: 'Invalid order IDs.' });
+    }
+
+    try {
+        const orders = await prisma.order.findMany({
+            where: ids.length > 0 ? { id: { in: ids } } : { status: { in: FULFILLABLE_STATUSES } },
+            select: packingSlipOrderSelect,
+            orderBy: { createdAt: 'asc' }, // Oldest first, same order they should ship in
+        });
+        res.status(200).type('html').send(renderPackingSlips(orders));
+    } catch (error) {
+        console.error(`Error generating packing slips (ids: ${idsParam || 'all open'}):`, error);
+        res.status(500).json({ message: 'Internal server error while generating packing slips.' });
+    }
+});
+
+// POST /api/orders/:orderId/shipments - Record a full or partial shipment (Admin only)
+router.post('/:orderId/shipments', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    const orderId = parseInt(req.params.orderId, 10);
+    if (isNaN(orderId)) {
+        return res.status(400).json({ message: 'Invalid order ID format.' });
+    }
+    const validationResult = CreateShipmentSchema.safeParse(req.body);
+    if (!validationResult.success) {
+        return res.status(400).json({ message: 'Invalid shipment data.', errors: validationResult.error.flatten().fieldErrors });
+    }
+
+    try {
+        const result = await createShipment(orderId, validationResult.data);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        const updatedOrder = await prisma.order.findUnique({
+            where: { id: orderId },
+            select: adminOrderUpdateSelect,
+        });
+        console.log(`Admin ${req.session.user?.id} created shipment ${result.value.shipmentId} for order ${orderId}`);
+        await sendOrderShippedEmail(result.value.shipmentId);
+        res.status(201).json(updatedOrder);
+    } catch (error) {
+        console.error(`Error creating shipment for order ${orderId}:`, error);
+        res.status(500).json({ message: 'Internal server error while creating shipment.' });
+    }
+});
+
+// POST /api/orders/shipments/:shipmentId/delivered - Mark a shipment as delivered (Admin only)
+router.post('/shipments/:shipmentId/delivered', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    const shipmentId = parseInt(req.params.shipmentId, 10);
+    if (isNaN(shipmentId)) {
+        return res.status(400).json({ message: 'Invalid shipment ID format.' });
+    }
+
+    try {
+        const result = await markShipmentDelivered(shipmentId);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        const updatedOrder = await prisma.order.findUnique({
+            where: { id: result.value.orderId },
+            select: adminOrderUpdateSelect,
+        });
+        res.status(200).json(updatedOrder);
+    } catch (error) {
+        console.error(`Error marking shipment ${shipmentId} delivered:`, error);
+        res.status(500).json({ message: 'Internal server error while updating shipment.' });
+    }
+});
+
+// --- Refund Routes (Admin only) ---
+
+const CreateRefundSchema = z.object({
+    items: z.array(z.object({
+        orderItemId: z.number().int().positive(),
+        quantity: z.number().int().min(0),
+    })).optional(), // Per-item refund
+    amount: z.number().positive().optional(), // Dollars; omit with no items for a full refund
+    reason: z.enum(['requested_by_customer', 'duplicate', 'fraudulent']).optional(),
+    note: z.string().trim().max(500).optional().nullable(),
+});
+
+// POST /api/orders/:orderId/refunds - Full, partial or per-item refund (Admin only)
+router.post('/:orderId/refunds', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    const orderId = parseInt(req.params.orderId, 10);
+    if (isNaN(orderId)) {
+        return res.status(400).json({ message: 'Invalid order ID format.' });
+    }
+    if (!stripe) {
+        return res.status(500).json({ message: 'Stripe is not configured.' });
+    }
+    const validationResult = CreateRefundSchema.safeParse(req.body);
+    if (!validationResult.success) {
+        return res.status(400).json({ message: 'Invalid refund data.', errors: validationResult.error.flatten().fieldErrors });
+    }
+
+    try {
+        const result = await createRefund(stripe, orderId, validationResult.data, req.session.user?.id ?? null);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        const updatedOrder = await prisma.order.findUnique({ where: { id: orderId }, select: adminOrderUpdateSelect });
+        console.log(`Admin ${req.session.user?.id} refunded $${(result.value.amountCent / 100).toFixed(2)} on order ${orderId}`);
+        await sendRefundEmails(orderId);
+        res.status(201).json(updatedOrder);
+    } catch (error) {
+        console.error(`Error refunding order ${orderId}:`, error);
+        res.status(500).json({ message: 'Internal server error while issuing refund.' });
+    }
+});
+
+// POST /api/orders/:orderId/cancel - Cancel an unshipped order, refunding it in full if paid (Admin only)
+router.post('/:orderId/cancel', isAuthenticated, isAdmin, async (req: Request, res: Response) => {
+    const orderId = parseInt(req.params.orderId, 10);
+    if (isNaN(orderId)) {
+        return res.status(400).json({ message: 'Invalid order ID format.' });
+    }
+    if (!stripe) {
+        return res.status(500).json({ message: 'Stripe is not configured.' });
+    }
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim().slice(0, 500) : null;
+
+    try {
+        const result = await cancelOrder(stripe, orderId, req.session.user?.id ?? null, note);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        const updatedOrder = await prisma.order.findUnique({ where: { id: orderId }, select: adminOrderUpdateSelect });
+        console.log(`Admin ${req.session.user?.id} canceled order ${orderId}`);
+        await sendRefundEmails(orderId);
+        res.status(200).json(updatedOrder);
+    } catch (error) {
+        console.error(`Error canceling order ${orderId}:`, error);
+        res.status(500).json({ message: 'Internal server error while canceling order.' });
+    }
+});
+
 export default router; 
\ No newline at end of file
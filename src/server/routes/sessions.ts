@@ -0,0 +1,56 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { listUserSessions, revokeUserSession, revokeUserSessions } from '../services/sessions';
+
+const router: Router = express.Router();
+
+// --- Middleware ---
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+    if (req.session && req.session.user) {
+        return next();
+    }
+    return res.status(401).json({ message: 'Unauthorized: Please log in.' });
+};
+
+router.use(isAuthenticated);
+
+// --- Routes ---
+
+// GET /api/auth/sessions - The user's active sessions (device, IP, last seen)
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        res.status(200).json(await listUserSessions(req.session.user!.id, req.sessionID));
+    } catch (error) {
+        console.error("Error fetching sessions:", error);
+        res.status(500).json({ message: 'Failed to load your sessions.' });
+    }
+});
+
+// POST /api/auth/sessions/revoke-others - Sign out everywhere except this browser
+router.post('/revoke-others', async (req: Request, res: Response) => {
+    try {
+        const revoked = await revokeUserSessions(req.session.user!.id, req.sessionID);
+        res.status(200).json({ message: revoked > 0 ? `Signed out of ${revoked} other session(s).` : 'There were no other sessions.' });
+    } catch (error) {
+        console.error("Error revoking other sessions:", error);
+        res.status(500).json({ message: 'Failed to sign out of your other sessions.' });
+    }
+});
+
+// DELETE /api/auth/sessions/:sessionId - Sign out one other session (use /api/auth/logout for this one)
+router.delete('/:sessionId', async (req: Request, res: Response) => {
+    try {
+        const sessions = await listUserSessions(req.session.user!.id, req.sessionID);
+        if (sessions.some(s => s.id === req.params.sessionId && s.current)) {
+            return res.status(400).json({ message: 'To sign out of this browser, use Logout.' });
+        }
+        if (!(await revokeUserSession(req.session.user!.id, req.params.sessionId))) {
+            return res.status(404).json({ message: 'Session not found. It may have already ended.' });
+        }
+        res.status(200).json({ message: 'Session signed out.' });
+    } catch (error) {
+        console.error("Error revoking session:", error);
+        res.status(500).json({ message: 'Failed to sign out of that session.' });
+    }
+});
+
+export default router;
@@ -7,6 +7,7 @@ import { Decimal } from '@prisma/client/runtime/library'; // Import Decimal
 import { SessionUser } from '../types'; // Import SessionUser from the shared types file
 import { saveCheckoutAttempt, getCheckoutAttempt, deleteCheckoutAttempt } from '../utils/checkoutTmpStore';
 import { OrderStatus, Order, OrderItem } from '@prisma/client'; // Keep OrderStatus etc. if used directly
+import { Prisma } from '@prisma/client';
 // Import the new webhook handler functions
 import {
     handleSetupIntentSucceeded,
@@ -17,11 +18,25 @@ import {
     handleCustomerSubscriptionUpdated,
     handleInvoicePaid,
     handleInvoicePaymentFailed,
-    handleUnhandledEvent
+    handleInvoicePaymentActionRequired,
+    handleChargeRefunded,
+    handleProductUpserted,
+    handleProductDeleted,
+    handlePriceUpserted,
+    handlePriceDeleted,
+    handleUnhandledEvent,
+    createOrderFromCheckout
 } from '../services/stripeWebhookHandlers';
 // Import extracted types and helpers
 import { InitiateCheckoutRequest, FetchedOrder, OrderItemWithImage } from '../types/stripeTypes';
 import { getImageUrls } from '../services/stripeUtils';
+import { reserveStock, releaseExpiredReservations } from '../services/inventory';
+import { evaluatePromoCode, reservePromoCode, AppliedPromo } from '../services/promoCodes';
+import { calculateTax } from '../services/tax';
+import { quoteShippingOptions, getShippingQuote, checkServiceability } from '../services/shipping';
+import { GIFT_SUBSCRIPTION_MONTHS, GIFT_MESSAGE_MAX_LENGTH, giftSubscriptionLineName } from '../../utils/gifts';
+import { checkGiftCard, holdGiftCardBalance } from '../services/giftCards';
+import { isEmailVerified, EMAIL_NOT_VERIFIED_MESSAGE } from '../services/emailVerification';
 
 // Load environment variables
 dotenv.config();
@@ -33,9 +48,43 @@ if (!stripeSecretKey) {
 }
 const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, { apiVersion: '2025-03-31.basil' }) : null;
 const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET; // Define secret here
+// Smallest amount Stripe will charge in USD
+const STRIPE_MIN_CHARGE_CENT = 50;
+
+// How many recent checkouts a session remembers for the confirmation routes
+const SESSION_CHECKOUT_ATTEMPTS_KEPT = 10;
+
+// Order fields the confirmation page shows
+const confirmationOrderSelect = {
+	id: true,
+	userId: true,
+	status: true,
+	totalAmount: true,
+	discountAmount: true,
+	promoCodeText: true,
+	taxAmount: true,
+	giftCardAmount: true,
+	shippingMethodName: true,
+	estimatedDeliveryDate: true,
+	items: { select: { id: true, productId: true, productName: true, quantity: true, price: true } },
+} satisfies Prisma.OrderSelect;
 
 const router: Router = express.Router();
 
+// Remembers a checkout started in this session, so only this browser (or the account that placed it) can complete and view it
+const rememberCheckoutAttempt = (req: Request, checkoutAttemptId: string) => {
+	const recent = (req.session.checkoutAttemptIds ?? []).filter(id => id !== checkoutAttemptId);
+	req.session.checkoutAttemptIds = [...recent, checkoutAttemptId].slice(-SESSION_CHECKOUT_ATTEMPTS_KEPT);
+};
+
+// Whether the caller started this checkout, or is logged in as the customer it belongs to
+const canAccessCheckoutAttempt = (req: Request, checkoutAttemptId: string, ownerUserId: number | null): boolean => {
+	if (req.session.checkoutAttemptIds?.includes(checkoutAttemptId)) {
+		return true;
+	}
+	return !!req.session.user && ownerUserId !== null && req.session.user.id === ownerUserId;
+};
+
 // Middleware for raw body specific to webhook
 const stripeWebhookMiddleware = express.raw({ type: 'application/json' });
 
@@ -115,7 +164,7 @@ router.get('/payment-intent/:paymentIntentId', express.json(), async (req: Reque
                                 return { 
                                     id: 0, // No real DB ID for temp item
                                     productId: item.productId,
-                                    productName: item.productName,
+                                    productName: item.giftMonths ? giftSubscriptionLineName(item.productName, item.giftMonths) : item.productName,
                                     quantity: item.quantity,
                                     price: priceDecimal, // Use Decimal
                                     imageUrl 
@@ -123,17 +172,31 @@ router.get('/payment-intent/:paymentIntentId', express.json(), async (req: Reque
                             })
                         );
                         
-                        // Calculate total from temp items
+                        // Calculate total from temp items and shipping, less any promo discount, plus tax
                         let tempTotal = new Decimal(0);
                         tempItemsWithImages.forEach(item => {
                             tempTotal = tempTotal.plus(item.price.times(item.quantity));
                         });
+                        const tempShipping = new Decimal(((tempContext.shipping?.amountCent ?? 0) / 100).toFixed(2));
+                        tempTotal = tempTotal.plus(tempShipping);
+                        const tempDiscount = new Decimal(((tempContext.promo?.discountCent ?? 0) / 100).toFixed(2));
+                        tempTotal = tempTotal.minus(tempDiscount);
+                        const tempTax = new Decimal(((tempContext.taxCent ?? 0) / 100).toFixed(2));
+                        tempTotal = tempTotal.plus(tempTax);
+                        const tempGiftCard = new Decimal(((tempContext.giftCard?.amountCent ?? 0) / 100).toFixed(2));
 
                         // Construct the temporary orderDetails object
                         finalOrderDetails = {
                             id: 0, // Placeholder ID
                             status: 'PENDING', // Indicate it's not finalized
                             totalAmount: tempTotal,
+                            discountAmount: tempDiscount,
+                            promoCodeText: tempContext.promo?.code ?? null,
+                            taxAmount: tempTax,
+                            giftCardAmount: tempGiftCard,
+                            shippingCost: tempShipping,
+                            shippingMethodName: tempContext.shipping?.name ?? null,
+                            estimatedDeliveryDate: tempContext.shipping?.estimatedDeliveryDate ?? null,
                             items: tempItemsWithImages,
                             // Include other fields as needed/available from context, or null/defaults
                             userId: tempContext.userId,
@@ -314,7 +377,7 @@ router.post('/initiate-checkout', express.json(), async (req: Request, res: Resp
 	}
 
 	// Destructure notes, selectedCardId, saveNewCardForFuture from the request body
-	const { items, contactInfo, shippingAddress, notes, selectedCardId, saveNewCardForFuture } = req.body as InitiateCheckoutRequest;
+	const { items, contactInfo, shippingAddress, notes, selectedCardId, saveNewCardForFuture, promoCode, shippingMethod, gift, giftCardCode } = req.body as InitiateCheckoutRequest;
 	const sessionUser = req.session.user as SessionUser | undefined;
 
 	// --- Basic Validations (keep existing) ---
@@ -331,9 +394,24 @@ router.post('/initiate-checkout', express.json(), async (req: Request, res: Resp
 	if ((selectedCardId || saveNewCardForFuture) && !sessionUser) {
 		return res.status(401).send({ error: 'Login is required to use saved cards or save a new card.' });
 	}
+	// Reject addresses we can't ship frozen goods to before anything is created in Stripe
+	const serviceability = checkServiceability(shippingAddress);
+	if (!serviceability.ok) {
+		return res.status(400).send({ error: serviceability.message });
+	}
+	// Gift orders ship to shippingAddress (the recipient); contactInfo stays the buyer's
+	const giftMessage = gift?.message?.trim() || null;
+	if (giftMessage && giftMessage.length > GIFT_MESSAGE_MAX_LENGTH) {
+		return res.status(400).send({ error: `Gift messages can be at most ${GIFT_MESSAGE_MAX_LENGTH} characters.` });
+	}
+	const giftMonths = gift?.subscriptionMonths ?? null;
+	if (giftMonths !== null && !(GIFT_SUBSCRIPTION_MONTHS as readonly number[]).includes(giftMonths)) {
+		return res.status(400).send({ error: `Gift subscriptions can be given for ${GIFT_SUBSCRIPTION_MONTHS.join(', ')} months.` });
+	}
 
 	let totalAmountCent = 0; // Use cents for Payment Intent amount
 	let containsSubscription = false;
+	let containsGiftSubscription = false; // Prepaid gift subscriptions are charged once, like one-time items
 	const detailedCartItems: any[] = []; // For metadata context
 	let stripeCustomerId: string | null = sessionUser?.stripeCustomerId || null;
 
@@ -356,6 +434,29 @@ router.post('/initiate-checkout', express.json(), async (req: Request, res: Resp
 				return res.status(400).send({ error: `Invalid or inactive price ID: ${item.priceId}` });
 			}
 
+			if (item.isSubscription && gift) {
+				// A gift subscription is a fixed number of monthly deliveries, paid up front
+				if (giftMonths === null) {
+					return res.status(400).send({ error: 'Please choose how many months of the subscription to give.' });
+				}
+				if (stripePrice.recurring?.interval !== 'month' || stripePrice.recurring.interval_count !== 1) {
+					return res.status(400).send({ error: 'Only monthly subscriptions can be given as gifts.' });
+				}
+				containsGiftSubscription = true;
+				totalAmountCent += stripePrice.unit_amount * item.quantity * giftMonths;
+				detailedCartItems.push({
+					priceId: item.priceId,
+					quantity: item.quantity,
+					isSubscription: false,
+					recurringInterval: null,
+					giftMonths: giftMonths,
+					productId: item.productId,
+					productName: item.name,
+					price: ((stripePrice.unit_amount * giftMonths) / 100).toString() // Per unit, for the whole gift
+				});
+				continue;
+			}
+
 			if (item.isSubscription) {
 				containsSubscription = true;
 				if (!sessionUser || !sessionUser.id) {
@@ -381,31 +482,88 @@ router.post('/initiate-checkout', express.json(), async (req: Request, res: Resp
 			});
 		}
 
-		// --- ADD SHIPPING & TAX TO TOTAL (BEFORE CUSTOMER HANDLING) ---
-		const itemsSubtotalCent = totalAmountCent; // Keep subtotal for potential tax calculation
+		// Subscriptions and saved cards are only for accounts with a confirmed email address
+		if ((containsSubscription || saveNewCardForFuture) && sessionUser && !(await isEmailVerified(sessionUser.id))) {
+			return res.status(403).send({ error: EMAIL_NOT_VERIFIED_MESSAGE });
+		}
+
+		// --- ADD SHIPPING, PROMO & TAX TO TOTAL (BEFORE CUSTOMER HANDLING) ---
+		const itemsSubtotalCent = totalAmountCent; // Keep subtotal for promo and tax calculation
 		let finalAmountCent = itemsSubtotalCent;
-		// Fetch Shipping Rate Price from Stripe
-		let shippingCostCent = 0;
-		const shippingPriceId = process.env.STRIPE_SHIPPING_RATE_PRICE_ID;
-
-		if (itemsSubtotalCent > 0 && shippingPriceId) {
-			try {
-				const shippingStripePrice = await stripe.prices.retrieve(shippingPriceId);
-				if (shippingStripePrice && shippingStripePrice.active && shippingStripePrice.unit_amount) {
-					shippingCostCent = shippingStripePrice.unit_amount; // Amount in cents
-					finalAmountCent += shippingCostCent;
-					console.log(`Fetched and added shipping ($${(shippingCostCent / 100).toFixed(2)}) from Price ID ${shippingPriceId}. Final amount: $${(finalAmountCent / 100).toFixed(2)}`);
-				} else {
-					console.warn(`Stripe Price ID ${shippingPriceId} for shipping is invalid, inactive, or has no amount. Shipping not added.`);
-				}
-			} catch (priceError: any) {
-				console.error(`Error fetching Stripe Price ${shippingPriceId} for shipping: ${priceError.message}. Shipping not added.`);
-				// Decide if this should be a fatal error preventing checkout
-				// return res.status(500).send({ error: 'Could not retrieve shipping cost.' });
+		// Price the shipping method the customer picked with the shipping rules engine
+		if (!shippingMethod) {
+			return res.status(400).send({ error: 'Please choose a shipping method.' });
+		}
+		const shippingQuote = getShippingQuote(shippingMethod, {
+			address: { state: shippingAddress.state, postalCode: shippingAddress.postalCode, country: shippingAddress.country },
+			itemCount: items.reduce((count, item) => count + item.quantity, 0),
+			itemsSubtotalCent,
+		});
+		if (!shippingQuote) {
+			return res.status(400).send({ error: 'The selected shipping method is not available for this address.' });
+		}
+		const shippingCostCent = shippingQuote.amountCent;
+		finalAmountCent += shippingCostCent;
+		console.log(`Added ${shippingQuote.name} shipping ($${(shippingCostCent / 100).toFixed(2)}, zone ${shippingQuote.zoneId}, delivery by ${shippingQuote.estimatedDeliveryDate}). Final amount: $${(finalAmountCent / 100).toFixed(2)}`);
+
+		// --- Apply promo code (validated again here; the preview endpoint is not trusted) ---
+		let appliedPromo: AppliedPromo | null = null;
+		if (promoCode) {
+			if (containsSubscription || containsGiftSubscription) {
+				return res.status(400).send({ error: 'Promo codes cannot be applied to subscriptions.' });
 			}
-		} else if (itemsSubtotalCent > 0) {
-            console.warn("STRIPE_SHIPPING_RATE_PRICE_ID not set in environment variables. Shipping not added.");
-        }
+			const promoResult = await evaluatePromoCode({
+				code: promoCode,
+				itemsSubtotalCent,
+				shippingCent: shippingCostCent,
+				userId: sessionUser?.id || null,
+				email: contactInfo.email,
+			});
+			if (!promoResult.ok) {
+				return res.status(400).send({ error: promoResult.message });
+			}
+			appliedPromo = promoResult.promo;
+			finalAmountCent -= appliedPromo.discountCent;
+			console.log(`Applied promo ${appliedPromo.code}: -$${(appliedPromo.discountCent / 100).toFixed(2)}. Final amount: $${(finalAmountCent / 100).toFixed(2)}`);
+		}
+
+		// --- Add sales tax for the shipping destination (one-time purchases only) ---
+		// Tax is calculated on the discounted amounts; subscriptions are billed by Stripe and not taxed here.
+		let taxCent = 0;
+		let taxRate: number | null = null;
+		if (!containsSubscription) {
+			const taxResult = await calculateTax({
+				itemsSubtotalCent: itemsSubtotalCent - (appliedPromo?.itemsDiscountCent ?? 0),
+				shippingCent: shippingCostCent - (appliedPromo?.shippingDiscountCent ?? 0),
+				address: { state: shippingAddress.state, postalCode: shippingAddress.postalCode, country: shippingAddress.country },
+			});
+			taxCent = taxResult.taxCent;
+			taxRate = taxResult.taxCent > 0 ? taxResult.rate : null;
+			finalAmountCent += taxCent;
+			console.log(`Tax (${taxResult.provider}, ${taxResult.jurisdiction ?? 'no jurisdiction'}): $${(taxCent / 100).toFixed(2)}. Final amount: $${(finalAmountCent / 100).toFixed(2)}`);
+		}
+
+		// --- Apply gift card balance (held below, redeemed when the order is created; see createOrderFromCheckout) ---
+		let giftCardCent = 0;
+		let appliedGiftCardCode: string | null = null;
+		if (giftCardCode) {
+			if (containsSubscription) {
+				return res.status(400).send({ error: 'Gift cards cannot be applied to subscriptions.' });
+			}
+			const giftCardResult = await checkGiftCard(giftCardCode);
+			if (!giftCardResult.ok) {
+				return res.status(400).send({ error: giftCardResult.message });
+			}
+			appliedGiftCardCode = giftCardResult.value.code;
+			giftCardCent = Math.min(giftCardResult.value.balanceCent, finalAmountCent);
+			// Stripe won't charge less than its minimum, so leave at least that much for the card payment
+			const remainderCent = finalAmountCent - giftCardCent;
+			if (remainderCent > 0 && remainderCent < STRIPE_MIN_CHARGE_CENT) {
+				giftCardCent = Math.max(0, finalAmountCent - STRIPE_MIN_CHARGE_CENT);
+			}
+			console.log(`Applied gift card ${appliedGiftCardCode}: -$${(giftCardCent / 100).toFixed(2)}. Left to charge: $${((finalAmountCent - giftCardCent) / 100).toFixed(2)}`);
+		}
+		const chargeAmountCent = finalAmountCent - giftCardCent;
 
 		// --- Step 1.5: Ensure Stripe Customer Exists for logged-in users (moved earlier) ---
 		if (sessionUser) {
@@ -421,7 +579,7 @@ router.post('/initiate-checkout', express.json(), async (req: Request, res: Resp
 						email: sessionUser.email,
 						name: sessionUser.name || undefined,
 						phone: contactInfo.phone || undefined,
-						shipping: {
+						shipping: gift ? undefined : {
 							name: shippingAddress.fullName,
 							address: {
 								line1: shippingAddress.address1, line2: shippingAddress.address2 || undefined,
@@ -456,6 +614,14 @@ router.post('/initiate-checkout', express.json(), async (req: Request, res: Resp
 			}
 		} // End if (sessionUser)
 
+		// Checked before stock is reserved so these early returns don't leave a reservation behind
+		if (containsSubscription && (!sessionUser || !stripeCustomerId)) { // Should be caught earlier, but double-check
+			return res.status(401).send({ error: 'Login required for subscriptions.' });
+		}
+		if (!containsSubscription && finalAmountCent <= 0) {
+			return res.status(400).send({ error: 'Total amount including items must be positive for one-time payment.' });
+		}
+
 		// --- Step 2: Prepare Context Object (including new flags) ---
 		const checkoutContext = {
 			userId: sessionUser?.id || null,
@@ -464,76 +630,131 @@ router.post('/initiate-checkout', express.json(), async (req: Request, res: Resp
 			shippingAddress: shippingAddress,
 			notes: notes,
 			selectedCardId: selectedCardId, // Add selectedCardId to context
-			saveNewCardForFuture: saveNewCardForFuture // Add saveNewCardForFuture to context
+			saveNewCardForFuture: saveNewCardForFuture, // Add saveNewCardForFuture to context
+			shipping: { // Shipping method picked at checkout, with the date estimates shown to the customer
+				methodId: shippingQuote.id,
+				name: shippingQuote.name,
+				amountCent: shippingCostCent,
+				estimatedShipDate: shippingQuote.estimatedShipDate,
+				estimatedDeliveryDate: shippingQuote.estimatedDeliveryDate
+			},
+			promo: appliedPromo, // Applied promo code and discount (null if none)
+			taxCent: taxCent, // Sales tax included in the PaymentIntent amount
+			taxRate: taxRate,
+			recoveryReminderId: req.session.cartRecoveryReminderId ?? null, // Abandoned checkout reminder that brought the customer back
+			gift: gift ? { message: giftMessage, hidePrices: !!gift.hidePrices } : null, // shippingAddress is the recipient's when set
+			giftCard: appliedGiftCardCode && giftCardCent > 0 ? { code: appliedGiftCardCode, amountCent: giftCardCent } : null // Taken off the PaymentIntent amount
 		};
 
 		// --- Step 2.5: Save context to temporary store and get ID ---
 		console.log("Saving checkout context to temporary store...");
 		const checkoutAttemptId = await saveCheckoutAttempt(checkoutContext);
 		console.log(`Checkout context saved with ID: ${checkoutAttemptId}`);
+		rememberCheckoutAttempt(req, checkoutAttemptId);
 
-		// --- Step 3: Create SetupIntent (for subs) or PaymentIntent (one-time) ---
-		let clientSecret: string | null = null;
+		// --- Step 2.6: Reserve stock for tracked price options ---
+		await releaseExpiredReservations();
+		const reservation = await reserveStock(checkoutAttemptId, detailedCartItems);
+		if (!reservation.ok) {
+			await deleteCheckoutAttempt(checkoutAttemptId);
+			const soldOutItem = detailedCartItems.find(item => item.priceId === reservation.priceId);
+			const itemName = soldOutItem?.productName || reservation.priceId;
+			console.warn(`Insufficient stock for ${reservation.priceId} (${reservation.available} available). Checkout aborted.`);
+			return res.status(409).send({
+				error: reservation.available > 0
+					? `Only ${reservation.available} left of ${itemName}. Please update your cart.`
+					: `${itemName} is sold out. Please remove it from your cart.`
+			});
+		}
 
-		if (containsSubscription) {
-			// --- Subscription Flow -> Create SetupIntent ---
-			if (!sessionUser || !stripeCustomerId) { // Should be caught earlier, but double-check
-				return res.status(401).send({ error: 'Login required for subscriptions.' });
-			}
-			// Customer handling now done earlier
-			console.log(`Creating SetupIntent for customer: ${stripeCustomerId}`);
-			const setupIntent = await stripe.setupIntents.create({
-				customer: stripeCustomerId,
-				usage: 'on_session',
-				automatic_payment_methods: { enabled: true },
-				metadata: { checkoutAttemptId: checkoutAttemptId },
+		// --- Step 2.7: Hold a use of the promo code so parallel checkouts can't exceed its limits ---
+		if (appliedPromo) {
+			const promoReservation = await reservePromoCode(checkoutAttemptId, appliedPromo, {
+				userId: sessionUser?.id || null,
+				email: contactInfo.email,
 			});
-			console.log(`SetupIntent ${setupIntent.id} created.`);
-			clientSecret = setupIntent.client_secret;
-
-		} else {
-			// --- One-Time Payment Flow -> Create PaymentIntent ---
-			console.log("Creating PaymentIntent for one-time purchase.");
-			// Use the FINAL calculated amount including shipping/tax
-			if (finalAmountCent <= 0) {
-				return res.status(400).send({ error: 'Total amount including items must be positive for one-time payment.' });
+			if (!promoReservation.ok) {
+				await deleteCheckoutAttempt(checkoutAttemptId); // Also releases the stock reserved above
+				return res.status(400).send({ error: promoReservation.message });
 			}
+		}
 
-			const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
-				amount: finalAmountCent, // <-- Use the final amount
-				currency: 'usd',
-				automatic_payment_methods: { enabled: true },
-				metadata: { checkoutAttemptId: checkoutAttemptId },
-			};
-
-			// Add customer if logged in (enables showing saved cards in Payment Element)
-			if (sessionUser && stripeCustomerId) {
-				paymentIntentParams.customer = stripeCustomerId;
-				console.log(`Associating PaymentIntent with customer: ${stripeCustomerId}`);
-
-				// Add setup_future_usage if requested (and not using a saved card)
-				if (saveNewCardForFuture && !selectedCardId) {
-					paymentIntentParams.setup_future_usage = 'on_session';
-					console.log(`Setting setup_future_usage = 'on_session' for PaymentIntent.`);
-				}
+		// --- Step 2.8: Hold the gift card amount so it can't be spent on another checkout meanwhile ---
+		if (appliedGiftCardCode && giftCardCent > 0) {
+			const giftCardHold = await holdGiftCardBalance(checkoutAttemptId, appliedGiftCardCode, giftCardCent);
+			if (!giftCardHold.ok) {
+				await deleteCheckoutAttempt(checkoutAttemptId); // Also releases the reservations above
+				return res.status(giftCardHold.status).send({ error: giftCardHold.message });
 			}
+		}
 
-			// If a specific saved card is selected, pass it (optional but can help)
-			// Note: PaymentElement usually handles selection, but this confirms intent.
-			// if (selectedCardId && stripeCustomerId) {
-			// 	paymentIntentParams.payment_method = selectedCardId;
-			// }
+		// --- Step 3: Create SetupIntent (for subs) or PaymentIntent (one-time) ---
+		let clientSecret: string | null = null;
+
+		try {
+			if (containsSubscription) {
+				// --- Subscription Flow -> Create SetupIntent ---
+				// Customer handling now done earlier
+				console.log(`Creating SetupIntent for customer: ${stripeCustomerId}`);
+				const setupIntent = await stripe.setupIntents.create({
+					customer: stripeCustomerId!,
+					usage: 'on_session',
+					automatic_payment_methods: { enabled: true },
+					metadata: { checkoutAttemptId: checkoutAttemptId },
+				});
+				console.log(`SetupIntent ${setupIntent.id} created.`);
+				clientSecret = setupIntent.client_secret;
+
+			} else if (giftCardCent > 0 && chargeAmountCent === 0) {
+				// --- Gift card covers everything -> nothing to charge; the client calls complete-gift-card-checkout ---
+				console.log(`Gift card covers the full $${(finalAmountCent / 100).toFixed(2)}. No PaymentIntent needed.`);
+				return res.send({ clientSecret: null, checkoutAttemptId: checkoutAttemptId, taxAmount: taxCent / 100, giftCardAmount: giftCardCent / 100, coveredByGiftCard: true });
+
+			} else {
+				// --- One-Time Payment Flow -> Create PaymentIntent ---
+				console.log("Creating PaymentIntent for one-time purchase.");
+				// Use the FINAL calculated amount including shipping/tax
+				const paymentIntentParams: Stripe.PaymentIntentCreateParams = {
+					amount: chargeAmountCent, // <-- Use the final amount, less any gift card
+					currency: 'usd',
+					automatic_payment_methods: { enabled: true },
+					metadata: { checkoutAttemptId: checkoutAttemptId },
+				};
+
+				// Add customer if logged in (enables showing saved cards in Payment Element)
+				if (sessionUser && stripeCustomerId) {
+					paymentIntentParams.customer = stripeCustomerId;
+					console.log(`Associating PaymentIntent with customer: ${stripeCustomerId}`);
+
+					// Add setup_future_usage if requested (and not using a saved card)
+					if (saveNewCardForFuture && !selectedCardId) {
+						paymentIntentParams.setup_future_usage = 'on_session';
+						console.log(`Setting setup_future_usage = 'on_session' for PaymentIntent.`);
+					}
+				}
 
-			const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams);
-			console.log(`PaymentIntent ${paymentIntent.id} created.`);
-			clientSecret = paymentIntent.client_secret;
+				// If a specific saved card is selected, pass it (optional but can help)
+				// Note: PaymentElement usually handles selection, but this confirms intent.
+				// if (selectedCardId && stripeCustomerId) {
+				// 	paymentIntentParams.payment_method = selectedCardId;
+				// }
+
+				const paymentIntent = await stripe.paymentIntents.create(paymentIntentParams);
+				console.log(`PaymentIntent ${paymentIntent.id} created.`);
+				clientSecret = paymentIntent.client_secret;
+			}
+			if (!clientSecret) {
+				throw new Error("Failed to initialize payment (client secret missing).");
+			}
+		} catch (error) {
+			// Nothing to pay against, so give the stock back (reservations are deleted with the checkout attempt)
+			await deleteCheckoutAttempt(checkoutAttemptId);
+			throw error;
 		}
 
 		// --- Step 4: Return Client Secret AND Checkout Attempt ID ---
-		if (!clientSecret) {
-			throw new Error("Failed to initialize payment (client secret missing).");
-		}
-		res.send({ clientSecret: clientSecret, checkoutAttemptId: checkoutAttemptId });
+		// Tax is only known once the address is in, so return it for the order summary
+		res.send({ clientSecret: clientSecret, checkoutAttemptId: checkoutAttemptId, taxAmount: taxCent / 100, giftCardAmount: giftCardCent / 100 });
 
 	} catch (error: any) {
 		console.error("Error processing /initiate-checkout:", error);
@@ -546,41 +767,206 @@ router.post('/initiate-checkout', express.json(), async (req: Request, res: Resp
 	}
 });
 
-// GET /api/stripe/shipping-rate
-// Retrieves the current flat shipping rate amount from the Stripe Price object
-router.get('/shipping-rate', async (req: Request, res: Response) => {
+// POST /api/stripe/complete-gift-card-checkout
+// Places the order for a checkout whose gift card covers the whole total (initiate-checkout returned coveredByGiftCard).
+// Only for the session that started the checkout or the customer's own account.
+router.post('/complete-gift-card-checkout', express.json(), async (req: Request, res: Response) => {
+	const { checkoutAttemptId } = req.body as { checkoutAttemptId?: string };
+	if (!checkoutAttemptId || typeof checkoutAttemptId !== 'string') {
+		return res.status(400).json({ error: 'Missing checkout attempt ID.' });
+	}
+
+	try {
+		const context = await getCheckoutAttempt(checkoutAttemptId);
+		if (!context) {
+			// Already completed (the context is deleted once the order exists) or expired
+			const existingOrder = await prisma.order.findUnique({ where: { checkoutAttemptId }, select: { id: true, userId: true } });
+			if (existingOrder && canAccessCheckoutAttempt(req, checkoutAttemptId, existingOrder.userId)) {
+				return res.status(200).json({ orderId: existingOrder.id, checkoutAttemptId });
+			}
+			return res.status(404).json({ error: 'This checkout has expired. Please start again.' });
+		}
+		if (!canAccessCheckoutAttempt(req, checkoutAttemptId, context.userId ?? null)) {
+			return res.status(404).json({ error: 'This checkout has expired. Please start again.' });
+		}
+		if (!context.giftCard) {
+			return res.status(400).json({ error: 'This checkout needs a card payment.' });
+		}
+		// Only orders the gift card pays in full may skip the PaymentIntent; recompute the total from the context
+		const itemsCent = (context.cartItems as any[]).reduce((sum: number, item: any) => sum + Math.round(parseFloat(item.price) * 100) * item.quantity, 0);
+		const totalCent = Math.max(0, itemsCent + (context.shipping?.amountCent ?? 0) - (context.promo?.discountCent ?? 0)) + (context.taxCent ?? 0);
+		if (context.giftCard.amountCent < totalCent) {
+			return res.status(400).json({ error: 'This checkout needs a card payment.' });
+		}
+
+		const orderId = await createOrderFromCheckout(checkoutAttemptId, null);
+		if (!orderId) {
+			return res.status(500).json({ error: 'Failed to place your order.' });
+		}
+		res.status(200).json({ orderId, checkoutAttemptId });
+	} catch (error: any) {
+		if (error.message === 'GiftCardBalanceChanged') {
+			return res.status(409).json({ error: "Your gift card balance no longer covers this order. Please go back and review your payment." });
+		}
+		console.error(`Error completing gift card checkout ${checkoutAttemptId}:`, error);
+		res.status(500).json({ error: 'Failed to place your order.' });
+	}
+});
+
+// GET /api/stripe/order/:checkoutAttemptId
+// Order details for the confirmation page when there was no PaymentIntent (gift card paid the whole order).
+// Only for the session that started the checkout or the customer's own account.
+router.get('/order/:checkoutAttemptId', async (req: Request, res: Response) => {
+	if (!stripe) {
+		return res.status(500).json({ error: 'Stripe service is not available.' });
+	}
+	const { checkoutAttemptId } = req.params;
+
+	try {
+		const order = await prisma.order.findUnique({ where: { checkoutAttemptId }, select: confirmationOrderSelect });
+		// Same answer whether the order doesn't exist or belongs to someone else
+		if (!order || !canAccessCheckoutAttempt(req, checkoutAttemptId, order.userId)) {
+			return res.status(404).json({ error: 'Order not found.' });
+		}
+		const { userId: _userId, ...orderDetails } = order;
+		const productIds = order.items.map(item => item.productId).filter((id): id is string => id !== null);
+		const imageUrls = productIds.length > 0 ? await getImageUrls(stripe, productIds) : {};
+		res.status(200).json({
+			orderDetails: {
+				...orderDetails,
+				items: order.items.map(item => ({ ...item, imageUrl: item.productId ? (imageUrls[item.productId] ?? null) : null })),
+			},
+		});
+	} catch (error) {
+		console.error(`Error fetching order for checkout ${checkoutAttemptId}:`, error);
+		res.status(500).json({ error: 'Failed to retrieve order details.' });
+	}
+});
+
+// POST /api/stripe/promo-code
+// Previews a promo code against the current cart. initiate-checkout re-validates it before charging.
+router.post('/promo-code', express.json(), async (req: Request, res: Response) => {
+	if (!stripe) {
+		return res.status(503).json({ error: 'Stripe service is not available.' });
+	}
+
+	const { code, items, email, shippingAddress, shippingMethod } = req.body as {
+		code?: string;
+		items?: { priceId: string; quantity: number }[];
+		email?: string;
+		shippingAddress?: { state: string; postalCode: string; country: string };
+		shippingMethod?: string;
+	};
+	const sessionUser = req.session.user as SessionUser | undefined;
+
+	if (!code || typeof code !== 'string' || !items || !Array.isArray(items) || items.length === 0) {
+		return res.status(400).json({ error: 'A promo code and cart items are required.' });
+	}
+
+	try {
+		let itemsSubtotalCent = 0;
+		for (const item of items) {
+			if (!item.priceId || typeof item.quantity !== 'number' || item.quantity <= 0) {
+				return res.status(400).json({ error: 'Invalid item data passed.' });
+			}
+			const stripePrice = await stripe.prices.retrieve(item.priceId);
+			if (stripePrice.recurring) {
+				return res.status(400).json({ error: 'Promo codes cannot be applied to subscriptions.' });
+			}
+			itemsSubtotalCent += (stripePrice.unit_amount ?? 0) * item.quantity;
+		}
+
+		// Shipping is only known once an address and method are chosen; until then free-shipping codes preview as $0
+		let shippingCent = 0;
+		if (shippingAddress && shippingMethod) {
+			const shippingQuote = getShippingQuote(shippingMethod, {
+				address: shippingAddress,
+				itemCount: items.reduce((count, item) => count + item.quantity, 0),
+				itemsSubtotalCent,
+			});
+			shippingCent = shippingQuote ? shippingQuote.amountCent : 0;
+		}
+
+		const result = await evaluatePromoCode({
+			code,
+			itemsSubtotalCent,
+			shippingCent,
+			userId: sessionUser?.id || null,
+			email: email || sessionUser?.email || null,
+		});
+		if (!result.ok) {
+			return res.status(400).json({ error: result.message });
+		}
+
+		// Return amounts in dollars for consistency with frontend usage
+		res.status(200).json({
+			code: result.promo.code,
+			description: result.promo.description,
+			itemsDiscount: result.promo.itemsDiscountCent / 100,
+			shippingDiscount: result.promo.shippingDiscountCent / 100,
+			discount: result.promo.discountCent / 100,
+		});
+	} catch (error: any) {
+		console.error("API Error validating promo code:", error.message);
+		res.status(500).json({ error: 'Failed to validate promo code.' });
+	}
+});
+
+// POST /api/stripe/shipping-options
+// Quotes the available shipping methods for an address and cart (amounts in dollars)
+router.post('/shipping-options', express.json(), async (req: Request, res: Response) => {
     if (!stripe) {
         return res.status(503).json({ error: 'Stripe service is not available.' });
     }
 
-    const shippingPriceId = process.env.STRIPE_SHIPPING_RATE_PRICE_ID;
+    const { items, shippingAddress } = req.body as {
+        items?: { priceId: string; quantity: number }[];
+        shippingAddress?: { state: string; postalCode: string; country: string };
+    };
 
-    if (!shippingPriceId) {
-        console.error("API Error: STRIPE_SHIPPING_RATE_PRICE_ID is not set in environment variables.");
-        return res.status(503).json({ error: 'Shipping configuration is not available.' });
+    if (!items || !Array.isArray(items) || items.length === 0 || !shippingAddress ||
+        !shippingAddress.state || !shippingAddress.postalCode || !shippingAddress.country) {
+        return res.status(400).json({ error: 'Cart items and a shipping state, postal code and country are required.' });
     }
 
-    try {
-        const shippingPrice = await stripe.prices.retrieve(shippingPriceId);
+    const serviceability = checkServiceability(shippingAddress);
+    if (!serviceability.ok) {
+        return res.status(400).json({ error: serviceability.message });
+    }
 
-        if (!shippingPrice || !shippingPrice.active || typeof shippingPrice.unit_amount !== 'number') {
-            console.error(`API Error: Stripe Price ${shippingPriceId} for shipping is invalid, inactive, or has no amount.`);
-            return res.status(500).json({ error: 'Could not retrieve valid shipping cost details.' });
+    try {
+        let itemsSubtotalCent = 0;
+        let itemCount = 0;
+        for (const item of items) {
+            if (!item.priceId || typeof item.quantity !== 'number' || item.quantity <= 0) {
+                return res.status(400).json({ error: 'Invalid item data passed.' });
+            }
+            const stripePrice = await stripe.prices.retrieve(item.priceId);
+            itemsSubtotalCent += (stripePrice.unit_amount ?? 0) * item.quantity;
+            itemCount += item.quantity;
         }
 
-        // Return amount in dollars for consistency with frontend usage
-        const amountInDollars = shippingPrice.unit_amount / 100;
-        res.status(200).json({ 
-            id: shippingPrice.id, 
-            amount: amountInDollars 
-        });
+        const options = quoteShippingOptions({ address: shippingAddress, itemCount, itemsSubtotalCent });
 
+        res.status(200).json({
+            options: options.map(option => ({
+                id: option.id,
+                name: option.name,
+                description: option.description,
+                amount: option.amountCent / 100,
+                minDays: option.minDays,
+                maxDays: option.maxDays,
+                isFree: option.isFree,
+                estimatedShipDate: option.estimatedShipDate,
+                estimatedDeliveryDate: option.estimatedDeliveryDate,
+            })),
+        });
     } catch (error: any) {
-        console.error(`API Error fetching Stripe Price ${shippingPriceId}:`, error.message);
+        console.error("API Error quoting shipping options:", error.message);
         if (error.type === 'StripeInvalidRequestError') {
-             return res.status(404).json({ error: 'Configured shipping price ID not found.' });
+            return res.status(400).json({ error: 'One or more items in your cart are no longer available.' });
         }
-        res.status(500).json({ error: 'Failed to retrieve shipping rate.' });
+        res.status(500).json({ error: 'Failed to quote shipping options.' });
     }
 });
 
@@ -647,6 +1033,26 @@ router.post('/webhook', stripeWebhookMiddleware, async (req: Request, res: Respo
             case 'invoice.payment_failed':
                 await handleInvoicePaymentFailed(event, stripe);
                 break;
+            case 'invoice.payment_action_required':
+                await handleInvoicePaymentActionRequired(event, stripe);
+                break;
+            case 'charge.refunded':
+                await handleChargeRefunded(event, stripe);
+                break;
+            case 'product.created':
+            case 'product.updated':
+                await handleProductUpserted(event);
+                break;
+            case 'product.deleted':
+                await handleProductDeleted(event);
+                break;
+            case 'price.created':
+            case 'price.updated':
+                await handlePriceUpserted(event, stripe);
+                break;
+            case 'price.deleted':
+                await handlePriceDeleted(event);
+                break;
             default:
                 await handleUnhandledEvent(event);
         }
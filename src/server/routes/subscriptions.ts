@@ -2,7 +2,12 @@ import express, { Router, Request, Response } from 'express';
 import prisma from '../db';
 import Stripe from 'stripe';
 import { SessionUser } from '../types';
-import { Subscription } from '@prisma/client';
+import { Subscription, Address } from '@prisma/client';
+import { previewPlanChange, applyPlanChange, PlanChangeInput } from '../services/subscriptionPlans';
+import { skipNextDelivery, pauseSubscription, resumeSubscription } from '../services/subscriptionPauses';
+import { getBoxSize, getSubscriptionBox, updateBoxContents, BoxItem } from '../services/subscriptionBoxes';
+import { setSubscriptionAddress } from '../services/subscriptionShipping';
+import { getOpenDunningNotices, openUpdatePaymentLink, retryDunningPayment } from '../services/subscriptionDunning';
 
 const router: Router = express.Router();
 
@@ -14,6 +19,8 @@ const stripe = stripeSecretKey ? new Stripe(stripeSecretKey, { apiVersion: '2025
 interface AugmentedSubscription extends Subscription {
     productName?: string;
     productImage?: string | null;
+    boxSize?: number | null; // Pints per box for build-your-own box subscriptions
+    shippingAddress: Address | null;
 }
 
 // --- GET /api/subscriptions ---
@@ -38,6 +45,7 @@ router.get('/', async (req: Request, res: Response) => {
             orderBy: {
                 createdAt: 'desc',
             },
+            include: { shippingAddress: true },
         });
 
         // Fetch product details from Stripe for each subscription
@@ -68,6 +76,7 @@ router.get('/', async (req: Request, res: Response) => {
                     ...sub,
                     productName,
                     productImage,
+                    boxSize: await getBoxSize(sub.stripePriceId),
                 };
             })
         );
@@ -80,6 +89,83 @@ router.get('/', async (req: Request, res: Response) => {
     }
 });
 
+// --- GET /api/subscriptions/dunning ---
+// Failed renewal payments still being retried, for the past due banner on /profile
+router.get('/dunning', async (req: Request, res: Response) => {
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+    const user = req.session.user as SessionUser;
+
+    try {
+        res.status(200).json(await getOpenDunningNotices(user.id));
+    } catch (error) {
+        console.error(`Error fetching failed payments for user ${user.id}:`, error);
+        res.status(500).json({ message: 'Failed to retrieve payment status.' });
+    }
+});
+
+// --- GET /api/subscriptions/dunning/link?token= ---
+// Resolves the update payment link from a payment failed email. The link must belong to the logged-in user
+router.get('/dunning/link', async (req: Request, res: Response) => {
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+    const user = req.session.user as SessionUser;
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+    if (!token) {
+        return res.status(400).json({ message: 'Missing link token.' });
+    }
+
+    try {
+        const result = await openUpdatePaymentLink(token, user.id);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json(result.value);
+    } catch (error) {
+        console.error(`Error opening update payment link for user ${user.id}:`, error);
+        res.status(500).json({ message: 'Failed to load payment details.' });
+    }
+});
+
+// --- POST /api/subscriptions/:stripeSubId/retry-payment ---
+// Pays the failed renewal invoice now with the user's default card
+router.post('/:stripeSubId/retry-payment', async (req: Request, res: Response) => {
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+
+    const user = req.session.user as SessionUser;
+    const { stripeSubId } = req.params;
+
+    if (!stripe) {
+        console.error("POST /retry-payment Error: Stripe not configured.");
+        return res.status(500).json({ message: 'Server configuration error.' });
+    }
+
+    try {
+        const localSubscription = await prisma.subscription.findFirst({
+            where: { stripeSubscriptionId: stripeSubId, userId: user.id }
+        });
+        if (!localSubscription) {
+            return res.status(404).json({ message: 'Subscription not found or access denied.' });
+        }
+
+        const result = await retryDunningPayment(stripe, localSubscription);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json({ message: 'Payment successful.', dunning: result.value });
+    } catch (error: any) {
+        console.error(`Error retrying payment for subscription ${stripeSubId} for user ${user.id}:`, error);
+        if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+            return res.status(400).json({ message: `Stripe Error: ${error.message}` });
+        }
+        res.status(500).json({ message: 'Failed to retry the payment.' });
+    }
+});
+
 // --- POST /api/subscriptions/:stripeSubId/cancel ---
 // Cancels a subscription at the end of the current period
 router.post('/:stripeSubId/cancel', async (req: Request, res: Response) => {
@@ -158,8 +244,53 @@ router.post('/:stripeSubId/cancel', async (req: Request, res: Response) => {
     }
 });
 
+// --- POST /api/subscriptions/:stripeSubId/skip ---
+// Skips the next delivery; collection resumes on its own for the one after
+router.post('/:stripeSubId/skip', async (req: Request, res: Response) => {
+    // 1. Auth Checks
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+    if (!stripe) {
+        console.error("Subscription Skip Error: Stripe not configured.");
+        return res.status(500).json({ message: 'Server configuration error.' });
+    }
+
+    const user = req.session.user as SessionUser;
+    const { stripeSubId } = req.params;
+
+    try {
+        // 2. Authorization
+        const localSubscription = await prisma.subscription.findFirst({
+            where: { stripeSubscriptionId: stripeSubId, userId: user.id }
+        });
+        if (!localSubscription) {
+            return res.status(404).json({ message: 'Subscription not found or access denied.' });
+        }
+
+        // 3. Pause collection in Stripe until the skipped renewal has passed
+        const result = await skipNextDelivery(stripe, localSubscription);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+
+        // 4. Response
+        res.status(200).json({
+            message: 'Your next delivery will be skipped.',
+            subscription: result.value
+        });
+
+    } catch (error: any) {
+        console.error(`Error skipping delivery for subscription ${stripeSubId} for user ${user.id}:`, error);
+        if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+            return res.status(400).json({ message: `Stripe Error: ${error.message}` });
+        }
+        res.status(500).json({ message: 'Failed to skip delivery.' });
+    }
+});
+
 // --- POST /api/subscriptions/:stripeSubId/pause ---
-// Pauses payment collection for a subscription indefinitely
+// Pauses payment collection for a subscription, until `resumesAt` (ISO date) if given, otherwise indefinitely
 router.post('/:stripeSubId/pause', async (req: Request, res: Response) => {
     // 1. Auth Checks
     if (!req.session || !req.session.user) {
@@ -177,8 +308,16 @@ router.post('/:stripeSubId/pause', async (req: Request, res: Response) => {
         return res.status(400).json({ message: 'Missing subscription ID.' });
     }
 
+    let resumesAt: Date | null = null;
+    if (req.body?.resumesAt !== undefined && req.body?.resumesAt !== null) {
+        resumesAt = typeof req.body.resumesAt === 'string' ? new Date(req.body.resumesAt) : null;
+        if (!resumesAt || isNaN(resumesAt.getTime())) {
+            return res.status(400).json({ message: 'Invalid resume date.' });
+        }
+    }
+
     try {
-        // 2. Authorization & Validation
+        // 2. Authorization
         const localSubscription = await prisma.subscription.findFirst({
             where: { stripeSubscriptionId: stripeSubId, userId: user.id }
         });
@@ -186,37 +325,18 @@ router.post('/:stripeSubId/pause', async (req: Request, res: Response) => {
         if (!localSubscription) {
             return res.status(404).json({ message: 'Subscription not found or access denied.' });
         }
-        if (localSubscription.status !== 'active') {
-             return res.status(400).json({ message: 'Only active subscriptions can be paused.' });
-        }
-        if (localSubscription.collectionPaused) {
-            return res.status(400).json({ message: 'Subscription collection is already paused.' });
-        }
-        if (localSubscription.cancelAtPeriodEnd) {
-            return res.status(400).json({ message: 'Cannot pause a subscription scheduled for cancellation.'});
-        }
 
-        // 3. Stripe API Call: Pause collection
+        // 3. Validate and pause collection in Stripe, recording the pause locally
         console.log(`Attempting Stripe pause for Sub ID: ${stripeSubId}`);
-        const updatedStripeSubscription = await stripe.subscriptions.update(stripeSubId, {
-            pause_collection: { behavior: 'mark_uncollectible' },
-        });
-        console.log(`Stripe subscription ${stripeSubId} pause_collection set.`);
-
-        // 4. Database Update 
-        const updatedLocalSubscription = await prisma.subscription.update({
-            where: { id: localSubscription.id },
-            data: {
-                collectionPaused: true,
-                // Stripe might keep status 'active', confirm behavior if needed
-                // status: updatedStripeSubscription.status 
-            }
-        });
+        const result = await pauseSubscription(stripe, localSubscription, resumesAt);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
 
-        // 5. Response
+        // 4. Response
         res.status(200).json({ 
             message: 'Subscription payment collection paused.',
-            subscription: updatedLocalSubscription 
+            subscription: result.value
          });
 
     } catch (error: any) {
@@ -229,7 +349,7 @@ router.post('/:stripeSubId/pause', async (req: Request, res: Response) => {
 });
 
 // --- POST /api/subscriptions/:stripeSubId/resume ---
-// Resumes payment collection for a paused subscription
+// Resumes payment collection for a paused subscription (also cancels a skip or dated pause early)
 router.post('/:stripeSubId/resume', async (req: Request, res: Response) => {
     // 1. Auth Checks
     if (!req.session || !req.session.user) {
@@ -248,7 +368,7 @@ router.post('/:stripeSubId/resume', async (req: Request, res: Response) => {
     }
 
     try {
-        // 2. Authorization & Validation
+        // 2. Authorization
         const localSubscription = await prisma.subscription.findFirst({
             where: { stripeSubscriptionId: stripeSubId, userId: user.id }
         });
@@ -256,33 +376,21 @@ router.post('/:stripeSubId/resume', async (req: Request, res: Response) => {
         if (!localSubscription) {
             return res.status(404).json({ message: 'Subscription not found or access denied.' });
         }
-        if (!localSubscription.collectionPaused) {
-            return res.status(400).json({ message: 'Subscription collection is not paused.' });
-        }
         // Note: We might allow resuming even if cancelAtPeriodEnd is true, 
         // as resuming collection might be desired until the cancellation date.
         // Let's allow it for now.
 
-        // 3. Stripe API Call: Resume collection
+        // 3. Resume collection in Stripe and end the local pause window
         console.log(`Attempting Stripe resume for Sub ID: ${stripeSubId}`);
-        const updatedStripeSubscription = await stripe.subscriptions.update(stripeSubId, {
-            pause_collection: null, // Setting to null resumes collection
-        });
-        console.log(`Stripe subscription ${stripeSubId} pause_collection removed.`);
-
-        // 4. Database Update
-        const updatedLocalSubscription = await prisma.subscription.update({
-            where: { id: localSubscription.id },
-            data: {
-                collectionPaused: false,
-                // status: updatedStripeSubscription.status // Update status if needed
-            }
-        });
+        const result = await resumeSubscription(stripe, localSubscription);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
 
-        // 5. Response
+        // 4. Response
         res.status(200).json({ 
             message: 'Subscription payment collection resumed.',
-            subscription: updatedLocalSubscription
+            subscription: result.value
          });
 
     } catch (error: any) {
@@ -294,4 +402,222 @@ router.post('/:stripeSubId/resume', async (req: Request, res: Response) => {
     }
 });
 
+// --- Plan Changes (flavor / pack, quantity, interval) ---
+
+// Reads { priceId, quantity } from the request body
+const parsePlanChangeInput = (body: any): PlanChangeInput | null => {
+    if (!body || typeof body.priceId !== 'string' || !body.priceId || typeof body.quantity !== 'number') {
+        return null;
+    }
+    return { priceId: body.priceId, quantity: body.quantity };
+};
+
+// --- POST /api/subscriptions/:stripeSubId/change/preview ---
+// Shows what a plan change would cost: proration for the current period and the new regular amount
+router.post('/:stripeSubId/change/preview', async (req: Request, res: Response) => {
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+    if (!stripe) {
+        console.error("Subscription Change Preview Error: Stripe not configured.");
+        return res.status(500).json({ message: 'Server configuration error.' });
+    }
+
+    const user = req.session.user as SessionUser;
+    const { stripeSubId } = req.params;
+    const input = parsePlanChangeInput(req.body);
+    if (!input) {
+        return res.status(400).json({ message: 'A price and quantity are required.' });
+    }
+
+    try {
+        const localSubscription = await prisma.subscription.findFirst({
+            where: { stripeSubscriptionId: stripeSubId, userId: user.id }
+        });
+        if (!localSubscription) {
+            return res.status(404).json({ message: 'Subscription not found or access denied.' });
+        }
+
+        const result = await previewPlanChange(stripe, localSubscription, input);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json(result.value);
+    } catch (error: any) {
+        console.error(`Error previewing change for subscription ${stripeSubId} for user ${user.id}:`, error);
+        if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+            return res.status(400).json({ message: `Stripe Error: ${error.message}` });
+        }
+        res.status(500).json({ message: 'Failed to preview subscription change.' });
+    }
+});
+
+// --- POST /api/subscriptions/:stripeSubId/change ---
+// Switches the subscription to a different price and/or quantity, prorating the current period.
+// Body: { priceId, quantity, prorationDate? } (prorationDate from the preview)
+router.post('/:stripeSubId/change', async (req: Request, res: Response) => {
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+    if (!stripe) {
+        console.error("Subscription Change Error: Stripe not configured.");
+        return res.status(500).json({ message: 'Server configuration error.' });
+    }
+
+    const user = req.session.user as SessionUser;
+    const { stripeSubId } = req.params;
+    const input = parsePlanChangeInput(req.body);
+    if (!input) {
+        return res.status(400).json({ message: 'A price and quantity are required.' });
+    }
+    const prorationDate = typeof req.body.prorationDate === 'number' ? req.body.prorationDate : undefined;
+
+    try {
+        const localSubscription = await prisma.subscription.findFirst({
+            where: { stripeSubscriptionId: stripeSubId, userId: user.id }
+        });
+        if (!localSubscription) {
+            return res.status(404).json({ message: 'Subscription not found or access denied.' });
+        }
+
+        const result = await applyPlanChange(stripe, localSubscription, input, prorationDate);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+
+        // Same shape as GET /api/subscriptions, so the list can swap the row in place
+        const price = await prisma.price.findUnique({ where: { id: result.value.stripePriceId }, select: { product: { select: { name: true, images: true } } } });
+        res.status(200).json({
+            message: 'Subscription updated.',
+            subscription: {
+                ...result.value,
+                productName: price?.product.name,
+                productImage: price?.product.images[0] || null,
+                boxSize: await getBoxSize(result.value.stripePriceId),
+            },
+        });
+    } catch (error: any) {
+        console.error(`Error changing subscription ${stripeSubId} for user ${user.id}:`, error);
+        if (error instanceof Stripe.errors.StripeCardError) {
+            return res.status(402).json({ message: `Payment failed: ${error.message}` });
+        }
+        if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+            return res.status(400).json({ message: `Stripe Error: ${error.message}` });
+        }
+        res.status(500).json({ message: 'Failed to change subscription.' });
+    }
+});
+
+// --- Build-Your-Own Box Contents ---
+
+// Reads [{ productId, quantity }] from the request body
+const parseBoxItems = (body: any): BoxItem[] | null => {
+    if (!body || !Array.isArray(body.items) || body.items.length > 100) {
+        return null;
+    }
+    const items: BoxItem[] = [];
+    for (const item of body.items) {
+        if (!item || typeof item.productId !== 'string' || !item.productId || typeof item.quantity !== 'number') {
+            return null;
+        }
+        items.push({ productId: item.productId, quantity: item.quantity });
+    }
+    return items;
+};
+
+// --- GET /api/subscriptions/:stripeSubId/box ---
+// Box contents, the flavors that can be picked, and when the contents lock for the next delivery
+router.get('/:stripeSubId/box', async (req: Request, res: Response) => {
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+
+    const user = req.session.user as SessionUser;
+    const { stripeSubId } = req.params;
+
+    try {
+        const localSubscription = await prisma.subscription.findFirst({
+            where: { stripeSubscriptionId: stripeSubId, userId: user.id }
+        });
+        if (!localSubscription) {
+            return res.status(404).json({ message: 'Subscription not found or access denied.' });
+        }
+
+        const result = await getSubscriptionBox(localSubscription);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json(result.value);
+    } catch (error) {
+        console.error(`Error loading box for subscription ${stripeSubId} for user ${user.id}:`, error);
+        res.status(500).json({ message: 'Failed to load box contents.' });
+    }
+});
+
+// --- PUT /api/subscriptions/:stripeSubId/box ---
+// Replaces the box contents. Body: { items: [{ productId, quantity }] } for one box
+router.put('/:stripeSubId/box', async (req: Request, res: Response) => {
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+
+    const user = req.session.user as SessionUser;
+    const { stripeSubId } = req.params;
+    const items = parseBoxItems(req.body);
+    if (!items) {
+        return res.status(400).json({ message: 'Invalid box contents.' });
+    }
+
+    try {
+        const localSubscription = await prisma.subscription.findFirst({
+            where: { stripeSubscriptionId: stripeSubId, userId: user.id }
+        });
+        if (!localSubscription) {
+            return res.status(404).json({ message: 'Subscription not found or access denied.' });
+        }
+
+        const result = await updateBoxContents(localSubscription, items);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json(result.value);
+    } catch (error) {
+        console.error(`Error updating box for subscription ${stripeSubId} for user ${user.id}:`, error);
+        res.status(500).json({ message: 'Failed to update box contents.' });
+    }
+});
+
+// --- PUT /api/subscriptions/:stripeSubId/address ---
+// Sets the saved shipping address renewals ship to. Body: { addressId }
+router.put('/:stripeSubId/address', async (req: Request, res: Response) => {
+    if (!req.session || !req.session.user) {
+        return res.status(401).json({ message: 'Authentication required.' });
+    }
+
+    const user = req.session.user as SessionUser;
+    const { stripeSubId } = req.params;
+    const addressId = Number(req.body?.addressId);
+    if (!Number.isInteger(addressId) || addressId <= 0) {
+        return res.status(400).json({ message: 'Invalid address.' });
+    }
+
+    try {
+        const localSubscription = await prisma.subscription.findFirst({
+            where: { stripeSubscriptionId: stripeSubId, userId: user.id }
+        });
+        if (!localSubscription) {
+            return res.status(404).json({ message: 'Subscription not found or access denied.' });
+        }
+
+        const result = await setSubscriptionAddress(localSubscription, addressId);
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        res.status(200).json({ message: 'Shipping address updated.', subscription: result.value });
+    } catch (error) {
+        console.error(`Error updating shipping address for subscription ${stripeSubId} for user ${user.id}:`, error);
+        res.status(500).json({ message: 'Failed to update shipping address.' });
+    }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,168 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import prisma from '../db';
+import {
+    startTwoFactorSetup,
+    enableTwoFactor,
+    verifyTwoFactorCode,
+    regenerateRecoveryCodes,
+    disableTwoFactor,
+    getTwoFactorStatus,
+} from '../services/twoFactor';
+import { throttle } from '../utils/throttle';
+
+const router: Router = express.Router();
+
+// --- Middleware ---
+const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+    if (req.session && req.session.user) {
+        return next();
+    }
+    return res.status(401).json({ message: 'Unauthorized: Please log in.' });
+};
+
+// --- Helpers ---
+
+const readCode = (req: Request): string => (typeof req.body?.code === 'string' ? req.body.code.trim() : '');
+
+// Wrong codes are throttled per account (services/authThrottle.ts), so starting a new session doesn't reset them
+const throttleCodes = throttle('2fa', (req: Request) => req.session.user?.email ?? req.session.pendingTwoFactor?.email ?? null);
+
+const WRONG_CODE_MESSAGE = "That code didn't work. Enter the 6-digit code from your app or one of your recovery codes.";
+
+// --- Routes ---
+
+// POST /api/auth/2fa/login - Second step of logging in, after /api/auth/login returned twoFactorRequired
+router.post('/login', throttleCodes, async (req: Request, res: Response) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: 'Your login has expired. Please enter your email and password again.' });
+    }
+
+    try {
+        const method = await verifyTwoFactorCode(pending.userId, readCode(req));
+        if (!method) {
+            return res.status(400).json({ message: WRONG_CODE_MESSAGE });
+        }
+
+        const user = await prisma.user.findUniqueOrThrow({
+            where: { id: pending.userId },
+            select: { id: true, email: true, name: true, phone: true, role: true, stripeCustomerId: true, emailVerifiedAt: true },
+        });
+        delete req.session.pendingTwoFactor;
+        req.session.twoFactorVerifiedAt = Date.now();
+        req.session.user = {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            phone: user.phone,
+            role: user.role,
+            stripeCustomerId: user.stripeCustomerId,
+            emailVerified: !!user.emailVerifiedAt,
+            twoFactorEnabled: true,
+        };
+
+        console.log(`User logged in with two-factor authentication (${method}):`, user.email);
+        const recoveryCodesLeft = method === 'recovery' ? (await getTwoFactorStatus(user.id)).recoveryCodesLeft : undefined;
+        res.status(200).json({ user: req.session.user, recoveryCodesLeft });
+    } catch (error) {
+        console.error("Two-Factor Login Error:", error);
+        res.status(500).json({ message: 'Internal server error during login' });
+    }
+});
+
+router.use(isAuthenticated);
+
+// GET /api/auth/2fa - Whether two-factor authentication is on
+router.get('/', async (req: Request, res: Response) => {
+    try {
+        res.status(200).json(await getTwoFactorStatus(req.session.user!.id));
+    } catch (error) {
+        console.error("Error fetching two-factor status:", error);
+        res.status(500).json({ message: 'Failed to load two-factor settings.' });
+    }
+});
+
+// POST /api/auth/2fa/setup - A new secret to add to an authenticator app; kept in the session until confirmed
+router.post('/setup', async (req: Request, res: Response) => {
+    try {
+        const status = await getTwoFactorStatus(req.session.user!.id);
+        if (status.enabled) {
+            return res.status(409).json({ message: 'Two-factor authentication is already on.' });
+        }
+        const setup = startTwoFactorSetup(req.session.user!.email);
+        req.session.pendingTotpSecret = setup.secret;
+        res.status(200).json(setup);
+    } catch (error) {
+        console.error("Error starting two-factor setup:", error);
+        res.status(500).json({ message: 'Failed to start two-factor setup.' });
+    }
+});
+
+// POST /api/auth/2fa/enable - Confirm the app works ({ code }) and turn two-factor authentication on
+router.post('/enable', async (req: Request, res: Response) => {
+    const secret = req.session.pendingTotpSecret;
+    if (!secret) {
+        return res.status(400).json({ message: 'Please start the setup again.' });
+    }
+    try {
+        const result = await enableTwoFactor(req.session.user!.id, secret, readCode(req));
+        if (!result.ok) {
+            return res.status(result.status).json({ message: result.message });
+        }
+        delete req.session.pendingTotpSecret;
+        req.session.user!.twoFactorEnabled = true;
+        req.session.twoFactorVerifiedAt = Date.now();
+        res.status(200).json(result.value);
+    } catch (error) {
+        console.error("Error enabling two-factor authentication:", error);
+        res.status(500).json({ message: 'Failed to turn on two-factor authentication.' });
+    }
+});
+
+// POST /api/auth/2fa/verify - Enter a code before a sensitive change ({ code })
+router.post('/verify', throttleCodes, async (req: Request, res: Response) => {
+    try {
+        if (!(await verifyTwoFactorCode(req.session.user!.id, readCode(req)))) {
+            return res.status(400).json({ message: WRONG_CODE_MESSAGE });
+        }
+        req.session.twoFactorVerifiedAt = Date.now();
+        res.status(200).json({ message: 'Verified.' });
+    } catch (error) {
+        console.error("Error verifying two-factor code:", error);
+        res.status(500).json({ message: 'Failed to verify the code.' });
+    }
+});
+
+// POST /api/auth/2fa/recovery-codes - Replace the recovery codes ({ code })
+router.post('/recovery-codes', throttleCodes, async (req: Request, res: Response) => {
+    try {
+        if (!(await verifyTwoFactorCode(req.session.user!.id, readCode(req)))) {
+            return res.status(400).json({ message: WRONG_CODE_MESSAGE });
+        }
+        const recoveryCodes = await regenerateRecoveryCodes(req.session.user!.id);
+        console.log(`[TwoFactor] New recovery codes for user ${req.session.user!.id}.`);
+        res.status(200).json({ recoveryCodes });
+    } catch (error) {
+        console.error("Error regenerating recovery codes:", error);
+        res.status(500).json({ message: 'Failed to create new recovery codes.' });
+    }
+});
+
+// POST /api/auth/2fa/disable - Turn two-factor authentication off ({ code })
+router.post('/disable', throttleCodes, async (req: Request, res: Response) => {
+    try {
+        if (!(await verifyTwoFactorCode(req.session.user!.id, readCode(req)))) {
+            return res.status(400).json({ message: WRONG_CODE_MESSAGE });
+        }
+        await disableTwoFactor(req.session.user!.id);
+        req.session.user!.twoFactorEnabled = false;
+        delete req.session.twoFactorVerifiedAt;
+        res.status(200).json({ message: 'Two-factor authentication is off.' });
+    } catch (error) {
+        console.error("Error disabling two-factor authentication:", error);
+        res.status(500).json({ message: 'Failed to turn off two-factor authentication.' });
+    }
+});
+
+export default router;
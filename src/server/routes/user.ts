@@ -1,6 +1,8 @@
 import express, { Router, Request, Response, NextFunction } from 'express';
 import { PrismaClient, Prisma } from '@prisma/client';
 import prisma from '../db'; // Import the singleton instance
+import { sendVerificationEmail } from '../services/emailVerification';
+import { needsTwoFactorReauth, TWO_FACTOR_REAUTH_MESSAGE } from '../services/twoFactor';
 
 // Remove Session augmentation - rely on definition in auth.ts
 /*
@@ -81,7 +83,7 @@ router.put('/me', async (req: Request, res: Response) => {
     }
 
     // --- Prepare Update Data ---
-    const updateData: { name?: string | null; email?: string; phone?: string | null } = {};
+    const updateData: { name?: string | null; email?: string; phone?: string | null; emailVerifiedAt?: null } = {};
     if (name !== undefined) {
         updateData.name = name.trim() || null;
     }
@@ -102,13 +104,20 @@ router.put('/me', async (req: Request, res: Response) => {
 
     try {
         // --- Check for Email Conflict ---
-        if (updateData.email && updateData.email !== req.session.user.email) {
+        const emailChanged = !!updateData.email && updateData.email !== req.session.user.email;
+        if (emailChanged) {
+            // The email is where password reset links go, so two-factor accounts confirm a code first
+            if (await needsTwoFactorReauth(userId, req.session.twoFactorVerifiedAt)) {
+                return res.status(403).json({ message: TWO_FACTOR_REAUTH_MESSAGE, twoFactorRequired: true });
+            }
             const existingUser = await prisma.user.findUnique({
                 where: { email: updateData.email },
             });
             if (existingUser && existingUser.id !== userId) {
                 return res.status(409).json({ message: 'Email already in use' });
             }
+            // A new address has to be confirmed again
+            updateData.emailVerifiedAt = null;
         }
 
         // --- Perform Update ---
@@ -121,6 +130,8 @@ router.put('/me', async (req: Request, res: Response) => {
                 name: true,
                 phone: true, // Select phone
                 role: true,
+                emailVerifiedAt: true,
+                totpEnabledAt: true,
                 createdAt: true,
                 updatedAt: true,
             }
@@ -133,11 +144,16 @@ router.put('/me', async (req: Request, res: Response) => {
             name: updatedUser.name,
             phone: updatedUser.phone, // Update phone in session
             role: updatedUser.role,
+            emailVerified: !!updatedUser.emailVerifiedAt,
+            twoFactorEnabled: !!updatedUser.totpEnabledAt,
             createdAt: updatedUser.createdAt,
             updatedAt: updatedUser.updatedAt,
         };
 
         console.log('User profile updated:', req.session.user.email);
+        if (emailChanged) {
+            await sendVerificationEmail(userId);
+        }
         res.status(200).json({ user: req.session.user }); // Return updated user data
 
     } catch (error) {
@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+import prisma from '../db';
+import { sendAbandonedCheckoutReminders } from '../services/notifications';
+
+dotenv.config();
+
+/**
+ * CLI entry point for the abandoned checkout reminder emails.
+ * Usage: npm run abandoned-checkout-reminders
+ * Meant to run every hour or so; each checkout is only reminded once.
+ */
+const run = async () => {
+    try {
+        const sent = await sendAbandonedCheckoutReminders();
+        console.log(JSON.stringify({ sent }, null, 2));
+    } catch (error) {
+        console.error("Abandoned Checkout Reminders Error:", error);
+        process.exitCode = 1;
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+run();
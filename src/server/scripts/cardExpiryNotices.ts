@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+import prisma from '../db';
+import { sendCardExpiringEmails } from '../services/notifications';
+
+dotenv.config();
+
+/**
+ * CLI entry point for the "card expiring soon" emails.
+ * Usage: npm run card-expiry-notices
+ * Meant to run daily; each card is only emailed once.
+ */
+const run = async () => {
+    try {
+        const sent = await sendCardExpiringEmails();
+        console.log(JSON.stringify({ sent }, null, 2));
+    } catch (error) {
+        console.error("Card Expiry Notices Error:", error);
+        process.exitCode = 1;
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+run();
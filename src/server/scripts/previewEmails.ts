@@ -0,0 +1,70 @@
+import dotenv from 'dotenv';
+import { sendEmail } from '../../utils/emailService';
+import {
+    RenderedEmail,
+    renderOrderPaidEmail,
+    renderOrderShippedEmail,
+    renderOrderRefundedEmail,
+    renderSubscriptionRenewedEmail,
+    renderRenewalPaymentFailedEmail,
+    renderCardExpiringEmail,
+    renderSubscriptionCanceledEmail,
+    renderAbandonedCheckoutEmail,
+    renderGiftCardEmail,
+    renderEmailVerificationEmail,
+    renderMagicLinkEmail,
+    renderAccountLockedEmail,
+    renderOrderOnHoldAdminEmail,
+} from '../utils/emailTemplates';
+
+dotenv.config();
+
+/**
+ * CLI entry point that sends every transactional email template with sample data.
+ * Usage: npm run preview-emails [-- you@example.com]
+ * Defaults to the file transport (EMAIL_OUTBOX_DIR); set EMAIL_TRANSPORT=smtp to use a local capture server.
+ */
+const run = async () => {
+    const to = process.argv[2] || 'preview@abominablecreamery.example';
+    const items = [
+        { name: 'Vanilla Bean Pint', quantity: 2, unitPrice: 9.99 },
+        { name: 'Salted Caramel Pint', quantity: 1, unitPrice: 10.99 },
+    ];
+    const inDays = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+    const emails: RenderedEmail[] = [
+        renderOrderPaidEmail({
+            orderId: 1001, customerName: 'Sample Customer', items, shippingCost: 12, discountAmount: 3, taxAmount: 2.72,
+            totalAmount: 42.69, shippingMethodName: 'Standard', estimatedDeliveryDate: inDays(4),
+        }),
+        renderOrderShippedEmail({ orderId: 1001, customerName: 'Sample Customer', carrier: 'UPS', trackingNumber: '1Z999AA10123456784', items, isFinalShipment: true }),
+        renderOrderRefundedEmail({ orderId: 1001, customerName: 'Sample Customer', amount: 10.99, items: [items[1]], isOrderCanceled: false }),
+        renderSubscriptionRenewedEmail({ orderId: 1002, customerName: 'Sample Customer', items: [items[0]], totalAmount: 19.98, nextRenewalDate: inDays(30) }),
+        renderSubscriptionRenewedEmail({ orderId: 1002, customerName: 'Sample Customer', items: [items[0]], totalAmount: 19.98, nextRenewalDate: inDays(30), needsAddress: true }),
+        renderOrderOnHoldAdminEmail({ orderId: 1002, contactEmail: 'customer@example.com', totalAmount: 19.98, holdReason: 'The renewal was paid but the subscription has no shipping address. It ships once the customer adds one.' }),
+        renderRenewalPaymentFailedEmail({ customerName: 'Sample Customer', productName: 'Vanilla Bean', amountDue: 19.98, nextAttemptDate: inDays(3), updatePaymentUrl: 'http://localhost:3000/billing/update-payment?token=sample' }),
+        renderCardExpiringEmail({ customerName: 'Sample Customer', brand: 'visa', last4: '4242', expMonth: 12, expYear: new Date().getFullYear(), hasActiveSubscription: true }),
+        renderSubscriptionCanceledEmail({ customerName: 'Sample Customer', productName: 'Vanilla Bean' }),
+        renderGiftCardEmail({ recipientName: 'Sample Friend', senderName: 'Sample Customer', message: 'Happy birthday!', code: 'ABCD-EFGH-JKLM-NPQR', amount: 50 }),
+        renderEmailVerificationEmail({ customerName: 'Sample Customer', verifyUrl: 'http://localhost:3000/verify-email?token=sample', expiresInHours: 24 }),
+        renderMagicLinkEmail({ customerName: 'Sample Customer', loginUrl: 'http://localhost:3000/login/magic?token=sample', expiresInMinutes: 15 }),
+        renderAccountLockedEmail({ customerName: 'Sample Customer', failedAttempts: 10, lockedMinutes: 15 }),
+        renderAccountLockedEmail({ customerName: 'Sample Customer', failedAttempts: 10, lockedMinutes: 15, wrongTwoFactorCodes: true }),
+        renderAbandonedCheckoutEmail({
+            customerName: 'Sample Customer', items,
+            recoverUrl: 'http://localhost:3000/cart/recover?token=sample', unsubscribeUrl: 'http://localhost:3000/unsubscribe/cart-reminders?token=sample',
+        }),
+    ];
+
+    try {
+        for (const email of emails) {
+            await sendEmail({ to, ...email });
+        }
+        console.log(`Sent ${emails.length} preview emails to ${to}.`);
+    } catch (error) {
+        console.error("Email Preview Error:", error);
+        process.exitCode = 1;
+    }
+};
+
+run();
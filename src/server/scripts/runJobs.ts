@@ -0,0 +1,37 @@
+import dotenv from 'dotenv';
+import prisma from '../db';
+import { runJobWithLock } from '../utils/scheduler';
+import { SCHEDULED_JOBS } from '../services/scheduledJobs';
+
+dotenv.config();
+
+/**
+ * CLI entry point that runs background jobs once, e.g. from cron when the in-process scheduler is off.
+ * Usage: npm run jobs [-- cleanup abandoned-checkout-reminders ...]  (no names = all jobs)
+ * Uses the same advisory locks as the servers, so it is safe to run while they are up.
+ */
+const run = async () => {
+    const names = process.argv.slice(2);
+    const unknown = names.filter(name => !SCHEDULED_JOBS.some(job => job.name === name));
+    if (unknown.length > 0) {
+        console.error(`Unknown job(s): ${unknown.join(', ')}. Available: ${SCHEDULED_JOBS.map(job => job.name).join(', ')}`);
+        process.exitCode = 1;
+        await prisma.$disconnect();
+        return;
+    }
+
+    try {
+        const jobs = names.length > 0 ? SCHEDULED_JOBS.filter(job => names.includes(job.name)) : SCHEDULED_JOBS;
+        const results: Record<string, unknown> = {};
+        for (const job of jobs) {
+            const outcome = await runJobWithLock(job);
+            results[job.name] = outcome.status === 'failed' ? { status: 'failed' } : outcome;
+            if (outcome.status === 'failed') process.exitCode = 1;
+        }
+        console.log(JSON.stringify(results, null, 2));
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+run();
@@ -0,0 +1,33 @@
+import dotenv from 'dotenv';
+import prisma from '../db';
+import { createStripeClient } from '../services/stripeUtils';
+import { syncCatalog } from '../services/catalogSync';
+
+dotenv.config();
+
+/**
+ * CLI entry point for the catalog sync job.
+ * Usage: npm run sync-catalog [-- --dry-run]
+ * Prints the added/changed/archived report as JSON and exits non-zero on failure.
+ */
+const run = async () => {
+    const dryRun = process.argv.includes('--dry-run');
+    const stripe = createStripeClient();
+    if (!stripe) {
+        console.error("Catalog Sync Error: STRIPE_SECRET_KEY is not set.");
+        process.exitCode = 1;
+        return;
+    }
+
+    try {
+        const report = await syncCatalog(stripe, { dryRun });
+        console.log(JSON.stringify(report, null, 2));
+    } catch (error) {
+        console.error("Catalog Sync Error:", error);
+        process.exitCode = 1;
+    } finally {
+        await prisma.$disconnect();
+    }
+};
+
+run();
@@ -0,0 +1,204 @@
+import prisma from '../db';
+import { sendEmail } from '../../utils/emailService';
+import { startAuthAttempt, finishAuthAttempt, AuthAction } from './authThrottle';
+
+jest.mock('../db', () => ({
+    __esModule: true,
+    default: {
+        authAttempt: {
+            create: jest.fn(),
+            findFirst: jest.fn(),
+            findMany: jest.fn(),
+            delete: jest.fn(),
+            deleteMany: jest.fn(),
+            updateMany: jest.fn(),
+        },
+        user: { findFirst: jest.fn(), updateMany: jest.fn() },
+    },
+}));
+jest.mock('../../utils/emailService', () => ({ sendEmail: jest.fn() }));
+jest.mock('../utils/emailTemplates', () => ({
+    renderAccountLockedEmail: jest.fn(() => ({ subject: 'Locked', html: '', text: '' })),
+}));
+
+interface StoredAttempt {
+    id: number;
+    action: string;
+    ip: string;
+    email: string | null;
+    succeeded: boolean;
+    createdAt: Date;
+}
+
+type AttemptWhere = Partial<{
+    id: number | { lt: number };
+    action: string;
+    ip: string;
+    email: string | null;
+    succeeded: boolean;
+    createdAt: { gt: Date };
+}>;
+
+const db = prisma as unknown as {
+    authAttempt: Record<'create' | 'findFirst' | 'findMany' | 'delete' | 'deleteMany' | 'updateMany', jest.Mock>;
+    user: Record<'findFirst' | 'updateMany', jest.Mock>;
+};
+
+// A small in-memory AuthAttempt table that understands the filters the service uses
+let attempts: StoredAttempt[] = [];
+let nextId = 1;
+
+const matches = (attempt: StoredAttempt, where: AttemptWhere): boolean =>
+    (where.id === undefined || (typeof where.id === 'number' ? attempt.id === where.id : attempt.id < where.id.lt))
+    && (where.action === undefined || attempt.action === where.action)
+    && (where.ip === undefined || attempt.ip === where.ip)
+    && (where.email === undefined || attempt.email === where.email)
+    && (where.succeeded === undefined || attempt.succeeded === where.succeeded)
+    && (where.createdAt === undefined || attempt.createdAt > where.createdAt.gt);
+
+const newestFirst = (where: AttemptWhere) =>
+    attempts.filter(a => matches(a, where)).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+const IP = '203.0.113.7';
+const EMAIL = 'jo@example.com';
+const START = new Date('2025-06-01T12:00:00Z').getTime();
+const at = (seconds: number) => new Date(START + seconds * 1000);
+
+// Runs one attempt through the throttle; the status is what the route would have answered
+const attempt = async (action: AuthAction, seconds: number, status: number | null, email: string | null = EMAIL) => {
+    const start = await startAuthAttempt(action, IP, email, at(seconds));
+    if (start.allowed) {
+        await finishAuthAttempt(start.attemptId, action, email, status, at(seconds));
+    }
+    return start;
+};
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    attempts = [];
+    nextId = 1;
+
+    db.authAttempt.create.mockImplementation(async ({ data }: { data: Omit<StoredAttempt, 'id'> }) => {
+        const row = { id: nextId++, ...data };
+        attempts.push(row);
+        return { id: row.id };
+    });
+    db.authAttempt.findMany.mockImplementation(async ({ where, take }: { where: AttemptWhere; take: number }) =>
+        newestFirst(where).slice(0, take));
+    db.authAttempt.findFirst.mockImplementation(async ({ where }: { where: AttemptWhere }) => newestFirst(where)[0] ?? null);
+    db.authAttempt.delete.mockImplementation(async ({ where }: { where: { id: number } }) => {
+        attempts = attempts.filter(a => a.id !== where.id);
+    });
+    db.authAttempt.deleteMany.mockImplementation(async ({ where }: { where: AttemptWhere }) => {
+        attempts = attempts.filter(a => !matches(a, where));
+    });
+    db.authAttempt.updateMany.mockImplementation(async ({ where, data }: { where: AttemptWhere; data: Partial<StoredAttempt> }) => {
+        attempts.filter(a => matches(a, where)).forEach(a => Object.assign(a, data));
+    });
+    db.user.findFirst.mockResolvedValue({ id: 5, email: 'Jo@Example.com', name: 'Jo', lockedUntil: null });
+    db.user.updateMany.mockResolvedValue({ count: 1 });
+});
+
+describe('login throttling', () => {
+    it('lets the first few failures through without waiting', async () => {
+        for (let i = 0; i < 4; i++) {
+            expect(await attempt('login', i, 401)).toMatchObject({ allowed: true });
+        }
+    });
+
+    it('makes each further attempt wait twice as long', async () => {
+        for (let i = 0; i < 4; i++) {
+            await attempt('login', i, 401);
+        }
+        expect(await attempt('login', 3, 401)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+        expect(await attempt('login', 4, 401)).toMatchObject({ allowed: true });
+
+        expect(await attempt('login', 5, 401)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+        expect(await attempt('login', 6, 401)).toMatchObject({ allowed: true });
+        expect(await attempt('login', 7, 401)).toMatchObject({ allowed: false, retryAfterSeconds: 3 });
+    });
+
+    it('does not keep refused attempts', async () => {
+        for (let i = 0; i < 4; i++) {
+            await attempt('login', i, 401);
+        }
+        await attempt('login', 3, 401);
+        expect(attempts).toHaveLength(4);
+    });
+
+    it('starts counting again after a successful login', async () => {
+        for (let i = 0; i < 6; i++) {
+            await attempt('login', i * 60, 401);
+        }
+        await attempt('login', 360, 200);
+        for (let i = 1; i <= 4; i++) {
+            expect(await attempt('login', 360 + i, 401)).toMatchObject({ allowed: true });
+        }
+    });
+
+    it('counts neither server errors nor unfinished attempts', async () => {
+        for (let i = 0; i < 10; i++) {
+            await attempt('login', i, i % 2 ? 500 : null);
+        }
+        expect(attempts).toHaveLength(0);
+    });
+
+    it('counts an email however it is typed', async () => {
+        for (let i = 0; i < 5; i++) {
+            await attempt('login', i * 60, 401, i % 2 ? ' JO@example.com' : 'Jo@Example.COM ');
+        }
+        expect(attempts.every(a => a.email === EMAIL)).toBe(true);
+        expect(await attempt('login', 241, 401, EMAIL)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+    });
+
+    it('locks the account and emails the owner at the limit', async () => {
+        for (let i = 0; i < 10; i++) {
+            expect(await attempt('login', i * 60, 401)).toMatchObject({ allowed: true });
+        }
+        expect(db.user.updateMany).toHaveBeenCalledTimes(1);
+        expect(db.user.updateMany).toHaveBeenCalledWith({
+            where: { id: 5, OR: [{ lockedUntil: null }, { lockedUntil: { lt: at(540) } }] },
+            data: { lockedUntil: at(540 + 15 * 60) },
+        });
+        expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'Jo@Example.com' }));
+    });
+
+    it('refuses a locked account before checking attempts', async () => {
+        db.user.findFirst.mockResolvedValue({ id: 5, email: 'Jo@Example.com', name: 'Jo', lockedUntil: at(600) });
+        const start = await attempt('login', 0, 401);
+        expect(start).toMatchObject({ allowed: false, retryAfterSeconds: 600 });
+        expect(db.user.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+            where: { email: { equals: EMAIL, mode: 'insensitive' } },
+        }));
+        expect(attempts).toHaveLength(0);
+    });
+
+    it('makes an IP wait after many failures, whatever emails it tries', async () => {
+        for (let i = 0; i < 11; i++) {
+            expect(await attempt('login', 0, 401, `user${i}@example.com`)).toMatchObject({ allowed: true });
+        }
+        expect(await attempt('login', 0, 401, 'someone@example.com')).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+        expect(db.user.updateMany).not.toHaveBeenCalled();
+    });
+});
+
+describe('two-factor code throttling', () => {
+    it('locks the account after too many wrong codes', async () => {
+        for (let i = 0; i < 10; i++) {
+            await attempt('2fa', i * 60, 400);
+        }
+        expect(db.user.updateMany).toHaveBeenCalledTimes(1);
+        expect(sendEmail).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('password reset request throttling', () => {
+    it('counts requests that succeeded and refuses them until the oldest leaves the window', async () => {
+        for (let i = 0; i < 5; i++) {
+            expect(await attempt('password_reset_request', i * 60, 200)).toMatchObject({ allowed: true });
+        }
+        expect(await attempt('password_reset_request', 300, 200)).toMatchObject({ allowed: false, retryAfterSeconds: 600 });
+        expect(await attempt('password_reset_request', 15 * 60 + 1, 200)).toMatchObject({ allowed: true });
+        expect(db.user.updateMany).not.toHaveBeenCalled();
+    });
+});
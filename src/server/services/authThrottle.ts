@@ -0,0 +1,300 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { sendEmail } from '../../utils/emailService';
+import { renderAccountLockedEmail } from '../utils/emailTemplates';
+import { FulfillmentResult } from './fulfillment';
+
+// Throttling for the auth endpoints that can be used to guess passwords or reset tokens. Every attempt
+// is stored as an AuthAttempt, by IP and by the email entered. The row is written before the route runs
+// (as a failure, until the route answers), so parallel requests count each other. After a few recent failures each further
+// attempt has to wait longer (1s, 2s, 4s... up to a minute); past the limit the IP or email is refused
+// until the window moves on. Too many wrong passwords (or two-factor codes) for one account lock it and email the owner.
+
+export type AuthAction = 'login' | 'password_reset_request' | 'password_reset' | 'magic_link_request' | 'magic_link_login' | '2fa';
+
+interface AttemptLimit {
+    freeAttempts: number; // Counted attempts allowed in the window before delays start
+    maxAttempts: number; // Counted attempts in the window before requests are refused
+}
+
+interface ThrottleRule {
+    countAll?: boolean; // Count every attempt, not just failed ones
+    ip: AttemptLimit;
+    account?: AttemptLimit; // Limits for the email entered, when the action takes one
+    locksAccount?: boolean; // Reaching account.maxAttempts locks the account; only failures since its last success count
+}
+
+export type ThrottleDecision =
+    | { allowed: true }
+    | { allowed: false; retryAfterSeconds: number; message: string };
+
+export type AuthAttemptStart =
+    | { allowed: true; attemptId: number }
+    | { allowed: false; retryAfterSeconds: number; message: string };
+
+const WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_DELAY_MS = 60 * 1000;
+
+const RULES: Record<AuthAction, ThrottleRule> = {
+    login: {
+        ip: { freeAttempts: 10, maxAttempts: 50 },
+        account: { freeAttempts: 3, maxAttempts: 10 },
+        locksAccount: true,
+    },
+    // Each request can send an email, so all of them count
+    password_reset_request: {
+        countAll: true,
+        ip: { freeAttempts: 5, maxAttempts: 20 },
+        account: { freeAttempts: 2, maxAttempts: 5 },
+    },
+    // Failures are wrong or expired tokens
+    password_reset: {
+        ip: { freeAttempts: 5, maxAttempts: 20 },
+    },
+    // Each request can send an email, like password resets
+    magic_link_request: {
+        countAll: true,
+        ip: { freeAttempts: 5, maxAttempts: 20 },
+        account: { freeAttempts: 2, maxAttempts: 5 },
+    },
+    // Failures are wrong, used or expired login links
+    magic_link_login: {
+        ip: { freeAttempts: 5, maxAttempts: 20 },
+    },
+    // Failures are wrong two-factor codes, at login or before a sensitive change. Counted per account,
+    // since whoever gets this far already has the password
+    '2fa': {
+        ip: { freeAttempts: 5, maxAttempts: 20 },
+        account: { freeAttempts: 3, maxAttempts: 10 },
+        locksAccount: true,
+    },
+};
+
+const normalizeEmail = (email: string | null): string | null => (email ? email.trim().toLowerCase() : null);
+
+// Accounts keep the email as typed at signup, so match it the way attempts are stored
+const findAccount = (accountEmail: string) =>
+    prisma.user.findFirst({
+        where: { email: { equals: accountEmail, mode: 'insensitive' } },
+        select: { id: true, email: true, name: true, lockedUntil: true },
+    });
+
+const waitMessage = (retryAfterSeconds: number): string =>
+    retryAfterSeconds < 120
+        ? `Too many attempts. Please wait ${retryAfterSeconds} seconds and try again.`
+        : `Too many attempts. Please try again in ${Math.ceil(retryAfterSeconds / 60)} minutes.`;
+
+/**
+ * Recent counted attempts (newest first) for one IP or email, at most limit.maxAttempts of them.
+ * For an account's logins only failures since its last successful login count.
+ * With beforeAttemptId, only attempts started before that one count.
+ */
+const getCountedAttempts = async (
+    action: AuthAction,
+    scope: Prisma.AuthAttemptWhereInput,
+    limit: AttemptLimit,
+    options: { countAll?: boolean; sinceLastSuccess?: boolean; beforeAttemptId?: number },
+    now: Date
+): Promise<Date[]> => {
+    let since = new Date(now.getTime() - WINDOW_MS);
+    if (options.sinceLastSuccess) {
+        const lastSuccess = await prisma.authAttempt.findFirst({
+            where: { action, ...scope, succeeded: true, createdAt: { gt: since } },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true },
+        });
+        if (lastSuccess) {
+            since = lastSuccess.createdAt;
+        }
+    }
+
+    const attempts = await prisma.authAttempt.findMany({
+        where: {
+            action,
+            ...scope,
+            createdAt: { gt: since },
+            ...(options.countAll ? {} : { succeeded: false }),
+            ...(options.beforeAttemptId ? { id: { lt: options.beforeAttemptId } } : {}),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: limit.maxAttempts,
+        select: { createdAt: true },
+    });
+    return attempts.map(attempt => attempt.createdAt);
+};
+
+// How long (ms) to wait before the next attempt, given the counted attempts (newest first)
+const getRetryAfterMs = (attempts: Date[], limit: AttemptLimit, now: Date): number => {
+    if (attempts.length >= limit.maxAttempts) {
+        // Refused until the oldest of these attempts leaves the window
+        return attempts[attempts.length - 1].getTime() + WINDOW_MS - now.getTime();
+    }
+    if (attempts.length > limit.freeAttempts) {
+        const delay = Math.min(1000 * Math.pow(2, attempts.length - limit.freeAttempts - 1), MAX_DELAY_MS);
+        return attempts[0].getTime() + delay - now.getTime();
+    }
+    return 0;
+};
+
+/**
+ * Whether an attempt may go ahead: the account isn't locked and neither the IP nor the email has to wait.
+ *
+ * @param action The endpoint being used.
+ * @param ip The client's IP address.
+ * @param email The email from the request, if the action takes one.
+ * @param beforeAttemptId The attempt being checked, when it is already recorded; only earlier ones count.
+ */
+export const checkAuthThrottle = async (
+    action: AuthAction,
+    ip: string,
+    email: string | null,
+    now: Date = new Date(),
+    beforeAttemptId?: number
+): Promise<ThrottleDecision> => {
+    const rule = RULES[action];
+    const accountEmail = normalizeEmail(email);
+
+    if (rule.locksAccount && accountEmail) {
+        const user = await findAccount(accountEmail);
+        if (user?.lockedUntil && user.lockedUntil > now) {
+            const retryAfterSeconds = Math.ceil((user.lockedUntil.getTime() - now.getTime()) / 1000);
+            return {
+                allowed: false,
+                retryAfterSeconds,
+                message: `This account is locked for ${Math.ceil(retryAfterSeconds / 60)} more minutes after too many failed logins. `
+                    + (action === 'login' ? 'You can reset your password or ask for a login link to get in now.' : 'You can reset your password to get in now.'),
+            };
+        }
+    }
+
+    const ipAttempts = await getCountedAttempts(action, { ip }, rule.ip, { countAll: rule.countAll, beforeAttemptId }, now);
+    let retryAfterMs = getRetryAfterMs(ipAttempts, rule.ip, now);
+    if (rule.account && accountEmail) {
+        const accountAttempts = await getCountedAttempts(
+            action, { email: accountEmail }, rule.account, { countAll: rule.countAll, sinceLastSuccess: rule.locksAccount, beforeAttemptId }, now
+        );
+        retryAfterMs = Math.max(retryAfterMs, getRetryAfterMs(accountAttempts, rule.account, now));
+    }
+    if (retryAfterMs > 0) {
+        const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+        return { allowed: false, retryAfterSeconds, message: waitMessage(retryAfterSeconds) };
+    }
+    return { allowed: true };
+};
+
+// Locks the account once its failed logins (or two-factor codes) reach the limit, and tells the owner
+const lockAccountIfNeeded = async (action: AuthAction, accountEmail: string, now: Date): Promise<void> => {
+    const limit = RULES[action].account!;
+    const failures = await getCountedAttempts(action, { email: accountEmail }, limit, { sinceLastSuccess: true }, now);
+    if (failures.length < limit.maxAttempts) {
+        return;
+    }
+
+    const user = await findAccount(accountEmail);
+    if (!user) {
+        return;
+    }
+    // Conditional, so parallel failures lock (and email) only once
+    const locked = await prisma.user.updateMany({
+        where: { id: user.id, OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] },
+        data: { lockedUntil: new Date(now.getTime() + LOCKOUT_MS) },
+    });
+    if (locked.count === 0) {
+        return;
+    }
+    console.log(`[AuthThrottle] Locked user ${user.id} after ${limit.maxAttempts} failed ${action === '2fa' ? 'two-factor codes' : 'logins'}.`);
+
+    try {
+        await sendEmail({
+            to: user.email,
+            ...renderAccountLockedEmail({
+                customerName: user.name,
+                failedAttempts: limit.maxAttempts,
+                lockedMinutes: LOCKOUT_MS / 60000,
+                wrongTwoFactorCodes: action === '2fa',
+            }),
+        });
+    } catch (error) {
+        console.error(`[AuthThrottle] Failed to send lockout email to ${user.email}:`, error);
+    }
+};
+
+/**
+ * Records an attempt before the route handles it, then checks it against the attempts started before it.
+ * The attempt counts as a failure until finishAuthAttempt records the outcome. Refused attempts aren't kept.
+ *
+ * @param action The endpoint being used.
+ * @param ip The client's IP address.
+ * @param email The email from the request, if the action takes one.
+ * @returns The attempt to finish once the route has answered, or why it has to wait.
+ */
+export const startAuthAttempt = async (action: AuthAction, ip: string, email: string | null, now: Date = new Date()): Promise<AuthAttemptStart> => {
+    const accountEmail = normalizeEmail(email);
+    const attempt = await prisma.authAttempt.create({
+        data: { action, ip, email: accountEmail, succeeded: false, createdAt: now },
+        select: { id: true },
+    });
+    const decision = await checkAuthThrottle(action, ip, accountEmail, now, attempt.id);
+    if (!decision.allowed) {
+        await prisma.authAttempt.delete({ where: { id: attempt.id } });
+        return decision;
+    }
+    return { allowed: true, attemptId: attempt.id };
+};
+
+/**
+ * Records the outcome of an attempt from startAuthAttempt. Server errors aren't counted against the user.
+ *
+ * @param status The HTTP status the route answered with; anything below 400 is a success. Null when the
+ *     attempt isn't over (a password accepted, the two-factor code still to come): it counts neither way.
+ */
+export const finishAuthAttempt = async (
+    attemptId: number,
+    action: AuthAction,
+    email: string | null,
+    status: number | null,
+    now: Date = new Date()
+): Promise<void> => {
+    if (status === null || status >= 500) {
+        await prisma.authAttempt.deleteMany({ where: { id: attemptId } });
+        return;
+    }
+    if (status < 400) {
+        await prisma.authAttempt.updateMany({ where: { id: attemptId }, data: { succeeded: true } });
+        return;
+    }
+    const accountEmail = normalizeEmail(email);
+    if (RULES[action].locksAccount && accountEmail) {
+        await lockAccountIfNeeded(action, accountEmail, now);
+    }
+};
+
+/**
+ * Unlocks the account and forgets its failed logins and two-factor codes, so it gets the full allowance again.
+ * Used by admins and after a successful password reset.
+ *
+ * @returns The account's email.
+ */
+export const unlockAccount = async (userId: number): Promise<FulfillmentResult<{ email: string }>> => {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { email: true } });
+    if (!user) {
+        return { ok: false, status: 404, message: 'User not found.' };
+    }
+    await prisma.$transaction([
+        prisma.user.update({ where: { id: userId }, data: { lockedUntil: null } }),
+        prisma.authAttempt.deleteMany({ where: { action: { in: ['login', '2fa'] }, email: normalizeEmail(user.email), succeeded: false } }),
+    ]);
+    return { ok: true, value: { email: user.email } };
+};
+
+/**
+ * Accounts that are locked right now, most recently locked first.
+ */
+export const getLockedAccounts = async (now: Date = new Date()) => {
+    return prisma.user.findMany({
+        where: { lockedUntil: { gt: now } },
+        orderBy: { lockedUntil: 'desc' },
+        select: { id: true, email: true, name: true, lockedUntil: true },
+    });
+};
@@ -0,0 +1,223 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { getAvailableStock } from './inventory';
+import { getMetadataValue, formatPrice } from '../utils/catalog';
+import { buildCartItemName } from '../../utils/cartItems';
+
+// A stored or client-side cart line before it has been checked against the catalog
+export interface CartLineInput {
+    priceId: string;
+    quantity: number;
+    price?: string; // Unit price the client last saw ("9.99"), used to report price changes
+}
+
+// A cart line as returned to CartContext (same shape as its CartItem)
+export interface CartLine {
+    priceId: string;
+    productId: string;
+    slug: string | null;
+    name: string;
+    productName: string;
+    price: string;
+    quantity: number;
+    imageSrc?: string;
+    isSubscription: boolean;
+    recurringInterval: string | null;
+}
+
+// Something that changed since the client last saw the cart
+export interface CartChange {
+    priceId: string;
+    name: string | null;
+    type: 'removed' | 'price_changed' | 'quantity_reduced';
+    previousPrice?: string;
+    newPrice?: string;
+    quantity?: number; // New quantity for quantity_reduced
+}
+
+export interface ValidatedCart {
+    items: CartLine[];
+    changes: CartChange[];
+}
+
+// Upper bound per stored line so a stale or tampered client can't save absurd quantities
+const MAX_LINE_QUANTITY = 99;
+
+/**
+ * Checks cart lines against the local catalog: drops inactive or unknown prices,
+ * refreshes names/prices, and clamps quantities to tracked stock.
+ *
+ * @param lines Cart lines (price IDs and quantities, optionally with the price the client last saw).
+ * @returns The valid lines in catalog form plus a list of what changed.
+ */
+export const validateCartLines = async (lines: CartLineInput[]): Promise<ValidatedCart> => {
+    // Collapse duplicate price IDs into one line
+    const quantities = new Map<string, CartLineInput>();
+    for (const line of lines) {
+        const existing = quantities.get(line.priceId);
+        quantities.set(line.priceId, { ...line, quantity: (existing?.quantity || 0) + line.quantity });
+    }
+    const priceIds = Array.from(quantities.keys());
+    if (priceIds.length === 0) {
+        return { items: [], changes: [] };
+    }
+
+    const prices = await prisma.price.findMany({
+        where: { id: { in: priceIds } },
+        include: { product: true },
+    });
+    const stockAvailable = await getAvailableStock(priceIds);
+
+    const items: CartLine[] = [];
+    const changes: CartChange[] = [];
+    for (const [priceId, line] of Array.from(quantities)) {
+        const price = prices.find(p => p.id === priceId);
+        if (!price || !price.active || !price.product.active || price.unitAmount === null) {
+            changes.push({ priceId, name: price ? price.product.name : null, type: 'removed' });
+            continue;
+        }
+
+        const isSubscription = price.recurringInterval !== null;
+        const name = buildCartItemName(price.product.name, getMetadataValue(price.metadata, 'unitDescription'), isSubscription);
+        const currentPrice = formatPrice(price.unitAmount);
+
+        let quantity = Math.min(Math.max(1, Math.floor(line.quantity)), MAX_LINE_QUANTITY);
+        const available = stockAvailable.get(priceId);
+        if (available !== undefined && quantity > available) {
+            if (available <= 0) {
+                changes.push({ priceId, name, type: 'removed' });
+                continue;
+            }
+            quantity = available;
+            changes.push({ priceId, name, type: 'quantity_reduced', quantity });
+        }
+        if (line.price !== undefined && parseFloat(line.price) !== parseFloat(currentPrice)) {
+            changes.push({ priceId, name, type: 'price_changed', previousPrice: line.price, newPrice: currentPrice });
+        }
+
+        items.push({
+            priceId,
+            productId: price.productId,
+            slug: getMetadataValue(price.product.metadata, 'slug') || null,
+            name,
+            productName: price.product.name,
+            price: currentPrice,
+            quantity,
+            imageSrc: price.product.images[0] || undefined,
+            isSubscription,
+            recurringInterval: price.recurringInterval,
+        });
+    }
+    return { items, changes };
+};
+
+// Loads the user's stored lines (creating the cart row on first use)
+const getStoredLines = async (tx: Prisma.TransactionClient, userId: number) => {
+    const cart = await tx.cart.upsert({
+        where: { userId },
+        create: { userId },
+        update: {},
+        select: { id: true, items: { select: { priceId: true, quantity: true }, orderBy: { createdAt: 'asc' } } },
+    });
+    return cart;
+};
+
+// Replaces the stored lines with the validated ones so removed/clamped items don't come back
+const saveLines = async (tx: Prisma.TransactionClient, cartId: number, items: CartLine[]) => {
+    await tx.cartItem.deleteMany({ where: { cartId, priceId: { notIn: items.map(item => item.priceId) } } });
+    for (const item of items) {
+        await tx.cartItem.upsert({
+            where: { cartId_priceId: { cartId, priceId: item.priceId } },
+            create: { cartId, priceId: item.priceId, quantity: item.quantity },
+            update: { quantity: item.quantity },
+        });
+    }
+};
+
+/**
+ * Loads the user's saved cart, re-validated against the catalog (current names and prices,
+ * unavailable items dropped, quantities clamped to stock).
+ * @param userId The logged-in user.
+ */
+export const getUserCart = async (userId: number): Promise<ValidatedCart> => {
+    return prisma.$transaction(async (tx) => {
+        const cart = await getStoredLines(tx, userId);
+        const result = await validateCartLines(cart.items);
+        if (result.changes.length > 0) {
+            await saveLines(tx, cart.id, result.items);
+        }
+        return result;
+    });
+};
+
+/**
+ * Adds units of a price to the user's cart (or sets the quantity when `replace` is true).
+ * A quantity of 0 with `replace` removes the line.
+ */
+export const setUserCartItem = async (userId: number, priceId: string, quantity: number, replace: boolean): Promise<ValidatedCart> => {
+    return prisma.$transaction(async (tx) => {
+        const cart = await getStoredLines(tx, userId);
+        const current = cart.items.find(item => item.priceId === priceId)?.quantity || 0;
+        const newQuantity = replace ? quantity : current + quantity;
+        if (newQuantity <= 0) {
+            await tx.cartItem.deleteMany({ where: { cartId: cart.id, priceId } });
+        } else {
+            await tx.cartItem.upsert({
+                where: { cartId_priceId: { cartId: cart.id, priceId } },
+                create: { cartId: cart.id, priceId, quantity: newQuantity },
+                update: { quantity: newQuantity },
+            });
+        }
+        const lines = cart.items.filter(item => item.priceId !== priceId);
+        if (newQuantity > 0) lines.push({ priceId, quantity: newQuantity });
+        const result = await validateCartLines(lines);
+        await saveLines(tx, cart.id, result.items);
+        return result;
+    });
+};
+
+/**
+ * Removes every line from the user's cart.
+ */
+export const clearUserCart = async (userId: number): Promise<void> => {
+    await prisma.cartItem.deleteMany({ where: { cart: { userId } } });
+};
+
+/**
+ * Merges a guest (localStorage) cart into the account cart at login.
+ * Lines only in one cart are kept. When both carts have the same price, the larger
+ * quantity wins, so logging in again on a device never doubles the cart.
+ *
+ * @param userId The user who just logged in.
+ * @param guestLines Lines from the browser cart.
+ * @returns The merged, validated cart.
+ */
+export const mergeGuestCart = async (userId: number, guestLines: CartLineInput[]): Promise<ValidatedCart> => {
+    return prisma.$transaction(async (tx) => {
+        const cart = await getStoredLines(tx, userId);
+        const merged = new Map<string, CartLineInput>();
+        for (const item of cart.items) {
+            merged.set(item.priceId, { priceId: item.priceId, quantity: item.quantity });
+        }
+        for (const line of guestLines) {
+            const existing = merged.get(line.priceId);
+            merged.set(line.priceId, {
+                priceId: line.priceId,
+                quantity: Math.max(existing?.quantity || 0, line.quantity),
+                price: line.price,
+            });
+        }
+        const result = await validateCartLines(Array.from(merged.values()));
+        await saveLines(tx, cart.id, result.items);
+        console.log(`[Cart] Merged ${guestLines.length} guest line(s) into cart of user ${userId}: ${result.items.length} line(s).`);
+        return result;
+    });
+};
+
+/**
+ * Removes purchased prices from the user's saved cart once an order is paid.
+ */
+export const removePurchasedItems = async (userId: number, priceIds: string[]): Promise<void> => {
+    if (priceIds.length === 0) return;
+    await prisma.cartItem.deleteMany({ where: { cart: { userId }, priceId: { in: priceIds } } });
+};
@@ -0,0 +1,106 @@
+import prisma from '../db';
+import { createSignedToken, verifySignedToken } from '../utils/signedTokens';
+import { validateCartLines, CartLineInput, ValidatedCart } from './cart';
+
+// Abandoned checkout recovery: signed links in reminder emails that rebuild the cart,
+// unsubscribe links, and attribution of the orders those links lead to.
+
+const RECOVERY_TOKEN_PURPOSE = 'cart-recovery';
+const UNSUBSCRIBE_TOKEN_PURPOSE = 'cart-reminders-unsubscribe';
+
+// Recovery links stop working after this; the cart contents are stale by then anyway
+const RECOVERY_LINK_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:3000';
+
+/**
+ * Builds the links for a reminder email.
+ * @param reminderId The CheckoutReminder the email is for.
+ * @param userId The recipient (for the unsubscribe link, which never expires).
+ */
+export const createReminderLinks = (reminderId: number, userId: number): { recoverUrl: string; unsubscribeUrl: string } => {
+    const recoverToken = createSignedToken(RECOVERY_TOKEN_PURPOSE, { r: reminderId }, RECOVERY_LINK_TTL_MS);
+    const unsubscribeToken = createSignedToken(UNSUBSCRIBE_TOKEN_PURPOSE, { u: userId }, null);
+    return {
+        recoverUrl: `${getFrontendUrl()}/cart/recover?token=${encodeURIComponent(recoverToken)}`,
+        unsubscribeUrl: `${getFrontendUrl()}/unsubscribe/cart-reminders?token=${encodeURIComponent(unsubscribeToken)}`,
+    };
+};
+
+/**
+ * Resolves a recovery link: records the first click and returns the reminder's cart,
+ * re-validated against the catalog.
+ * @param token The token from the recovery link.
+ * @returns The reminder ID and cart, or null if the token is invalid/expired or the reminder is gone.
+ */
+export const openRecoveryLink = async (token: string): Promise<{ reminderId: number; cart: ValidatedCart } | null> => {
+    const payload = verifySignedToken<{ r?: unknown }>(RECOVERY_TOKEN_PURPOSE, token);
+    if (!payload || typeof payload.r !== 'number') return null;
+
+    const reminder = await prisma.checkoutReminder.findUnique({
+        where: { id: payload.r },
+        select: { id: true, cartItems: true, clickedAt: true },
+    });
+    if (!reminder) return null;
+
+    if (!reminder.clickedAt) {
+        await prisma.checkoutReminder.updateMany({ where: { id: reminder.id, clickedAt: null }, data: { clickedAt: new Date() } });
+        console.log(`[CartRecovery] Reminder ${reminder.id} link opened.`);
+    }
+
+    const lines = (Array.isArray(reminder.cartItems) ? reminder.cartItems : []) as unknown as CartLineInput[];
+    const cart = await validateCartLines(lines.filter(line => line && typeof line.priceId === 'string' && typeof line.quantity === 'number'));
+    return { reminderId: reminder.id, cart };
+};
+
+/**
+ * Turns off abandoned checkout reminders for the user an unsubscribe link was issued to.
+ * @returns The user's email, or null if the token is invalid or the user no longer exists.
+ */
+export const unsubscribeFromCartReminders = async (token: string): Promise<string | null> => {
+    const payload = verifySignedToken<{ u?: unknown }>(UNSUBSCRIBE_TOKEN_PURPOSE, token);
+    if (!payload || typeof payload.u !== 'number') return null;
+
+    const user = await prisma.user.findUnique({ where: { id: payload.u }, select: { id: true, email: true } });
+    if (!user) return null;
+    await prisma.user.update({ where: { id: user.id }, data: { cartRemindersOptOut: true } });
+    console.log(`[CartRecovery] User ${user.id} unsubscribed from cart reminders.`);
+    return user.email;
+};
+
+/**
+ * Credits a paid order to the reminder whose link the customer followed. Each reminder
+ * is credited with one order at most.
+ */
+export const markReminderRecovered = async (reminderId: number, orderId: number): Promise<void> => {
+    const updated = await prisma.checkoutReminder.updateMany({
+        where: { id: reminderId, recoveredOrderId: null },
+        data: { recoveredOrderId: orderId, recoveredAt: new Date() },
+    });
+    if (updated.count > 0) {
+        console.log(`[CartRecovery] Order ${orderId} recovered by reminder ${reminderId}.`);
+    }
+};
+
+/**
+ * Conversion numbers for reminders sent since `since`.
+ */
+export const getRecoveryStats = async (since: Date) => {
+    const [sent, clicked, recovered] = await Promise.all([
+        prisma.checkoutReminder.count({ where: { sentAt: { gte: since } } }),
+        prisma.checkoutReminder.count({ where: { sentAt: { gte: since }, clickedAt: { not: null } } }),
+        prisma.checkoutReminder.findMany({
+            where: { sentAt: { gte: since }, recoveredOrderId: { not: null } },
+            select: { recoveredOrder: { select: { totalAmount: true } } },
+        }),
+    ]);
+    const recoveredRevenue = recovered.reduce((sum, reminder) => sum + Number(reminder.recoveredOrder?.totalAmount ?? 0), 0);
+    return {
+        since,
+        sent,
+        clicked,
+        recovered: recovered.length,
+        recoveredRevenue: recoveredRevenue.toFixed(2),
+        conversionRate: sent > 0 ? recovered.length / sent : 0,
+    };
+};
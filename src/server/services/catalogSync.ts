@@ -0,0 +1,239 @@
+import Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+
+// Summary of what a sync run changed, grouped by object type
+export interface CatalogSyncCounts {
+    added: string[];
+    changed: string[];
+    archived: string[];
+}
+
+export interface CatalogSyncReport {
+    products: CatalogSyncCounts;
+    prices: CatalogSyncCounts;
+    dryRun: boolean;
+}
+
+export interface CatalogSyncOptions {
+    dryRun?: boolean; // Compute the report without writing to the database
+}
+
+type UpsertResult = 'added' | 'changed' | 'unchanged';
+
+// --- Mapping helpers (Stripe object -> local row data) ---
+
+const toProductData = (product: Stripe.Product) => ({
+    name: product.name,
+    description: product.description || null,
+    active: product.active,
+    images: product.images || [],
+    metadata: (product.metadata || {}) as Prisma.InputJsonObject,
+    defaultPriceId: typeof product.default_price === 'string'
+        ? product.default_price
+        : product.default_price?.id ?? null,
+});
+
+const toPriceData = (price: Stripe.Price) => ({
+    productId: typeof price.product === 'string' ? price.product : price.product.id,
+    active: price.active,
+    currency: price.currency,
+    unitAmount: price.unit_amount,
+    recurringInterval: price.recurring?.interval ?? null,
+    recurringIntervalCount: price.recurring?.interval_count ?? null,
+    metadata: (price.metadata || {}) as Prisma.InputJsonObject,
+});
+
+// Stable comparison for the Json metadata columns
+const sameMetadata = (a: Prisma.JsonValue, b: Prisma.InputJsonObject): boolean => {
+    const normalize = (value: unknown) => JSON.stringify(
+        Object.entries((value || {}) as Record<string, unknown>).sort(([x], [y]) => x.localeCompare(y))
+    );
+    return normalize(a) === normalize(b);
+};
+
+const productHasChanged = (
+    existing: Prisma.ProductGetPayload<{}>,
+    incoming: ReturnType<typeof toProductData>
+): boolean => {
+    return existing.name !== incoming.name ||
+        existing.description !== incoming.description ||
+        existing.active !== incoming.active ||
+        existing.defaultPriceId !== incoming.defaultPriceId ||
+        existing.images.join('|') !== incoming.images.join('|') ||
+        !sameMetadata(existing.metadata, incoming.metadata);
+};
+
+const priceHasChanged = (
+    existing: Prisma.PriceGetPayload<{}>,
+    incoming: ReturnType<typeof toPriceData>
+): boolean => {
+    return existing.productId !== incoming.productId ||
+        existing.active !== incoming.active ||
+        existing.currency !== incoming.currency ||
+        existing.unitAmount !== incoming.unitAmount ||
+        existing.recurringInterval !== incoming.recurringInterval ||
+        existing.recurringIntervalCount !== incoming.recurringIntervalCount ||
+        !sameMetadata(existing.metadata, incoming.metadata);
+};
+
+// --- Single-object upserts (shared by the sync job and webhooks) ---
+
+/**
+ * Writes a Stripe Product into the local Product table.
+ * @param product The Stripe Product object.
+ * @param dryRun If true, only reports what would change.
+ * @returns Whether the row was added, changed, or already up to date.
+ */
+export const upsertProductFromStripe = async (product: Stripe.Product, dryRun = false): Promise<UpsertResult> => {
+    const data = toProductData(product);
+    const existing = await prisma.product.findUnique({ where: { id: product.id } });
+
+    if (existing && !productHasChanged(existing, data)) {
+        return 'unchanged';
+    }
+    if (!dryRun) {
+        await prisma.product.upsert({
+            where: { id: product.id },
+            create: { id: product.id, ...data, syncedAt: new Date() },
+            update: { ...data, syncedAt: new Date() },
+        });
+    }
+    return existing ? 'changed' : 'added';
+};
+
+/**
+ * Writes a Stripe Price into the local Price table.
+ * If the owning product is not in the catalog yet (e.g. price.created arrives
+ * before product.created), the product is fetched from Stripe first.
+ * @param price The Stripe Price object.
+ * @param stripe The initialized Stripe client (used to backfill the product).
+ * @param dryRun If true, only reports what would change.
+ */
+export const upsertPriceFromStripe = async (price: Stripe.Price, stripe: Stripe, dryRun = false): Promise<UpsertResult> => {
+    const data = toPriceData(price);
+
+    if (!dryRun) {
+        const productExists = await prisma.product.findUnique({ where: { id: data.productId }, select: { id: true } });
+        if (!productExists) {
+            console.log(`Catalog: Product ${data.productId} missing for price ${price.id}. Fetching from Stripe...`);
+            await upsertProductFromStripe(await stripe.products.retrieve(data.productId));
+        }
+    }
+
+    const existing = await prisma.price.findUnique({ where: { id: price.id } });
+    if (existing && !priceHasChanged(existing, data)) {
+        return 'unchanged';
+    }
+    if (!dryRun) {
+        await prisma.price.upsert({
+            where: { id: price.id },
+            create: { id: price.id, ...data, syncedAt: new Date() },
+            update: { ...data, syncedAt: new Date() },
+        });
+    }
+    return existing ? 'changed' : 'added';
+};
+
+/**
+ * Marks a product and all of its prices as inactive (used for product.deleted).
+ * @returns True if an active row was archived.
+ */
+export const archiveProduct = async (productId: string): Promise<boolean> => {
+    const result = await prisma.product.updateMany({
+        where: { id: productId, active: true },
+        data: { active: false, syncedAt: new Date() },
+    });
+    await prisma.price.updateMany({
+        where: { productId, active: true },
+        data: { active: false, syncedAt: new Date() },
+    });
+    return result.count > 0;
+};
+
+/**
+ * Marks a single price as inactive (used for price.deleted).
+ * @returns True if an active row was archived.
+ */
+export const archivePrice = async (priceId: string): Promise<boolean> => {
+    const result = await prisma.price.updateMany({
+        where: { id: priceId, active: true },
+        data: { active: false, syncedAt: new Date() },
+    });
+    return result.count > 0;
+};
+
+// --- Full sync ---
+
+/**
+ * Pulls every product and price from Stripe and reconciles the local catalog.
+ * Objects missing from Stripe (deleted) or inactive there are archived locally,
+ * never hard-deleted, so historic order items keep their references.
+ *
+ * @param stripe The initialized Stripe client (may point at a local stand-in such as stripe-mock).
+ * @param options Sync options.
+ * @returns A report listing added/changed/archived product and price IDs.
+ */
+export const syncCatalog = async (stripe: Stripe, options: CatalogSyncOptions = {}): Promise<CatalogSyncReport> => {
+    const dryRun = !!options.dryRun;
+    const report: CatalogSyncReport = {
+        products: { added: [], changed: [], archived: [] },
+        prices: { added: [], changed: [], archived: [] },
+        dryRun,
+    };
+
+    console.log(`Catalog Sync: Fetching products and prices from Stripe${dryRun ? ' (dry run)' : ''}...`);
+    const stripeProducts = await stripe.products.list({ limit: 100 }).autoPagingToArray({ limit: 10000 });
+    const stripePrices = await stripe.prices.list({ limit: 100 }).autoPagingToArray({ limit: 10000 });
+    console.log(`Catalog Sync: Received ${stripeProducts.length} products and ${stripePrices.length} prices.`);
+
+    const activeLocalProducts = await prisma.product.findMany({ where: { active: true }, select: { id: true } });
+    const activeLocalPrices = await prisma.price.findMany({ where: { active: true }, select: { id: true } });
+
+    // 1. Products
+    for (const product of stripeProducts) {
+        const wasActive = activeLocalProducts.some(local => local.id === product.id);
+        const result = await upsertProductFromStripe(product, dryRun);
+        if (!product.active && wasActive) {
+            report.products.archived.push(product.id);
+        } else if (result !== 'unchanged') {
+            report.products[result].push(product.id);
+        }
+    }
+
+    // 2. Prices (after products so the foreign key is satisfied)
+    const knownProductIds = new Set(stripeProducts.map(product => product.id));
+    for (const price of stripePrices) {
+        const productId = typeof price.product === 'string' ? price.product : price.product.id;
+        if (!knownProductIds.has(productId)) {
+            console.warn(`Catalog Sync: Price ${price.id} references unknown product ${productId}. Skipping.`);
+            continue;
+        }
+        const wasActive = activeLocalPrices.some(local => local.id === price.id);
+        const result = await upsertPriceFromStripe(price, stripe, dryRun);
+        if (!price.active && wasActive) {
+            report.prices.archived.push(price.id);
+        } else if (result !== 'unchanged') {
+            report.prices[result].push(price.id);
+        }
+    }
+
+    // 3. Archive anything that no longer exists in Stripe at all
+    const stripePriceIds = new Set(stripePrices.map(price => price.id));
+    for (const local of activeLocalProducts) {
+        if (!knownProductIds.has(local.id)) {
+            if (!dryRun) await archiveProduct(local.id);
+            report.products.archived.push(local.id);
+        }
+    }
+    for (const local of activeLocalPrices) {
+        if (!stripePriceIds.has(local.id) && !report.prices.archived.includes(local.id)) {
+            if (!dryRun) await archivePrice(local.id);
+            report.prices.archived.push(local.id);
+        }
+    }
+
+    console.log(`Catalog Sync: Products +${report.products.added.length} ~${report.products.changed.length} -${report.products.archived.length}, ` +
+        `Prices +${report.prices.added.length} ~${report.prices.changed.length} -${report.prices.archived.length}`);
+    return report;
+};
@@ -0,0 +1,114 @@
+import prisma from '../db';
+import { releaseExpiredReservations } from './inventory';
+import { releaseExpiredPromoReservations } from './promoCodes';
+import { releaseExpiredGiftCardHolds } from './giftCards';
+
+// Housekeeping for tables that only grow: expired tokens, abandoned checkouts and sessions.
+
+// Checkout attempts are kept this long so late webhooks (delayed payment methods, Stripe retries)
+// can still find their context, and so abandoned checkout reminders have something to look at.
+const CHECKOUT_ATTEMPT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Login links expire after minutes but are kept for the hour the request limits look back over
+const MAGIC_LINK_RETENTION_MS = 60 * 60 * 1000;
+// Throttling only looks back 15 minutes; older login attempts are kept a while for investigating abuse
+const AUTH_ATTEMPT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface CleanupCounts {
+    passwordResetTokens: number;
+    emailVerificationTokens: number;
+    magicLinkTokens: number;
+    authAttempts: number;
+    checkoutAttempts: number;
+    stockReservations: number;
+    promoReservations: number;
+    giftCardHolds: number;
+    sessions: number;
+    unpaidGiftCards: number;
+}
+
+/**
+ * Deletes password reset tokens past their expiry.
+ */
+export const purgeExpiredPasswordResetTokens = async (now: Date = new Date()): Promise<number> => {
+    const result = await prisma.passwordResetToken.deleteMany({ where: { expiresAt: { lt: now } } });
+    return result.count;
+};
+
+/**
+ * Deletes email verification links past their expiry.
+ */
+export const purgeExpiredEmailVerificationTokens = async (now: Date = new Date()): Promise<number> => {
+    const result = await prisma.emailVerificationToken.deleteMany({ where: { expiresAt: { lt: now } } });
+    return result.count;
+};
+
+/**
+ * Deletes login links that have expired and no longer count towards the request limits.
+ */
+export const purgeExpiredMagicLinkTokens = async (now: Date = new Date()): Promise<number> => {
+    const result = await prisma.magicLinkToken.deleteMany({
+        where: { expiresAt: { lt: now }, createdAt: { lt: new Date(now.getTime() - MAGIC_LINK_RETENTION_MS) } },
+    });
+    return result.count;
+};
+
+/**
+ * Deletes login and password reset attempts older than the retention period.
+ */
+export const purgeOldAuthAttempts = async (now: Date = new Date()): Promise<number> => {
+    const result = await prisma.authAttempt.deleteMany({
+        where: { createdAt: { lt: new Date(now.getTime() - AUTH_ATTEMPT_RETENTION_MS) } },
+    });
+    return result.count;
+};
+
+/**
+ * Deletes checkout attempts older than the retention period. Their stock reservations go with them
+ * (cascade); reminders keep their own copy of the cart and are only unlinked.
+ */
+export const purgeStaleCheckoutAttempts = async (now: Date = new Date()): Promise<number> => {
+    const result = await prisma.checkoutAttempt.deleteMany({
+        where: { createdAt: { lt: new Date(now.getTime() - CHECKOUT_ATTEMPT_RETENTION_MS) } },
+    });
+    return result.count;
+};
+
+/**
+ * Deletes gift cards whose purchase was never paid, after the same grace period as checkout attempts.
+ * They never had a balance, so there is no ledger to keep.
+ */
+export const purgeUnpaidGiftCards = async (now: Date = new Date()): Promise<number> => {
+    const result = await prisma.giftCard.deleteMany({
+        where: { status: 'pending', createdAt: { lt: new Date(now.getTime() - CHECKOUT_ATTEMPT_RETENTION_MS) } },
+    });
+    return result.count;
+};
+
+/**
+ * Deletes expired express-session rows (connect-pg-simple's own pruning is turned off in serverRender.tsx).
+ */
+export const purgeExpiredSessions = async (now: Date = new Date()): Promise<number> => {
+    const result = await prisma.session.deleteMany({ where: { expire: { lt: now } } });
+    return result.count;
+};
+
+/**
+ * Runs every purge and logs what was removed.
+ * @returns Rows deleted per table.
+ */
+export const runCleanup = async (now: Date = new Date()): Promise<CleanupCounts> => {
+    const counts: CleanupCounts = {
+        passwordResetTokens: await purgeExpiredPasswordResetTokens(now),
+        emailVerificationTokens: await purgeExpiredEmailVerificationTokens(now),
+        magicLinkTokens: await purgeExpiredMagicLinkTokens(now),
+        authAttempts: await purgeOldAuthAttempts(now),
+        checkoutAttempts: await purgeStaleCheckoutAttempts(now),
+        stockReservations: await releaseExpiredReservations(),
+        promoReservations: await releaseExpiredPromoReservations(),
+        giftCardHolds: await releaseExpiredGiftCardHolds(),
+        sessions: await purgeExpiredSessions(now),
+        unpaidGiftCards: await purgeUnpaidGiftCards(now),
+    };
+    console.log(`[Cleanup] Removed ${counts.passwordResetTokens} password reset token(s), ${counts.emailVerificationTokens} email verification token(s), ${counts.magicLinkTokens} login link(s), ${counts.authAttempts} auth attempt(s), ${counts.checkoutAttempts} checkout attempt(s), ${counts.stockReservations} stock reservation(s), ${counts.promoReservations} promo reservation(s), ${counts.giftCardHolds} gift card hold(s), ${counts.sessions} session(s), ${counts.unpaidGiftCards} unpaid gift card(s).`);
+    return counts;
+};
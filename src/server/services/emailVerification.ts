@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import prisma from '../db';
+import { sendEmail } from '../../utils/emailService';
+import { renderEmailVerificationEmail } from '../utils/emailTemplates';
+import { FulfillmentResult } from './fulfillment';
+
+// Email verification for accounts. Signup sends a link (an EmailVerificationToken, like password resets);
+// following it sets User.emailVerifiedAt. Subscriptions and saved cards need a verified address because
+// receipts, renewal notices and password resets all go there.
+
+const VERIFICATION_TTL_HOURS = 24;
+// Resends: one a minute, and a few a day so the endpoint can't be used to flood someone's inbox
+const RESEND_INTERVAL_MS = 60 * 1000;
+const RESEND_DAILY_LIMIT = 5;
+
+export const EMAIL_NOT_VERIFIED_MESSAGE = 'Please confirm your email address first. Use the link we emailed you, or send a new one from your profile.';
+
+/**
+ * Emails the user a new verification link for their current address.
+ *
+ * @param userId The account to verify.
+ * @param options.throttle Apply the resend limits (for user-initiated resends).
+ * @returns The address the link was sent to, or why it wasn't sent.
+ */
+export const sendVerificationEmail = async (
+    userId: number,
+    options: { throttle?: boolean } = {}
+): Promise<FulfillmentResult<{ email: string }>> => {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, email: true, name: true, emailVerifiedAt: true } });
+    if (!user) {
+        return { ok: false, status: 404, message: 'User not found.' };
+    }
+    if (user.emailVerifiedAt) {
+        return { ok: false, status: 409, message: 'Your email address is already confirmed.' };
+    }
+
+    if (options.throttle) {
+        const now = Date.now();
+        const recent = await prisma.emailVerificationToken.findMany({
+            where: { userId, createdAt: { gt: new Date(now - 24 * 60 * 60 * 1000) } },
+            orderBy: { createdAt: 'desc' },
+            select: { createdAt: true },
+        });
+        if (recent.length > 0 && now - recent[0].createdAt.getTime() < RESEND_INTERVAL_MS) {
+            return { ok: false, status: 429, message: 'We just sent you a link. Please wait a minute before asking for another one.' };
+        }
+        if (recent.length >= RESEND_DAILY_LIMIT) {
+            return { ok: false, status: 429, message: "We've sent several links today. Please check your spam folder, or try again tomorrow." };
+        }
+    }
+
+    const verificationToken = await prisma.emailVerificationToken.create({
+        data: {
+            token: crypto.randomUUID(),
+            userId,
+            email: user.email,
+            expiresAt: new Date(Date.now() + VERIFICATION_TTL_HOURS * 60 * 60 * 1000),
+        },
+    });
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    try {
+        await sendEmail({
+            to: user.email,
+            ...renderEmailVerificationEmail({
+                customerName: user.name,
+                verifyUrl: `${frontendUrl}/verify-email?token=${verificationToken.token}`,
+                expiresInHours: VERIFICATION_TTL_HOURS,
+            }),
+        });
+    } catch (error) {
+        console.error(`[EmailVerification] Failed to send verification email to ${user.email}:`, error);
+        // Don't count an email that never went out against the resend limits
+        await prisma.emailVerificationToken.delete({ where: { id: verificationToken.id } });
+        return { ok: false, status: 500, message: "We couldn't send the email. Please try again later." };
+    }
+
+    console.log(`[EmailVerification] Sent verification link to ${user.email} (user ${userId}).`);
+    return { ok: true, value: { email: user.email } };
+};
+
+/**
+ * Verifies the address a link was sent to. The link only counts if the account still has that address.
+ *
+ * @param token Token from the verification link.
+ * @returns The verified user's ID.
+ */
+export const verifyEmailToken = async (token: string): Promise<FulfillmentResult<{ userId: number; email: string }>> => {
+    const verificationToken = await prisma.emailVerificationToken.findUnique({
+        where: { token },
+        include: { user: { select: { email: true, emailVerifiedAt: true } } },
+    });
+    if (!verificationToken || verificationToken.user.email !== verificationToken.email) {
+        return { ok: false, status: 400, message: 'This link is not valid. Please ask for a new one from your profile.' };
+    }
+    if (verificationToken.user.emailVerifiedAt) {
+        return { ok: true, value: { userId: verificationToken.userId, email: verificationToken.email } };
+    }
+    if (new Date() > verificationToken.expiresAt) {
+        return { ok: false, status: 400, message: 'This link has expired. Please ask for a new one from your profile.' };
+    }
+
+    await prisma.$transaction([
+        prisma.user.update({ where: { id: verificationToken.userId }, data: { emailVerifiedAt: new Date() } }),
+        prisma.emailVerificationToken.deleteMany({ where: { userId: verificationToken.userId } }),
+    ]);
+    console.log(`[EmailVerification] User ${verificationToken.userId} verified ${verificationToken.email}.`);
+    return { ok: true, value: { userId: verificationToken.userId, email: verificationToken.email } };
+};
+
+/**
+ * Whether the user's current address is verified. Read from the database rather than the session,
+ * since the link may have been followed in another browser.
+ */
+export const isEmailVerified = async (userId: number): Promise<boolean> => {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { emailVerifiedAt: true } });
+    return !!user?.emailVerifiedAt;
+};
@@ -0,0 +1,150 @@
+import { OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../db';
+import { isShippingLineItem } from '../../utils/shipments';
+
+// Orders in these states can be packed and shipped
+export const FULFILLABLE_STATUSES: OrderStatus[] = [OrderStatus.PAID, OrderStatus.PROCESSING, OrderStatus.PARTIALLY_SHIPPED];
+
+// Fields returned for each shipment by the order APIs
+export const shipmentSelect = {
+    id: true,
+    carrier: true,
+    trackingNumber: true,
+    shippedAt: true,
+    deliveredAt: true,
+    items: {
+        select: {
+            orderItemId: true,
+            quantity: true,
+        },
+    },
+} satisfies Prisma.ShipmentSelect;
+
+export interface ShipmentItemInput {
+    orderItemId: number;
+    quantity: number;
+}
+
+export interface CreateShipmentInput {
+    carrier: string;
+    trackingNumber?: string | null;
+    items?: ShipmentItemInput[]; // Omit to ship everything that hasn't shipped yet
+}
+
+export type FulfillmentResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; status: number; message: string };
+
+/**
+ * Calculates how many units of each packable order item are still to be shipped.
+ * @returns Map of orderItemId to remaining quantity (shipping line items excluded).
+ */
+export const getRemainingQuantities = (
+    items: { id: number; productId: string; productName: string; quantity: number; shipmentItems: { quantity: number }[] }[]
+): Map<number, number> => {
+    const remaining = new Map<number, number>();
+    for (const item of items) {
+        if (isShippingLineItem(item)) continue;
+        const shipped = item.shipmentItems.reduce((sum, shipmentItem) => sum + shipmentItem.quantity, 0);
+        remaining.set(item.id, Math.max(0, item.quantity - shipped));
+    }
+    return remaining;
+};
+
+/**
+ * Records a shipment for an order and moves the order to PARTIALLY_SHIPPED or SHIPPED.
+ *
+ * @param orderId The order being shipped.
+ * @param input Carrier, tracking number and the items/quantities in the package.
+ * @returns The new shipment ID and the order's new status, or an error with an HTTP status.
+ */
+export const createShipment = async (
+    orderId: number,
+    input: CreateShipmentInput
+): Promise<FulfillmentResult<{ shipmentId: number; status: OrderStatus }>> => {
+    return prisma.$transaction(async (tx) => {
+        // Lock the order row so two admins can't ship the same items at once
+        await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`;
+        const order = await tx.order.findUnique({
+            where: { id: orderId },
+            select: {
+                id: true,
+                status: true,
+                items: { select: { id: true, productId: true, productName: true, quantity: true, shipmentItems: { select: { quantity: true } } } },
+            },
+        });
+        if (!order) {
+            return { ok: false as const, status: 404, message: `Order with ID ${orderId} not found.` };
+        }
+        if (!FULFILLABLE_STATUSES.includes(order.status)) {
+            return { ok: false as const, status: 409, message: `Order ${orderId} is ${order.status} and cannot be shipped.` };
+        }
+
+        const remaining = getRemainingQuantities(order.items);
+        const requested = input.items && input.items.length > 0
+            ? input.items.filter(item => item.quantity > 0)
+            : Array.from(remaining).filter(([, quantity]) => quantity > 0).map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+        if (requested.length === 0) {
+            return { ok: false as const, status: 400, message: 'There are no items left to ship on this order.' };
+        }
+        for (const item of requested) {
+            const available = remaining.get(item.orderItemId);
+            if (available === undefined) {
+                return { ok: false as const, status: 400, message: `Item ${item.orderItemId} does not belong to order ${orderId}.` };
+            }
+            if (item.quantity > available) {
+                return { ok: false as const, status: 400, message: `Only ${available} of item ${item.orderItemId} left to ship.` };
+            }
+            remaining.set(item.orderItemId, available - item.quantity);
+        }
+
+        const shipment = await tx.shipment.create({
+            data: {
+                orderId,
+                carrier: input.carrier,
+                trackingNumber: input.trackingNumber || null,
+                items: { create: requested },
+            },
+            select: { id: true },
+        });
+
+        const fullyShipped = Array.from(remaining.values()).every(quantity => quantity === 0);
+        const status = fullyShipped ? OrderStatus.SHIPPED : OrderStatus.PARTIALLY_SHIPPED;
+        await tx.order.update({ where: { id: orderId }, data: { status } });
+
+        console.log(`[Fulfillment] Shipment ${shipment.id} created for order ${orderId} (${input.carrier} ${input.trackingNumber || 'no tracking'}). Order is now ${status}.`);
+        return { ok: true as const, value: { shipmentId: shipment.id, status } };
+    });
+};
+
+/**
+ * Marks a shipment as delivered. Once every shipment of a fully shipped order
+ * has been delivered, the order moves to DELIVERED.
+ *
+ * @param shipmentId The shipment that arrived.
+ * @returns The order ID and its (possibly unchanged) status.
+ */
+export const markShipmentDelivered = async (
+    shipmentId: number
+): Promise<FulfillmentResult<{ orderId: number; status: OrderStatus }>> => {
+    const shipment = await prisma.shipment.findUnique({ where: { id: shipmentId }, select: { id: true, orderId: true, deliveredAt: true } });
+    if (!shipment) {
+        return { ok: false, status: 404, message: `Shipment with ID ${shipmentId} not found.` };
+    }
+    if (!shipment.deliveredAt) {
+        await prisma.shipment.update({ where: { id: shipmentId }, data: { deliveredAt: new Date() } });
+    }
+
+    const order = await prisma.order.findUnique({
+        where: { id: shipment.orderId },
+        select: { status: true, shipments: { select: { deliveredAt: true } } },
+    });
+    let status = order!.status;
+    if (status === OrderStatus.SHIPPED && order!.shipments.every(s => s.deliveredAt !== null)) {
+        status = OrderStatus.DELIVERED;
+        await prisma.order.update({ where: { id: shipment.orderId }, data: { status } });
+    }
+    console.log(`[Fulfillment] Shipment ${shipmentId} marked delivered. Order ${shipment.orderId} is ${status}.`);
+    return { ok: true, value: { orderId: shipment.orderId, status } };
+};
@@ -0,0 +1,352 @@
+import crypto from 'crypto';
+import Stripe from 'stripe';
+import { Prisma, GiftCard, GiftCardTransaction } from '@prisma/client';
+import prisma from '../db';
+import { FulfillmentResult } from './fulfillment';
+import { sendGiftCardEmail } from './notifications';
+import { RESERVATION_TTL_MINUTES } from './inventory';
+
+// Stored-value gift cards. A card is created 'pending' when the purchase PaymentIntent is created and
+// becomes 'active' (balance set, code emailed to the recipient) when the payment succeeds. Every balance
+// change writes a GiftCardTransaction, and balances are only changed with conditional updates so two
+// checkouts can't spend the same money. Checkouts hold the amount they applied (GiftCardHold) until
+// the order is created, so the balance shown at checkout is what gets redeemed.
+
+// No 0/O or 1/I, so codes can be read out and typed without mix-ups
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 16;
+
+export type GiftCardWithTransactions = GiftCard & { transactions: GiftCardTransaction[] };
+
+export interface GiftCardPurchaseInput {
+    amountCent: number;
+    recipientEmail: string;
+    recipientName: string | null;
+    senderName: string | null;
+    message: string | null;
+    purchaserEmail: string;
+}
+
+// Groups a code as XXXX-XXXX-XXXX-XXXX
+const formatCode = (raw: string): string => raw.match(/.{1,4}/g)!.join('-');
+
+/**
+ * Normalizes a code as typed by the customer: case, spaces and dashes don't matter.
+ */
+export const normalizeGiftCardCode = (code: string): string => {
+    const raw = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    return raw.length === CODE_LENGTH ? formatCode(raw) : raw;
+};
+
+const generateGiftCardCode = (): string => {
+    const bytes = crypto.randomBytes(CODE_LENGTH);
+    let raw = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+        raw += CODE_ALPHABET[bytes[i] % CODE_ALPHABET.length];
+    }
+    return formatCode(raw);
+};
+
+/**
+ * Starts a gift card purchase: creates the pending card and the PaymentIntent that pays for it.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param input Amount, recipient and purchaser details (already validated).
+ * @param purchaser The logged-in buyer, if any.
+ * @returns The card ID and the PaymentIntent client secret for the Payment Element.
+ */
+export const createGiftCardPurchase = async (
+    stripe: Stripe,
+    input: GiftCardPurchaseInput,
+    purchaser: { id: number; stripeCustomerId?: string | null } | null
+): Promise<FulfillmentResult<{ giftCardId: number; clientSecret: string }>> => {
+    const giftCard = await prisma.giftCard.create({
+        data: {
+            code: generateGiftCardCode(),
+            initialAmountCent: input.amountCent,
+            recipientEmail: input.recipientEmail,
+            recipientName: input.recipientName,
+            senderName: input.senderName,
+            message: input.message,
+            purchaserEmail: input.purchaserEmail,
+            purchaserUserId: purchaser?.id ?? null,
+        },
+    });
+
+    const paymentIntent = await stripe.paymentIntents.create({
+        amount: input.amountCent,
+        currency: 'usd',
+        automatic_payment_methods: { enabled: true },
+        customer: purchaser?.stripeCustomerId || undefined,
+        receipt_email: input.purchaserEmail,
+        description: `Gift card for ${input.recipientEmail}`,
+        metadata: { giftCardId: String(giftCard.id) },
+    });
+    await prisma.giftCard.update({ where: { id: giftCard.id }, data: { stripePaymentIntentId: paymentIntent.id } });
+
+    if (!paymentIntent.client_secret) {
+        return { ok: false, status: 500, message: 'Failed to initialize payment.' };
+    }
+    console.log(`[GiftCards] Gift card ${giftCard.id} ($${(input.amountCent / 100).toFixed(2)}) awaiting payment ${paymentIntent.id}.`);
+    return { ok: true, value: { giftCardId: giftCard.id, clientSecret: paymentIntent.client_secret } };
+};
+
+/**
+ * Activates the gift card paid for by a succeeded PaymentIntent and emails it to the recipient.
+ * Safe to call more than once for the same payment.
+ *
+ * @returns The card ID, or null if there was nothing to activate.
+ */
+export const activatePurchasedGiftCard = async (paymentIntent: Stripe.PaymentIntent): Promise<number | null> => {
+    const giftCardId = Number(paymentIntent.metadata?.giftCardId);
+    if (!giftCardId) {
+        return null;
+    }
+
+    const activated = await prisma.$transaction(async (tx) => {
+        const giftCard = await tx.giftCard.findUnique({ where: { id: giftCardId } });
+        if (!giftCard || giftCard.stripePaymentIntentId !== paymentIntent.id) {
+            console.error(`[GiftCards] Payment ${paymentIntent.id} names gift card ${giftCardId}, which doesn't belong to it.`);
+            return false;
+        }
+        const claimed = await tx.giftCard.updateMany({
+            where: { id: giftCardId, status: 'pending' },
+            data: { status: 'active', balanceCent: giftCard.initialAmountCent },
+        });
+        if (claimed.count === 0) {
+            return false;
+        }
+        await tx.giftCardTransaction.create({
+            data: { giftCardId, type: 'issue', amountCent: giftCard.initialAmountCent, balanceAfterCent: giftCard.initialAmountCent },
+        });
+        return true;
+    });
+    if (!activated) {
+        return null;
+    }
+
+    console.log(`[GiftCards] Gift card ${giftCardId} paid by ${paymentIntent.id} and activated.`);
+    await sendGiftCardEmail(giftCardId);
+    return giftCardId;
+};
+
+/**
+ * What the purchase confirmation page shows once the buyer is back from Stripe.
+ */
+export const getGiftCardPurchase = async (paymentIntentId: string) =>
+    prisma.giftCard.findUnique({
+        where: { stripePaymentIntentId: paymentIntentId },
+        select: { id: true, status: true, initialAmountCent: true, recipientEmail: true, recipientName: true, deliveredAt: true },
+    });
+
+// Balance held by unexpired checkouts, other than the one given
+const getHeldCent = async (giftCardId: number, excludeCheckoutAttemptId: string | null, client: Prisma.TransactionClient = prisma): Promise<number> => {
+    const held = await client.giftCardHold.aggregate({
+        where: {
+            giftCardId,
+            expiresAt: { gt: new Date() },
+            ...(excludeCheckoutAttemptId ? { NOT: { checkoutAttemptId: excludeCheckoutAttemptId } } : {}),
+        },
+        _sum: { amountCent: true },
+    });
+    return held._sum.amountCent ?? 0;
+};
+
+/**
+ * Looks up a code for checkout. The balance returned leaves out what other checkouts are holding.
+ * @returns The normalized code and its balance, or a customer-facing message.
+ */
+export const checkGiftCard = async (code: string): Promise<FulfillmentResult<{ code: string; balanceCent: number }>> => {
+    const normalized = normalizeGiftCardCode(code);
+    if (!normalized) {
+        return { ok: false, status: 400, message: 'Please enter a gift card code.' };
+    }
+    const giftCard = await prisma.giftCard.findUnique({ where: { code: normalized } });
+    if (!giftCard || giftCard.status !== 'active') {
+        return { ok: false, status: 404, message: `Gift card "${normalized}" is not valid.` };
+    }
+    const balanceCent = giftCard.balanceCent - await getHeldCent(giftCard.id, null);
+    if (balanceCent <= 0) {
+        return { ok: false, status: 400, message: `Gift card "${normalized}" has no balance left.` };
+    }
+    return { ok: true, value: { code: giftCard.code, balanceCent } };
+};
+
+/**
+ * Sets aside part of a card's balance for a checkout attempt. Runs in a transaction with the card row
+ * locked, so two checkouts can't both be promised the same money.
+ *
+ * @param checkoutAttemptId The CheckoutAttempt the hold belongs to (removed with it).
+ * @param code Normalized code.
+ * @param amountCent Amount applied to the checkout.
+ * @returns ok, or a customer-facing message if the balance no longer covers the amount.
+ */
+export const holdGiftCardBalance = async (checkoutAttemptId: string, code: string, amountCent: number): Promise<FulfillmentResult<void>> => {
+    const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+
+    return prisma.$transaction(async (tx) => {
+        // Lock the card row for the duration of the check-and-hold
+        await tx.$queryRaw`SELECT "id" FROM "GiftCard" WHERE "code" = ${code} FOR UPDATE`;
+
+        const giftCard = await tx.giftCard.findUnique({ where: { code } });
+        if (!giftCard || giftCard.status !== 'active') {
+            return { ok: false as const, status: 404, message: `Gift card "${code}" is not valid.` };
+        }
+        const availableCent = giftCard.balanceCent - await getHeldCent(giftCard.id, checkoutAttemptId, tx);
+        if (availableCent < amountCent) {
+            return { ok: false as const, status: 409, message: `Gift card "${code}" now has $${(Math.max(0, availableCent) / 100).toFixed(2)} available. Please review your payment.` };
+        }
+
+        await tx.giftCardHold.create({ data: { checkoutAttemptId, giftCardId: giftCard.id, amountCent, expiresAt } });
+        console.log(`[GiftCards] Held $${(amountCent / 100).toFixed(2)} on gift card ${giftCard.id} for CheckoutAttempt ${checkoutAttemptId} until ${expiresAt.toISOString()}.`);
+        return { ok: true as const, value: undefined };
+    });
+};
+
+/**
+ * Releases a checkout's hold, e.g. when its payment fails.
+ * @returns Whether there was a hold to release.
+ */
+export const releaseGiftCardHold = async (checkoutAttemptId: string, client: Prisma.TransactionClient = prisma): Promise<boolean> => {
+    const result = await client.giftCardHold.deleteMany({ where: { checkoutAttemptId } });
+    return result.count > 0;
+};
+
+/**
+ * Deletes holds past their expiry. Expired holds already don't reduce the available balance;
+ * this just keeps the table small.
+ * @returns Number of holds removed.
+ */
+export const releaseExpiredGiftCardHolds = async (): Promise<number> => {
+    const result = await prisma.giftCardHold.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    if (result.count > 0) {
+        console.log(`[GiftCards] Released ${result.count} expired gift card hold(s).`);
+    }
+    return result.count;
+};
+
+/**
+ * Takes up to `amountCent` off a card's balance for an order.
+ *
+ * @param code Normalized code.
+ * @param amountCent Amount to redeem.
+ * @param orderId The order being paid.
+ * @param client Prisma client or transaction client to run the update on.
+ * @returns The amount actually redeemed: less than requested if the balance was spent in the meantime.
+ */
+export const redeemGiftCard = async (
+    code: string,
+    amountCent: number,
+    orderId: number,
+    client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+    const giftCard = await client.giftCard.findUnique({ where: { code } });
+    if (!giftCard || giftCard.status !== 'active') {
+        return 0;
+    }
+    const redeemCent = Math.min(amountCent, giftCard.balanceCent);
+    if (redeemCent <= 0) {
+        return 0;
+    }
+    // Only succeeds if the balance still covers it; other redemptions in the meantime don't make it fail
+    const updated = await client.giftCard.updateMany({
+        where: { id: giftCard.id, status: 'active', balanceCent: { gte: redeemCent } },
+        data: { balanceCent: { decrement: redeemCent } },
+    });
+    if (updated.count === 0) {
+        return 0;
+    }
+    const { balanceCent: balanceAfterCent } = await client.giftCard.findUniqueOrThrow({ where: { id: giftCard.id }, select: { balanceCent: true } });
+    await client.giftCardTransaction.create({
+        data: { giftCardId: giftCard.id, orderId, type: 'redeem', amountCent: -redeemCent, balanceAfterCent },
+    });
+    console.log(`[GiftCards] Redeemed $${(redeemCent / 100).toFixed(2)} from gift card ${giftCard.id} for order ${orderId}.`);
+    return redeemCent;
+};
+
+/**
+ * Puts the gift card money spent on an order back on the cards, e.g. when the order is canceled.
+ * Voided cards are skipped.
+ *
+ * @returns The amount restored, in cents.
+ */
+export const restoreGiftCardRedemptions = async (orderId: number, client: Prisma.TransactionClient = prisma): Promise<number> => {
+    const transactions = await client.giftCardTransaction.findMany({ where: { orderId } });
+    let restoredCent = 0;
+    const cardIds = Array.from(new Set(transactions.map(transaction => transaction.giftCardId)));
+    for (const giftCardId of cardIds) {
+        // Redemptions are negative, earlier refunds positive; what is still owed is minus their sum
+        const owedCent = -transactions
+            .filter(transaction => transaction.giftCardId === giftCardId)
+            .reduce((sum, transaction) => sum + transaction.amountCent, 0);
+        if (owedCent <= 0) continue;
+
+        const giftCard = await client.giftCard.findUnique({ where: { id: giftCardId } });
+        if (!giftCard || giftCard.status !== 'active') {
+            console.warn(`[GiftCards] Not restoring $${(owedCent / 100).toFixed(2)} to gift card ${giftCardId} for order ${orderId}: card is ${giftCard?.status ?? 'missing'}.`);
+            continue;
+        }
+        const updated = await client.giftCard.update({
+            where: { id: giftCardId },
+            data: { balanceCent: { increment: owedCent } },
+        });
+        await client.giftCardTransaction.create({
+            data: { giftCardId, orderId, type: 'refund', amountCent: owedCent, balanceAfterCent: updated.balanceCent },
+        });
+        restoredCent += owedCent;
+    }
+    if (restoredCent > 0) {
+        console.log(`[GiftCards] Restored $${(restoredCent / 100).toFixed(2)} from order ${orderId} to gift cards.`);
+    }
+    return restoredCent;
+};
+
+/**
+ * Finds a card by code with its ledger, for the admin lookup.
+ */
+export const findGiftCard = async (code: string): Promise<GiftCardWithTransactions | null> =>
+    prisma.giftCard.findUnique({
+        where: { code: normalizeGiftCardCode(code) },
+        include: { transactions: { orderBy: { createdAt: 'asc' } } },
+    });
+
+/**
+ * Voids a card: the remaining balance is written off and the code stops working.
+ *
+ * @param giftCardId The card to void.
+ * @param reason Internal note, kept on the card and the ledger entry.
+ * @returns The updated card with its ledger.
+ */
+export const voidGiftCard = async (giftCardId: number, reason: string | null): Promise<FulfillmentResult<GiftCardWithTransactions>> => {
+    const giftCard = await prisma.giftCard.findUnique({ where: { id: giftCardId } });
+    if (!giftCard) {
+        return { ok: false, status: 404, message: `Gift card ${giftCardId} not found.` };
+    }
+    if (giftCard.status === 'voided') {
+        return { ok: false, status: 409, message: `Gift card ${giftCard.code} is already void.` };
+    }
+
+    const voided = await prisma.$transaction(async (tx) => {
+        const updated = await tx.giftCard.updateMany({
+            where: { id: giftCardId, status: giftCard.status, balanceCent: giftCard.balanceCent },
+            data: { status: 'voided', balanceCent: 0, voidedAt: new Date(), voidReason: reason },
+        });
+        if (updated.count === 0) {
+            return false;
+        }
+        await tx.giftCardTransaction.create({
+            data: { giftCardId, type: 'void', amountCent: -giftCard.balanceCent, balanceAfterCent: 0, note: reason },
+        });
+        return true;
+    });
+    if (!voided) {
+        return { ok: false, status: 409, message: 'The gift card changed while voiding it. Please look it up again.' };
+    }
+
+    console.log(`[GiftCards] Gift card ${giftCardId} voided ($${(giftCard.balanceCent / 100).toFixed(2)} written off).`);
+    const result = await prisma.giftCard.findUniqueOrThrow({
+        where: { id: giftCardId },
+        include: { transactions: { orderBy: { createdAt: 'asc' } } },
+    });
+    return { ok: true, value: result };
+};
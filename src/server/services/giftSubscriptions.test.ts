@@ -0,0 +1,90 @@
+import prisma from '../db';
+import { createGiftSubscriptions, createDueGiftDeliveries } from './giftSubscriptions';
+
+jest.mock('../db', () => ({
+    __esModule: true,
+    default: {
+        order: { findUniqueOrThrow: jest.fn(), create: jest.fn() },
+        giftSubscription: { create: jest.fn(), findMany: jest.fn(), updateMany: jest.fn() },
+        $transaction: jest.fn(),
+    },
+}));
+
+const db = prisma as unknown as {
+    order: { findUniqueOrThrow: jest.Mock; create: jest.Mock };
+    giftSubscription: { create: jest.Mock; findMany: jest.Mock; updateMany: jest.Mock };
+    $transaction: jest.Mock;
+};
+
+const giftLine = { priceId: 'price_monthly', productId: 'prod_box', productName: 'Monthly Box', quantity: 1, giftMonths: 3 };
+
+const dueGift = {
+    id: 4,
+    purchaseOrderId: 7,
+    priceId: 'price_monthly',
+    productId: 'prod_box',
+    productName: 'Monthly Box',
+    quantity: 1,
+    deliveriesTotal: 3,
+    deliveriesSent: 1,
+    nextDeliveryAt: new Date('2025-07-01T00:00:00Z'),
+    status: 'active',
+};
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation(async (fn: (tx: typeof db) => unknown) => fn(db));
+    db.giftSubscription.updateMany.mockResolvedValue({ count: 1 });
+    db.order.create.mockResolvedValue({ id: 50 });
+});
+
+describe('createGiftSubscriptions', () => {
+    it('starts the gifts bought with a paid order', async () => {
+        db.order.findUniqueOrThrow.mockResolvedValue({ status: 'PAID' });
+        expect(await createGiftSubscriptions(7, [giftLine])).toBe(1);
+        expect(db.giftSubscription.create).toHaveBeenCalledWith({ data: expect.objectContaining({ status: 'active' }) });
+    });
+
+    it('keeps the gifts of an order on hold pending', async () => {
+        db.order.findUniqueOrThrow.mockResolvedValue({ status: 'ON_HOLD' });
+        await createGiftSubscriptions(7, [giftLine]);
+        expect(db.giftSubscription.create).toHaveBeenCalledWith({ data: expect.objectContaining({ status: 'pending' }) });
+    });
+
+    it('creates nothing for an order that is not paid', async () => {
+        db.order.findUniqueOrThrow.mockResolvedValue({ status: 'PENDING' });
+        expect(await createGiftSubscriptions(7, [giftLine])).toBe(0);
+        expect(db.giftSubscription.create).not.toHaveBeenCalled();
+    });
+});
+
+describe('createDueGiftDeliveries', () => {
+    beforeEach(() => {
+        db.giftSubscription.findMany.mockResolvedValue([dueGift]);
+    });
+
+    it('creates the next delivery while the purchase order is paid', async () => {
+        db.order.findUniqueOrThrow.mockResolvedValue({ id: 7, status: 'SHIPPED', contactEmail: 'buyer@example.com' });
+        expect(await createDueGiftDeliveries(new Date('2025-07-01T01:00:00Z'))).toBe(1);
+        expect(db.order.create).toHaveBeenCalledWith(expect.objectContaining({
+            data: expect.objectContaining({ giftSubscriptionId: 4, status: 'PAID' }),
+        }));
+    });
+
+    it.each(['CANCELED', 'REFUNDED'])('ends the gift instead of delivering when the purchase order is %s', async (status) => {
+        db.order.findUniqueOrThrow.mockResolvedValue({ id: 7, status });
+        expect(await createDueGiftDeliveries(new Date('2025-07-01T01:00:00Z'))).toBe(0);
+        expect(db.order.create).not.toHaveBeenCalled();
+        expect(db.giftSubscription.updateMany).toHaveBeenCalledWith({
+            where: { purchaseOrderId: 7, status: { in: ['active', 'pending'] } },
+            data: { status: 'canceled', nextDeliveryAt: null },
+        });
+    });
+
+    it('makes the delivery wait while the purchase order is on hold', async () => {
+        db.order.findUniqueOrThrow.mockResolvedValue({ id: 7, status: 'ON_HOLD' });
+        expect(await createDueGiftDeliveries(new Date('2025-07-01T01:00:00Z'))).toBe(0);
+        expect(db.order.create).not.toHaveBeenCalled();
+        expect(db.giftSubscription.updateMany).not.toHaveBeenCalled();
+    });
+});
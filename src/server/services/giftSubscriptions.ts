@@ -0,0 +1,205 @@
+import { Prisma, GiftSubscription, OrderStatus } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../db';
+import { addInterval } from '../../utils/subscriptions';
+
+// Prepaid gift subscriptions. The buyer pays for a fixed number of monthly deliveries at checkout;
+// the purchase order ships the first box and this module creates a $0 order for each later one,
+// addressed like the purchase order. Nothing is billed through Stripe, so they end on their own, or
+// when the purchase order is canceled or fully refunded.
+
+// Purchase order states in which later boxes are still owed; deliveries wait while it is ON_HOLD
+const DELIVERING_PURCHASE_STATUSES: OrderStatus[] = [
+    OrderStatus.PAID,
+    OrderStatus.PROCESSING,
+    OrderStatus.PARTIALLY_SHIPPED,
+    OrderStatus.SHIPPED,
+    OrderStatus.DELIVERED,
+];
+// Purchase order states that end its gift subscriptions: the money went back
+const ENDING_PURCHASE_STATUSES: OrderStatus[] = [OrderStatus.CANCELED, OrderStatus.REFUNDED];
+
+// Cart lines saved in the checkout context for a gift subscription (see initiate-checkout)
+interface GiftCartItem {
+    priceId: string;
+    productId: string;
+    productName: string;
+    quantity: number;
+    giftMonths?: number | null;
+}
+
+/**
+ * Records the gift subscriptions bought with an order. The order itself counts as the first delivery.
+ * Only a PAID order starts them; an order that is ON_HOLD gets them as 'pending' until the hold is released.
+ *
+ * @param orderId The purchase order.
+ * @param cartItems Cart lines from the checkout context; only those with giftMonths are used.
+ * @param client Prisma client or transaction client to run the inserts on.
+ * @returns How many gift subscriptions were created.
+ */
+export const createGiftSubscriptions = async (
+    orderId: number,
+    cartItems: GiftCartItem[],
+    client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+    const giftItems = cartItems.filter(item => item.giftMonths && item.giftMonths > 0);
+    if (giftItems.length === 0) {
+        return 0;
+    }
+    const purchase = await client.order.findUniqueOrThrow({ where: { id: orderId }, select: { status: true } });
+    if (purchase.status !== OrderStatus.PAID && purchase.status !== OrderStatus.ON_HOLD) {
+        console.warn(`[GiftSubscriptions] Order ${orderId} is ${purchase.status}; not starting its gift subscriptions.`);
+        return 0;
+    }
+
+    const now = new Date();
+    for (const item of giftItems) {
+        const months = item.giftMonths as number;
+        await client.giftSubscription.create({
+            data: {
+                purchaseOrderId: orderId,
+                priceId: item.priceId,
+                productId: item.productId,
+                productName: item.productName,
+                quantity: item.quantity,
+                deliveriesTotal: months,
+                deliveriesSent: 1,
+                nextDeliveryAt: months > 1 ? addInterval(now, 'month', 1) : null,
+                status: months === 1 ? 'completed' : purchase.status === OrderStatus.PAID ? 'active' : 'pending',
+            },
+        });
+        console.log(`[GiftSubscriptions] Order ${orderId}: ${months} month gift of ${item.productName}.`);
+    }
+    return giftItems.length;
+};
+
+/**
+ * Starts the 'pending' gift subscriptions of an order released from ON_HOLD. The next box is due a month
+ * from now, as if the order had just been placed.
+ *
+ * @returns How many gift subscriptions were started.
+ */
+export const startPendingGiftSubscriptions = async (
+    orderId: number,
+    now: Date = new Date(),
+    client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+    const result = await client.giftSubscription.updateMany({
+        where: { purchaseOrderId: orderId, status: 'pending' },
+        data: { status: 'active', nextDeliveryAt: addInterval(now, 'month', 1) },
+    });
+    if (result.count > 0) {
+        console.log(`[GiftSubscriptions] Order ${orderId} released: started ${result.count} gift subscription(s).`);
+    }
+    return result.count;
+};
+
+/**
+ * Cancels the gift subscriptions bought with an order that was canceled or fully refunded, so no more
+ * boxes go out for it. Deliveries already created are left alone.
+ *
+ * @returns How many gift subscriptions were canceled.
+ */
+export const endGiftSubscriptionsForOrder = async (
+    orderId: number,
+    client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+    const result = await client.giftSubscription.updateMany({
+        where: { purchaseOrderId: orderId, status: { in: ['active', 'pending'] } },
+        data: { status: 'canceled', nextDeliveryAt: null },
+    });
+    if (result.count > 0) {
+        console.log(`[GiftSubscriptions] Order ${orderId} ended: canceled ${result.count} gift subscription(s).`);
+    }
+    return result.count;
+};
+
+// Creates the order for the next delivery, claiming it first so overlapping runs can't ship it twice
+const createDeliveryOrder = async (gift: GiftSubscription, now: Date): Promise<number | null> => {
+    return prisma.$transaction(async (tx) => {
+        const delivery = gift.deliveriesSent + 1;
+        const isLast = delivery >= gift.deliveriesTotal;
+        // The purchase order may have been canceled, refunded or held since the gift was set up
+        const purchase = await tx.order.findUniqueOrThrow({ where: { id: gift.purchaseOrderId } });
+        if (ENDING_PURCHASE_STATUSES.includes(purchase.status)) {
+            await endGiftSubscriptionsForOrder(purchase.id, tx);
+            return null;
+        }
+        if (!DELIVERING_PURCHASE_STATUSES.includes(purchase.status)) {
+            console.warn(`[GiftSubscriptions] Gift ${gift.id}: purchase order ${purchase.id} is ${purchase.status}; delivery ${delivery} waits.`);
+            return null;
+        }
+
+        const claimed = await tx.giftSubscription.updateMany({
+            where: { id: gift.id, status: 'active', deliveriesSent: gift.deliveriesSent },
+            data: {
+                deliveriesSent: delivery,
+                nextDeliveryAt: isLast ? null : addInterval(gift.nextDeliveryAt ?? now, 'month', 1),
+                status: isLast ? 'completed' : 'active',
+            },
+        });
+        if (claimed.count === 0) {
+            return null;
+        }
+
+        const order = await tx.order.create({
+            data: {
+                userId: purchase.userId,
+                giftSubscriptionId: gift.id,
+                status: 'PAID', // Paid up front with the purchase order
+                totalAmount: new Decimal(0),
+                contactEmail: purchase.contactEmail,
+                contactPhone: purchase.contactPhone,
+                shippingName: purchase.shippingName,
+                shippingAddress1: purchase.shippingAddress1,
+                shippingAddress2: purchase.shippingAddress2,
+                shippingCity: purchase.shippingCity,
+                shippingState: purchase.shippingState,
+                shippingPostalCode: purchase.shippingPostalCode,
+                shippingCountry: purchase.shippingCountry,
+                shippingMethod: purchase.shippingMethod,
+                shippingMethodName: purchase.shippingMethodName,
+                isGift: true,
+                giftMessage: purchase.giftMessage,
+                giftHidePrices: purchase.giftHidePrices,
+                items: {
+                    create: [{
+                        productId: gift.productId,
+                        productName: `${gift.productName} (Gift subscription delivery ${delivery} of ${gift.deliveriesTotal})`,
+                        quantity: gift.quantity,
+                        price: new Decimal(0),
+                    }],
+                },
+            },
+            select: { id: true },
+        });
+        console.log(`[GiftSubscriptions] Gift ${gift.id}: delivery ${delivery} of ${gift.deliveriesTotal} is order ${order.id}${isLast ? ' (last)' : ''}.`);
+        return order.id;
+    });
+};
+
+/**
+ * Creates the orders for gift subscription deliveries that are due. Run by the scheduler.
+ * @returns How many delivery orders were created.
+ */
+export const createDueGiftDeliveries = async (now: Date = new Date()): Promise<number> => {
+    const due = await prisma.giftSubscription.findMany({
+        where: { status: 'active', nextDeliveryAt: { lte: now } },
+        orderBy: { nextDeliveryAt: 'asc' },
+    });
+
+    let created = 0;
+    for (const gift of due) {
+        try {
+            if (await createDeliveryOrder(gift, now)) {
+                created++;
+            }
+        } catch (error) {
+            console.error(`[GiftSubscriptions] Failed to create delivery for gift ${gift.id}:`, error);
+        }
+    }
+    if (due.length > 0) {
+        console.log(`[GiftSubscriptions] Created ${created} of ${due.length} due delivery order(s).`);
+    }
+    return created;
+};
@@ -0,0 +1,133 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+
+// How long a checkout may hold stock before it is released back to the pool
+export const RESERVATION_TTL_MINUTES = parseInt(process.env.CHECKOUT_RESERVATION_MINUTES || '30', 10);
+
+// Minimal line item shape needed for stock checks (matches detailedCartItems in initiate-checkout)
+export interface StockLineItem {
+    priceId: string;
+    quantity: number;
+}
+
+export type ReserveStockResult =
+    | { ok: true }
+    | { ok: false; priceId: string; available: number };
+
+// Sums quantities per price ID (the same price can appear on more than one cart line)
+const sumByPrice = (items: StockLineItem[]): Map<string, number> => {
+    const totals = new Map<string, number>();
+    for (const item of items) {
+        totals.set(item.priceId, (totals.get(item.priceId) || 0) + item.quantity);
+    }
+    return totals;
+};
+
+/**
+ * Calculates sellable stock (on hand minus unexpired reservations) for tracked prices.
+ * Prices without a stockQuantity are not tracked and are omitted from the result.
+ * @param priceIds Optional list of price IDs to limit the lookup to.
+ * @param client Prisma client or transaction client to run the queries on.
+ * @returns Map of priceId -> available units (never below 0).
+ */
+export const getAvailableStock = async (
+    priceIds?: string[],
+    client: Prisma.TransactionClient = prisma
+): Promise<Map<string, number>> => {
+    const tracked = await client.price.findMany({
+        where: { stockQuantity: { not: null }, ...(priceIds ? { id: { in: priceIds } } : {}) },
+        select: { id: true, stockQuantity: true },
+    });
+    const available = new Map<string, number>();
+    if (tracked.length === 0) return available;
+
+    const reserved = await client.stockReservation.groupBy({
+        by: ['priceId'],
+        where: { priceId: { in: tracked.map(price => price.id) }, expiresAt: { gt: new Date() } },
+        _sum: { quantity: true },
+    });
+    const reservedByPrice = new Map(reserved.map(row => [row.priceId, row._sum.quantity || 0]));
+
+    for (const price of tracked) {
+        available.set(price.id, Math.max(0, (price.stockQuantity ?? 0) - (reservedByPrice.get(price.id) || 0)));
+    }
+    return available;
+};
+
+/**
+ * Holds stock for a checkout attempt. Runs in a transaction with the affected
+ * Price rows locked so two concurrent checkouts cannot both take the last unit.
+ * @param checkoutAttemptId The CheckoutAttempt the reservation belongs to.
+ * @param items Line items being purchased.
+ * @returns ok, or the first price that does not have enough stock.
+ */
+export const reserveStock = async (checkoutAttemptId: string, items: StockLineItem[]): Promise<ReserveStockResult> => {
+    const requested = sumByPrice(items);
+    const priceIds = Array.from(requested.keys());
+    const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+
+    return prisma.$transaction(async (tx) => {
+        // Lock the price rows for the duration of the check-and-reserve
+        await tx.$queryRaw`SELECT "id" FROM "Price" WHERE "id" IN (${Prisma.join(priceIds)}) FOR UPDATE`;
+
+        const available = await getAvailableStock(priceIds, tx);
+        for (const [priceId, quantity] of Array.from(requested)) {
+            if (!available.has(priceId)) continue; // Not tracked
+            const left = available.get(priceId)!;
+            if (quantity > left) {
+                return { ok: false as const, priceId, available: left };
+            }
+        }
+
+        const reservations = priceIds
+            .filter(priceId => available.has(priceId))
+            .map(priceId => ({ checkoutAttemptId, priceId, quantity: requested.get(priceId)!, expiresAt }));
+        if (reservations.length > 0) {
+            await tx.stockReservation.createMany({ data: reservations });
+            console.log(`Inventory: Reserved stock for CheckoutAttempt ${checkoutAttemptId} until ${expiresAt.toISOString()}:`, reservations.map(r => `${r.priceId} x${r.quantity}`).join(', '));
+        }
+        return { ok: true as const };
+    });
+};
+
+/**
+ * Converts a checkout's reservations into a permanent stock decrement once its order exists.
+ * Stock is decremented even if the reservation already expired (the sale happened), so
+ * stockQuantity can drop below zero if the item was oversold in the meantime.
+ * @param checkoutAttemptId The CheckoutAttempt the order was created from.
+ * @param items Line items on the order.
+ */
+export const commitStockForOrder = async (checkoutAttemptId: string, items: StockLineItem[]): Promise<void> => {
+    const purchased = sumByPrice(items);
+    await prisma.$transaction(async (tx) => {
+        for (const [priceId, quantity] of Array.from(purchased)) {
+            const updated = await tx.price.updateMany({
+                where: { id: priceId, stockQuantity: { not: null } },
+                data: { stockQuantity: { decrement: quantity } },
+            });
+            if (updated.count > 0) {
+                console.log(`Inventory: Decremented stock for ${priceId} by ${quantity}.`);
+            }
+        }
+        await tx.stockReservation.deleteMany({ where: { checkoutAttemptId } });
+    });
+
+    const oversold = await prisma.price.findMany({
+        where: { id: { in: Array.from(purchased.keys()) }, stockQuantity: { lt: 0 } },
+        select: { id: true, stockQuantity: true },
+    });
+    oversold.forEach(price => console.warn(`Inventory: Price ${price.id} is oversold (stockQuantity ${price.stockQuantity}).`));
+};
+
+/**
+ * Deletes reservations past their expiry. Expired rows are already ignored when
+ * calculating availability; this just keeps the table small.
+ * @returns Number of reservations removed.
+ */
+export const releaseExpiredReservations = async (): Promise<number> => {
+    const result = await prisma.stockReservation.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    if (result.count > 0) {
+        console.log(`Inventory: Released ${result.count} expired stock reservation(s).`);
+    }
+    return result.count;
+};
@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import prisma from '../db';
+import { sendEmail } from '../../utils/emailService';
+import { renderMagicLinkEmail } from '../utils/emailTemplates';
+import { FulfillmentResult } from './fulfillment';
+
+// Passwordless sign-in: the user asks for a link by email (a MagicLinkToken, like password resets) and
+// following it logs them in the same way as a password would, including the two-factor step.
+// Links are short-lived and single use, and requests are throttled per account.
+
+export const MAGIC_LINK_TTL_MINUTES = 15;
+// Requests: one a minute, and a few an hour so the endpoint can't be used to flood someone's inbox
+const REQUEST_INTERVAL_MS = 60 * 1000;
+const REQUEST_HOURLY_LIMIT = 5;
+
+const USED_LINK_MESSAGE = 'This login link has already been used. Please ask for a new one.';
+
+/**
+ * Emails a login link if the address belongs to an account. Never reports whether it does (or whether
+ * the request was throttled), so the caller can always answer with the same message.
+ *
+ * @param email The address entered on the login form.
+ */
+export const requestMagicLink = async (email: string): Promise<void> => {
+    const user = await prisma.user.findUnique({ where: { email }, select: { id: true, email: true, name: true } });
+    if (!user) {
+        return;
+    }
+
+    const now = Date.now();
+    const recent = await prisma.magicLinkToken.findMany({
+        where: { userId: user.id, createdAt: { gt: new Date(now - 60 * 60 * 1000) } },
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true },
+    });
+    if (recent.length > 0 && now - recent[0].createdAt.getTime() < REQUEST_INTERVAL_MS) {
+        console.log(`[MagicLink] Skipped link for user ${user.id}: one was sent less than a minute ago.`);
+        return;
+    }
+    if (recent.length >= REQUEST_HOURLY_LIMIT) {
+        console.log(`[MagicLink] Skipped link for user ${user.id}: hourly limit reached.`);
+        return;
+    }
+
+    const magicLinkToken = await prisma.magicLinkToken.create({
+        data: {
+            token: crypto.randomUUID(),
+            userId: user.id,
+            email: user.email,
+            expiresAt: new Date(now + MAGIC_LINK_TTL_MINUTES * 60 * 1000),
+        },
+    });
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    try {
+        await sendEmail({
+            to: user.email,
+            ...renderMagicLinkEmail({
+                customerName: user.name,
+                loginUrl: `${frontendUrl}/login/magic?token=${magicLinkToken.token}`,
+                expiresInMinutes: MAGIC_LINK_TTL_MINUTES,
+            }),
+        });
+    } catch (error) {
+        console.error(`[MagicLink] Failed to send login link to ${user.email}:`, error);
+        // Don't count an email that never went out against the request limits
+        await prisma.magicLinkToken.delete({ where: { id: magicLinkToken.id } });
+        return;
+    }
+
+    console.log(`[MagicLink] Sent login link to ${user.email} (user ${user.id}).`);
+};
+
+/**
+ * Uses up a login link. The link only counts if the account still has the address it was sent to.
+ * Following it proves the user reads that inbox, so an unconfirmed address is confirmed as well.
+ *
+ * @param token Token from the login link.
+ * @returns The user to log in.
+ */
+export const consumeMagicLink = async (token: string): Promise<FulfillmentResult<{ userId: number }>> => {
+    const magicLinkToken = await prisma.magicLinkToken.findUnique({
+        where: { token },
+        include: { user: { select: { email: true, emailVerifiedAt: true } } },
+    });
+    if (!magicLinkToken || magicLinkToken.user.email !== magicLinkToken.email) {
+        return { ok: false, status: 400, message: 'This login link is not valid. Please ask for a new one.' };
+    }
+    if (magicLinkToken.usedAt) {
+        return { ok: false, status: 400, message: USED_LINK_MESSAGE };
+    }
+    if (new Date() > magicLinkToken.expiresAt) {
+        return { ok: false, status: 400, message: 'This login link has expired. Please ask for a new one.' };
+    }
+
+    // Conditional on usedAt, so the same link can't log in twice in parallel
+    const claimed = await prisma.magicLinkToken.updateMany({
+        where: { id: magicLinkToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+        return { ok: false, status: 400, message: USED_LINK_MESSAGE };
+    }
+    if (!magicLinkToken.user.emailVerifiedAt) {
+        await prisma.user.update({ where: { id: magicLinkToken.userId }, data: { emailVerifiedAt: new Date() } });
+    }
+
+    console.log(`[MagicLink] User ${magicLinkToken.userId} used a login link.`);
+    return { ok: true, value: { userId: magicLinkToken.userId } };
+};
@@ -0,0 +1,424 @@
+import { OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../db';
+import { sendEmail } from '../../utils/emailService';
+import { isShippingLineItem } from '../../utils/shipments';
+import {
+    RenderedEmail,
+    EmailLineItem,
+    renderOrderPaidEmail,
+    renderOrderShippedEmail,
+    renderOrderRefundedEmail,
+    renderSubscriptionRenewedEmail,
+    renderRenewalPaymentFailedEmail,
+    renderCardExpiringEmail,
+    renderSubscriptionCanceledEmail,
+    renderAbandonedCheckoutEmail,
+    renderGiftCardEmail,
+    renderOrderOnHoldAdminEmail,
+} from '../utils/emailTemplates';
+import { validateCartLines } from './cart';
+import { createReminderLinks } from './cartRecovery';
+import { createUpdatePaymentUrl } from './subscriptionDunning';
+
+// Transactional emails for order and subscription events. These never throw: a failed email is logged
+// and must not roll back or fail the payment/fulfillment step that triggered it.
+
+const deliver = async (to: string, email: RenderedEmail, context: string): Promise<boolean> => {
+    try {
+        await sendEmail({ to, ...email });
+        console.log(`[Email] Sent ${context} to ${to}`);
+        return true;
+    } catch (error) {
+        console.error(`[Email] Failed to send ${context} to ${to}:`, error);
+        return false;
+    }
+};
+
+const toLineItems = (items: { productId: string; productName: string; quantity: number; price: Prisma.Decimal }[]): EmailLineItem[] =>
+    items
+        .filter(item => !isShippingLineItem(item))
+        .map(item => ({ name: item.productName, quantity: item.quantity, unitPrice: Number(item.price) }));
+
+// Subscription rows only keep the Stripe price ID; the product name comes from the local catalog
+const getProductNameForPrice = async (priceId: string): Promise<string> => {
+    const price = await prisma.price.findUnique({ where: { id: priceId }, select: { product: { select: { name: true } } } });
+    return price?.product.name || 'ice cream';
+};
+
+/**
+ * Order confirmation, sent once the PaymentIntent has succeeded and the order is saved.
+ */
+export const sendOrderPaidEmail = async (orderId: number): Promise<void> => {
+    try {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            select: {
+                contactEmail: true, shippingName: true, totalAmount: true, shippingCost: true, discountAmount: true, taxAmount: true,
+                shippingMethodName: true, estimatedDeliveryDate: true, isGift: true,
+                items: { select: { productId: true, productName: true, quantity: true, price: true } },
+            },
+        });
+        if (!order) return;
+        await deliver(order.contactEmail, renderOrderPaidEmail({
+            orderId,
+            customerName: order.isGift ? null : order.shippingName, // Gift orders are addressed to the recipient
+            items: toLineItems(order.items),
+            shippingCost: Number(order.shippingCost),
+            discountAmount: Number(order.discountAmount),
+            taxAmount: Number(order.taxAmount),
+            totalAmount: Number(order.totalAmount),
+            shippingMethodName: order.shippingMethodName,
+            estimatedDeliveryDate: order.estimatedDeliveryDate,
+            giftRecipientName: order.isGift ? order.shippingName : null,
+        }), `order paid email (order ${orderId})`);
+    } catch (error) {
+        console.error(`[Email] Could not prepare order paid email for order ${orderId}:`, error);
+    }
+};
+
+/**
+ * Shipping notification with the tracking link, sent for each shipment (partial or final).
+ */
+export const sendOrderShippedEmail = async (shipmentId: number): Promise<void> => {
+    try {
+        const shipment = await prisma.shipment.findUnique({
+            where: { id: shipmentId },
+            select: {
+                carrier: true, trackingNumber: true,
+                items: { select: { quantity: true, orderItem: { select: { productName: true } } } },
+                order: { select: { id: true, status: true, contactEmail: true, shippingName: true, isGift: true } },
+            },
+        });
+        if (!shipment) return;
+        await deliver(shipment.order.contactEmail, renderOrderShippedEmail({
+            orderId: shipment.order.id,
+            customerName: shipment.order.isGift ? null : shipment.order.shippingName,
+            carrier: shipment.carrier,
+            trackingNumber: shipment.trackingNumber,
+            items: shipment.items.map(item => ({ name: item.orderItem.productName, quantity: item.quantity })),
+            isFinalShipment: shipment.order.status !== OrderStatus.PARTIALLY_SHIPPED,
+        }), `order shipped email (shipment ${shipmentId})`);
+    } catch (error) {
+        console.error(`[Email] Could not prepare shipped email for shipment ${shipmentId}:`, error);
+    }
+};
+
+/**
+ * Emails the customer about every issued refund on the order that hasn't been announced yet.
+ * Called after admin refunds and from the charge.refunded webhook; notifiedAt makes sure each refund is emailed once.
+ */
+export const sendRefundEmails = async (orderId: number): Promise<void> => {
+    try {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            select: {
+                status: true, contactEmail: true, shippingName: true,
+                refunds: {
+                    where: { notifiedAt: null, status: { in: ['pending', 'succeeded'] } },
+                    select: { id: true, amount: true, items: { select: { quantity: true, orderItem: { select: { productName: true } } } } },
+                },
+            },
+        });
+        if (!order) return;
+
+        for (const refund of order.refunds) {
+            // Claim the refund first so a concurrent webhook doesn't send it too
+            const claimed = await prisma.refund.updateMany({ where: { id: refund.id, notifiedAt: null }, data: { notifiedAt: new Date() } });
+            if (claimed.count === 0) continue;
+
+            await deliver(order.contactEmail, renderOrderRefundedEmail({
+                orderId,
+                customerName: order.shippingName,
+                amount: Number(refund.amount),
+                items: refund.items.map(item => ({ name: item.orderItem.productName, quantity: item.quantity })),
+                isOrderCanceled: order.status === OrderStatus.CANCELED,
+            }), `refund email (refund ${refund.id})`);
+        }
+    } catch (error) {
+        console.error(`[Email] Could not prepare refund emails for order ${orderId}:`, error);
+    }
+};
+
+/**
+ * Renewal receipt, sent after handleInvoicePaid creates the renewal order. When the order is ON_HOLD for
+ * lack of a shipping address, it asks the customer to add one.
+ */
+export const sendSubscriptionRenewedEmail = async (orderId: number): Promise<void> => {
+    try {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            select: {
+                contactEmail: true, shippingName: true, totalAmount: true, status: true, shippingAddress1: true,
+                user: { select: { name: true } },
+                subscription: { select: { currentPeriodEnd: true } },
+                items: { select: { productId: true, productName: true, quantity: true, price: true } },
+            },
+        });
+        if (!order) return;
+        await deliver(order.contactEmail, renderSubscriptionRenewedEmail({
+            orderId,
+            customerName: order.user?.name || order.shippingName,
+            items: toLineItems(order.items),
+            totalAmount: Number(order.totalAmount),
+            nextRenewalDate: order.subscription?.currentPeriodEnd ?? null,
+            needsAddress: order.status === OrderStatus.ON_HOLD && !order.shippingAddress1,
+        }), `subscription renewed email (order ${orderId})`);
+    } catch (error) {
+        console.error(`[Email] Could not prepare renewal email for order ${orderId}:`, error);
+    }
+};
+
+/**
+ * Tells every admin that a paid order was put ON_HOLD and why, since it won't show up in the fulfillment queue.
+ */
+export const sendOrderOnHoldAdminEmail = async (orderId: number): Promise<void> => {
+    try {
+        const order = await prisma.order.findUnique({
+            where: { id: orderId },
+            select: { status: true, contactEmail: true, totalAmount: true, holdReason: true },
+        });
+        if (!order || order.status !== OrderStatus.ON_HOLD) return;
+        const admins = await prisma.user.findMany({ where: { role: 'ADMIN' }, select: { email: true } });
+        const email = renderOrderOnHoldAdminEmail({
+            orderId,
+            contactEmail: order.contactEmail,
+            totalAmount: Number(order.totalAmount),
+            holdReason: order.holdReason || 'No reason was recorded.',
+        });
+        for (const admin of admins) {
+            await deliver(admin.email, email, `order on hold email (order ${orderId})`);
+        }
+    } catch (error) {
+        console.error(`[Email] Could not prepare on hold email for order ${orderId}:`, error);
+    }
+};
+
+/**
+ * Failed renewal notice with a signed link to the update payment page. When the bank wants the
+ * payment authenticated, the email asks the customer to confirm it instead.
+ * @param dunningId The SubscriptionDunning case for the failed invoice.
+ */
+export const sendRenewalPaymentFailedEmail = async (dunningId: number): Promise<void> => {
+    try {
+        const dunning = await prisma.subscriptionDunning.findUnique({
+            where: { id: dunningId },
+            select: {
+                amountDueCent: true, nextAttemptAt: true, requiresAction: true,
+                subscription: { select: { stripePriceId: true, user: { select: { email: true, name: true } } } },
+            },
+        });
+        if (!dunning) return;
+        await deliver(dunning.subscription.user.email, renderRenewalPaymentFailedEmail({
+            customerName: dunning.subscription.user.name,
+            productName: await getProductNameForPrice(dunning.subscription.stripePriceId),
+            amountDue: dunning.amountDueCent / 100,
+            nextAttemptDate: dunning.nextAttemptAt,
+            updatePaymentUrl: createUpdatePaymentUrl(dunningId),
+            requiresAction: dunning.requiresAction,
+        }), `renewal payment failed email (dunning ${dunningId})`);
+    } catch (error) {
+        console.error(`[Email] Could not prepare payment failed email for dunning ${dunningId}:`, error);
+    }
+};
+
+/**
+ * Cancellation confirmation, sent when Stripe deletes the subscription.
+ */
+export const sendSubscriptionCanceledEmail = async (subscriptionId: number): Promise<void> => {
+    try {
+        const subscription = await prisma.subscription.findUnique({
+            where: { id: subscriptionId },
+            select: {
+                stripePriceId: true, user: { select: { email: true, name: true } },
+                dunningCases: { where: { status: 'canceled' }, select: { id: true }, take: 1 },
+            },
+        });
+        if (!subscription) return;
+        await deliver(subscription.user.email, renderSubscriptionCanceledEmail({
+            customerName: subscription.user.name,
+            productName: await getProductNameForPrice(subscription.stripePriceId),
+            forNonPayment: subscription.dunningCases.length > 0,
+        }), `subscription canceled email (subscription ${subscriptionId})`);
+    } catch (error) {
+        console.error(`[Email] Could not prepare cancellation email for subscription ${subscriptionId}:`, error);
+    }
+};
+
+/**
+ * Emails a paid gift card's code to its recipient and records when it was delivered.
+ */
+export const sendGiftCardEmail = async (giftCardId: number): Promise<void> => {
+    try {
+        const giftCard = await prisma.giftCard.findUnique({ where: { id: giftCardId } });
+        if (!giftCard || giftCard.status !== 'active') return;
+        const sent = await deliver(giftCard.recipientEmail, renderGiftCardEmail({
+            recipientName: giftCard.recipientName,
+            senderName: giftCard.senderName,
+            message: giftCard.message,
+            code: giftCard.code,
+            amount: giftCard.initialAmountCent / 100,
+        }), `gift card email (gift card ${giftCardId})`);
+        if (sent) {
+            await prisma.giftCard.update({ where: { id: giftCardId }, data: { deliveredAt: new Date() } });
+        }
+    } catch (error) {
+        console.error(`[Email] Could not prepare gift card email for gift card ${giftCardId}:`, error);
+    }
+};
+
+/**
+ * Emails customers whose saved cards expire this month or next. Each card is only notified once.
+ * @param now Reference date (defaults to the current time).
+ * @returns How many emails were sent.
+ */
+export const sendCardExpiringEmails = async (now: Date = new Date()): Promise<number> => {
+    const thisMonth = { year: now.getFullYear(), month: now.getMonth() + 1 };
+    const nextMonth = thisMonth.month === 12 ? { year: thisMonth.year + 1, month: 1 } : { year: thisMonth.year, month: thisMonth.month + 1 };
+
+    const cards = await prisma.savedCard.findMany({
+        where: {
+            expiryNoticeSentAt: null,
+            OR: [
+                { expYear: thisMonth.year, expMonth: thisMonth.month },
+                { expYear: nextMonth.year, expMonth: nextMonth.month },
+            ],
+        },
+        select: {
+            id: true, brand: true, last4: true, expMonth: true, expYear: true,
+            user: { select: { email: true, name: true, subscriptions: { where: { status: { in: ['active', 'trialing', 'past_due'] } }, select: { id: true } } } },
+        },
+    });
+
+    let sent = 0;
+    for (const card of cards) {
+        const claimed = await prisma.savedCard.updateMany({ where: { id: card.id, expiryNoticeSentAt: null }, data: { expiryNoticeSentAt: new Date() } });
+        if (claimed.count === 0) continue;
+        const delivered = await deliver(card.user.email, renderCardExpiringEmail({
+            customerName: card.user.name,
+            brand: card.brand,
+            last4: card.last4,
+            expMonth: card.expMonth,
+            expYear: card.expYear,
+            hasActiveSubscription: card.user.subscriptions.length > 0,
+        }), `card expiring email (card ${card.id})`);
+        if (delivered) {
+            sent++;
+        } else {
+            // Let the next run try again
+            await prisma.savedCard.update({ where: { id: card.id }, data: { expiryNoticeSentAt: null } });
+        }
+    }
+    console.log(`[Email] Card expiry check: ${cards.length} card(s) expiring, ${sent} email(s) sent.`);
+    return sent;
+};
+
+// --- Abandoned checkout reminders ---
+
+// Checkouts are reminded once they've been idle this long...
+const ABANDONED_CHECKOUT_DELAY_MS = 2 * 60 * 60 * 1000;
+// ...unless they're older than this (not worth a reminder any more)
+const ABANDONED_CHECKOUT_MAX_AGE_MS = 3 * 24 * 60 * 60 * 1000;
+// At most one reminder per address in this window, however many checkouts were abandoned
+const REMINDER_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Emails a reminder for checkouts that were started but never paid. Only account holders
+ * who haven't unsubscribed (User.cartRemindersOptOut) are emailed; guests have no account to
+ * store the opt-out on, so they are skipped. Each address gets its newest abandoned checkout only,
+ * and nothing if it has ordered since.
+ * @param now Reference time (defaults to the current time).
+ * @returns How many reminders were sent.
+ */
+export const sendAbandonedCheckoutReminders = async (now: Date = new Date()): Promise<number> => {
+    const attempts = await prisma.checkoutAttempt.findMany({
+        where: {
+            createdAt: { lte: new Date(now.getTime() - ABANDONED_CHECKOUT_DELAY_MS), gte: new Date(now.getTime() - ABANDONED_CHECKOUT_MAX_AGE_MS) },
+            reminder: null,
+        },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, data: true, createdAt: true },
+    });
+
+    const handledEmails = new Set<string>();
+    let sent = 0;
+    for (const attempt of attempts) {
+        const context = attempt.data as any;
+        const email: string | undefined = context?.contactInfo?.email;
+        const cartItems: any[] = Array.isArray(context?.cartItems) ? context.cartItems : [];
+        if (!email || cartItems.length === 0) continue;
+
+        // Only the newest attempt per address (attempts are sorted newest first)
+        const emailKey = email.toLowerCase();
+        if (handledEmails.has(emailKey)) continue;
+        handledEmails.add(emailKey);
+
+        try {
+            const user = await prisma.user.findFirst({
+                where: context.userId ? { id: context.userId } : { email: { equals: email, mode: 'insensitive' } },
+                select: { id: true, name: true, email: true, cartRemindersOptOut: true },
+            });
+            if (!user || user.cartRemindersOptOut) continue;
+
+            // Paid after all (this attempt or a later one), or already reminded recently
+            const [orderCount, subscriptionCount, recentReminders] = await Promise.all([
+                prisma.order.count({
+                    where: {
+                        OR: [
+                            { checkoutAttemptId: attempt.id },
+                            { userId: user.id, createdAt: { gte: attempt.createdAt } },
+                            { contactEmail: { equals: email, mode: 'insensitive' }, createdAt: { gte: attempt.createdAt } },
+                        ],
+                    },
+                }),
+                prisma.subscription.count({ where: { checkoutAttemptId: attempt.id } }),
+                prisma.checkoutReminder.count({
+                    where: { userId: user.id, sentAt: { gte: new Date(now.getTime() - REMINDER_COOLDOWN_MS) } },
+                }),
+            ]);
+            if (orderCount > 0 || subscriptionCount > 0 || recentReminders > 0) continue;
+
+            // Items that can't be bought any more are left out; nothing to remind about if that's everything
+            const lines = cartItems
+                .filter(item => typeof item?.priceId === 'string' && typeof item?.quantity === 'number')
+                .map(item => ({ priceId: item.priceId as string, quantity: item.quantity as number }));
+            const cart = await validateCartLines(lines);
+            if (cart.items.length === 0) continue;
+
+            // Claim the attempt. The unique checkoutAttemptId stops two runs from both sending.
+            let reminderId: number;
+            try {
+                const reminder = await prisma.checkoutReminder.create({
+                    data: {
+                        checkoutAttemptId: attempt.id,
+                        userId: user.id,
+                        email,
+                        cartItems: cart.items.map(item => ({ priceId: item.priceId, quantity: item.quantity })),
+                        cartValue: new Prisma.Decimal(cart.items.reduce((sum, item) => sum + parseFloat(item.price) * item.quantity, 0).toFixed(2)),
+                    },
+                    select: { id: true },
+                });
+                reminderId = reminder.id;
+            } catch (error) {
+                if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') continue;
+                throw error;
+            }
+
+            const links = createReminderLinks(reminderId, user.id);
+            const delivered = await deliver(email, renderAbandonedCheckoutEmail({
+                customerName: context.shippingAddress?.fullName || user.name,
+                items: cart.items.map(item => ({ name: item.name, quantity: item.quantity, unitPrice: parseFloat(item.price) })),
+                ...links,
+            }), `abandoned checkout reminder (attempt ${attempt.id})`);
+            if (delivered) {
+                sent++;
+            } else {
+                // Let the next run try again
+                await prisma.checkoutReminder.delete({ where: { id: reminderId } });
+            }
+        } catch (error) {
+            console.error(`[Email] Failed to process abandoned checkout ${attempt.id}:`, error);
+        }
+    }
+    console.log(`[Email] Abandoned checkout check: ${attempts.length} attempt(s) idle, ${sent} reminder(s) sent.`);
+    return sent;
+};
@@ -0,0 +1,223 @@
+import { Prisma, PromoCode } from '@prisma/client';
+import prisma from '../db';
+import { RESERVATION_TTL_MINUTES } from './inventory';
+
+// Input for evaluating a code against a cart. Amounts are in cents, like initiate-checkout.
+export interface PromoEvaluationInput {
+    code: string;
+    itemsSubtotalCent: number;
+    shippingCent: number;
+    userId: number | null;
+    email: string | null;
+}
+
+// What gets stored on the CheckoutAttempt context and later on the Order
+export interface AppliedPromo {
+    promoCodeId: number;
+    code: string;
+    description: string | null;
+    itemsDiscountCent: number;
+    shippingDiscountCent: number;
+    discountCent: number; // itemsDiscountCent + shippingDiscountCent
+}
+
+export type PromoEvaluationResult =
+    | { ok: true; promo: AppliedPromo }
+    | { ok: false; message: string };
+
+// Orders that were canceled or refunded give the use back
+const RELEASED_ORDER_STATUSES = ['CANCELED', 'REFUNDED'] as const;
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+const toCents = (value: { toString(): string } | null): number =>
+    value === null ? 0 : Math.round(parseFloat(value.toString()) * 100);
+
+/**
+ * Calculates the discount a promo code gives on a cart, without checking usage limits.
+ * The item discount never exceeds the item subtotal.
+ */
+const calculateDiscount = (promo: PromoCode, itemsSubtotalCent: number, shippingCent: number) => {
+    let itemsDiscountCent = 0;
+    if (promo.discountType === 'PERCENT' && promo.discountValue !== null) {
+        const percent = Math.min(100, Math.max(0, parseFloat(promo.discountValue.toString())));
+        itemsDiscountCent = Math.round(itemsSubtotalCent * percent / 100);
+    } else if (promo.discountType === 'FIXED' && promo.discountValue !== null) {
+        itemsDiscountCent = Math.min(itemsSubtotalCent, toCents(promo.discountValue));
+    }
+    const shippingDiscountCent = promo.freeShipping ? shippingCent : 0;
+    return { itemsDiscountCent, shippingDiscountCent };
+};
+
+interface PromoCustomer {
+    userId: number | null;
+    email: string | null;
+}
+
+/**
+ * Counts uses of a promo code: orders placed with it (not canceled or refunded) plus uses held by
+ * checkouts in progress. Optionally limited to one customer, matched by account or email.
+ * @param excludeCheckoutAttemptId A checkout whose own reservation shouldn't count.
+ */
+const countPromoUses = async (
+    promoCodeId: number,
+    customer: PromoCustomer | null,
+    excludeCheckoutAttemptId: string | null,
+    client: Prisma.TransactionClient
+): Promise<number> => {
+    const orderFilters: Prisma.OrderWhereInput[] = [];
+    const reservationFilters: Prisma.PromoReservationWhereInput[] = [];
+    if (customer?.userId) {
+        orderFilters.push({ userId: customer.userId });
+        reservationFilters.push({ userId: customer.userId });
+    }
+    if (customer?.email) {
+        orderFilters.push({ contactEmail: { equals: customer.email, mode: 'insensitive' } });
+        reservationFilters.push({ email: { equals: customer.email, mode: 'insensitive' } });
+    }
+
+    const orders = await client.order.count({
+        where: {
+            promoCodeId,
+            status: { notIn: [...RELEASED_ORDER_STATUSES] },
+            ...(customer ? { OR: orderFilters } : {}),
+        },
+    });
+    const reservations = await client.promoReservation.count({
+        where: {
+            promoCodeId,
+            expiresAt: { gt: new Date() },
+            ...(excludeCheckoutAttemptId ? { NOT: { checkoutAttemptId: excludeCheckoutAttemptId } } : {}),
+            ...(customer ? { OR: reservationFilters } : {}),
+        },
+    });
+    return orders + reservations;
+};
+
+/**
+ * Checks the global and per-customer usage limits of a promo code.
+ * @returns A customer-facing message if a limit is reached, otherwise null.
+ */
+const checkUsageLimits = async (
+    promo: PromoCode,
+    customer: PromoCustomer,
+    excludeCheckoutAttemptId: string | null,
+    client: Prisma.TransactionClient = prisma
+): Promise<string | null> => {
+    if (promo.maxRedemptions !== null) {
+        const totalUses = await countPromoUses(promo.id, null, excludeCheckoutAttemptId, client);
+        if (totalUses >= promo.maxRedemptions) {
+            return `Promo code "${promo.code}" is no longer available.`;
+        }
+    }
+
+    if (promo.maxRedemptionsPerUser !== null && (customer.userId || customer.email)) {
+        const customerUses = await countPromoUses(promo.id, customer, excludeCheckoutAttemptId, client);
+        if (customerUses >= promo.maxRedemptionsPerUser) {
+            return `You have already used promo code "${promo.code}".`;
+        }
+    }
+    return null;
+};
+
+/**
+ * Validates a promo code for a cart and calculates the discount.
+ * Checks active flag, start/expiry dates, minimum subtotal, and global and
+ * per-customer usage (orders placed with the code plus checkouts holding it, matched by account or email).
+ *
+ * @param input The code and cart amounts.
+ * @returns The applied promo, or a customer-facing message explaining why it was rejected.
+ */
+export const evaluatePromoCode = async (input: PromoEvaluationInput): Promise<PromoEvaluationResult> => {
+    const code = normalizePromoCode(input.code);
+    if (!code) {
+        return { ok: false, message: 'Please enter a promo code.' };
+    }
+
+    const promo = await prisma.promoCode.findUnique({ where: { code } });
+    const now = new Date();
+    if (!promo || !promo.active || (promo.startsAt && promo.startsAt > now)) {
+        return { ok: false, message: `Promo code "${code}" is not valid.` };
+    }
+    if (promo.expiresAt && promo.expiresAt <= now) {
+        return { ok: false, message: `Promo code "${code}" has expired.` };
+    }
+
+    const minSubtotalCent = toCents(promo.minSubtotal);
+    if (minSubtotalCent > 0 && input.itemsSubtotalCent < minSubtotalCent) {
+        return { ok: false, message: `Promo code "${code}" requires a subtotal of at least $${(minSubtotalCent / 100).toFixed(2)}.` };
+    }
+
+    const limitMessage = await checkUsageLimits(promo, { userId: input.userId, email: input.email }, null);
+    if (limitMessage) {
+        return { ok: false, message: limitMessage };
+    }
+
+    const { itemsDiscountCent, shippingDiscountCent } = calculateDiscount(promo, input.itemsSubtotalCent, input.shippingCent);
+    if (itemsDiscountCent + shippingDiscountCent <= 0) {
+        return { ok: false, message: `Promo code "${code}" does not apply to this order.` };
+    }
+
+    return {
+        ok: true,
+        promo: {
+            promoCodeId: promo.id,
+            code: promo.code,
+            description: promo.description,
+            itemsDiscountCent,
+            shippingDiscountCent,
+            discountCent: itemsDiscountCent + shippingDiscountCent,
+        },
+    };
+};
+
+/**
+ * Holds one use of a promo code for a checkout attempt, so concurrent checkouts can't go past its
+ * usage limits. Runs in a transaction with the PromoCode row locked while the limits are re-checked.
+ * The reservation is removed with the checkout attempt, or when the order is created.
+ *
+ * @param checkoutAttemptId The CheckoutAttempt the use belongs to.
+ * @param promo The promo applied by evaluatePromoCode.
+ * @param customer The account and email placing the order.
+ * @returns ok, or a customer-facing message if a limit was reached in the meantime.
+ */
+export const reservePromoCode = async (
+    checkoutAttemptId: string,
+    promo: AppliedPromo,
+    customer: PromoCustomer
+): Promise<{ ok: true } | { ok: false; message: string }> => {
+    const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+
+    return prisma.$transaction(async (tx) => {
+        // Lock the promo code row for the duration of the check-and-reserve
+        await tx.$queryRaw`SELECT "id" FROM "PromoCode" WHERE "id" = ${promo.promoCodeId} FOR UPDATE`;
+
+        const promoCode = await tx.promoCode.findUnique({ where: { id: promo.promoCodeId } });
+        if (!promoCode) {
+            return { ok: false as const, message: `Promo code "${promo.code}" is not valid.` };
+        }
+        const limitMessage = await checkUsageLimits(promoCode, customer, checkoutAttemptId, tx);
+        if (limitMessage) {
+            return { ok: false as const, message: limitMessage };
+        }
+
+        await tx.promoReservation.create({
+            data: { checkoutAttemptId, promoCodeId: promoCode.id, userId: customer.userId, email: customer.email, expiresAt },
+        });
+        console.log(`Promo: Reserved a use of ${promoCode.code} for CheckoutAttempt ${checkoutAttemptId} until ${expiresAt.toISOString()}.`);
+        return { ok: true as const };
+    });
+};
+
+/**
+ * Deletes promo reservations past their expiry. Expired rows already don't count against
+ * usage limits; this just keeps the table small.
+ * @returns Number of reservations removed.
+ */
+export const releaseExpiredPromoReservations = async (): Promise<number> => {
+    const result = await prisma.promoReservation.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+    if (result.count > 0) {
+        console.log(`Promo: Released ${result.count} expired promo reservation(s).`);
+    }
+    return result.count;
+};
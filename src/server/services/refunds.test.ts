@@ -0,0 +1,160 @@
+import Stripe from 'stripe';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { createRefund, cancelOrder } from './refunds';
+
+jest.mock('../db', () => ({
+    __esModule: true,
+    default: {
+        order: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn() },
+        refund: { upsert: jest.fn() },
+        $transaction: jest.fn(),
+    },
+}));
+jest.mock('./giftCards', () => ({ restoreGiftCardRedemptions: jest.fn(async () => 0) }));
+jest.mock('./giftSubscriptions', () => ({ endGiftSubscriptionsForOrder: jest.fn(async () => 0) }));
+
+const db = prisma as unknown as {
+    order: { findUnique: jest.Mock; findUniqueOrThrow: jest.Mock; update: jest.Mock };
+    refund: { upsert: jest.Mock };
+    $transaction: jest.Mock;
+};
+
+const stripeRefundsCreate = jest.fn();
+const stripe = { refunds: { create: stripeRefundsCreate } } as unknown as Stripe;
+
+const decimal = (value: number) => new Prisma.Decimal(value);
+
+// A paid $30.00 order: two $10.00 scoops, $5.00 shipping and $5.00 tax
+const paidOrder = (overrides: Record<string, unknown> = {}) => ({
+    id: 7,
+    status: 'PAID',
+    totalAmount: decimal(30),
+    giftCardAmount: decimal(0),
+    refundedAmount: decimal(0),
+    stripePaymentIntentId: 'pi_123',
+    items: [
+        { id: 1, productId: 'prod_vanilla', productName: 'Vanilla', quantity: 2, price: decimal(10) },
+        { id: 2, productId: 'shipping_standard', productName: 'Shipping (Standard)', quantity: 1, price: decimal(5) },
+    ],
+    refunds: [] as { status: string; amount: Prisma.Decimal; items: { orderItemId: number; quantity: number }[] }[],
+    _count: { shipments: 0 },
+    ...overrides,
+});
+
+beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation(async (fn: (tx: typeof db) => unknown) => fn(db));
+    db.refund.upsert.mockResolvedValue({ id: 99 });
+    db.order.findUniqueOrThrow.mockResolvedValue({ status: 'PAID', totalAmount: decimal(30), giftCardAmount: decimal(0), refunds: [] });
+    stripeRefundsCreate.mockImplementation(async ({ amount }: { amount: number }) => ({ id: 're_1', amount, status: 'succeeded' }));
+});
+
+describe('createRefund amounts', () => {
+    it('refunds everything charged when no items or amount are given', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder());
+        const result = await createRefund(stripe, 7, {}, 1);
+        expect(result).toMatchObject({ ok: true, value: { amountCent: 3000 } });
+        expect(stripeRefundsCreate).toHaveBeenCalledWith(expect.objectContaining({ payment_intent: 'pi_123', amount: 3000 }));
+    });
+
+    it('prices item refunds at the unit price paid', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder());
+        const result = await createRefund(stripe, 7, { items: [{ orderItemId: 1, quantity: 1 }] }, 1);
+        expect(result).toMatchObject({ ok: true, value: { amountCent: 1000 } });
+    });
+
+    it('lets an explicit amount override the item total', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder());
+        const result = await createRefund(stripe, 7, { items: [{ orderItemId: 1, quantity: 1 }], amount: 10.83 }, 1);
+        expect(result).toMatchObject({ ok: true, value: { amountCent: 1083 } });
+    });
+
+    it('leaves out the gift card share of the total', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder({ giftCardAmount: decimal(12.5) }));
+        const full = await createRefund(stripe, 7, {}, 1);
+        expect(full).toMatchObject({ ok: true, value: { amountCent: 1750 } });
+
+        const tooMuch = await createRefund(stripe, 7, { amount: 17.51 }, 1);
+        expect(tooMuch).toMatchObject({ ok: false, status: 400 });
+    });
+
+    it('subtracts earlier refunds, ignoring failed and canceled ones', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder({
+            refunds: [
+                { status: 'succeeded', amount: decimal(10), items: [{ orderItemId: 1, quantity: 1 }] },
+                { status: 'pending', amount: decimal(5), items: [] },
+                { status: 'failed', amount: decimal(8), items: [] },
+                { status: 'canceled', amount: decimal(2), items: [] },
+            ],
+        }));
+        const result = await createRefund(stripe, 7, {}, 1);
+        expect(result).toMatchObject({ ok: true, value: { amountCent: 1500 } });
+    });
+
+    it('refuses more units than are left to refund', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder({
+            refunds: [{ status: 'succeeded', amount: decimal(10), items: [{ orderItemId: 1, quantity: 1 }] }],
+        }));
+        const result = await createRefund(stripe, 7, { items: [{ orderItemId: 1, quantity: 2 }] }, 1);
+        expect(result).toMatchObject({ ok: false, status: 400, message: 'Only 1 of Vanilla can still be refunded.' });
+        expect(stripeRefundsCreate).not.toHaveBeenCalled();
+    });
+
+    it('does not refund shipping as an item', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder());
+        const result = await createRefund(stripe, 7, { items: [{ orderItemId: 2, quantity: 1 }] }, 1);
+        expect(result).toMatchObject({ ok: false, status: 400 });
+    });
+
+    it('reports a fully refunded order', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder({ refunds: [{ status: 'succeeded', amount: decimal(30), items: [] }] }));
+        const result = await createRefund(stripe, 7, {}, 1);
+        expect(result).toMatchObject({ ok: false, status: 409 });
+    });
+
+    it('marks the order REFUNDED once everything charged has been returned', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder({ giftCardAmount: decimal(10) }));
+        db.order.findUniqueOrThrow.mockResolvedValue({
+            status: 'PAID',
+            totalAmount: decimal(30),
+            giftCardAmount: decimal(10),
+            refunds: [{ status: 'succeeded', amount: decimal(20) }],
+        });
+        const result = await createRefund(stripe, 7, {}, 1);
+        expect(result).toMatchObject({ ok: true, value: { amountCent: 2000, status: 'REFUNDED' } });
+        expect(db.order.update).toHaveBeenCalledWith({ where: { id: 7 }, data: { refundedAmount: decimal(20), status: 'REFUNDED' } });
+    });
+
+    it('refunds an order held because its gift card came up short', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder({ status: 'ON_HOLD', giftCardAmount: decimal(12.5) }));
+        const result = await createRefund(stripe, 7, {}, 1);
+        expect(result).toMatchObject({ ok: true, value: { amountCent: 1750 } });
+    });
+});
+
+describe('cancelOrder amounts', () => {
+    it('refunds only what is still outstanding', async () => {
+        db.order.findUnique
+            .mockResolvedValueOnce(paidOrder({ refundedAmount: decimal(10) }))
+            .mockResolvedValueOnce(paidOrder({ refunds: [{ status: 'succeeded', amount: decimal(10), items: [] }] }));
+        const result = await cancelOrder(stripe, 7, 1);
+        expect(result).toMatchObject({ ok: true, value: { status: 'CANCELED', refundedCent: 2000 } });
+    });
+
+    it('refunds the card payment of an order held because its gift card came up short', async () => {
+        // $12.50 was meant to come off the gift card but less did; the card was charged the other $17.50
+        db.order.findUnique.mockResolvedValue(paidOrder({ status: 'ON_HOLD', giftCardAmount: decimal(12.5) }));
+        const result = await cancelOrder(stripe, 7, 1);
+        expect(result).toMatchObject({ ok: true, value: { status: 'CANCELED', refundedCent: 1750 } });
+        expect(stripeRefundsCreate).toHaveBeenCalledWith(expect.objectContaining({ payment_intent: 'pi_123', amount: 1750 }));
+        expect(db.order.update).toHaveBeenLastCalledWith({ where: { id: 7 }, data: { status: 'CANCELED' } });
+    });
+
+    it('does not refund an unpaid order', async () => {
+        db.order.findUnique.mockResolvedValue(paidOrder({ status: 'PENDING' }));
+        const result = await cancelOrder(stripe, 7, 1);
+        expect(result).toMatchObject({ ok: true, value: { refundedCent: 0 } });
+        expect(stripeRefundsCreate).not.toHaveBeenCalled();
+    });
+});
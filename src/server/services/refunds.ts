@@ -0,0 +1,289 @@
+import Stripe from 'stripe';
+import { OrderStatus, Prisma } from '@prisma/client';
+import prisma from '../db';
+import { isShippingLineItem } from '../../utils/shipments';
+import { FulfillmentResult } from './fulfillment';
+import { restoreGiftCardRedemptions } from './giftCards';
+import { endGiftSubscriptionsForOrder } from './giftSubscriptions';
+
+// Refunds in these Stripe states did not (and will not) return money, so they don't count against the order
+const INACTIVE_REFUND_STATUSES = ['failed', 'canceled'];
+
+// Orders in these states can be canceled: nothing has shipped yet
+export const CANCELABLE_STATUSES: OrderStatus[] = [OrderStatus.PENDING, OrderStatus.PAID, OrderStatus.ON_HOLD, OrderStatus.PROCESSING];
+
+// Fields returned for each refund by the order APIs (the internal note is added for admins only)
+export const refundSelect = {
+    id: true,
+    amount: true,
+    status: true,
+    reason: true,
+    createdAt: true,
+    items: {
+        select: {
+            orderItemId: true,
+            quantity: true,
+            amount: true,
+        },
+    },
+} satisfies Prisma.RefundSelect;
+
+export type StripeRefundReason = Stripe.RefundCreateParams.Reason;
+
+export interface CreateRefundInput {
+    items?: { orderItemId: number; quantity: number }[]; // Per-item refund; omit for an amount/full refund
+    amount?: number; // Dollars. Overrides the item total; omit with no items to refund everything left
+    reason?: StripeRefundReason;
+    note?: string | null;
+}
+
+const toCents = (amount: Prisma.Decimal | number): number => Math.round(Number(amount) * 100);
+
+const isActiveRefund = (refund: { status: string }): boolean => !INACTIVE_REFUND_STATUSES.includes(refund.status);
+
+// The part of the total paid through Stripe; the rest was paid with a gift card and can't be refunded to a card
+const chargedCents = (order: { totalAmount: Prisma.Decimal; giftCardAmount: Prisma.Decimal }): number =>
+    toCents(order.totalAmount) - toCents(order.giftCardAmount);
+
+/**
+ * Recalculates Order.refundedAmount from its succeeded refunds and marks the order
+ * REFUNDED once everything charged through Stripe has been returned (canceled orders stay CANCELED).
+ * A refunded order's gift subscriptions are canceled.
+ */
+const refreshOrderRefundState = async (tx: Prisma.TransactionClient, orderId: number): Promise<OrderStatus> => {
+    const order = await tx.order.findUniqueOrThrow({
+        where: { id: orderId },
+        select: { status: true, totalAmount: true, giftCardAmount: true, refunds: { select: { amount: true, status: true } } },
+    });
+    const refundedCent = order.refunds
+        .filter(refund => refund.status === 'succeeded')
+        .reduce((sum, refund) => sum + toCents(refund.amount), 0);
+
+    let status = order.status;
+    if (refundedCent >= chargedCents(order) && status !== OrderStatus.CANCELED) {
+        status = OrderStatus.REFUNDED;
+    }
+    await tx.order.update({
+        where: { id: orderId },
+        data: { refundedAmount: new Prisma.Decimal(refundedCent).dividedBy(100), status },
+    });
+    if (status === OrderStatus.REFUNDED) {
+        await endGiftSubscriptionsForOrder(orderId, tx);
+    }
+    return status;
+};
+
+/**
+ * Issues a full, partial or per-item refund against the order's PaymentIntent and records it.
+ * Per-item refunds are priced at the unit price paid; pass `amount` to refund a different sum
+ * (e.g. to include tax or shipping).
+ *
+ * @param stripe Initialized Stripe client.
+ * @param orderId The order to refund.
+ * @param input Items and/or amount to refund, with an optional Stripe reason and internal note.
+ * @param adminUserId The admin issuing the refund.
+ * @returns The refund ID and the order's status, or an error with an HTTP status.
+ */
+export const createRefund = async (
+    stripe: Stripe,
+    orderId: number,
+    input: CreateRefundInput,
+    adminUserId: number | null
+): Promise<FulfillmentResult<{ refundId: number; amountCent: number; status: OrderStatus }>> => {
+    const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        select: {
+            id: true,
+            status: true,
+            totalAmount: true,
+            giftCardAmount: true,
+            stripePaymentIntentId: true,
+            items: { select: { id: true, productId: true, productName: true, quantity: true, price: true } },
+            refunds: { select: { status: true, amount: true, items: { select: { orderItemId: true, quantity: true } } } },
+        },
+    });
+    if (!order) {
+        return { ok: false, status: 404, message: `Order with ID ${orderId} not found.` };
+    }
+    if (!order.stripePaymentIntentId) {
+        return { ok: false, status: 400, message: `Order ${orderId} has no Stripe payment to refund.` };
+    }
+    if (order.status === OrderStatus.PENDING || order.status === OrderStatus.FAILED) {
+        return { ok: false, status: 409, message: `Order ${orderId} is ${order.status} and has not been paid.` };
+    }
+
+    const activeRefunds = order.refunds.filter(isActiveRefund);
+    const refundableCent = chargedCents(order) - activeRefunds.reduce((sum, refund) => sum + toCents(refund.amount), 0);
+    if (refundableCent <= 0) {
+        return { ok: false, status: 409, message: `Order ${orderId} has already been fully refunded.` };
+    }
+
+    // --- Work out what is being refunded ---
+    const refundItems: { orderItemId: number; quantity: number; amount: Prisma.Decimal }[] = [];
+    let amountCent: number;
+    if (input.items && input.items.length > 0) {
+        for (const requested of input.items.filter(item => item.quantity > 0)) {
+            const orderItem = order.items.find(item => item.id === requested.orderItemId);
+            if (!orderItem || isShippingLineItem(orderItem)) {
+                return { ok: false, status: 400, message: `Item ${requested.orderItemId} is not a refundable item on order ${orderId}.` };
+            }
+            const alreadyRefunded = activeRefunds
+                .flatMap(refund => refund.items)
+                .filter(item => item.orderItemId === orderItem.id)
+                .reduce((sum, item) => sum + item.quantity, 0);
+            if (requested.quantity > orderItem.quantity - alreadyRefunded) {
+                return { ok: false, status: 400, message: `Only ${orderItem.quantity - alreadyRefunded} of ${orderItem.productName} can still be refunded.` };
+            }
+            refundItems.push({
+                orderItemId: orderItem.id,
+                quantity: requested.quantity,
+                amount: new Prisma.Decimal(orderItem.price).times(requested.quantity),
+            });
+        }
+        if (refundItems.length === 0) {
+            return { ok: false, status: 400, message: 'Select at least one item to refund.' };
+        }
+        amountCent = input.amount !== undefined
+            ? Math.round(input.amount * 100)
+            : refundItems.reduce((sum, item) => sum + toCents(item.amount), 0);
+    } else {
+        amountCent = input.amount !== undefined ? Math.round(input.amount * 100) : refundableCent;
+    }
+
+    if (amountCent <= 0) {
+        return { ok: false, status: 400, message: 'Refund amount must be greater than zero.' };
+    }
+    if (amountCent > refundableCent) {
+        return { ok: false, status: 400, message: `Refund exceeds the remaining refundable amount of $${(refundableCent / 100).toFixed(2)}.` };
+    }
+
+    // --- Refund in Stripe ---
+    let stripeRefund: Stripe.Refund;
+    try {
+        stripeRefund = await stripe.refunds.create({
+            payment_intent: order.stripePaymentIntentId,
+            amount: amountCent,
+            reason: input.reason,
+            metadata: { orderId: String(orderId), issuedBy: adminUserId ? String(adminUserId) : 'unknown' },
+        });
+    } catch (error: any) {
+        console.error(`[Refunds] Stripe refund failed for order ${orderId}:`, error);
+        return { ok: false, status: 502, message: error?.message || 'Stripe could not process the refund.' };
+    }
+
+    // --- Record it locally ---
+    // The charge.refunded webhook may already have created the row, so upsert on the Stripe ID
+    return prisma.$transaction(async (tx) => {
+        const refund = await tx.refund.upsert({
+            where: { stripeRefundId: stripeRefund.id },
+            create: {
+                orderId,
+                stripeRefundId: stripeRefund.id,
+                amount: new Prisma.Decimal(stripeRefund.amount).dividedBy(100),
+                status: stripeRefund.status || 'pending',
+                reason: input.reason || null,
+                note: input.note || null,
+                createdById: adminUserId,
+                items: { create: refundItems },
+            },
+            update: {
+                status: stripeRefund.status || 'pending',
+                note: input.note || null,
+                createdById: adminUserId,
+                items: { create: refundItems },
+            },
+            select: { id: true },
+        });
+        const status = await refreshOrderRefundState(tx, orderId);
+        console.log(`[Refunds] Refunded $${(amountCent / 100).toFixed(2)} on order ${orderId} (${stripeRefund.id}, ${stripeRefund.status}). Order is ${status}.`);
+        return { ok: true as const, value: { refundId: refund.id, amountCent, status } };
+    });
+};
+
+/**
+ * Cancels an order that hasn't shipped. Paid orders are refunded in full first, any
+ * gift card balance spent on the order is put back on the card, and no more gift subscription boxes go out.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param orderId The order to cancel.
+ * @param adminUserId The admin canceling it.
+ * @param note Optional internal note stored on the refund.
+ */
+export const cancelOrder = async (
+    stripe: Stripe,
+    orderId: number,
+    adminUserId: number | null,
+    note?: string | null
+): Promise<FulfillmentResult<{ status: OrderStatus; refundedCent: number; giftCardRestoredCent: number }>> => {
+    const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        select: { status: true, stripePaymentIntentId: true, totalAmount: true, giftCardAmount: true, refundedAmount: true, _count: { select: { shipments: true } } },
+    });
+    if (!order) {
+        return { ok: false, status: 404, message: `Order with ID ${orderId} not found.` };
+    }
+    if (!CANCELABLE_STATUSES.includes(order.status) || order._count.shipments > 0) {
+        return { ok: false, status: 409, message: `Order ${orderId} is ${order.status} and can no longer be canceled.` };
+    }
+
+    let refundedCent = 0;
+    const outstandingCent = chargedCents(order) - toCents(order.refundedAmount);
+    if (order.status !== OrderStatus.PENDING && order.stripePaymentIntentId && outstandingCent > 0) {
+        const refundResult = await createRefund(stripe, orderId, { reason: 'requested_by_customer', note: note || 'Order canceled' }, adminUserId);
+        if (!refundResult.ok) {
+            return refundResult;
+        }
+        refundedCent = refundResult.value.amountCent;
+    }
+
+    const giftCardRestoredCent = await prisma.$transaction(async (tx) => {
+        await tx.order.update({ where: { id: orderId }, data: { status: OrderStatus.CANCELED } });
+        await endGiftSubscriptionsForOrder(orderId, tx);
+        return restoreGiftCardRedemptions(orderId, tx);
+    });
+    console.log(`[Refunds] Order ${orderId} canceled${refundedCent > 0 ? ` and refunded $${(refundedCent / 100).toFixed(2)}` : ''}${giftCardRestoredCent > 0 ? `, $${(giftCardRestoredCent / 100).toFixed(2)} back on gift card` : ''}.`);
+    return { ok: true, value: { status: OrderStatus.CANCELED, refundedCent, giftCardRestoredCent } };
+};
+
+/**
+ * Brings the local Refund rows for a charge in line with Stripe. Picks up refunds made
+ * in the Stripe dashboard and status changes of refunds issued from the admin dashboard.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param charge The refunded charge (from the charge.refunded webhook).
+ * @returns The order ID that was updated, or null if the charge doesn't belong to an order.
+ */
+export const syncRefundsForCharge = async (stripe: Stripe, charge: Stripe.Charge): Promise<number | null> => {
+    const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+    if (!paymentIntentId) {
+        return null;
+    }
+    const order = await prisma.order.findUnique({ where: { stripePaymentIntentId: paymentIntentId }, select: { id: true } });
+    if (!order) {
+        return null;
+    }
+
+    // Charges no longer include their refunds by default, so list them
+    const stripeRefunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+
+    await prisma.$transaction(async (tx) => {
+        for (const stripeRefund of stripeRefunds.data) {
+            await tx.refund.upsert({
+                where: { stripeRefundId: stripeRefund.id },
+                create: {
+                    orderId: order.id,
+                    stripeRefundId: stripeRefund.id,
+                    amount: new Prisma.Decimal(stripeRefund.amount).dividedBy(100),
+                    status: stripeRefund.status || 'pending',
+                    reason: stripeRefund.reason || null,
+                },
+                update: {
+                    amount: new Prisma.Decimal(stripeRefund.amount).dividedBy(100),
+                    status: stripeRefund.status || 'pending',
+                },
+            });
+        }
+        await refreshOrderRefundState(tx, order.id);
+    });
+    return order.id;
+};
@@ -0,0 +1,14 @@
+import { ScheduledJob } from '../utils/scheduler';
+import { runCleanup } from './cleanup';
+import { sendAbandonedCheckoutReminders, sendCardExpiringEmails } from './notifications';
+import { createDueGiftDeliveries } from './giftSubscriptions';
+
+const MINUTE = 60 * 1000;
+
+// Background jobs run by the in-process scheduler (serverRender.tsx) and by `npm run jobs`
+export const SCHEDULED_JOBS: ScheduledJob[] = [
+    { name: 'cleanup', intervalMs: 60 * MINUTE, run: runCleanup },
+    { name: 'abandoned-checkout-reminders', intervalMs: 60 * MINUTE, run: () => sendAbandonedCheckoutReminders() },
+    { name: 'card-expiry-notices', intervalMs: 24 * 60 * MINUTE, run: () => sendCardExpiringEmails() },
+    { name: 'gift-subscription-deliveries', intervalMs: 60 * MINUTE, run: () => createDueGiftDeliveries() },
+];
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import { SessionData } from 'express-session';
+import prisma from '../db';
+import { SessionClientInfo } from '../types';
+
+// Active session management. Sessions are rows in the Session table (connect-pg-simple) with the session
+// data as JSON, so a user's sessions are found by sess.user.id. Deleting a row logs that browser out on
+// its next request. Session IDs are never sent to the client; sessions are referred to by a hash of it.
+
+// lastSeenAt is only refreshed this often, so most requests don't rewrite the session
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface ActiveSession {
+    id: string;
+    ip: string | null;
+    userAgent: string | null;
+    signedInAt: Date | null;
+    lastSeenAt: Date | null;
+    current: boolean;
+}
+
+const publicSessionId = (sid: string): string => crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+
+const findUserSessions = (userId: number, now: Date) =>
+    prisma.session.findMany({
+        where: { expire: { gt: now }, sess: { path: ['user', 'id'], equals: userId } },
+        select: { sid: true, sess: true },
+    });
+
+/**
+ * Notes the device and IP a logged-in session is used from. Call on each request; the session is only
+ * changed (and so saved) when something differs or lastSeenAt is stale.
+ */
+export const recordSessionActivity = (session: Partial<SessionData>, ip: string, userAgent: string | null, now: number = Date.now()): void => {
+    const client = session.client;
+    if (client && client.ip === ip && client.userAgent === userAgent && now - client.lastSeenAt < ACTIVITY_UPDATE_INTERVAL_MS) {
+        return;
+    }
+    session.client = { ip, userAgent, signedInAt: client?.signedInAt ?? now, lastSeenAt: now };
+};
+
+/**
+ * The user's sessions that haven't expired, most recently used first.
+ *
+ * @param userId The logged-in user.
+ * @param currentSid The session making the request, flagged as current.
+ */
+export const listUserSessions = async (userId: number, currentSid: string): Promise<ActiveSession[]> => {
+    const rows = await findUserSessions(userId, new Date());
+    return rows
+        .map(row => {
+            const client = (row.sess as { client?: SessionClientInfo } | null)?.client;
+            return {
+                id: publicSessionId(row.sid),
+                ip: client?.ip ?? null,
+                userAgent: client?.userAgent ?? null,
+                signedInAt: client ? new Date(client.signedInAt) : null,
+                lastSeenAt: client ? new Date(client.lastSeenAt) : null,
+                current: row.sid === currentSid,
+            };
+        })
+        .sort((a, b) => (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0));
+};
+
+/**
+ * Logs out one of the user's sessions.
+ *
+ * @param sessionId The id from listUserSessions.
+ * @returns Whether a session was found and removed.
+ */
+export const revokeUserSession = async (userId: number, sessionId: string): Promise<boolean> => {
+    const rows = await findUserSessions(userId, new Date());
+    const row = rows.find(r => publicSessionId(r.sid) === sessionId);
+    if (!row) {
+        return false;
+    }
+    await prisma.session.delete({ where: { sid: row.sid } });
+    console.log(`[Sessions] Revoked a session for user ${userId}.`);
+    return true;
+};
+
+/**
+ * Logs out all of the user's sessions, optionally keeping one (the one making the request).
+ *
+ * @returns The number of sessions removed.
+ */
+export const revokeUserSessions = async (userId: number, exceptSid?: string): Promise<number> => {
+    const result = await prisma.session.deleteMany({
+        where: {
+            sess: { path: ['user', 'id'], equals: userId },
+            ...(exceptSid ? { NOT: { sid: exceptSid } } : {}),
+        },
+    });
+    if (result.count > 0) {
+        console.log(`[Sessions] Revoked ${result.count} session(s) for user ${userId}.`);
+    }
+    return result.count;
+};
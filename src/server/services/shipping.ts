@@ -0,0 +1,340 @@
+import fs from 'fs';
+import path from 'path';
+
+// --- Types ---
+
+// A shipping zone is matched by postal prefix first, then by state
+export interface ShippingZone {
+    id: string;
+    name: string;
+    states?: string[];         // Two-letter state codes
+    postalPrefixes?: string[]; // ZIP prefixes, e.g. "995" for Anchorage
+}
+
+// Price for carts up to maxItems pints (null = no upper limit). Tiers are checked in order.
+export interface ShippingRateTier {
+    maxItems: number | null;
+    amountCent: number;
+}
+
+export interface ShippingMethodRule {
+    id: string;           // Stored on the Order, e.g. "standard"
+    name: string;
+    description?: string;
+    minDays: number;      // Transit time in business days
+    maxDays: number;
+    freeOverCent?: number | null; // Item subtotal at or above which this method is free
+    shipDays?: number[];  // Weekdays this method ships out (0 = Sunday). Defaults to schedule.shipDays.
+    rates: { [zoneId: string]: ShippingRateTier[] }; // Method is unavailable in zones not listed
+}
+
+// Addresses we never ship frozen goods to, even if a zone matches
+export interface ServiceabilityRules {
+    excludedStates: string[];
+    excludedPostalPrefixes: string[];
+}
+
+// When orders can leave the warehouse. Dates are in the server's local time.
+export interface ShippingSchedule {
+    shipDays: number[];      // Weekdays orders ship out (0 = Sunday ... 6 = Saturday)
+    cutoffHour: number;      // Orders placed at or after this hour ship on the next ship day at the earliest
+    blackoutDates: string[]; // "YYYY-MM-DD" for one-off dates or "MM-DD" for every year (no ship-outs or deliveries)
+}
+
+export interface ShippingRules {
+    zones: ShippingZone[];
+    defaultZoneId: string | null; // Zone for US addresses that match no other zone (null = not shippable)
+    methods: ShippingMethodRule[];
+    serviceability: ServiceabilityRules;
+    schedule: ShippingSchedule;
+}
+
+export interface ShippingQuoteInput {
+    address: {
+        state: string;
+        postalCode: string;
+        country: string;
+    };
+    itemCount: number;          // Total pints in the cart
+    itemsSubtotalCent: number;
+    orderDate?: Date;           // Defaults to now; used for ship and delivery date estimates
+}
+
+export interface ShippingOption {
+    id: string;
+    name: string;
+    description: string | null;
+    amountCent: number;
+    minDays: number;
+    maxDays: number;
+    zoneId: string;
+    isFree: boolean; // True when the free-over threshold applied
+    estimatedShipDate: string;     // "YYYY-MM-DD"
+    estimatedDeliveryDate: string; // "YYYY-MM-DD", latest expected arrival
+}
+
+export type ServiceabilityResult =
+    | { ok: true; zone: ShippingZone }
+    | { ok: false; message: string };
+
+// --- Default rules ---
+
+// Example rules only. Replace with your own by pointing SHIPPING_RULES_FILE at a
+// JSON file with the same shape as ShippingRules.
+const DEFAULT_SHIPPING_RULES: ShippingRules = {
+    zones: [
+        { id: 'regional', name: 'Regional', states: ['CT', 'DC', 'DE', 'MA', 'MD', 'ME', 'NH', 'NJ', 'NY', 'PA', 'RI', 'VT'] },
+        { id: 'remote', name: 'Alaska & Hawaii', states: ['AK', 'HI'] },
+        { id: 'national', name: 'National' },
+    ],
+    defaultZoneId: 'national',
+    serviceability: {
+        // Territories and military addresses: transit is too long for dry ice
+        excludedStates: ['AA', 'AE', 'AP', 'AS', 'GU', 'MP', 'PR', 'VI'],
+        excludedPostalPrefixes: [],
+    },
+    schedule: {
+        shipDays: [1, 2, 3, 4], // Monday to Thursday; nothing ships on Friday so it never sits in a depot over the weekend
+        cutoffHour: 12,
+        blackoutDates: ['01-01', '07-04', '12-24', '12-25', '12-31'],
+    },
+    methods: [
+        {
+            id: 'standard',
+            name: 'Standard (insulated, dry ice)',
+            description: 'Ships Monday to Wednesday so it never sits in a warehouse over the weekend.',
+            minDays: 2,
+            maxDays: 3,
+            freeOverCent: 7500,
+            shipDays: [1, 2, 3],
+            rates: {
+                regional: [
+                    { maxItems: 4, amountCent: 999 },
+                    { maxItems: 8, amountCent: 1499 },
+                    { maxItems: null, amountCent: 1999 },
+                ],
+                national: [
+                    { maxItems: 4, amountCent: 1499 },
+                    { maxItems: 8, amountCent: 1999 },
+                    { maxItems: null, amountCent: 2699 },
+                ],
+                // No standard shipping to remote zones; it would not arrive frozen
+            },
+        },
+        {
+            id: 'express',
+            name: 'Express (overnight)',
+            description: 'Arrives the next business day.',
+            minDays: 1,
+            maxDays: 1,
+            freeOverCent: null,
+            rates: {
+                regional: [
+                    { maxItems: 4, amountCent: 2499 },
+                    { maxItems: 8, amountCent: 2999 },
+                    { maxItems: null, amountCent: 3999 },
+                ],
+                national: [
+                    { maxItems: 4, amountCent: 3499 },
+                    { maxItems: 8, amountCent: 4499 },
+                    { maxItems: null, amountCent: 5499 },
+                ],
+                remote: [
+                    { maxItems: 4, amountCent: 5999 },
+                    { maxItems: 8, amountCent: 7499 },
+                    { maxItems: null, amountCent: 8999 },
+                ],
+            },
+        },
+    ],
+};
+
+const US_COUNTRY_NAMES = ['US', 'USA', 'UNITED STATES', 'UNITED STATES OF AMERICA'];
+
+const loadShippingRules = (): ShippingRules => {
+    const rulesFile = process.env.SHIPPING_RULES_FILE;
+    if (!rulesFile) {
+        return DEFAULT_SHIPPING_RULES;
+    }
+    try {
+        const parsed = JSON.parse(fs.readFileSync(path.resolve(rulesFile), 'utf8'));
+        if (!parsed || !Array.isArray(parsed.zones) || !Array.isArray(parsed.methods)) {
+            throw new Error('Expected an object with "zones" and "methods" arrays.');
+        }
+        console.log(`[Shipping] Loaded ${parsed.zones.length} zones and ${parsed.methods.length} methods from ${rulesFile}.`);
+        return {
+            ...parsed,
+            defaultZoneId: parsed.defaultZoneId ?? null,
+            serviceability: { ...DEFAULT_SHIPPING_RULES.serviceability, ...parsed.serviceability },
+            schedule: { ...DEFAULT_SHIPPING_RULES.schedule, ...parsed.schedule },
+        } as ShippingRules;
+    } catch (error: any) {
+        console.error(`[Shipping] Failed to load SHIPPING_RULES_FILE ${rulesFile}: ${error.message}. Using default rules.`);
+        return DEFAULT_SHIPPING_RULES;
+    }
+};
+
+let cachedRules: ShippingRules | null = null;
+
+const getShippingRules = (): ShippingRules => {
+    if (!cachedRules) {
+        cachedRules = loadShippingRules();
+    }
+    return cachedRules;
+};
+
+/**
+ * Finds the zone for an address: the longest matching postal prefix, then a
+ * zone listing the state, then the default zone. Only US addresses are shippable.
+ */
+export const findShippingZone = (
+    address: ShippingQuoteInput['address'],
+    rules: ShippingRules = getShippingRules()
+): ShippingZone | null => {
+    if (!US_COUNTRY_NAMES.includes(address.country.trim().toUpperCase())) {
+        return null;
+    }
+    const stateCode = address.state.trim().toUpperCase();
+    const zip = address.postalCode.trim();
+
+    let prefixMatch: { zone: ShippingZone; length: number } | null = null;
+    for (const zone of rules.zones) {
+        for (const prefix of zone.postalPrefixes || []) {
+            if (zip.startsWith(prefix) && (!prefixMatch || prefix.length > prefixMatch.length)) {
+                prefixMatch = { zone, length: prefix.length };
+            }
+        }
+    }
+    if (prefixMatch) {
+        return prefixMatch.zone;
+    }
+
+    const stateZone = rules.zones.find(zone => (zone.states || []).some(s => s.toUpperCase() === stateCode));
+    if (stateZone) {
+        return stateZone;
+    }
+    return rules.zones.find(zone => zone.id === rules.defaultZoneId) || null;
+};
+
+/**
+ * Checks whether frozen goods can be shipped to an address at all.
+ * @returns The matched zone, or a customer-facing message explaining why the address is not serviceable.
+ */
+export const checkServiceability = (address: ShippingQuoteInput['address']): ServiceabilityResult => {
+    const rules = getShippingRules();
+    if (!US_COUNTRY_NAMES.includes(address.country.trim().toUpperCase())) {
+        return { ok: false, message: 'Sorry, we only ship within the United States.' };
+    }
+    const stateCode = address.state.trim().toUpperCase();
+    const zip = address.postalCode.trim();
+    if (rules.serviceability.excludedStates.some(s => s.toUpperCase() === stateCode) ||
+        rules.serviceability.excludedPostalPrefixes.some(prefix => zip.startsWith(prefix))) {
+        return { ok: false, message: `Sorry, we can't ship frozen goods to ${stateCode} ${zip}.` };
+    }
+    const zone = findShippingZone(address, rules);
+    if (!zone) {
+        return { ok: false, message: `Sorry, we don't ship to ${stateCode} ${zip} yet.` };
+    }
+    return { ok: true, zone };
+};
+
+// --- Ship and delivery dates ---
+
+const MAX_SCHEDULE_LOOKAHEAD_DAYS = 60;
+
+const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+// Local "YYYY-MM-DD" (toISOString would shift the date to UTC)
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const isBlackoutDate = (date: Date, schedule: ShippingSchedule): boolean => {
+    const fullKey = toDateKey(date);
+    const yearlyKey = fullKey.substring(5);
+    return schedule.blackoutDates.includes(fullKey) || schedule.blackoutDates.includes(yearlyKey);
+};
+
+/**
+ * Finds the first day an order placed at orderDate can ship with a method,
+ * skipping non-ship days, blackout dates and the same day after the cutoff.
+ */
+const findShipDate = (method: ShippingMethodRule, orderDate: Date, schedule: ShippingSchedule): Date | null => {
+    const shipDays = method.shipDays || schedule.shipDays;
+    let candidate = addDays(orderDate, orderDate.getHours() >= schedule.cutoffHour ? 1 : 0);
+    for (let i = 0; i < MAX_SCHEDULE_LOOKAHEAD_DAYS; i++) {
+        if (shipDays.includes(candidate.getDay()) && !isBlackoutDate(candidate, schedule)) {
+            return candidate;
+        }
+        candidate = addDays(candidate, 1);
+    }
+    return null; // Misconfigured schedule (no ship days)
+};
+
+// Carriers deliver Monday to Friday, and not on blackout dates
+const addTransitDays = (shipDate: Date, transitDays: number, schedule: ShippingSchedule): Date => {
+    let date = shipDate;
+    let counted = 0;
+    while (counted < transitDays) {
+        date = addDays(date, 1);
+        const day = date.getDay();
+        if (day !== 0 && day !== 6 && !isBlackoutDate(date, schedule)) {
+            counted++;
+        }
+    }
+    return date;
+};
+
+/**
+ * Quotes every shipping method available for an address and cart, cheapest first.
+ *
+ * @param input Destination address, pint count, item subtotal (cents) and optional order date.
+ * @returns The available options with ship/delivery estimates. Empty if the address is not serviceable.
+ */
+export const quoteShippingOptions = (input: ShippingQuoteInput): ShippingOption[] => {
+    const rules = getShippingRules();
+    const serviceability = checkServiceability(input.address);
+    if (!serviceability.ok || input.itemCount <= 0) {
+        return [];
+    }
+    const zone = serviceability.zone;
+    const orderDate = input.orderDate || new Date();
+
+    const options: ShippingOption[] = [];
+    for (const method of rules.methods) {
+        const tiers = method.rates[zone.id];
+        const tier = tiers?.find(t => t.maxItems === null || input.itemCount <= t.maxItems);
+        if (!tier) {
+            continue; // Method not offered in this zone or for this many items
+        }
+        const shipDate = findShipDate(method, orderDate, rules.schedule);
+        if (!shipDate) {
+            console.warn(`[Shipping] Method ${method.id} has no ship days in the next ${MAX_SCHEDULE_LOOKAHEAD_DAYS} days. Skipping.`);
+            continue;
+        }
+        const isFree = !!method.freeOverCent && input.itemsSubtotalCent >= method.freeOverCent;
+        options.push({
+            id: method.id,
+            name: method.name,
+            description: method.description || null,
+            amountCent: isFree ? 0 : tier.amountCent,
+            minDays: method.minDays,
+            maxDays: method.maxDays,
+            zoneId: zone.id,
+            isFree,
+            estimatedShipDate: toDateKey(shipDate),
+            estimatedDeliveryDate: toDateKey(addTransitDays(shipDate, method.maxDays, rules.schedule)),
+        });
+    }
+    return options.sort((a, b) => a.amountCent - b.amountCent);
+};
+
+/**
+ * Quotes a single shipping method. Used by initiate-checkout to price the method the customer picked.
+ * @returns The option, or null if the method is not available for this address and cart.
+ */
+export const getShippingQuote = (methodId: string, input: ShippingQuoteInput): ShippingOption | null => {
+    return quoteShippingOptions(input).find(option => option.id === methodId) || null;
+};
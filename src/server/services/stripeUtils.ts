@@ -38,5 +38,24 @@ export async function getImageUrls(
     return imageUrlMap;
 }
 
-// Potential place to move Stripe client initialization later
-// export const stripeClient = ...; 
\ No newline at end of file
+/**
+ * Creates a Stripe client from environment variables.
+ * Set STRIPE_API_HOST (and optionally STRIPE_API_PORT / STRIPE_API_PROTOCOL) to point
+ * the client at a local Stripe stand-in such as stripe-mock for offline runs,
+ * e.g. STRIPE_API_HOST=localhost STRIPE_API_PORT=12111 STRIPE_API_PROTOCOL=http.
+ * @returns The Stripe client, or null if STRIPE_SECRET_KEY is not set.
+ */
+export function createStripeClient(): Stripe | null {
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    if (!stripeSecretKey) {
+        return null;
+    }
+
+    const config: Stripe.StripeConfig = { apiVersion: '2025-03-31.basil' };
+    if (process.env.STRIPE_API_HOST) {
+        config.host = process.env.STRIPE_API_HOST;
+        config.port = process.env.STRIPE_API_PORT ? parseInt(process.env.STRIPE_API_PORT, 10) : undefined;
+        config.protocol = process.env.STRIPE_API_PROTOCOL === 'http' ? 'http' : 'https';
+    }
+    return new Stripe(stripeSecretKey, config);
+}
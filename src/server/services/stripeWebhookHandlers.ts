@@ -3,6 +3,32 @@ import prisma from '../db';
 import { Decimal } from '@prisma/client/runtime/library';
 import { getCheckoutAttempt, deleteCheckoutAttempt } from '../utils/checkoutTmpStore';
 import { OrderStatus } from '@prisma/client'; // Import OrderStatus enum
+import { commitStockForOrder } from './inventory';
+import { upsertProductFromStripe, upsertPriceFromStripe, archiveProduct, archivePrice } from './catalogSync';
+import { syncRefundsForCharge } from './refunds';
+import { removePurchasedItems } from './cart';
+import { markReminderRecovered } from './cartRecovery';
+import { endOpenPauses, isRenewalSkipped } from './subscriptionPauses';
+import { buildBoxOrderItems } from './subscriptionBoxes';
+import { getRenewalShipping, RENEWAL_NEEDS_ADDRESS_REASON } from './subscriptionShipping';
+import { createGiftSubscriptions } from './giftSubscriptions';
+import { activatePurchasedGiftCard, redeemGiftCard, releaseGiftCardHold } from './giftCards';
+import { giftSubscriptionLineName } from '../../utils/gifts';
+import {
+    recordFailedPayment,
+    recordPaymentActionRequired,
+    claimDunningNotice,
+    resolveDunning,
+    cancelForNonPayment,
+} from './subscriptionDunning';
+import {
+    sendOrderPaidEmail,
+    sendRefundEmails,
+    sendSubscriptionRenewedEmail,
+    sendOrderOnHoldAdminEmail,
+    sendRenewalPaymentFailedEmail,
+    sendSubscriptionCanceledEmail,
+} from './notifications';
 
 // Ensure stripe is initialized and passed or imported
 // For now, assuming stripe is passed as an argument
@@ -15,111 +41,97 @@ export async function handleSetupIntentSucceeded(
     // ... existing handleSetupIntentSucceeded code ...
 }
 
-// Add other handlers here...
-export async function handlePaymentIntentSucceeded(
-    event: Stripe.Event,
-    stripe: Stripe
-) {
-    const paymentIntent = event.data.object as Stripe.PaymentIntent;
-    console.log(`---> Handling ${event.type} for PaymentIntent ID: ${paymentIntent.id}`);
+/**
+ * Creates the order for a completed checkout from its saved context (see initiate-checkout), then commits
+ * stock, clears the saved cart and sends the confirmation email. Safe to call again for the same attempt.
+ *
+ * @param checkoutAttemptId The checkout attempt whose context holds the cart, contact and shipping details.
+ * @param paymentIntentId The PaymentIntent that paid the order, or null when a gift card covered all of it.
+ * @returns The order ID, or null if no order was created from this context.
+ * @throws Error('GiftCardBalanceChanged') if no PaymentIntent was charged and the gift card no longer covers the order.
+ */
+export async function createOrderFromCheckout(checkoutAttemptId: string, paymentIntentId: string | null): Promise<number | null> {
+    const logPrefix = paymentIntentId ? `Webhook (PI Succeeded ${paymentIntentId})` : `Gift card checkout (${checkoutAttemptId})`;
+
+    // --- 2. Retrieve Context ---
+    console.log(`${logPrefix}: Retrieving context using ID: ${checkoutAttemptId}`);
+    const context = await getCheckoutAttempt(checkoutAttemptId);
+    if (!context) {
+        console.error(`${logPrefix}: Failed to retrieve checkout context for ID: ${checkoutAttemptId}.`);
+        return null;
+    }
+    console.log(`${logPrefix}: Successfully retrieved context.`);
 
-    // --- Logic Using Temporary Store ---
-    try {
-        // --- 1. Extract checkoutAttemptId ---
-        const checkoutAttemptId = paymentIntent.metadata?.checkoutAttemptId;
-        if (!checkoutAttemptId) {
-            console.warn(`Webhook (PI Succeeded ${paymentIntent.id}): Missing checkoutAttemptId metadata. Cannot create order.`);
-            // If this PI wasn't created through our checkout flow, we can't link it easily.
-            return;
-        }
+    // Type context properly if possible, using any for now
+    const { userId, cartItems, contactInfo, shippingAddress, shipping, promo, taxCent, taxRate, recoveryReminderId, gift, giftCard } = context as any;
 
-        // --- 2. Retrieve Context ---
-        console.log(`Webhook (PI Succeeded ${paymentIntent.id}): Retrieving context using ID: ${checkoutAttemptId}`);
-        const context = await getCheckoutAttempt(checkoutAttemptId);
-        if (!context) {
-            console.error(`Webhook (PI Succeeded ${paymentIntent.id}): Failed to retrieve checkout context for ID: ${checkoutAttemptId}.`);
-            return;
-        }
-        console.log(`Webhook (PI Succeeded ${paymentIntent.id}): Successfully retrieved context.`);
+    if (!cartItems || !Array.isArray(cartItems) || cartItems.length === 0 || !contactInfo || !shippingAddress) {
+        console.error(`${logPrefix}: Invalid context structure retrieved for ID: ${checkoutAttemptId}.`);
+        return null;
+    }
 
-        // Type context properly if possible, using any for now
-        const { userId, cartItems, contactInfo, shippingAddress } = context as any;
+    // --- 3. Check if One-Time Purchase (Crucial) ---
+    const containsSubscription = cartItems.some((item: any) => item.isSubscription);
+    if (containsSubscription) {
+        console.log(`${logPrefix}: Context ID ${checkoutAttemptId} indicates subscription involved. Order creation handled by setup_intent.succeeded. Skipping PI handler.`);
+        // IMPORTANT: If subscription items were present, the SI handler should have created the order.
+        // We should delete the temp context here ONLY if we are sure the SI handler succeeded.
+        // For simplicity now, let the SI handler manage deletion.
+        return null;
+    }
 
-        if (!cartItems || !Array.isArray(cartItems) || cartItems.length === 0 || !contactInfo || !shippingAddress) {
-            console.error(`Webhook (PI Succeeded ${paymentIntent.id}): Invalid context structure retrieved for ID: ${checkoutAttemptId}.`);
-            return;
-        }
+    // --- 4. Create Order for One-Time Purchase ---
+    console.log(`${logPrefix}: Processing as one-time purchase order using context ID ${checkoutAttemptId}.`);
 
-        // --- 3. Check if One-Time Purchase (Crucial) ---
-        const containsSubscription = cartItems.some((item: any) => item.isSubscription);
-        if (containsSubscription) {
-            console.log(`Webhook (PI Succeeded ${paymentIntent.id}): Context ID ${checkoutAttemptId} indicates subscription involved. Order creation handled by setup_intent.succeeded. Skipping PI handler.`);
-            // IMPORTANT: If subscription items were present, the SI handler should have created the order.
-            // We should delete the temp context here ONLY if we are sure the SI handler succeeded.
-            // For simplicity now, let the SI handler manage deletion.
-            return;
+    // Calculate subtotal and shipping cost first
+    let orderSubtotal = 0;
+    cartItems.forEach((item: any) => {
+        const price = parseFloat(item.price);
+        if (!isNaN(price)) {
+            orderSubtotal += price * item.quantity;
         }
+    });
+
+    // Shipping was priced by the shipping rules engine when the PaymentIntent amount was built
+    const shippingCost = shipping?.amountCent ? shipping.amountCent / 100 : 0;
+    const shippingPriceDecimal = new Decimal(shippingCost.toFixed(2));
+
+    // Promo discount was fixed when the PaymentIntent amount was built (see initiate-checkout)
+    const discountAmount = promo?.discountCent ? promo.discountCent / 100 : 0;
+    // Tax was likewise calculated for the shipping address at that point
+    const taxAmount = taxCent ? taxCent / 100 : 0;
+    const giftCardAmount = giftCard?.amountCent ? giftCard.amountCent / 100 : 0;
+    const finalTotalAmount = Math.max(0, orderSubtotal + shippingCost - discountAmount) + taxAmount;
+    const totalAmountDecimal = new Decimal(finalTotalAmount.toFixed(2));
+
+    // Optional: Check if order already exists with this checkoutAttemptId to prevent duplicates
+    const existingOrder = await prisma.order.findUnique({ where: { checkoutAttemptId } });
+    if (existingOrder) {
+        console.warn(`${logPrefix}: Order with checkoutAttemptId ${checkoutAttemptId} already exists (ID: ${existingOrder.id}). Skipping creation.`);
+        // Delete the temporary context data even if duplicate order found
+        await deleteCheckoutAttempt(checkoutAttemptId);
+        return existingOrder.id;
+    }
 
-        // --- 4. Create Order for One-Time Purchase ---
-        console.log(`Webhook (PI Succeeded ${paymentIntent.id}): Processing as one-time purchase order using context ID ${checkoutAttemptId}.`);
-
-        // Calculate subtotal and shipping cost first
-        let orderSubtotal = 0;
-        cartItems.forEach((item: any) => {
-            const price = parseFloat(item.price);
-            if (!isNaN(price)) {
-                orderSubtotal += price * item.quantity;
-            }
+    // Map cart items and add shipping item conditionally
+    const orderItemsInput = cartItems.map((item: any) => ({
+        productId: item.productId,
+        // Gift subscription lines are priced for the whole term
+        productName: item.giftMonths ? giftSubscriptionLineName(item.productName, item.giftMonths) : (item.productName || 'Unknown'),
+        quantity: item.quantity,
+        price: new Decimal(item.price || 0),
+    }));
+    if (shippingCost > 0 && shipping?.methodId) {
+        orderItemsInput.push({
+            productId: `shipping_${shipping.methodId}`, // Shipping method ID (no Stripe price anymore)
+            productName: `Shipping (${shipping.name})`,
+            quantity: 1,
+            price: shippingPriceDecimal // Quoted shipping amount
         });
+    }
 
-        let shippingCost = 0;
-        let shippingPriceDecimal = new Decimal(0);
-        const shippingPriceIdEnv = process.env.STRIPE_SHIPPING_RATE_PRICE_ID;
-        if (orderSubtotal > 0 && shippingPriceIdEnv) {
-            try {
-                const shippingStripePrice = await stripe.prices.retrieve(shippingPriceIdEnv);
-                if (shippingStripePrice && shippingStripePrice.active && shippingStripePrice.unit_amount) {
-                    shippingCost = (shippingStripePrice.unit_amount / 100); // Cost in dollars
-                    shippingPriceDecimal = new Decimal(shippingCost.toFixed(2));
-                } else {
-                    console.warn(`Webhook Warning: Shipping Price ID ${shippingPriceIdEnv} invalid/inactive. Shipping cost not added to order total/items.`);
-                }
-            } catch (priceError: any) {
-                console.error(`Webhook Error fetching shipping price ${shippingPriceIdEnv}: ${priceError.message}. Shipping cost not added.`);
-            }
-        } else if (orderSubtotal > 0) {
-            console.warn("Webhook Warning: STRIPE_SHIPPING_RATE_PRICE_ID not set. Shipping cost not added to order total/items.");
-        }
-
-        const finalTotalAmount = orderSubtotal + shippingCost;
-        const totalAmountDecimal = new Decimal(finalTotalAmount.toFixed(2));
-
-        // Optional: Check if order already exists with this checkoutAttemptId to prevent duplicates
-        const existingOrder = await prisma.order.findUnique({ where: { checkoutAttemptId } });
-        if (existingOrder) {
-            console.warn(`Webhook (PI Succeeded ${paymentIntent.id}): Order with checkoutAttemptId ${checkoutAttemptId} already exists (ID: ${existingOrder.id}). Skipping creation.`);
-            // Delete the temporary context data even if duplicate order found
-            await deleteCheckoutAttempt(checkoutAttemptId);
-            return;
-        }
-
-        // Map cart items and add shipping item conditionally
-        const orderItemsInput = cartItems.map((item: any) => ({
-            productId: item.productId,
-            productName: item.productName || 'Unknown',
-            quantity: item.quantity,
-            price: new Decimal(item.price || 0),
-        }));
-        if (shippingCost > 0 && shippingPriceIdEnv) {
-            orderItemsInput.push({
-                productId: shippingPriceIdEnv, // Use the actual Price ID
-                productName: 'Shipping', // Keep generic name
-                quantity: 1,
-                price: shippingPriceDecimal // Use fetched price
-            });
-        }
-
-        const newOrder = await prisma.order.create({ // Use transaction later if needed
+    const newOrder = await prisma.$transaction(async (tx) => {
+        const order = await tx.order.create({
             data: {
                 userId: userId, // Use userId from context
                 totalAmount: totalAmountDecimal,
@@ -135,19 +147,124 @@ export async function handlePaymentIntentSucceeded(
                 shippingPostalCode: shippingAddress.postalCode,
                 shippingCountry: shippingAddress.country,
                 checkoutAttemptId: checkoutAttemptId, // <-- Save the ID
+                stripePaymentIntentId: paymentIntentId, // Needed to issue refunds later (null when a gift card paid it all)
+                promoCodeId: promo?.promoCodeId ?? null,
+                promoCodeText: promo?.code ?? null,
+                discountAmount: new Decimal(discountAmount.toFixed(2)),
+                taxAmount: new Decimal(taxAmount.toFixed(2)),
+                shippingMethod: shipping?.methodId ?? null,
+                shippingMethodName: shipping?.name ?? null,
+                shippingCost: shippingPriceDecimal,
+                estimatedShipDate: shipping?.estimatedShipDate ? new Date(shipping.estimatedShipDate) : null,
+                estimatedDeliveryDate: shipping?.estimatedDeliveryDate ? new Date(shipping.estimatedDeliveryDate) : null,
+                taxRate: taxRate != null ? new Decimal(taxRate) : null,
+                giftCardAmount: new Decimal(giftCardAmount.toFixed(2)),
+                // Gift orders ship to the recipient in shippingAddress; contact info stays the buyer's
+                isGift: !!gift,
+                giftMessage: gift?.message ?? null,
+                giftHidePrices: !!gift?.hidePrices,
                 items: {
                     create: orderItemsInput, // Use the combined array
                 },
             },
             select: { id: true }
         });
-        console.log(`Webhook (PI Succeeded ${paymentIntent.id}): Created one-time Order: ${newOrder.id} with checkoutAttemptId ${checkoutAttemptId}.`);
+        // Gift card share of the total (held in initiate-checkout); the rest was charged to the PaymentIntent
+        if (giftCard?.amountCent > 0) {
+            await releaseGiftCardHold(checkoutAttemptId, tx);
+            const redeemedCent = await redeemGiftCard(giftCard.code, giftCard.amountCent, order.id, tx);
+            if (redeemedCent < giftCard.amountCent) {
+                if (!paymentIntentId) {
+                    // Nothing was charged, so don't create an order the card can't cover
+                    throw new Error('GiftCardBalanceChanged');
+                }
+                // The hold ran out or was released and the card was spent elsewhere. The card payment went through
+                // but the order isn't fully paid, so hold it back from fulfillment until an admin collects the rest
+                // or cancels it (which refunds the card payment). giftCardAmount stays the planned share, so
+                // totalAmount - giftCardAmount is still what was charged to the card and can be refunded
+                const shortBy = `$${((giftCard.amountCent - redeemedCent) / 100).toFixed(2)}`;
+                console.error(`${logPrefix}: Gift card ${giftCard.code} only covered $${(redeemedCent / 100).toFixed(2)} of $${(giftCard.amountCent / 100).toFixed(2)} for Order ${order.id}. Order put ON_HOLD.`);
+                await tx.order.update({
+                    where: { id: order.id },
+                    data: {
+                        status: 'ON_HOLD',
+                        holdReason: `Gift card ${giftCard.code} only covered $${(redeemedCent / 100).toFixed(2)} of its $${(giftCard.amountCent / 100).toFixed(2)} share; ${shortBy} is still owed.`,
+                    },
+                });
+            }
+        }
+        // The order now counts as the promo code's use, so drop the checkout's hold on it
+        if (promo) {
+            await tx.promoReservation.deleteMany({ where: { checkoutAttemptId } });
+        }
+        // Prepaid gift subscriptions: this order is the first delivery, the scheduler creates the rest
+        // (not until the hold is released, if the order was just put ON_HOLD)
+        await createGiftSubscriptions(order.id, cartItems, tx);
+        return order;
+    });
+    console.log(`${logPrefix}: Created one-time Order: ${newOrder.id} with checkoutAttemptId ${checkoutAttemptId}.`);
+
+    // --- 4.5. Decrement stock (also clears this attempt's reservations) ---
+    try {
+        await commitStockForOrder(checkoutAttemptId, cartItems);
+    } catch (stockError) {
+        // The order is already paid and saved; log and let an admin correct stock manually
+        console.error(`${logPrefix}: Failed to decrement stock for Order ${newOrder.id}:`, stockError);
+    }
 
-        // --- 5. Delete Temporary Context Data ---
-        console.log(`Webhook (PI Succeeded ${paymentIntent.id}): Deleting temporary context ID: ${checkoutAttemptId}`);
-        await deleteCheckoutAttempt(checkoutAttemptId);
-        console.log(`Webhook (PI Succeeded ${paymentIntent.id}): Temporary context deleted.`);
+    // --- 4.6. Drop the purchased items from the user's saved cart ---
+    if (userId) {
+        try {
+            await removePurchasedItems(userId, cartItems.map((item: any) => item.priceId).filter(Boolean));
+        } catch (cartError) {
+            console.error(`${logPrefix}: Failed to clear saved cart for user ${userId}:`, cartError);
+        }
+    }
+
+    // --- 4.7. Credit the abandoned checkout reminder that led to this order ---
+    if (recoveryReminderId) {
+        try {
+            await markReminderRecovered(recoveryReminderId, newOrder.id);
+        } catch (recoveryError) {
+            console.error(`${logPrefix}: Failed to record recovery for reminder ${recoveryReminderId}:`, recoveryError);
+        }
+    }
+
+    // --- 4.8. Email the order confirmation (failures are logged, not thrown) ---
+    await sendOrderPaidEmail(newOrder.id);
+
+    // --- 5. Delete Temporary Context Data ---
+    console.log(`${logPrefix}: Deleting temporary context ID: ${checkoutAttemptId}`);
+    await deleteCheckoutAttempt(checkoutAttemptId);
+    console.log(`${logPrefix}: Temporary context deleted.`);
+    return newOrder.id;
+}
+
+// Add other handlers here...
+export async function handlePaymentIntentSucceeded(
+    event: Stripe.Event,
+    _stripe: Stripe
+) {
+    const paymentIntent = event.data.object as Stripe.PaymentIntent;
+    console.log(`---> Handling ${event.type} for PaymentIntent ID: ${paymentIntent.id}`);
+
+    // --- Logic Using Temporary Store ---
+    try {
+        // --- 0. Gift card purchases aren't checkouts: activate the card instead ---
+        if (paymentIntent.metadata?.giftCardId) {
+            await activatePurchasedGiftCard(paymentIntent);
+            return;
+        }
+
+        // --- 1. Extract checkoutAttemptId ---
+        const checkoutAttemptId = paymentIntent.metadata?.checkoutAttemptId;
+        if (!checkoutAttemptId) {
+            console.warn(`Webhook (PI Succeeded ${paymentIntent.id}): Missing checkoutAttemptId metadata. Cannot create order.`);
+            // If this PI wasn't created through our checkout flow, we can't link it easily.
+            return;
+        }
 
+        await createOrderFromCheckout(checkoutAttemptId, paymentIntent.id);
     } catch (error) {
         console.error(`Webhook Error (PI Succeeded ${paymentIntent.id}): Error creating order:`, error);
         // If order creation fails, the temporary context is NOT deleted.
@@ -166,6 +283,14 @@ export async function handlePaymentIntentPaymentFailed(
     const checkoutAttemptId = failedPaymentIntent.metadata?.checkoutAttemptId;
     if (checkoutAttemptId) {
         console.log(`    Failed PI was associated with checkoutAttemptId: ${checkoutAttemptId}`);
+        // Give back the gift card balance this checkout was holding
+        try {
+            if (await releaseGiftCardHold(checkoutAttemptId)) {
+                console.log(`    Released gift card hold for checkoutAttemptId: ${checkoutAttemptId}`);
+            }
+        } catch (error) {
+            console.error(`    Failed to release gift card hold for checkoutAttemptId ${checkoutAttemptId}:`, error);
+        }
         // Optionally try to find an order with this ID and mark it as failed,
         // but usually, the order isn't created until success.
     }
@@ -189,12 +314,24 @@ export async function handleCustomerSubscriptionDeleted(
     console.log(`---> Handling ${event.type} for Sub ID: ${deletedSub.id}`);
     // Find local sub by stripeSubscriptionId and update status to 'canceled'
     try {
+        const localSubscription = await prisma.subscription.findUnique({
+            where: { stripeSubscriptionId: deletedSub.id },
+            select: { id: true, status: true },
+        });
         const updateResult = await prisma.subscription.updateMany({
             where: { stripeSubscriptionId: deletedSub.id },
             data: { status: 'canceled', cancelAtPeriodEnd: true } // Mark as canceled immediately
         });
         if (updateResult.count > 0) {
             console.log(`    Marked local subscription(s) as canceled: ${deletedSub.id}`);
+            if (localSubscription) {
+                // Stripe may cancel on its own after the last retry, depending on the account's settings
+                await resolveDunning(localSubscription.id, 'canceled');
+            }
+            // Only email on the first cancellation event (webhooks can be retried)
+            if (localSubscription && localSubscription.status !== 'canceled') {
+                await sendSubscriptionCanceledEmail(localSubscription.id);
+            }
         } else {
              console.log(`    Local subscription ${deletedSub.id} not found or already marked canceled.`);
         }
@@ -224,20 +361,39 @@ export async function handleCustomerSubscriptionUpdated(
         if (existingLocalSub) {
             // --- Update Existing Subscription ---
             console.log(`    Found local subscription ID: ${existingLocalSub.id}. Updating...`);
-            const periodEndTimestamp = (updatedSub as any).current_period_end;
+            // Newer API versions report the period on the subscription item rather than the subscription
+            const subscriptionItem = updatedSub.items?.data?.[0];
+            const periodEndTimestamp = (updatedSub as any).current_period_end ?? subscriptionItem?.current_period_end;
+            // Any pause behavior counts: open-ended pauses use mark_uncollectible, skips and dated pauses use void
+            const pauseCollection = updatedSub.pause_collection;
             const updateData: any = {
                 status: updatedSub.status,
                 cancelAtPeriodEnd: updatedSub.cancel_at_period_end,
-                collectionPaused: (updatedSub as any).pause_collection?.behavior === 'void',
+                collectionPaused: !!pauseCollection,
+                pauseResumesAt: pauseCollection?.resumes_at ? new Date(pauseCollection.resumes_at * 1000) : null,
                 currentPeriodEnd: typeof periodEndTimestamp === 'number'
                     ? new Date(periodEndTimestamp * 1000)
                     : existingLocalSub.currentPeriodEnd, // Keep existing if null/undefined comes in
             };
+            // Plan changes (flavor/pack, quantity, interval), including ones made in the Stripe dashboard
+            if (subscriptionItem) {
+                updateData.stripePriceId = subscriptionItem.price.id;
+                updateData.quantity = subscriptionItem.quantity ?? existingLocalSub.quantity;
+                if (subscriptionItem.price.recurring) {
+                    updateData.interval = subscriptionItem.price.recurring.interval;
+                    updateData.intervalCount = subscriptionItem.price.recurring.interval_count;
+                }
+            }
             // Clean potential undefined value if Stripe sends null for period end
             if (updateData.currentPeriodEnd === undefined || updateData.currentPeriodEnd === null) {
                 delete updateData.currentPeriodEnd;
             }
 
+            // Resumed early (e.g. from the Stripe dashboard): close the pause window so later renewals create orders
+            if (!pauseCollection && existingLocalSub.collectionPaused) {
+                await endOpenPauses(existingLocalSub.id);
+            }
+
             console.log(`    Attempting DB update for ${existingLocalSub.id} with data:`, JSON.stringify(updateData));
             const updateResult = await prisma.subscription.update({
                 where: { id: existingLocalSub.id },
@@ -245,6 +401,13 @@ export async function handleCustomerSubscriptionUpdated(
             });
             console.log(`    DB update successful for ${existingLocalSub.id}. New status: ${updateResult.status}`);
 
+            // Dunning: a retry (or the customer) paid the invoice, or Stripe gave up on it
+            if (updatedSub.status === 'active' || updatedSub.status === 'trialing') {
+                await resolveDunning(existingLocalSub.id, 'recovered');
+            } else if (updatedSub.status === 'canceled' || updatedSub.status === 'incomplete_expired') {
+                await resolveDunning(existingLocalSub.id, 'canceled');
+            }
+
         } else {
             // --- Local Subscription Not Found ---
             console.warn(`    WARNING: Local subscription not found for Stripe ID ${updatedSub.id} during update. It should have been created by setup_intent.succeeded.`);
@@ -275,11 +438,11 @@ export async function handleInvoicePaid(
         console.log(`    Processing as subscription renewal/update payment.`);
         try {
             // --- Renewal Logic ---
-            await prisma.$transaction(async (tx) => {
+            const renewalOrderId = await prisma.$transaction(async (tx): Promise<number | null> => {
                 // 1. Find local subscription
                 const localSubscription = await tx.subscription.findUnique({
                     where: { stripeSubscriptionId: subIdForInvoice },
-                    include: { user: true } // Include user for fallback email/name
+                    include: { user: true, shippingAddress: true } // User for fallback email/name, address to ship to
                 });
                 if (!localSubscription) {
                     console.error(`    ERROR: Local subscription ${subIdForInvoice} not found for renewal invoice ${paidInvoice.id}. Cannot create renewal order.`);
@@ -311,11 +474,18 @@ export async function handleInvoicePaid(
                 });
                 console.log(`    ---> Inside Renewal Transaction: Local subscription updated.`);
 
+                // 3b. Skipped or paused period: nothing ships, so no order (invoices are normally voided, but
+                // an uncollectible one can still be paid later)
+                if (await isRenewalSkipped(localSubscription.id, new Date(paidInvoice.created * 1000), tx)) {
+                    console.log(`    Invoice ${paidInvoice.id} was issued during a skipped/paused period. Skipping order creation.`);
+                    return null;
+                }
+
                 // 4. Create Renewal Order
                 console.log(`    ---> Inside Renewal Transaction: Creating renewal Order for Invoice ${paidInvoice.id}`);
 
                 // Create OrderItem data for ALL line items on the invoice
-                const orderItemsData = paidInvoice.lines.data.map(lineItem => {
+                let orderItemsData = paidInvoice.lines.data.map(lineItem => {
                     const lineItemPrice = (lineItem as any)?.price; // Type assertion to access price
                     const quantity = lineItem.quantity ?? 1; // Default quantity to 1 if null
                     const unitAmount = (lineItem.amount / 100) / quantity; // Calculate unit price in dollars
@@ -328,39 +498,52 @@ export async function handleInvoicePaid(
                     };
                 }).filter(item => item.price.greaterThan(0)); // Filter out zero-amount items
 
+                // Build-your-own boxes: list the picked flavors instead of the single box line
+                const boxAmountCent = paidInvoice.lines.data.reduce((sum, lineItem) => sum + Math.max(0, lineItem.amount), 0);
+                const boxItemsData = await buildBoxOrderItems(localSubscription, boxAmountCent, tx);
+                if (boxItemsData) {
+                    console.log(`    ---> Inside Renewal Transaction: Box subscription, ${boxItemsData.length} flavor line(s).`);
+                    orderItemsData = boxItemsData;
+                }
+
                 if (orderItemsData.length === 0) {
                     console.warn(`    WARNING: Invoice ${paidInvoice.id} renewal has no valid line items with amount > 0. Skipping order creation.`);
-                    return; // Exit transaction block if no valid items
+                    return null; // Exit transaction block if no valid items
                 }
 
-                // Attempt to get shipping details from invoice customer details
-                const shipping = paidInvoice.customer_shipping;
-                const address = shipping?.address;
+                // Ship to the subscription's address (falling back to the invoice or the user's default). The invoice
+                // is paid either way, so with no address the order is still created, ON_HOLD until the customer adds one
+                const shipping = await getRenewalShipping(localSubscription, paidInvoice, tx);
+                if (!shipping) {
+                    console.error(`    ERROR: No shipping address for subscription ${localSubscription.id} (invoice ${paidInvoice.id}). Renewal order put ON_HOLD until the customer adds an address.`);
+                }
 
-                await tx.order.create({
+                const renewalOrder = await tx.order.create({
                     data: {
                         userId: localSubscription.userId,
                         subscriptionId: localSubscription.id, // Link to the subscription
                         totalAmount: new Decimal(paidInvoice.amount_paid / 100), // Use the total paid amount from Stripe
-                        status: 'PAID', // Use OrderStatus enum value 'PAID'
+                        status: shipping ? 'PAID' : 'ON_HOLD',
+                        holdReason: shipping ? null : RENEWAL_NEEDS_ADDRESS_REASON,
                         // Use invoice details, falling back to user details
                         contactEmail: paidInvoice.customer_email || localSubscription.user?.email || 'unknown@example.com',
                         contactPhone: paidInvoice.customer_phone || null,
-                        shippingName: shipping?.name || localSubscription.user?.name || 'N/A',
-                        shippingAddress1: address?.line1 || 'N/A',
-                        shippingAddress2: address?.line2 || null,
-                        shippingCity: address?.city || 'N/A',
-                        shippingState: address?.state || 'N/A',
-                        shippingPostalCode: address?.postal_code || 'N/A',
-                        shippingCountry: address?.country || 'N/A',
+                        ...(shipping ?? {}),
                         // Note: No checkoutAttemptId for renewals
                         items: {
                             create: orderItemsData // Use the mapped array of all items
                         }
-                    }
+                    },
+                    select: { id: true }
                 });
                 console.log(`    ---> Inside Renewal Transaction: Renewal Order created successfully.`);
+                return renewalOrder.id;
             }); // End Renewal Transaction
+
+            if (renewalOrderId) {
+                await sendSubscriptionRenewedEmail(renewalOrderId);
+                await sendOrderOnHoldAdminEmail(renewalOrderId); // Only sends when the order was put ON_HOLD
+            }
         } catch (error: any) {
             // Catch errors during the renewal transaction
             console.error(`---> ERROR processing renewal transaction for invoice ${paidInvoice.id}:`, error);
@@ -392,17 +575,17 @@ export async function handleInvoicePaymentFailed(
             });
 
             if (localSubscription) {
-                // Update the status - use 'past_due' or 'unpaid'
-                // Stripe might also set the subscription status directly (handled by customer.subscription.updated),
-                // but explicitly setting it here on failure is good practice.
-                const updatedStatus = 'past_due'; // Or 'unpaid', 'inactive' etc. based on Stripe's status flow
-                await prisma.subscription.update({
-                    where: { id: localSubscription.id },
-                    data: { status: updatedStatus },
-                });
-                console.log(`    Updated local subscription ${localSubscription.id} status to ${updatedStatus} due to failed invoice ${failedInvoice.id}`);
-
-                // TODO: Add user notification logic here (e.g., send email about payment failure)
+                // Track the attempt on the invoice's dunning case and mark the subscription past due.
+                // Stripe also moves the subscription's status (handled by customer.subscription.updated).
+                const { dunning, isFinalAttempt } = await recordFailedPayment(failedInvoice, localSubscription);
+
+                if (isFinalAttempt) {
+                    // Stripe won't retry again: end the subscription (its deleted event sends the email)
+                    await cancelForNonPayment(stripe, localSubscription);
+                } else if (await claimDunningNotice(dunning.id, dunning.attemptCount)) {
+                    // Let the customer know so they can update their card before the next retry
+                    await sendRenewalPaymentFailedEmail(dunning.id);
+                }
 
             } else {
                 console.warn(`    Webhook Warning: Received invoice.payment_failed for non-existent local subscription. Stripe Sub ID: ${failedSubId}`);
@@ -416,6 +599,113 @@ export async function handleInvoicePaymentFailed(
     }
 }
 
+export async function handleInvoicePaymentActionRequired(
+    event: Stripe.Event,
+    _stripe: Stripe
+) {
+    const invoice = event.data.object as Stripe.Invoice;
+    const subId = typeof (invoice as any).subscription === 'string' ? (invoice as any).subscription : null;
+
+    console.log(`---> Handling ${event.type} for Invoice ID: ${invoice.id}, Subscription: ${subId}`);
+
+    if (!subId) {
+        console.log(`    Invoice ${invoice.id} needs authentication, but it was not linked to a subscription.`);
+        return;
+    }
+    try {
+        const localSubscription = await prisma.subscription.findUnique({
+            where: { stripeSubscriptionId: subId },
+        });
+        if (!localSubscription) {
+            console.warn(`    Webhook Warning: Received ${event.type} for non-existent local subscription. Stripe Sub ID: ${subId}`);
+            return;
+        }
+
+        // Off-session renewals can't complete 3D Secure, so the customer has to confirm the payment themselves
+        const { dunning, isNew } = await recordPaymentActionRequired(invoice, localSubscription);
+        if (isNew) {
+            await sendRenewalPaymentFailedEmail(dunning.id);
+        }
+    } catch (error) {
+        console.error(`    Webhook Error: Failed processing ${event.type} for subscription ${subId}:`, error);
+    }
+}
+
+export async function handleChargeRefunded(
+    event: Stripe.Event,
+    stripe: Stripe
+) {
+    const charge = event.data.object as Stripe.Charge;
+    console.log(`---> Handling ${event.type} for Charge ID: ${charge.id}, Amount Refunded: ${charge.amount_refunded}`);
+    try {
+        // Records refunds made in the Stripe dashboard and updates the status of ones issued by admins
+        const orderId = await syncRefundsForCharge(stripe, charge);
+        if (orderId) {
+            console.log(`    Synced refunds for Order ${orderId}.`);
+            await sendRefundEmails(orderId);
+        } else {
+            console.log(`    Charge ${charge.id} is not linked to a local order. Nothing to update.`);
+        }
+    } catch (error) {
+        console.error(`    Failed to sync refunds for charge ${charge.id}:`, error);
+    }
+}
+
+// --- Catalog Sync Handlers (product.* / price.*) ---
+
+export async function handleProductUpserted(
+    event: Stripe.Event
+) {
+    const product = event.data.object as Stripe.Product;
+    console.log(`---> Handling ${event.type} for Product ID: ${product.id}`);
+    try {
+        const result = await upsertProductFromStripe(product);
+        console.log(`    Local catalog product ${product.id}: ${result}`);
+    } catch (dbError) {
+        console.error(`    Failed to sync product ${product.id} into local catalog:`, dbError);
+    }
+}
+
+export async function handleProductDeleted(
+    event: Stripe.Event
+) {
+    const product = event.data.object as Stripe.Product;
+    console.log(`---> Handling ${event.type} for Product ID: ${product.id}`);
+    try {
+        const archived = await archiveProduct(product.id);
+        console.log(`    Local catalog product ${product.id} ${archived ? 'archived' : 'already inactive or not found'}.`);
+    } catch (dbError) {
+        console.error(`    Failed to archive product ${product.id} in local catalog:`, dbError);
+    }
+}
+
+export async function handlePriceUpserted(
+    event: Stripe.Event,
+    stripe: Stripe
+) {
+    const price = event.data.object as Stripe.Price;
+    console.log(`---> Handling ${event.type} for Price ID: ${price.id}`);
+    try {
+        const result = await upsertPriceFromStripe(price, stripe);
+        console.log(`    Local catalog price ${price.id}: ${result}`);
+    } catch (dbError) {
+        console.error(`    Failed to sync price ${price.id} into local catalog:`, dbError);
+    }
+}
+
+export async function handlePriceDeleted(
+    event: Stripe.Event
+) {
+    const price = event.data.object as Stripe.Price;
+    console.log(`---> Handling ${event.type} for Price ID: ${price.id}`);
+    try {
+        const archived = await archivePrice(price.id);
+        console.log(`    Local catalog price ${price.id} ${archived ? 'archived' : 'already inactive or not found'}.`);
+    } catch (dbError) {
+        console.error(`    Failed to archive price ${price.id} in local catalog:`, dbError);
+    }
+}
+
 // ... potential default handler or error handler for unhandled types ...
 export async function handleUnhandledEvent(event: Stripe.Event) {
     console.warn(`Unhandled webhook event type received: ${event.type}`);
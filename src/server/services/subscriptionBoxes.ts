@@ -0,0 +1,216 @@
+import { Prisma, Subscription } from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import prisma from '../db';
+import { FulfillmentResult } from './fulfillment';
+import { getIntMetadataValue } from '../utils/catalog';
+import { getNextDeliveryDate } from '../../utils/subscriptions';
+
+// Build-your-own box subscriptions: a recurring price with a `boxSize` metadata value, filled with
+// pints of box-eligible flavors that the subscriber picks. Contents can be changed until shortly
+// before each renewal, and the renewal order lists the picked flavors.
+
+// Contents are locked this long before the next delivery's renewal
+export const BOX_EDIT_CUTOFF_HOURS = 48;
+
+export interface BoxItem {
+    productId: string;
+    quantity: number; // Pints of this flavor per box
+}
+
+export interface BoxFlavor {
+    productId: string;
+    name: string;
+    imageSrc: string | null;
+}
+
+export interface SubscriptionBox {
+    boxSize: number; // Pints per box
+    boxCount: number; // Boxes per delivery (the subscription quantity)
+    items: (BoxItem & { productName: string })[];
+    eligibleFlavors: BoxFlavor[];
+    nextDeliveryDate: Date | null;
+    editableUntil: Date | null; // Null when no delivery is scheduled
+    isLocked: boolean;
+}
+
+/**
+ * Pints per box for a price, or null if it isn't a build-your-own box price.
+ * @param client Prisma client or transaction client to run the query on.
+ */
+export const getBoxSize = async (priceId: string, client: Prisma.TransactionClient = prisma): Promise<number | null> => {
+    const price = await client.price.findUnique({ where: { id: priceId }, select: { recurringInterval: true, metadata: true } });
+    if (!price || !price.recurringInterval) return null;
+    return getIntMetadataValue(price.metadata, 'boxSize');
+};
+
+/**
+ * Active flavors that can go into a box (product metadata `boxEligible`).
+ * @param client Prisma client or transaction client to run the query on.
+ */
+export const getEligibleBoxFlavors = async (client: Prisma.TransactionClient = prisma): Promise<BoxFlavor[]> => {
+    const products = await client.product.findMany({
+        where: { active: true, metadata: { path: ['boxEligible'], equals: 'true' } },
+        select: { id: true, name: true, images: true },
+        orderBy: { createdAt: 'asc' },
+    });
+    return products.map(product => ({ productId: product.id, name: product.name, imageSrc: product.images[0] || null }));
+};
+
+/**
+ * What goes in the box: the saved picks that are still available (trimmed to the box size),
+ * topped up one pint at a time across the eligible flavors if anything is missing.
+ */
+export const resolveBoxContents = (saved: BoxItem[], boxSize: number, eligible: BoxFlavor[]): BoxItem[] => {
+    const eligibleIds = new Set(eligible.map(flavor => flavor.productId));
+    const quantities = new Map<string, number>();
+    let remaining = boxSize;
+
+    for (const item of saved) {
+        if (remaining <= 0) break;
+        if (!eligibleIds.has(item.productId) || item.quantity <= 0) continue;
+        const take = Math.min(item.quantity, remaining);
+        quantities.set(item.productId, (quantities.get(item.productId) || 0) + take);
+        remaining -= take;
+    }
+    for (let i = 0; remaining > 0 && eligible.length > 0; i++) {
+        const productId = eligible[i % eligible.length].productId;
+        quantities.set(productId, (quantities.get(productId) || 0) + 1);
+        remaining--;
+    }
+
+    return Array.from(quantities.entries()).map(([productId, quantity]) => ({ productId, quantity }));
+};
+
+// Renewal the contents apply to, and when they lock
+const getEditWindow = (subscription: Subscription) => {
+    const nextDeliveryDate = getNextDeliveryDate(subscription);
+    const editableUntil = nextDeliveryDate ? new Date(nextDeliveryDate.getTime() - BOX_EDIT_CUTOFF_HOURS * 60 * 60 * 1000) : null;
+    return { nextDeliveryDate, editableUntil, isLocked: editableUntil !== null && Date.now() >= editableUntil.getTime() };
+};
+
+/**
+ * Loads a box subscription's contents along with the flavors that can be picked.
+ * @param subscription The local subscription (already checked to belong to the user).
+ */
+export const getSubscriptionBox = async (subscription: Subscription): Promise<FulfillmentResult<SubscriptionBox>> => {
+    const boxSize = await getBoxSize(subscription.stripePriceId);
+    if (!boxSize) {
+        return { ok: false, status: 400, message: 'This subscription is not a build-your-own box.' };
+    }
+
+    const [saved, eligibleFlavors] = await Promise.all([
+        prisma.subscriptionBoxItem.findMany({ where: { subscriptionId: subscription.id }, orderBy: { id: 'asc' } }),
+        getEligibleBoxFlavors(),
+    ]);
+    const names = new Map(eligibleFlavors.map(flavor => [flavor.productId, flavor.name]));
+
+    return {
+        ok: true,
+        value: {
+            boxSize,
+            boxCount: subscription.quantity,
+            // Flavors that left the lineup are dropped here, the same way the renewal drops them
+            items: saved
+                .filter(item => names.has(item.productId))
+                .map(item => ({ productId: item.productId, quantity: item.quantity, productName: names.get(item.productId)! })),
+            eligibleFlavors,
+            ...getEditWindow(subscription),
+        },
+    };
+};
+
+/**
+ * Replaces a box subscription's contents. The picks must be eligible flavors adding up to
+ * exactly the box size, and the box must not be locked for the upcoming renewal.
+ *
+ * @param subscription The local subscription (already checked to belong to the user).
+ * @param items Pints per flavor, for one box.
+ * @returns The updated box.
+ */
+export const updateBoxContents = async (
+    subscription: Subscription,
+    items: BoxItem[]
+): Promise<FulfillmentResult<SubscriptionBox>> => {
+    if (subscription.status === 'canceled') {
+        return { ok: false, status: 400, message: 'This subscription has been canceled.' };
+    }
+    const boxSize = await getBoxSize(subscription.stripePriceId);
+    if (!boxSize) {
+        return { ok: false, status: 400, message: 'This subscription is not a build-your-own box.' };
+    }
+
+    const { nextDeliveryDate, isLocked } = getEditWindow(subscription);
+    if (isLocked && nextDeliveryDate) {
+        return { ok: false, status: 409, message: `Your box for the ${nextDeliveryDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })} delivery is already being packed. You can change it again after that delivery.` };
+    }
+
+    // Merge duplicate flavors and drop zero lines
+    const quantities = new Map<string, number>();
+    for (const item of items) {
+        if (!Number.isInteger(item.quantity) || item.quantity < 0) {
+            return { ok: false, status: 400, message: 'Quantities must be whole numbers.' };
+        }
+        if (item.quantity > 0) {
+            quantities.set(item.productId, (quantities.get(item.productId) || 0) + item.quantity);
+        }
+    }
+    const total = Array.from(quantities.values()).reduce((sum, quantity) => sum + quantity, 0);
+    if (total !== boxSize) {
+        return { ok: false, status: 400, message: `Please pick exactly ${boxSize} pints (you picked ${total}).` };
+    }
+    const eligibleIds = new Set((await getEligibleBoxFlavors()).map(flavor => flavor.productId));
+    if (Array.from(quantities.keys()).some(productId => !eligibleIds.has(productId))) {
+        return { ok: false, status: 400, message: 'One of the picked flavors is not available for boxes.' };
+    }
+
+    await prisma.$transaction([
+        prisma.subscriptionBoxItem.deleteMany({ where: { subscriptionId: subscription.id } }),
+        prisma.subscriptionBoxItem.createMany({
+            data: Array.from(quantities.entries()).map(([productId, quantity]) => ({ subscriptionId: subscription.id, productId, quantity })),
+        }),
+    ]);
+    console.log(`[Subscriptions] Box contents updated for ${subscription.stripeSubscriptionId}.`);
+    return getSubscriptionBox(subscription);
+};
+
+/**
+ * Order lines for a box renewal: one line per flavor (pints per box x boxes), with the paid
+ * box amount spread evenly over the pints.
+ *
+ * @param subscription The local subscription.
+ * @param boxAmountCent What was paid for the boxes on this invoice.
+ * @param client Prisma client or transaction client to run the queries on.
+ * @returns The order item data, or null if this isn't a box subscription or no flavors are available.
+ */
+export const buildBoxOrderItems = async (
+    subscription: Subscription,
+    boxAmountCent: number,
+    client: Prisma.TransactionClient = prisma
+): Promise<{ productId: string; productName: string; quantity: number; price: Decimal }[] | null> => {
+    const boxSize = await getBoxSize(subscription.stripePriceId, client);
+    if (!boxSize) return null;
+
+    const [saved, eligible] = await Promise.all([
+        client.subscriptionBoxItem.findMany({ where: { subscriptionId: subscription.id }, orderBy: { id: 'asc' } }),
+        getEligibleBoxFlavors(client),
+    ]);
+    const contents = resolveBoxContents(saved, boxSize, eligible);
+    if (contents.length === 0) {
+        console.warn(`[Subscriptions] No box flavors available for ${subscription.stripeSubscriptionId}; using the invoice lines.`);
+        return null;
+    }
+    const savedTotal = saved.reduce((sum, item) => sum + item.quantity, 0);
+    if (savedTotal !== boxSize || contents.length !== saved.length) {
+        console.log(`[Subscriptions] Box for ${subscription.stripeSubscriptionId} was incomplete or had unavailable flavors; filled it from the lineup.`);
+    }
+
+    const boxCount = Math.max(1, subscription.quantity);
+    const names = new Map(eligible.map(flavor => [flavor.productId, flavor.name]));
+    const pintPrice = new Decimal((boxAmountCent / (boxSize * boxCount) / 100).toFixed(2));
+    return contents.map(item => ({
+        productId: item.productId,
+        productName: `${names.get(item.productId) || 'Pint'} (Box)`,
+        quantity: item.quantity * boxCount,
+        price: pintPrice,
+    }));
+};
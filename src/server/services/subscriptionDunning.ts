@@ -0,0 +1,260 @@
+import Stripe from 'stripe';
+import { Prisma, Subscription, SubscriptionDunning } from '@prisma/client';
+import prisma from '../db';
+import { FulfillmentResult } from './fulfillment';
+import { createSignedToken, verifySignedToken } from '../utils/signedTokens';
+
+// Dunning for failed renewal payments. Stripe retries the invoice on its own schedule; each failed
+// invoice is tracked as a SubscriptionDunning case so the customer can be emailed once per attempt,
+// shown a banner on /profile, and given a link to update their card. After the final failed attempt
+// the subscription is canceled.
+
+const UPDATE_PAYMENT_TOKEN_PURPOSE = 'dunning-update-payment';
+
+// Long enough to outlast Stripe's retry schedule (up to about 3 weeks)
+const UPDATE_PAYMENT_LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:3000';
+
+// What the customer sees about a failed renewal (banner, update payment page)
+export interface DunningNotice {
+    id: number;
+    stripeSubscriptionId: string;
+    productName: string;
+    amountDueCent: number;
+    attemptCount: number;
+    nextAttemptAt: Date | null;
+    requiresAction: boolean;
+    hostedInvoiceUrl: string | null;
+    status: string; // 'open', 'recovered' or 'canceled'
+}
+
+type DunningWithSubscription = SubscriptionDunning & { subscription: Pick<Subscription, 'stripeSubscriptionId' | 'stripePriceId'> };
+
+const toNotice = async (dunning: DunningWithSubscription): Promise<DunningNotice> => {
+    const price = await prisma.price.findUnique({
+        where: { id: dunning.subscription.stripePriceId },
+        select: { product: { select: { name: true } } },
+    });
+    return {
+        id: dunning.id,
+        stripeSubscriptionId: dunning.subscription.stripeSubscriptionId,
+        productName: price?.product.name || 'Subscription',
+        amountDueCent: dunning.amountDueCent,
+        attemptCount: dunning.attemptCount,
+        nextAttemptAt: dunning.nextAttemptAt,
+        requiresAction: dunning.requiresAction,
+        hostedInvoiceUrl: dunning.hostedInvoiceUrl,
+        status: dunning.status,
+    };
+};
+
+/**
+ * Link to the update payment page for a dunning case, for the payment failed emails.
+ * The page still requires the customer to be logged in as the subscription's owner.
+ */
+export const createUpdatePaymentUrl = (dunningId: number): string => {
+    const token = createSignedToken(UPDATE_PAYMENT_TOKEN_PURPOSE, { d: dunningId }, UPDATE_PAYMENT_LINK_TTL_MS);
+    return `${getFrontendUrl()}/billing/update-payment?token=${encodeURIComponent(token)}`;
+};
+
+// Creates or refreshes the case for a failed invoice
+const upsertDunningCase = async (
+    invoice: Stripe.Invoice,
+    subscription: Subscription,
+    changes: Partial<Pick<SubscriptionDunning, 'requiresAction'>> = {}
+): Promise<SubscriptionDunning> => {
+    const data = {
+        amountDueCent: invoice.amount_due,
+        attemptCount: invoice.attempt_count,
+        nextAttemptAt: invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : null,
+        hostedInvoiceUrl: invoice.hosted_invoice_url ?? null,
+        ...changes,
+    };
+    return prisma.subscriptionDunning.upsert({
+        where: { stripeInvoiceId: invoice.id! },
+        create: { subscriptionId: subscription.id, stripeInvoiceId: invoice.id!, ...data },
+        update: { ...data, status: 'open', resolvedAt: null },
+    });
+};
+
+/**
+ * Records a failed renewal attempt (invoice.payment_failed) and marks the subscription past due.
+ *
+ * @param invoice The invoice whose payment failed.
+ * @param subscription The local subscription the invoice belongs to.
+ * @returns The case, and whether that was the final attempt (Stripe won't retry).
+ */
+export const recordFailedPayment = async (
+    invoice: Stripe.Invoice,
+    subscription: Subscription
+): Promise<{ dunning: SubscriptionDunning; isFinalAttempt: boolean }> => {
+    const dunning = await upsertDunningCase(invoice, subscription);
+    await prisma.subscription.update({ where: { id: subscription.id }, data: { status: 'past_due' } });
+    console.log(`[Dunning] Invoice ${invoice.id} for ${subscription.stripeSubscriptionId} failed (attempt ${dunning.attemptCount}, next ${dunning.nextAttemptAt ? dunning.nextAttemptAt.toISOString() : 'none'}).`);
+    return { dunning, isFinalAttempt: dunning.nextAttemptAt === null };
+};
+
+/**
+ * Records that the bank wants the customer to authenticate the renewal payment
+ * (invoice.payment_action_required).
+ *
+ * @returns The case, and whether this is the first time it needed action (so the customer is emailed once).
+ */
+export const recordPaymentActionRequired = async (
+    invoice: Stripe.Invoice,
+    subscription: Subscription
+): Promise<{ dunning: SubscriptionDunning; isNew: boolean }> => {
+    const existing = await prisma.subscriptionDunning.findUnique({ where: { stripeInvoiceId: invoice.id! }, select: { requiresAction: true } });
+    const dunning = await upsertDunningCase(invoice, subscription, { requiresAction: true });
+    console.log(`[Dunning] Invoice ${invoice.id} for ${subscription.stripeSubscriptionId} needs customer authentication.`);
+    return { dunning, isNew: !existing?.requiresAction };
+};
+
+/**
+ * Claims the payment failed email for an attempt, so duplicate webhook deliveries don't email twice.
+ * @returns True if the caller should send the email.
+ */
+export const claimDunningNotice = async (dunningId: number, attempt: number): Promise<boolean> => {
+    const claimed = await prisma.subscriptionDunning.updateMany({
+        where: { id: dunningId, notifiedAttempt: { lt: attempt } },
+        data: { notifiedAttempt: attempt },
+    });
+    return claimed.count > 0;
+};
+
+/**
+ * Closes a subscription's open cases, once it is paid up again or has ended.
+ * @param client Prisma client or transaction client to run the update on.
+ * @returns How many cases were closed.
+ */
+export const resolveDunning = async (
+    subscriptionId: number,
+    outcome: 'recovered' | 'canceled',
+    client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+    const resolved = await client.subscriptionDunning.updateMany({
+        where: { subscriptionId, status: 'open' },
+        data: { status: outcome, resolvedAt: new Date() },
+    });
+    if (resolved.count > 0) {
+        console.log(`[Dunning] Subscription ${subscriptionId}: ${resolved.count} case(s) ${outcome}.`);
+    }
+    return resolved.count;
+};
+
+/**
+ * Cancels a subscription whose final retry failed. The customer.subscription.deleted webhook
+ * then marks it canceled locally and sends the cancellation email.
+ */
+export const cancelForNonPayment = async (stripe: Stripe, subscription: Subscription): Promise<void> => {
+    if (subscription.status !== 'canceled') {
+        try {
+            await stripe.subscriptions.cancel(subscription.stripeSubscriptionId, {
+                cancellation_details: { comment: 'Canceled after the final renewal payment attempt failed.' },
+            });
+            console.log(`[Dunning] Canceled ${subscription.stripeSubscriptionId} after the final failed payment.`);
+        } catch (error) {
+            // Stripe may already have canceled it, depending on the account's retry settings
+            console.warn(`[Dunning] Could not cancel ${subscription.stripeSubscriptionId}:`, error);
+        }
+    }
+    await resolveDunning(subscription.id, 'canceled');
+};
+
+/**
+ * Open cases for a user's subscriptions, for the past due banner.
+ */
+export const getOpenDunningNotices = async (userId: number): Promise<DunningNotice[]> => {
+    const cases = await prisma.subscriptionDunning.findMany({
+        where: { status: 'open', subscription: { userId } },
+        include: { subscription: { select: { stripeSubscriptionId: true, stripePriceId: true } } },
+        orderBy: { createdAt: 'desc' },
+    });
+    return Promise.all(cases.map(toNotice));
+};
+
+/**
+ * Resolves an update payment link for the logged-in user.
+ * @param token The token from the link.
+ * @param userId The logged-in user, who must own the subscription.
+ */
+export const openUpdatePaymentLink = async (token: string, userId: number): Promise<FulfillmentResult<DunningNotice>> => {
+    const payload = verifySignedToken<{ d?: unknown }>(UPDATE_PAYMENT_TOKEN_PURPOSE, token);
+    if (!payload || typeof payload.d !== 'number') {
+        return { ok: false, status: 404, message: 'This link is invalid or has expired.' };
+    }
+
+    const dunning = await prisma.subscriptionDunning.findUnique({
+        where: { id: payload.d },
+        include: { subscription: { select: { stripeSubscriptionId: true, stripePriceId: true, userId: true } } },
+    });
+    if (!dunning) {
+        return { ok: false, status: 404, message: 'This link is invalid or has expired.' };
+    }
+    if (dunning.subscription.userId !== userId) {
+        return { ok: false, status: 403, message: 'This link belongs to a different account. Please log in as the account it was sent to.' };
+    }
+    return { ok: true, value: await toNotice(dunning) };
+};
+
+/**
+ * Retries the open invoice of a past due subscription with the user's default saved card,
+ * which also becomes the subscription's card for later renewals.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param subscription The local subscription (already checked to belong to the user).
+ * @returns The resolved case.
+ */
+export const retryDunningPayment = async (
+    stripe: Stripe,
+    subscription: Subscription
+): Promise<FulfillmentResult<DunningNotice>> => {
+    const dunning = await prisma.subscriptionDunning.findFirst({
+        where: { subscriptionId: subscription.id, status: 'open' },
+        include: { subscription: { select: { stripeSubscriptionId: true, stripePriceId: true } } },
+        orderBy: { createdAt: 'desc' },
+    });
+    if (!dunning) {
+        return { ok: false, status: 400, message: 'There is no failed payment to retry.' };
+    }
+
+    const card = await prisma.savedCard.findFirst({
+        where: { userId: subscription.userId },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
+    });
+    if (!card) {
+        return { ok: false, status: 400, message: 'Please add a card first.' };
+    }
+
+    await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+        default_payment_method: card.stripePaymentMethodId,
+    });
+
+    let invoice: Stripe.Invoice;
+    try {
+        invoice = await stripe.invoices.pay(dunning.stripeInvoiceId, {
+            payment_method: card.stripePaymentMethodId,
+            off_session: true,
+        });
+    } catch (error) {
+        if (error instanceof Stripe.errors.StripeCardError) {
+            console.log(`[Dunning] Retry of invoice ${dunning.stripeInvoiceId} declined: ${error.code}`);
+            const message = error.code === 'authentication_required'
+                ? 'Your bank needs you to confirm this payment. Use "Confirm payment" to finish.'
+                : error.message || 'Your card was declined.';
+            return { ok: false, status: 402, message };
+        }
+        throw error;
+    }
+    if (invoice.status !== 'paid') {
+        return { ok: false, status: 402, message: 'The payment did not go through. Please try another card.' };
+    }
+
+    await prisma.$transaction(async (tx) => {
+        await resolveDunning(subscription.id, 'recovered', tx);
+        await tx.subscription.update({ where: { id: subscription.id }, data: { status: 'active' } });
+    });
+    console.log(`[Dunning] Invoice ${dunning.stripeInvoiceId} paid by customer retry.`);
+    return { ok: true, value: await toNotice({ ...dunning, status: 'recovered' }) };
+};
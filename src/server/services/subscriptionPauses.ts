@@ -0,0 +1,183 @@
+import Stripe from 'stripe';
+import { Prisma, Subscription } from '@prisma/client';
+import prisma from '../db';
+import { FulfillmentResult } from './fulfillment';
+import { addInterval } from '../../utils/subscriptions';
+
+// Skipping deliveries and pausing subscriptions. Both use Stripe's pause_collection; each pause is
+// also recorded as a SubscriptionPause window so renewals paid during it don't create orders.
+
+// Furthest out a pause can be scheduled to end
+export const MAX_PAUSE_DAYS = 180;
+
+// Checks shared by skip and pause
+const validateCanPause = (subscription: Subscription): FulfillmentResult<null> => {
+    if (subscription.status !== 'active') {
+        return { ok: false, status: 400, message: 'Only active subscriptions can be paused.' };
+    }
+    if (subscription.collectionPaused) {
+        return { ok: false, status: 400, message: 'Subscription collection is already paused.' };
+    }
+    if (subscription.cancelAtPeriodEnd) {
+        return { ok: false, status: 400, message: 'Cannot pause a subscription scheduled for cancellation.' };
+    }
+    return { ok: true, value: null };
+};
+
+// Sets pause_collection in Stripe, then records the window and mirrors the state locally
+const applyPause = async (
+    stripe: Stripe,
+    subscription: Subscription,
+    kind: 'skip' | 'pause',
+    behavior: Stripe.SubscriptionUpdateParams.PauseCollection.Behavior,
+    resumesAt: Date | null
+): Promise<Subscription> => {
+    await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+        pause_collection: {
+            behavior,
+            ...(resumesAt ? { resumes_at: Math.floor(resumesAt.getTime() / 1000) } : {}),
+        },
+    });
+
+    const [, updated] = await prisma.$transaction([
+        prisma.subscriptionPause.create({
+            data: { subscriptionId: subscription.id, kind, resumesAt },
+        }),
+        prisma.subscription.update({
+            where: { id: subscription.id },
+            data: { collectionPaused: true, pauseResumesAt: resumesAt },
+        }),
+    ]);
+    console.log(`[Subscriptions] ${subscription.stripeSubscriptionId} ${kind === 'skip' ? 'skipping next delivery' : 'paused'} until ${resumesAt ? resumesAt.toISOString() : 'resumed'}.`);
+    return updated;
+};
+
+/**
+ * Skips the next renewal. Collection is paused (invoices voided, so nothing is charged) and
+ * resumes halfway through the skipped period, so only that one renewal is affected.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param subscription The local subscription (already checked to belong to the user).
+ * @returns The updated local subscription.
+ */
+export const skipNextDelivery = async (
+    stripe: Stripe,
+    subscription: Subscription
+): Promise<FulfillmentResult<Subscription>> => {
+    const validation = validateCanPause(subscription);
+    if (!validation.ok) return validation;
+
+    // Use Stripe's period, the local copy may be behind
+    const stripeSubscription = await stripe.subscriptions.retrieve(subscription.stripeSubscriptionId);
+    const item = stripeSubscription.items.data[0];
+    if (!item || !item.price.recurring) {
+        return { ok: false, status: 409, message: 'This subscription has no renewal to skip.' };
+    }
+
+    const skippedRenewal = new Date(item.current_period_end * 1000);
+    const followingRenewal = addInterval(skippedRenewal, item.price.recurring.interval, item.price.recurring.interval_count);
+    const resumesAt = new Date(skippedRenewal.getTime() + (followingRenewal.getTime() - skippedRenewal.getTime()) / 2);
+
+    const updated = await applyPause(stripe, subscription, 'skip', 'void', resumesAt);
+    return { ok: true, value: updated };
+};
+
+/**
+ * Pauses a subscription, either until a date or until it is resumed.
+ * Dated pauses void the invoices in between. Open-ended pauses keep marking them uncollectible.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param subscription The local subscription (already checked to belong to the user).
+ * @param resumesAt When collection restarts, or null to pause until resumed.
+ * @returns The updated local subscription.
+ */
+export const pauseSubscription = async (
+    stripe: Stripe,
+    subscription: Subscription,
+    resumesAt: Date | null
+): Promise<FulfillmentResult<Subscription>> => {
+    const validation = validateCanPause(subscription);
+    if (!validation.ok) return validation;
+
+    if (resumesAt) {
+        const now = Date.now();
+        if (resumesAt.getTime() <= now) {
+            return { ok: false, status: 400, message: 'The resume date must be in the future.' };
+        }
+        if (resumesAt.getTime() > now + MAX_PAUSE_DAYS * 24 * 60 * 60 * 1000) {
+            return { ok: false, status: 400, message: `Subscriptions can be paused for up to ${MAX_PAUSE_DAYS} days.` };
+        }
+    }
+
+    const updated = await applyPause(stripe, subscription, 'pause', resumesAt ? 'void' : 'mark_uncollectible', resumesAt);
+    return { ok: true, value: updated };
+};
+
+/**
+ * Ends the open pause windows of a subscription now. Used when collection resumes early,
+ * whether from the account page or the Stripe dashboard.
+ */
+export const endOpenPauses = async (subscriptionId: number, client: Prisma.TransactionClient = prisma): Promise<void> => {
+    const now = new Date();
+    await client.subscriptionPause.updateMany({
+        where: {
+            subscriptionId,
+            endedAt: null,
+            OR: [{ resumesAt: null }, { resumesAt: { gt: now } }],
+        },
+        data: { endedAt: now },
+    });
+};
+
+/**
+ * Resumes collection on a paused or skipping subscription.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param subscription The local subscription (already checked to belong to the user).
+ * @returns The updated local subscription.
+ */
+export const resumeSubscription = async (
+    stripe: Stripe,
+    subscription: Subscription
+): Promise<FulfillmentResult<Subscription>> => {
+    if (!subscription.collectionPaused) {
+        return { ok: false, status: 400, message: 'Subscription collection is not paused.' };
+    }
+
+    await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+        pause_collection: '', // An empty value clears the pause
+    });
+
+    const updated = await prisma.$transaction(async (tx) => {
+        await endOpenPauses(subscription.id, tx);
+        return tx.subscription.update({
+            where: { id: subscription.id },
+            data: { collectionPaused: false, pauseResumesAt: null },
+        });
+    });
+    console.log(`[Subscriptions] ${subscription.stripeSubscriptionId} resumed.`);
+    return { ok: true, value: updated };
+};
+
+/**
+ * Whether a renewal issued at `at` falls inside a skip or pause window.
+ * @param client Prisma client or transaction client to run the query on.
+ */
+export const isRenewalSkipped = async (
+    subscriptionId: number,
+    at: Date,
+    client: Prisma.TransactionClient = prisma
+): Promise<boolean> => {
+    const pause = await client.subscriptionPause.findFirst({
+        where: {
+            subscriptionId,
+            createdAt: { lte: at },
+            AND: [
+                { OR: [{ resumesAt: null }, { resumesAt: { gt: at } }] },
+                { OR: [{ endedAt: null }, { endedAt: { gt: at } }] },
+            ],
+        },
+        select: { id: true },
+    });
+    return pause !== null;
+};
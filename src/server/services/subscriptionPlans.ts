@@ -0,0 +1,206 @@
+import Stripe from 'stripe';
+import { Subscription } from '@prisma/client';
+import prisma from '../db';
+import { FulfillmentResult } from './fulfillment';
+import { getMetadataValue } from '../utils/catalog';
+import { describeInterval } from '../../utils/subscriptions';
+
+// Subscription plan changes: swap the flavor/pack (price), change the quantity, or change how often
+// it ships (also a different price, since Stripe prices carry the interval).
+
+// Most units per delivery a subscriber can pick
+export const MAX_SUBSCRIPTION_QUANTITY = 12;
+
+export interface PlanChangeInput {
+    priceId: string;
+    quantity: number;
+}
+
+export interface PlanChangePreview {
+    prorationDate: number; // Unix seconds; pass back when applying so Stripe charges exactly what was shown
+    currency: string;
+    prorationAmountCent: number; // Net credit (negative) or charge for the rest of the current period
+    amountDueNowCent: number; // Charged immediately (interval changes start a new billing period right away)
+    chargesImmediately: boolean;
+    nextPaymentCent: number; // Regular amount per period on the new plan
+    newPlan: PlanSummary;
+}
+
+export interface PlanSummary {
+    priceId: string;
+    productName: string;
+    unitDescription: string | null;
+    interval: string;
+    intervalCount: number;
+    quantity: number;
+    unitAmountCent: number;
+    currency: string;
+}
+
+// Previews older than this are re-priced at the time of the change
+const PREVIEW_VALIDITY_SECONDS = 60 * 60;
+
+const isRecentProrationDate = (prorationDate?: number): prorationDate is number => {
+    const now = Math.floor(Date.now() / 1000);
+    return typeof prorationDate === 'number' && prorationDate <= now && prorationDate > now - PREVIEW_VALIDITY_SECONDS;
+};
+
+// Loads the Stripe subscription and its (single) item
+const getStripeItem = async (stripe: Stripe, stripeSubscriptionId: string) => {
+    const stripeSubscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+    const item = stripeSubscription.items.data[0];
+    return { stripeSubscription, item };
+};
+
+/**
+ * Checks a requested plan against the subscription and the local catalog.
+ * The new price must be an active recurring price of an active product, in the same currency.
+ */
+const validatePlanChange = async (
+    subscription: Subscription,
+    input: PlanChangeInput
+): Promise<FulfillmentResult<PlanSummary>> => {
+    if (subscription.status !== 'active' && subscription.status !== 'trialing') {
+        return { ok: false, status: 400, message: 'Only active subscriptions can be changed.' };
+    }
+    if (subscription.cancelAtPeriodEnd) {
+        return { ok: false, status: 400, message: 'Resume the subscription before changing it; it is scheduled to cancel.' };
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity < 1 || input.quantity > MAX_SUBSCRIPTION_QUANTITY) {
+        return { ok: false, status: 400, message: `Quantity must be between 1 and ${MAX_SUBSCRIPTION_QUANTITY}.` };
+    }
+
+    const price = await prisma.price.findUnique({ where: { id: input.priceId }, include: { product: true } });
+    if (!price || !price.active || !price.product.active || !price.recurringInterval || price.unitAmount === null) {
+        return { ok: false, status: 400, message: 'That subscription option is not available.' };
+    }
+    if (price.id === subscription.stripePriceId && input.quantity === subscription.quantity) {
+        return { ok: false, status: 400, message: 'That is already your current plan.' };
+    }
+
+    return {
+        ok: true,
+        value: {
+            priceId: price.id,
+            productName: price.product.name,
+            unitDescription: getMetadataValue(price.metadata, 'unitDescription') || null,
+            interval: price.recurringInterval,
+            intervalCount: price.recurringIntervalCount ?? 1,
+            quantity: input.quantity,
+            unitAmountCent: price.unitAmount,
+            currency: price.currency,
+        },
+    };
+};
+
+/**
+ * Previews a plan change: the proration for the rest of the current period and what is due now.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param subscription The local subscription (already checked to belong to the user).
+ * @param input New price and quantity.
+ */
+export const previewPlanChange = async (
+    stripe: Stripe,
+    subscription: Subscription,
+    input: PlanChangeInput
+): Promise<FulfillmentResult<PlanChangePreview>> => {
+    const validation = await validatePlanChange(subscription, input);
+    if (!validation.ok) return validation;
+    const newPlan = validation.value;
+
+    const { stripeSubscription, item } = await getStripeItem(stripe, subscription.stripeSubscriptionId);
+    if (!item) {
+        return { ok: false, status: 409, message: 'This subscription has no items to change.' };
+    }
+    if (item.price.currency !== newPlan.currency) {
+        return { ok: false, status: 400, message: 'That option is billed in a different currency.' };
+    }
+
+    const prorationDate = Math.floor(Date.now() / 1000);
+    const invoice = await stripe.invoices.createPreview({
+        customer: typeof stripeSubscription.customer === 'string' ? stripeSubscription.customer : stripeSubscription.customer.id,
+        subscription: subscription.stripeSubscriptionId,
+        subscription_details: {
+            items: [{ id: item.id, price: newPlan.priceId, quantity: newPlan.quantity }],
+            proration_behavior: 'create_prorations',
+            proration_date: prorationDate,
+        },
+    });
+
+    // Changing the interval resets the billing period, so Stripe invoices straight away.
+    // Otherwise the prorations wait for the next regular invoice.
+    const chargesImmediately = item.price.recurring?.interval !== newPlan.interval
+        || (item.price.recurring?.interval_count ?? 1) !== newPlan.intervalCount;
+    const prorationAmountCent = invoice.lines.data
+        .filter(line => line.parent?.subscription_item_details?.proration)
+        .reduce((sum, line) => sum + line.amount, 0);
+
+    return {
+        ok: true,
+        value: {
+            prorationDate,
+            currency: invoice.currency,
+            prorationAmountCent,
+            amountDueNowCent: chargesImmediately ? invoice.amount_due : 0,
+            chargesImmediately,
+            nextPaymentCent: newPlan.unitAmountCent * newPlan.quantity,
+            newPlan,
+        },
+    };
+};
+
+/**
+ * Applies a plan change in Stripe and mirrors it on the local subscription. With
+ * `pending_if_incomplete`, an interval change whose immediate payment fails is not applied.
+ *
+ * @param stripe Initialized Stripe client.
+ * @param subscription The local subscription (already checked to belong to the user).
+ * @param input New price and quantity.
+ * @param prorationDate The proration date from the preview, so the charge matches what was shown.
+ * @returns The updated local subscription.
+ */
+export const applyPlanChange = async (
+    stripe: Stripe,
+    subscription: Subscription,
+    input: PlanChangeInput,
+    prorationDate?: number
+): Promise<FulfillmentResult<Subscription>> => {
+    const validation = await validatePlanChange(subscription, input);
+    if (!validation.ok) return validation;
+    const newPlan = validation.value;
+
+    const { item } = await getStripeItem(stripe, subscription.stripeSubscriptionId);
+    if (!item) {
+        return { ok: false, status: 409, message: 'This subscription has no items to change.' };
+    }
+    if (item.price.currency !== newPlan.currency) {
+        return { ok: false, status: 400, message: 'That option is billed in a different currency.' };
+    }
+
+    const updated = await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+        items: [{ id: item.id, price: newPlan.priceId, quantity: newPlan.quantity }],
+        proration_behavior: 'create_prorations',
+        // Only honor a recent preview; an old one could fall outside the current period, which Stripe rejects
+        proration_date: isRecentProrationDate(prorationDate) ? prorationDate : undefined,
+        payment_behavior: 'pending_if_incomplete',
+    });
+    if (updated.pending_update) {
+        return { ok: false, status: 402, message: 'The payment for this change failed, so your plan was not changed. Please check your card.' };
+    }
+
+    const updatedItem = updated.items.data[0];
+    const localSubscription = await prisma.subscription.update({
+        where: { id: subscription.id },
+        data: {
+            stripePriceId: newPlan.priceId,
+            interval: newPlan.interval,
+            intervalCount: newPlan.intervalCount,
+            quantity: newPlan.quantity,
+            status: updated.status,
+            currentPeriodEnd: updatedItem ? new Date(updatedItem.current_period_end * 1000) : subscription.currentPeriodEnd,
+        },
+    });
+    console.log(`[Subscriptions] ${subscription.stripeSubscriptionId} changed to ${newPlan.quantity} x ${newPlan.priceId} (${describeInterval(newPlan.interval, newPlan.intervalCount)}).`);
+    return { ok: true, value: localSubscription };
+};
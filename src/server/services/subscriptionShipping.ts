@@ -0,0 +1,122 @@
+import Stripe from 'stripe';
+import { Prisma, Address, Subscription } from '@prisma/client';
+import prisma from '../db';
+import { FulfillmentResult } from './fulfillment';
+import { checkServiceability } from './shipping';
+
+// Where subscription deliveries go. Each subscription can be linked to one of the user's saved
+// SHIPPING addresses; renewal orders are addressed from it.
+
+// holdReason of a paid renewal order that had nowhere to ship; linking an address releases it
+export const RENEWAL_NEEDS_ADDRESS_REASON = 'The renewal was paid but the subscription has no shipping address. It ships once the customer adds one.';
+
+export type SubscriptionWithAddress = Subscription & { shippingAddress: Address | null };
+
+type RenewalSubscription = Prisma.SubscriptionGetPayload<{ include: { user: true; shippingAddress: true } }>;
+
+// The shipping columns of an Order
+export interface RenewalShipping {
+    shippingName: string;
+    shippingAddress1: string;
+    shippingAddress2: string | null;
+    shippingCity: string;
+    shippingState: string;
+    shippingPostalCode: string;
+    shippingCountry: string;
+}
+
+/**
+ * Links a subscription to one of the user's saved shipping addresses. Later renewals ship there, and so do
+ * renewal orders held because there was no address when they were paid.
+ *
+ * @param subscription The local subscription (already checked to belong to the user).
+ * @param addressId A SHIPPING address of the same user.
+ * @returns The updated subscription with its address.
+ */
+export const setSubscriptionAddress = async (
+    subscription: Subscription,
+    addressId: number
+): Promise<FulfillmentResult<SubscriptionWithAddress>> => {
+    if (subscription.status === 'canceled') {
+        return { ok: false, status: 400, message: 'This subscription has been canceled.' };
+    }
+
+    const address = await prisma.address.findFirst({ where: { id: addressId, userId: subscription.userId } });
+    if (!address) {
+        return { ok: false, status: 404, message: 'Address not found or access denied.' };
+    }
+    if (address.type !== 'SHIPPING') {
+        return { ok: false, status: 400, message: 'Please choose a shipping address.' };
+    }
+    const serviceability = checkServiceability(address);
+    if (!serviceability.ok) {
+        return { ok: false, status: 400, message: serviceability.message };
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({ where: { id: subscription.userId }, select: { name: true, email: true } });
+    const [updated, released] = await prisma.$transaction([
+        prisma.subscription.update({
+            where: { id: subscription.id },
+            data: { shippingAddressId: address.id },
+            include: { shippingAddress: true },
+        }),
+        prisma.order.updateMany({
+            where: { subscriptionId: subscription.id, status: 'ON_HOLD', holdReason: RENEWAL_NEEDS_ADDRESS_REASON },
+            data: { ...fromAddress(user.name || user.email, address), status: 'PAID', holdReason: null },
+        }),
+    ]);
+    console.log(`[Subscriptions] ${subscription.stripeSubscriptionId} now ships to address ${address.id}.`);
+    if (released.count > 0) {
+        console.log(`[Subscriptions] Released ${released.count} renewal order(s) of ${subscription.stripeSubscriptionId} that were waiting for an address.`);
+    }
+    return { ok: true, value: updated };
+};
+
+const fromAddress = (name: string, address: Address): RenewalShipping => ({
+    shippingName: name,
+    shippingAddress1: address.streetAddress,
+    shippingAddress2: null,
+    shippingCity: address.city,
+    shippingState: address.state,
+    shippingPostalCode: address.postalCode,
+    shippingCountry: address.country,
+});
+
+/**
+ * Shipping details for a renewal order. Uses the subscription's linked address, then a complete
+ * shipping address on the invoice, then the user's default shipping address.
+ *
+ * @param subscription The local subscription with its user and linked address.
+ * @param invoice The paid renewal invoice.
+ * @param client Prisma client or transaction client to run the query on.
+ * @returns The order's shipping fields, or null if there is nowhere to ship to.
+ */
+export const getRenewalShipping = async (
+    subscription: RenewalSubscription,
+    invoice: Stripe.Invoice,
+    client: Prisma.TransactionClient = prisma
+): Promise<RenewalShipping | null> => {
+    const name = subscription.user.name || subscription.user.email;
+    if (subscription.shippingAddress) {
+        return fromAddress(name, subscription.shippingAddress);
+    }
+
+    const invoiceAddress = invoice.customer_shipping?.address;
+    if (invoiceAddress?.line1 && invoiceAddress.city && invoiceAddress.state && invoiceAddress.postal_code && invoiceAddress.country) {
+        return {
+            shippingName: invoice.customer_shipping?.name || name,
+            shippingAddress1: invoiceAddress.line1,
+            shippingAddress2: invoiceAddress.line2 || null,
+            shippingCity: invoiceAddress.city,
+            shippingState: invoiceAddress.state,
+            shippingPostalCode: invoiceAddress.postal_code,
+            shippingCountry: invoiceAddress.country,
+        };
+    }
+
+    const defaultAddress = await client.address.findFirst({
+        where: { userId: subscription.userId, type: 'SHIPPING' },
+        orderBy: [{ isDefault: 'desc' }, { updatedAt: 'desc' }],
+    });
+    return defaultAddress ? fromAddress(name, defaultAddress) : null;
+};
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+
+// --- Types ---
+
+// Amounts are in cents and already have any promo discount subtracted
+export interface TaxCalculationInput {
+    itemsSubtotalCent: number;
+    shippingCent: number;
+    address: {
+        state: string;
+        postalCode: string;
+        country: string;
+    };
+}
+
+export interface TaxCalculationResult {
+    taxCent: number;
+    rate: number; // Decimal rate, e.g. 0.0725
+    taxableAmountCent: number;
+    jurisdiction: string | null; // Which rule matched (e.g. "NY 100"), null if none
+    provider: string;
+}
+
+/**
+ * A tax calculator. The local rate table is used by default; an external
+ * service (Stripe Tax, TaxJar, Avalara, ...) can be plugged in by implementing
+ * this interface and calling registerTaxProvider().
+ */
+export interface TaxProvider {
+    name: string;
+    calculateTax: (input: TaxCalculationInput) => Promise<TaxCalculationResult>;
+}
+
+// One row of the local rate table. postalPrefix rules win over state-wide rules.
+export interface TaxRateRule {
+    state: string;          // Two-letter state code
+    postalPrefix?: string;  // Optional ZIP prefix for local rates, e.g. "100" for Manhattan
+    rate: number;           // Decimal rate, e.g. 0.0725
+    taxShipping?: boolean;  // Whether shipping charges are taxable in this jurisdiction
+}
+
+// --- Local rate table ---
+
+// Example rates only. Replace with your own table by pointing TAX_RATES_FILE at a
+// JSON file containing an array of TaxRateRule objects.
+const DEFAULT_TAX_RATES: TaxRateRule[] = [
+    { state: 'CA', rate: 0.0725 },
+    { state: 'FL', rate: 0.06 },
+    { state: 'IL', rate: 0.0625 },
+    { state: 'NY', rate: 0.04, taxShipping: true },
+    { state: 'NY', postalPrefix: '100', rate: 0.08875, taxShipping: true },
+    { state: 'NY', postalPrefix: '101', rate: 0.08875, taxShipping: true },
+    { state: 'NY', postalPrefix: '102', rate: 0.08875, taxShipping: true },
+    { state: 'PA', rate: 0.06 },
+    { state: 'TX', rate: 0.0625, taxShipping: true },
+    { state: 'WA', rate: 0.065, taxShipping: true },
+];
+
+const US_COUNTRY_NAMES = ['US', 'USA', 'UNITED STATES', 'UNITED STATES OF AMERICA'];
+
+const loadTaxRates = (): TaxRateRule[] => {
+    const ratesFile = process.env.TAX_RATES_FILE;
+    if (!ratesFile) {
+        return DEFAULT_TAX_RATES;
+    }
+    try {
+        const parsed = JSON.parse(fs.readFileSync(path.resolve(ratesFile), 'utf8'));
+        if (!Array.isArray(parsed)) {
+            throw new Error('Expected an array of rate rules.');
+        }
+        console.log(`[Tax] Loaded ${parsed.length} tax rate rules from ${ratesFile}.`);
+        return parsed as TaxRateRule[];
+    } catch (error: any) {
+        console.error(`[Tax] Failed to load TAX_RATES_FILE ${ratesFile}: ${error.message}. Using default rates.`);
+        return DEFAULT_TAX_RATES;
+    }
+};
+
+/**
+ * Finds the rule for an address: the longest matching postal prefix in the state,
+ * falling back to the state-wide rule.
+ */
+const findTaxRule = (rules: TaxRateRule[], state: string, postalCode: string): TaxRateRule | null => {
+    const stateCode = state.trim().toUpperCase();
+    const zip = postalCode.trim();
+    let match: TaxRateRule | null = null;
+    for (const rule of rules) {
+        if (rule.state.toUpperCase() !== stateCode) continue;
+        if (rule.postalPrefix && !zip.startsWith(rule.postalPrefix)) continue;
+        const matchLength = match?.postalPrefix?.length ?? -1;
+        const ruleLength = rule.postalPrefix?.length ?? 0;
+        if (ruleLength > matchLength) {
+            match = rule;
+        }
+    }
+    return match;
+};
+
+/**
+ * Creates a provider that calculates tax from a local rate table.
+ * Only US addresses are taxed.
+ */
+export const createLocalTaxProvider = (rules: TaxRateRule[] = loadTaxRates()): TaxProvider => ({
+    name: 'local',
+    calculateTax: async (input) => {
+        const noTax: TaxCalculationResult = { taxCent: 0, rate: 0, taxableAmountCent: 0, jurisdiction: null, provider: 'local' };
+        if (!US_COUNTRY_NAMES.includes(input.address.country.trim().toUpperCase())) {
+            return noTax;
+        }
+        const rule = findTaxRule(rules, input.address.state, input.address.postalCode);
+        if (!rule) {
+            return noTax;
+        }
+        const taxableAmountCent = Math.max(0, input.itemsSubtotalCent) + (rule.taxShipping ? Math.max(0, input.shippingCent) : 0);
+        return {
+            taxCent: Math.round(taxableAmountCent * rule.rate),
+            rate: rule.rate,
+            taxableAmountCent,
+            jurisdiction: rule.postalPrefix ? `${rule.state} ${rule.postalPrefix}` : rule.state,
+            provider: 'local',
+        };
+    },
+});
+
+// --- Provider registry ---
+
+const taxProviders: { [name: string]: TaxProvider } = {};
+let localProvider: TaxProvider | null = null;
+
+/**
+ * Registers an external tax provider. Select it with TAX_PROVIDER=<name>.
+ */
+export const registerTaxProvider = (provider: TaxProvider): void => {
+    taxProviders[provider.name] = provider;
+};
+
+/**
+ * Returns the provider named by TAX_PROVIDER (default "local").
+ * Unknown names fall back to the local rate table.
+ */
+export const getTaxProvider = (): TaxProvider => {
+    const providerName = process.env.TAX_PROVIDER || 'local';
+    if (providerName !== 'local') {
+        const provider = taxProviders[providerName];
+        if (provider) {
+            return provider;
+        }
+        console.warn(`[Tax] TAX_PROVIDER "${providerName}" is not registered. Using local rate table.`);
+    }
+    if (!localProvider) {
+        localProvider = createLocalTaxProvider();
+    }
+    return localProvider;
+};
+
+/**
+ * Calculates sales tax for an order using the configured provider.
+ *
+ * @param input Discounted item subtotal, shipping and destination address.
+ * @returns The tax amount and the rate/jurisdiction used.
+ */
+export const calculateTax = async (input: TaxCalculationInput): Promise<TaxCalculationResult> => {
+    return getTaxProvider().calculateTax(input);
+};
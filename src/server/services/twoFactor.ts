@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { generateTotpSecret, buildOtpauthUrl, verifyTotp } from '../utils/totp';
+import { FulfillmentResult } from './fulfillment';
+
+// Optional two-factor authentication with an authenticator app (TOTP), plus one-time recovery codes
+// for when the app is lost. Accounts with it turned on need a code to log in, and again before
+// sensitive changes (deleting a card, changing the email) if they haven't entered one recently.
+
+const ISSUER = 'Abominable Creamery';
+const RECOVERY_CODE_COUNT = 10;
+// Same no-0/O/1/I alphabet as gift card codes
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RECOVERY_CODE_LENGTH = 10;
+
+// How long the password step of a two-factor login stays valid
+export const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+// How long a code entered for a sensitive change counts for further changes
+export const TWO_FACTOR_REAUTH_WINDOW_MS = 10 * 60 * 1000;
+export const TWO_FACTOR_REAUTH_MESSAGE = 'Please enter a code from your authenticator app to continue.';
+
+export type TwoFactorMethod = 'totp' | 'recovery';
+
+const normalizeRecoveryCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hashRecoveryCode = (code: string): string =>
+    crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+
+// Formatted as XXXXX-XXXXX for readability; the dash is ignored when a code is entered
+const generateRecoveryCode = (): string => {
+    const bytes = crypto.randomBytes(RECOVERY_CODE_LENGTH);
+    let raw = '';
+    for (let i = 0; i < RECOVERY_CODE_LENGTH; i++) {
+        raw += RECOVERY_CODE_ALPHABET[bytes[i] % RECOVERY_CODE_ALPHABET.length];
+    }
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+};
+
+/**
+ * A new secret for enrollment. It is only saved to the account once the user has entered a code from it.
+ * @param accountName Shown in the authenticator app (the user's email).
+ */
+export const startTwoFactorSetup = (accountName: string): { secret: string; otpauthUrl: string } => {
+    const secret = generateTotpSecret();
+    return { secret, otpauthUrl: buildOtpauthUrl(secret, accountName, ISSUER) };
+};
+
+/**
+ * Replaces the user's recovery codes with a new set.
+ * @returns The new codes in plain text. They are not stored and can't be shown again.
+ */
+export const regenerateRecoveryCodes = async (userId: number, client: Prisma.TransactionClient = prisma): Promise<string[]> => {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await client.twoFactorRecoveryCode.deleteMany({ where: { userId } });
+    await client.twoFactorRecoveryCode.createMany({
+        data: codes.map(code => ({ userId, codeHash: hashRecoveryCode(code) })),
+    });
+    return codes;
+};
+
+/**
+ * Turns on two-factor authentication once the user proves their app has the secret.
+ *
+ * @param userId The account.
+ * @param secret The secret from startTwoFactorSetup.
+ * @param code A current code from the app.
+ * @returns The recovery codes to show the user once.
+ */
+export const enableTwoFactor = async (userId: number, secret: string, code: string): Promise<FulfillmentResult<{ recoveryCodes: string[] }>> => {
+    const step = verifyTotp(secret, code);
+    if (step === null) {
+        return { ok: false, status: 400, message: "That code didn't match. Check the time on your phone and try again." };
+    }
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+        const updated = await tx.user.updateMany({
+            where: { id: userId, totpEnabledAt: null },
+            data: { totpSecret: secret, totpEnabledAt: new Date(), totpLastUsedStep: step },
+        });
+        if (updated.count === 0) {
+            return null;
+        }
+        return regenerateRecoveryCodes(userId, tx);
+    });
+    if (!recoveryCodes) {
+        return { ok: false, status: 409, message: 'Two-factor authentication is already on.' };
+    }
+
+    console.log(`[TwoFactor] Enabled for user ${userId}.`);
+    return { ok: true, value: { recoveryCodes } };
+};
+
+/**
+ * Checks a code from the authenticator app, or a recovery code (which is then used up).
+ * App codes are also single-use: a code from the same or an earlier time step is rejected.
+ *
+ * @returns How the user verified, or null if the code is wrong or two-factor authentication is off.
+ */
+export const verifyTwoFactorCode = async (userId: number, code: string): Promise<TwoFactorMethod | null> => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { totpSecret: true, totpEnabledAt: true, totpLastUsedStep: true },
+    });
+    if (!user?.totpEnabledAt || !user.totpSecret) {
+        return null;
+    }
+
+    const step = verifyTotp(user.totpSecret, code);
+    if (step !== null) {
+        // Conditional on the last used step, so the same code can't be accepted twice in parallel
+        const claimed = await prisma.user.updateMany({
+            where: { id: userId, OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }] },
+            data: { totpLastUsedStep: step },
+        });
+        return claimed.count > 0 ? 'totp' : null;
+    }
+
+    if (normalizeRecoveryCode(code).length !== RECOVERY_CODE_LENGTH) {
+        return null;
+    }
+    const used = await prisma.twoFactorRecoveryCode.updateMany({
+        where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+        data: { usedAt: new Date() },
+    });
+    if (used.count === 0) {
+        return null;
+    }
+    console.log(`[TwoFactor] User ${userId} used a recovery code.`);
+    return 'recovery';
+};
+
+/**
+ * Turns off two-factor authentication and deletes the recovery codes.
+ */
+export const disableTwoFactor = async (userId: number): Promise<void> => {
+    await prisma.$transaction([
+        prisma.user.update({ where: { id: userId }, data: { totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null } }),
+        prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    ]);
+    console.log(`[TwoFactor] Disabled for user ${userId}.`);
+};
+
+/**
+ * Whether two-factor authentication is on, and how many recovery codes are left.
+ */
+export const getTwoFactorStatus = async (userId: number): Promise<{ enabled: boolean; enabledAt: Date | null; recoveryCodesLeft: number }> => {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { totpEnabledAt: true, _count: { select: { recoveryCodes: { where: { usedAt: null } } } } },
+    });
+    return {
+        enabled: !!user?.totpEnabledAt,
+        enabledAt: user?.totpEnabledAt ?? null,
+        recoveryCodesLeft: user?._count.recoveryCodes ?? 0,
+    };
+};
+
+/**
+ * Whether a sensitive change needs a fresh code: two-factor authentication is on and no code was
+ * entered in this session within the re-verification window. Read from the database, so turning it on
+ * in one browser also protects sessions that were already logged in elsewhere.
+ *
+ * @param userId The logged-in user.
+ * @param verifiedAt When this session last entered a code (ms), if ever.
+ */
+export const needsTwoFactorReauth = async (userId: number, verifiedAt: number | undefined): Promise<boolean> => {
+    if (verifiedAt && Date.now() - verifiedAt < TWO_FACTOR_REAUTH_WINDOW_MS) {
+        return false;
+    }
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { totpEnabledAt: true } });
+    return !!user?.totpEnabledAt;
+};
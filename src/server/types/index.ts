@@ -9,5 +9,14 @@ export interface SessionUser {
     phone?: string | null; // Add phone
     role: UserRole; // Add role
     stripeCustomerId?: string | null;
+    emailVerified?: boolean; // Refreshed by /api/auth/me while false, since the link may be opened in another browser
+    twoFactorEnabled?: boolean; // Informational only; two-factor checks read the database (see services/twoFactor.ts)
     // Add other relevant user fields used across different routes if needed
-} 
\ No newline at end of file
+} 
+// The device a logged-in session is used from, for the active sessions list (see services/sessions.ts)
+export interface SessionClientInfo {
+    ip: string;
+    userAgent: string | null;
+    signedInAt: number; // First request seen while logged in (ms)
+    lastSeenAt: number; // Updated at most every few minutes (ms)
+}
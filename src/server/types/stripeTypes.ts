@@ -18,6 +18,14 @@ export interface InitiateCheckoutRequest {
     notes?: string; // Add optional notes field
     selectedCardId?: string; // Optional: PM ID if paying with saved card
     saveNewCardForFuture?: boolean; // Optional: Flag to save new card
+    promoCode?: string; // Optional: Promo code entered in the order summary
+    giftCardCode?: string; // Optional: Gift card applied at checkout; its balance is taken off the PaymentIntent amount
+    shippingMethod?: string; // Shipping method ID picked from /api/stripe/shipping-options
+    gift?: { // Set when shippingAddress is the gift recipient's rather than the buyer's
+        message?: string;
+        hidePrices?: boolean; // Leave prices off the packing slip
+        subscriptionMonths?: number; // Prepay subscription items for this many monthly deliveries (see GIFT_SUBSCRIPTION_MONTHS)
+    };
 }
 
 // Define a type for the Order fetched with selected items for API responses
@@ -0,0 +1,168 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../db';
+import { Flavor, PriceOption } from '../../types/flavor'; // Adjust path as needed
+import { getAvailableStock } from '../services/inventory';
+
+// Product row as loaded for rendering, with its active prices included
+type CatalogProduct = Prisma.ProductGetPayload<{ include: { prices: true } }>;
+type CatalogPrice = CatalogProduct['prices'][number];
+
+// Helper to read a string value out of a Json metadata column
+export const getMetadataValue = (metadata: Prisma.JsonValue, key: string): string | undefined => {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) return undefined;
+    const value = (metadata as Prisma.JsonObject)[key];
+    return typeof value === 'string' ? value : undefined;
+};
+
+// Helper to convert Stripe metadata string ('true'/'false') to boolean
+export const parseBooleanMetadata = (metadataValue: string | undefined): boolean => {
+    return metadataValue === 'true';
+};
+
+// Helper to read a positive whole number out of a Json metadata column (e.g. boxSize)
+export const getIntMetadataValue = (metadata: Prisma.JsonValue, key: string): number | null => {
+    const value = parseInt(getMetadataValue(metadata, key) || '', 10);
+    return Number.isInteger(value) && value > 0 ? value : null;
+};
+
+// Helper to format price (Stripe amounts are in cents)
+export const formatPrice = (amount: number | null): string => {
+    if (amount === null) return '0.00'; // Or handle as error/unavailable
+    return (amount / 100).toFixed(2); // Keep simple string format matching original content.ts
+};
+
+// --- Metadata contract (written by the admin catalog routes, read by the mappers below) ---
+
+export interface FlavorMetadataFields {
+    simpleName?: string | null;
+    slug?: string | null;
+    hasDairy: boolean;
+    hasEgg: boolean;
+    withoutDairy: boolean;
+    withoutEgg: boolean;
+    notFlavor: boolean;
+    boxEligible: boolean; // Can be picked for build-your-own boxes
+}
+
+export interface PriceMetadataFields {
+    packSize?: string | null;
+    unitDescription?: string | null;
+    displayName?: string | null;
+    subscriptionId?: string | null;
+    boxSize?: number | null; // Pints per box; set on recurring build-your-own box prices only
+}
+
+// Stripe deletes a metadata key when it is set to an empty string
+const toMetadataString = (value: string | null | undefined): string => (value ? value.trim() : '');
+
+/**
+ * Builds Stripe Product metadata from typed flavor fields so keys and
+ * boolean formats always match what mapProductToFlavor expects.
+ * @param fields The flavor fields.
+ * @returns A metadata object suitable for stripe.products.create/update.
+ */
+export const buildProductMetadata = (fields: FlavorMetadataFields): Record<string, string> => ({
+    simpleName: toMetadataString(fields.simpleName),
+    slug: toMetadataString(fields.slug),
+    hasDairy: String(fields.hasDairy),
+    hasEgg: String(fields.hasEgg),
+    withoutDairy: String(fields.withoutDairy),
+    withoutEgg: String(fields.withoutEgg),
+    notFlavor: String(fields.notFlavor),
+    boxEligible: String(fields.boxEligible),
+});
+
+/**
+ * Builds Stripe Price metadata from typed price option fields.
+ * @param fields The price option fields.
+ * @returns A metadata object suitable for stripe.prices.create/update.
+ */
+export const buildPriceMetadata = (fields: PriceMetadataFields): Record<string, string> => ({
+    packSize: toMetadataString(fields.packSize),
+    unitDescription: toMetadataString(fields.unitDescription),
+    displayName: toMetadataString(fields.displayName),
+    subscriptionId: toMetadataString(fields.subscriptionId),
+    boxSize: fields.boxSize ? String(fields.boxSize) : '',
+});
+
+/**
+ * Maps a local Price row to the PriceOption structure used by the frontend.
+ * @param price The Price row.
+ * @param defaultPriceId The default price ID of the owning product.
+ * @param stockAvailable Sellable units for tracked prices (see services/inventory.ts).
+ */
+const mapPriceToOption = (price: CatalogPrice, defaultPriceId: string | null, stockAvailable: Map<string, number>): PriceOption => ({
+    priceId: price.id,
+    price: formatPrice(price.unitAmount),
+    currency: price.currency,
+    packSize: getMetadataValue(price.metadata, 'packSize') || null,
+    unitDescription: getMetadataValue(price.metadata, 'unitDescription') || null,
+    displayName: getMetadataValue(price.metadata, 'displayName') || null,
+    isDefault: defaultPriceId === price.id,
+    isSubscription: price.recurringInterval !== null,
+    recurringInterval: price.recurringInterval,
+    recurringIntervalCount: price.recurringInterval !== null ? (price.recurringIntervalCount ?? 1) : null,
+    subscriptionId: getMetadataValue(price.metadata, 'subscriptionId') || null,
+    boxSize: price.recurringInterval !== null ? getIntMetadataValue(price.metadata, 'boxSize') : null,
+    stockAvailable: stockAvailable.has(price.id) ? stockAvailable.get(price.id)! : null,
+});
+
+/**
+ * Maps a local Product row (with prices) to the Flavor interface.
+ * Returns null for products flagged with `notFlavor` or without active prices.
+ * @param product The Product row including its prices.
+ * @param stockAvailable Sellable units for tracked prices, keyed by price ID.
+ */
+export const mapProductToFlavor = (product: CatalogProduct, stockAvailable: Map<string, number> = new Map()): Flavor | null => {
+    if (parseBooleanMetadata(getMetadataValue(product.metadata, 'notFlavor'))) {
+        return null;
+    }
+
+    const activePrices = product.prices.filter(price => price.active);
+    if (activePrices.length === 0) {
+        return null;
+    }
+
+    return {
+        id: product.id,
+        name: product.name,
+        simpleName: getMetadataValue(product.metadata, 'simpleName') || product.name,
+        description: product.description || null,
+        hasDairy: parseBooleanMetadata(getMetadataValue(product.metadata, 'hasDairy')),
+        hasEgg: parseBooleanMetadata(getMetadataValue(product.metadata, 'hasEgg')),
+        withoutDairy: parseBooleanMetadata(getMetadataValue(product.metadata, 'withoutDairy')),
+        withoutEgg: parseBooleanMetadata(getMetadataValue(product.metadata, 'withoutEgg')),
+        boxEligible: parseBooleanMetadata(getMetadataValue(product.metadata, 'boxEligible')),
+        imageSrc: product.images.length > 0 ? product.images[0] : null,
+        prices: activePrices.map(price => mapPriceToOption(price, product.defaultPriceId, stockAvailable)),
+        slug: getMetadataValue(product.metadata, 'slug') || null
+    };
+};
+
+/**
+ * Loads active products and their active prices from the local catalog tables
+ * and maps them to the Flavor interface. The tables are kept in sync with Stripe
+ * by the catalog sync job and product/price webhooks (see services/catalogSync.ts).
+ *
+ * @returns A promise that resolves to an array of Flavors.
+ */
+export const getCatalogFlavors = async (): Promise<Flavor[]> => {
+    try {
+        const products = await prisma.product.findMany({
+            where: { active: true },
+            include: { prices: { where: { active: true }, orderBy: { unitAmount: 'asc' } } },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        const stockAvailable = await getAvailableStock();
+
+        // Filter out any nulls (products skipped due to no prices OR 'notFlavor' metadata)
+        return products
+            .map(product => mapProductToFlavor(product, stockAvailable))
+            .filter((flavor): flavor is Flavor => flavor !== null);
+
+    } catch (error) {
+        console.error("Error loading products from the local catalog:", error);
+        return [];
+    }
+};
@@ -1,6 +1,7 @@
 import prisma from '../db';
 import crypto from 'crypto';
 import { CartItem } from '../../context/CartContext'; // Reusing frontend type
+import { AppliedPromo } from '../services/promoCodes';
 
 // Define the structure of the data we expect to store
 // This should match the data constructed in /api/stripe/initiate-checkout
@@ -20,6 +21,18 @@ interface CheckoutContext {
     notes?: string;
     selectedCardId?: string; // Added: Stripe PaymentMethod ID if user selected a saved card
     saveNewCardForFuture?: boolean; // Added: Flag if user wants to save the new card
+    shipping?: { // Added: Shipping method priced by the shipping rules engine
+        methodId: string;
+        name: string;
+        amountCent: number;
+        estimatedShipDate?: string; // "YYYY-MM-DD"
+        estimatedDeliveryDate?: string; // "YYYY-MM-DD"
+    };
+    promo?: AppliedPromo | null; // Added: Promo code applied when the PaymentIntent amount was built
+    taxCent?: number; // Added: Sales tax (cents) included in the PaymentIntent amount
+    taxRate?: number | null; // Added: Tax rate applied, null when no tax was charged
+    recoveryReminderId?: number | null; // Added: CheckoutReminder whose link the customer followed (recovery tracking)
+    giftCard?: { code: string; amountCent: number } | null; // Added: Gift card share of the total, redeemed when the order is created
 }
 
 /**
@@ -0,0 +1,503 @@
+import { escapeHtml } from './html';
+import { getTrackingUrl } from '../../utils/shipments';
+
+// What every template returns; passed straight to sendEmail()
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+export interface EmailLineItem {
+    name: string;
+    quantity: number;
+    unitPrice?: number; // Dollars. Omitted where prices shouldn't be shown
+}
+
+const STORE_NAME = 'Abominable Creamery';
+const getFrontendUrl = (): string => process.env.FRONTEND_URL || 'http://localhost:3000';
+
+const formatMoney = (amount: number): string => `$${amount.toFixed(2)}`;
+
+// @db.Date columns come back as UTC midnight, so format in UTC to keep the calendar date
+const formatDate = (date: Date): string =>
+    date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+// --- Layout helpers ---
+
+const button = (label: string, url: string): string =>
+    `<p style="margin: 24px 0;"><a href="${escapeHtml(url)}" style="background: #4f46e5; color: #ffffff; padding: 10px 18px; border-radius: 6px; text-decoration: none; font-weight: bold;">${escapeHtml(label)}</a></p>`;
+
+const itemsTable = (items: EmailLineItem[]): string => `
+    <table style="width: 100%; border-collapse: collapse; font-size: 14px; margin: 16px 0;">
+        ${items.map(item => `
+        <tr>
+            <td style="padding: 6px 0; border-bottom: 1px solid #e2e8f0;">${item.quantity} × ${escapeHtml(item.name)}</td>
+            <td style="padding: 6px 0; border-bottom: 1px solid #e2e8f0; text-align: right;">${item.unitPrice !== undefined ? formatMoney(item.unitPrice * item.quantity) : ''}</td>
+        </tr>`).join('')}
+    </table>`;
+
+const itemsText = (items: EmailLineItem[]): string =>
+    items.map(item => `- ${item.quantity} x ${item.name}${item.unitPrice !== undefined ? ` (${formatMoney(item.unitPrice * item.quantity)})` : ''}`).join('\n');
+
+// Wraps body HTML in the shared header/footer (footerHtml replaces the default "why you got this" line)
+const layout = (title: string, bodyHtml: string, footerHtml?: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="margin: 0; padding: 0; background: #f1f5f9; font-family: Helvetica, Arial, sans-serif; color: #1e293b;">
+    <div style="max-width: 560px; margin: 0 auto; padding: 24px;">
+        <h1 style="font-size: 20px; margin: 0 0 16px;">${STORE_NAME}</h1>
+        <div style="background: #ffffff; border-radius: 8px; padding: 24px; font-size: 15px; line-height: 1.5;">
+            ${bodyHtml}
+        </div>
+        <p style="font-size: 12px; color: #64748b; margin-top: 16px;">${footerHtml ?? `You're receiving this email because of an order or subscription with ${STORE_NAME}.`}</p>
+    </div>
+</body>
+</html>`;
+
+const textFooter = `\n\n-- \n${STORE_NAME}`;
+
+// --- Order emails ---
+
+export interface OrderPaidEmailData {
+    orderId: number;
+    customerName: string | null;
+    items: EmailLineItem[];
+    shippingCost: number;
+    discountAmount: number;
+    taxAmount: number;
+    totalAmount: number;
+    shippingMethodName: string | null;
+    estimatedDeliveryDate: Date | null;
+    giftRecipientName?: string | null; // Set for gift orders, which ship to someone else
+}
+
+export const renderOrderPaidEmail = (data: OrderPaidEmailData): RenderedEmail => {
+    const subject = `Your ${STORE_NAME} order #${data.orderId} is confirmed`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const totals: [string, number][] = [['Shipping', data.shippingCost]];
+    if (data.discountAmount > 0) totals.push(['Discount', -data.discountAmount]);
+    if (data.taxAmount > 0) totals.push(['Tax', data.taxAmount]);
+    const delivery = data.estimatedDeliveryDate ? `Estimated delivery: ${formatDate(data.estimatedDeliveryDate)}` : null;
+    const gift = data.giftRecipientName ? `It will ship as a gift to ${data.giftRecipientName}.` : null;
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>Thanks for your order! We've received your payment and will start packing it soon.</p>
+        ${gift ? `<p>${escapeHtml(gift)}</p>` : ''}
+        ${itemsTable(data.items)}
+        ${totals.map(([label, amount]) => `<p style="margin: 2px 0; text-align: right;">${label}: ${amount < 0 ? `-${formatMoney(-amount)}` : formatMoney(amount)}</p>`).join('')}
+        <p style="margin: 8px 0; text-align: right; font-weight: bold;">Total: ${formatMoney(data.totalAmount)}</p>
+        ${data.shippingMethodName ? `<p>Shipping method: ${escapeHtml(data.shippingMethodName)}</p>` : ''}
+        ${delivery ? `<p>${escapeHtml(delivery)}</p>` : ''}
+        ${button('View your order', `${getFrontendUrl()}/profile`)}`);
+
+    const text = [
+        greeting,
+        '',
+        `Thanks for your order! We've received your payment for order #${data.orderId} and will start packing it soon.`,
+        gift ? `${gift}\n` : '',
+        itemsText(data.items),
+        '',
+        ...totals.map(([label, amount]) => `${label}: ${amount < 0 ? `-${formatMoney(-amount)}` : formatMoney(amount)}`),
+        `Total: ${formatMoney(data.totalAmount)}`,
+        data.shippingMethodName ? `Shipping method: ${data.shippingMethodName}` : '',
+        delivery || '',
+        '',
+        `View your order: ${getFrontendUrl()}/profile`,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+export interface OrderShippedEmailData {
+    orderId: number;
+    customerName: string | null;
+    carrier: string;
+    trackingNumber: string | null;
+    items: EmailLineItem[];
+    isFinalShipment: boolean; // False when more packages are still to come
+}
+
+export const renderOrderShippedEmail = (data: OrderShippedEmailData): RenderedEmail => {
+    const subject = data.isFinalShipment
+        ? `Your ${STORE_NAME} order #${data.orderId} has shipped`
+        : `Part of your ${STORE_NAME} order #${data.orderId} has shipped`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const trackingUrl = getTrackingUrl(data.carrier, data.trackingNumber);
+    const trackingLine = data.trackingNumber ? `${data.carrier} tracking number: ${data.trackingNumber}` : `Shipped with ${data.carrier}.`;
+    const remainderNote = data.isFinalShipment ? '' : 'The rest of your order will follow in a separate package.';
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>Good news: your ice cream is on its way, packed in dry ice. Please put it in the freezer as soon as it arrives.</p>
+        ${itemsTable(data.items)}
+        <p>${escapeHtml(trackingLine)}</p>
+        ${remainderNote ? `<p>${escapeHtml(remainderNote)}</p>` : ''}
+        ${trackingUrl ? button('Track your package', trackingUrl) : button('View your order', `${getFrontendUrl()}/profile`)}`);
+
+    const text = [
+        greeting,
+        '',
+        `Good news: your ice cream from order #${data.orderId} is on its way, packed in dry ice. Please put it in the freezer as soon as it arrives.`,
+        '',
+        itemsText(data.items),
+        '',
+        trackingLine,
+        trackingUrl ? `Track your package: ${trackingUrl}` : `View your order: ${getFrontendUrl()}/profile`,
+        remainderNote,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+export interface OrderRefundedEmailData {
+    orderId: number;
+    customerName: string | null;
+    amount: number;
+    items: EmailLineItem[]; // Empty for amount-only refunds
+    isOrderCanceled: boolean;
+}
+
+export const renderOrderRefundedEmail = (data: OrderRefundedEmailData): RenderedEmail => {
+    const subject = data.isOrderCanceled
+        ? `Your ${STORE_NAME} order #${data.orderId} has been canceled`
+        : `A refund has been issued for order #${data.orderId}`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const intro = data.isOrderCanceled
+        ? `Your order #${data.orderId} has been canceled and ${formatMoney(data.amount)} has been refunded to your original payment method.`
+        : `We've refunded ${formatMoney(data.amount)} for order #${data.orderId} to your original payment method.`;
+    const timing = 'Refunds usually appear on your statement within 5 to 10 business days.';
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        ${data.items.length > 0 ? itemsTable(data.items) : ''}
+        <p>${escapeHtml(timing)}</p>
+        ${button('View your order', `${getFrontendUrl()}/profile`)}`);
+
+    const text = [
+        greeting,
+        '',
+        intro,
+        data.items.length > 0 ? `\n${itemsText(data.items)}\n` : '',
+        timing,
+        '',
+        `View your order: ${getFrontendUrl()}/profile`,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+// --- Subscription & billing emails ---
+
+export interface SubscriptionRenewedEmailData {
+    orderId: number;
+    customerName: string | null;
+    items: EmailLineItem[];
+    totalAmount: number;
+    nextRenewalDate: Date | null;
+    needsAddress?: boolean; // There was no shipping address, so the delivery waits until one is added
+}
+
+export const renderSubscriptionRenewedEmail = (data: SubscriptionRenewedEmailData): RenderedEmail => {
+    const subject = data.needsAddress
+        ? `Action needed: where should we send your ${STORE_NAME} delivery?`
+        : `Your ${STORE_NAME} subscription has renewed`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const intro = `Your subscription renewed and we charged ${formatMoney(data.totalAmount)}. Your next delivery is order #${data.orderId}.`;
+    const addressLine = data.needsAddress
+        ? "We don't have a shipping address for it yet. Please choose one for your subscription on your profile page and we'll send it out."
+        : '';
+    const nextLine = data.nextRenewalDate ? `Your next renewal is on ${formatDate(data.nextRenewalDate)}.` : '';
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        ${addressLine ? `<p><strong>${escapeHtml(addressLine)}</strong></p>` : ''}
+        ${itemsTable(data.items)}
+        ${nextLine ? `<p>${escapeHtml(nextLine)}</p>` : ''}
+        ${button(data.needsAddress ? 'Add a shipping address' : 'Manage your subscription', `${getFrontendUrl()}/profile`)}`);
+
+    const text = [
+        greeting,
+        '',
+        intro,
+        ...(addressLine ? ['', addressLine] : []),
+        '',
+        itemsText(data.items),
+        '',
+        nextLine,
+        `${data.needsAddress ? 'Add a shipping address' : 'Manage your subscription'}: ${getFrontendUrl()}/profile`,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+export interface RenewalPaymentFailedEmailData {
+    customerName: string | null;
+    productName: string;
+    amountDue: number;
+    nextAttemptDate: Date | null; // Null when Stripe won't retry
+    updatePaymentUrl: string;
+    requiresAction?: boolean; // The bank wants the customer to confirm the payment
+}
+
+export const renderRenewalPaymentFailedEmail = (data: RenewalPaymentFailedEmailData): RenderedEmail => {
+    const subject = data.requiresAction
+        ? `Please confirm your ${STORE_NAME} subscription payment`
+        : `Action needed: we couldn't renew your ${STORE_NAME} subscription`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const intro = data.requiresAction
+        ? `Your bank needs you to confirm the ${formatMoney(data.amountDue)} payment for your ${data.productName} subscription before it can go through.`
+        : `We tried to charge ${formatMoney(data.amountDue)} for your ${data.productName} subscription, but the payment didn't go through.`;
+    const retryLine = data.nextAttemptDate
+        ? `We'll try again on ${formatDate(data.nextAttemptDate)}. Updating your card before then keeps your deliveries on schedule.`
+        : 'Please update your payment method to keep your subscription active.';
+    const buttonLabel = data.requiresAction ? 'Confirm payment' : 'Update payment method';
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        <p>${escapeHtml(retryLine)}</p>
+        ${button(buttonLabel, data.updatePaymentUrl)}`);
+
+    const text = [greeting, '', intro, '', retryLine, '', `${buttonLabel}: ${data.updatePaymentUrl}`].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+export interface CardExpiringEmailData {
+    customerName: string | null;
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+    hasActiveSubscription: boolean;
+}
+
+export const renderCardExpiringEmail = (data: CardExpiringEmailData): RenderedEmail => {
+    const subject = `Your saved card ending in ${data.last4} expires soon`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const brand = data.brand.charAt(0).toUpperCase() + data.brand.slice(1);
+    const intro = `The ${brand} card ending in ${data.last4} saved to your account expires at the end of ${String(data.expMonth).padStart(2, '0')}/${data.expYear}.`;
+    const impact = data.hasActiveSubscription
+        ? 'It is used for your subscription, so please add a new card to avoid missed deliveries.'
+        : 'Add a new card to keep checkout quick.';
+    const url = `${getFrontendUrl()}/profile`;
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        <p>${escapeHtml(impact)}</p>
+        ${button('Update your card', url)}`);
+
+    const text = [greeting, '', intro, impact, '', `Update your card: ${url}`].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+export interface SubscriptionCanceledEmailData {
+    customerName: string | null;
+    productName: string;
+    forNonPayment?: boolean; // Canceled after the final renewal payment attempt failed
+}
+
+export const renderSubscriptionCanceledEmail = (data: SubscriptionCanceledEmailData): RenderedEmail => {
+    const subject = `Your ${STORE_NAME} subscription has been canceled`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const intro = data.forNonPayment
+        ? `We couldn't collect the renewal payment for your ${data.productName} subscription after several attempts, so it has been canceled. You won't be charged again.`
+        : `Your ${data.productName} subscription has been canceled and you won't be charged again.`;
+    const outro = 'We hope to see you back soon. You can start a new subscription from the shop at any time.';
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        <p>${escapeHtml(outro)}</p>
+        ${button('Visit the shop', getFrontendUrl())}`);
+
+    const text = [greeting, '', intro, outro, '', `Visit the shop: ${getFrontendUrl()}`].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+export interface GiftCardEmailData {
+    recipientName: string | null;
+    senderName: string | null;
+    message: string | null;
+    code: string;
+    amount: number;
+}
+
+export const renderGiftCardEmail = (data: GiftCardEmailData): RenderedEmail => {
+    const from = data.senderName || 'Someone';
+    const subject = `${from} sent you a ${formatMoney(data.amount)} ${STORE_NAME} gift card`;
+    const greeting = `Hi ${data.recipientName || 'there'},`;
+    const intro = `${from} sent you a ${formatMoney(data.amount)} gift card. Enter the code below in the payment step at checkout.`;
+    const url = `${getFrontendUrl()}/flavors`;
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        ${data.message ? `<p style="padding: 12px; border-left: 3px solid #6366f1; white-space: pre-line;">${escapeHtml(data.message)}</p>` : ''}
+        <p style="font-size: 22px; font-weight: bold; letter-spacing: 2px; text-align: center;">${escapeHtml(data.code)}</p>
+        <p style="font-size: 13px; color: #64748b;">Any balance left after an order stays on the card for next time.</p>
+        ${button('Start shopping', url)}`);
+
+    const text = [
+        greeting, '', intro, '',
+        data.message ? `"${data.message}"\n` : '',
+        `Gift card code: ${data.code}`, '',
+        'Any balance left after an order stays on the card for next time.', '',
+        `Start shopping: ${url}`,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+// --- Account emails ---
+
+export interface EmailVerificationEmailData {
+    customerName: string | null;
+    verifyUrl: string;
+    expiresInHours: number;
+}
+
+export const renderEmailVerificationEmail = (data: EmailVerificationEmailData): RenderedEmail => {
+    const subject = `Confirm your email for ${STORE_NAME}`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const intro = 'Please confirm this is your email address. We send receipts and password reset links here, and you need a confirmed address to start a subscription or save a card.';
+    const outro = `The link works for ${data.expiresInHours} hours. If you didn't create an account, you can ignore this email.`;
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        ${button('Confirm email', data.verifyUrl)}
+        <p style="font-size: 13px; color: #64748b;">${escapeHtml(outro)}</p>`,
+        `You're receiving this email because this address was used for an account with ${STORE_NAME}.`);
+
+    const text = [
+        greeting, '', intro, '',
+        `Confirm email: ${data.verifyUrl}`, '', outro,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+export interface MagicLinkEmailData {
+    customerName: string | null;
+    loginUrl: string;
+    expiresInMinutes: number;
+}
+
+export const renderMagicLinkEmail = (data: MagicLinkEmailData): RenderedEmail => {
+    const subject = `Your ${STORE_NAME} login link`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const intro = 'Use the button below to log in to your account. No password needed.';
+    const outro = `The link works once, for ${data.expiresInMinutes} minutes. If you didn't ask for it, you can ignore this email; nobody can log in without it.`;
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        ${button('Log in', data.loginUrl)}
+        <p style="font-size: 13px; color: #64748b;">${escapeHtml(outro)}</p>`,
+        `You're receiving this email because a login link was requested for your ${STORE_NAME} account.`);
+
+    const text = [
+        greeting, '', intro, '',
+        `Log in: ${data.loginUrl}`, '', outro,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+export interface AccountLockedEmailData {
+    customerName: string | null;
+    failedAttempts: number;
+    lockedMinutes: number;
+    wrongTwoFactorCodes?: boolean; // Locked for wrong two-factor codes after the right password, not wrong passwords
+}
+
+export const renderAccountLockedEmail = (data: AccountLockedEmailData): RenderedEmail => {
+    const subject = `Your ${STORE_NAME} account is temporarily locked`;
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const intro = data.wrongTwoFactorCodes
+        ? `Someone logged in to your account with the right password but entered the wrong two-factor code ${data.failedAttempts} times, so we've locked logins for ${data.lockedMinutes} minutes.`
+        : `Someone entered the wrong password for your account ${data.failedAttempts} times, so we've locked password logins for ${data.lockedMinutes} minutes.`;
+    const advice = data.wrongTwoFactorCodes
+        ? "If this wasn't you, someone knows your password: please reset it now and choose one you don't use anywhere else. Your two-factor authentication kept them out."
+        : "If this was you, you can reset your password or ask for a login link from the login window to get in right away. If it wasn't you, your account is safe, but we recommend choosing a new password that you don't use anywhere else.";
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        <p>${escapeHtml(advice)}</p>`,
+        `You're receiving this email because of failed logins to your ${STORE_NAME} account.`);
+
+    const text = [
+        greeting, '', intro, '', advice,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+// --- Store admin emails ---
+
+export interface OrderOnHoldAdminEmailData {
+    orderId: number;
+    contactEmail: string;
+    totalAmount: number;
+    holdReason: string;
+}
+
+export const renderOrderOnHoldAdminEmail = (data: OrderOnHoldAdminEmailData): RenderedEmail => {
+    const subject = `Order #${data.orderId} is on hold`;
+    const intro = `Order #${data.orderId} (${formatMoney(data.totalAmount)}, ${data.contactEmail}) has been paid but is held back from fulfillment.`;
+    const outro = 'Release the hold from the admin orders page once this is sorted out, or cancel the order to refund it.';
+
+    const html = layout(subject, `
+        <p>${escapeHtml(intro)}</p>
+        <p><strong>${escapeHtml(data.holdReason)}</strong></p>
+        <p>${escapeHtml(outro)}</p>
+        ${button('Open the orders page', `${getFrontendUrl()}/profile`)}`,
+        `You're receiving this email because you're an admin of ${STORE_NAME}.`);
+
+    const text = [
+        intro, '', data.holdReason, '', outro, `Orders: ${getFrontendUrl()}/profile`,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
+
+// --- Marketing emails ---
+
+export interface AbandonedCheckoutEmailData {
+    customerName: string | null;
+    items: EmailLineItem[];
+    recoverUrl: string;
+    unsubscribeUrl: string;
+}
+
+export const renderAbandonedCheckoutEmail = (data: AbandonedCheckoutEmailData): RenderedEmail => {
+    const subject = 'You left something in your cart';
+    const greeting = `Hi ${data.customerName || 'there'},`;
+    const intro = "You didn't finish checking out. Your cart is saved, and the link below puts everything back in it.";
+    const outro = "Prices and availability may have changed since you started; we'll let you know if anything did.";
+
+    const html = layout(subject, `
+        <p>${escapeHtml(greeting)}</p>
+        <p>${escapeHtml(intro)}</p>
+        ${itemsTable(data.items)}
+        ${button('Return to your cart', data.recoverUrl)}
+        <p style="font-size: 13px; color: #64748b;">${escapeHtml(outro)}</p>`,
+        `You're receiving this email because you started a checkout with ${STORE_NAME}. <a href="${escapeHtml(data.unsubscribeUrl)}" style="color: #64748b;">Unsubscribe from cart reminders</a>.`);
+
+    const text = [
+        greeting, '', intro, '', itemsText(data.items), '',
+        `Return to your cart: ${data.recoverUrl}`, '', outro, '',
+        `Unsubscribe from cart reminders: ${data.unsubscribeUrl}`,
+    ].join('\n') + textFooter;
+
+    return { subject, html, text };
+};
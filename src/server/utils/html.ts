@@ -0,0 +1,8 @@
+// Escapes text for safe use in server-rendered HTML (packing slips, emails)
+export const escapeHtml = (value: string | number | null | undefined): string =>
+    String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
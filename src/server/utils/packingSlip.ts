@@ -0,0 +1,143 @@
+import { Prisma } from '@prisma/client';
+import { isShippingLineItem } from '../../utils/shipments';
+import { escapeHtml } from './html';
+
+// Fields needed to render a packing slip
+export const packingSlipOrderSelect = {
+    id: true,
+    status: true,
+    createdAt: true,
+    contactEmail: true,
+    contactPhone: true,
+    shippingName: true,
+    shippingAddress1: true,
+    shippingAddress2: true,
+    shippingCity: true,
+    shippingState: true,
+    shippingPostalCode: true,
+    shippingCountry: true,
+    shippingMethodName: true,
+    estimatedShipDate: true,
+    estimatedDeliveryDate: true,
+    notes: true,
+    isGift: true,
+    giftMessage: true,
+    giftHidePrices: true,
+    items: {
+        select: {
+            id: true,
+            productId: true,
+            productName: true,
+            quantity: true,
+            price: true,
+            shipmentItems: { select: { quantity: true } },
+        },
+    },
+} satisfies Prisma.OrderSelect;
+
+export type PackingSlipOrder = Prisma.OrderGetPayload<{ select: typeof packingSlipOrderSelect }>;
+
+// @db.Date columns come back as UTC midnight, so format in UTC to keep the calendar date
+const formatSlipDate = (date: Date | null): string =>
+    date ? date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' }) : '';
+
+const renderPackingSlip = (order: PackingSlipOrder): string => {
+    // The slip goes in the box, so gift orders can leave the prices off for the recipient
+    const showPrices = !(order.isGift && order.giftHidePrices);
+    const rows = order.items
+        .filter(item => !isShippingLineItem(item))
+        .map(item => {
+            const shipped = item.shipmentItems.reduce((sum, shipmentItem) => sum + shipmentItem.quantity, 0);
+            const toPack = Math.max(0, item.quantity - shipped);
+            return `
+                <tr${toPack === 0 ? ' class="done"' : ''}>
+                    <td class="check">&#9744;</td>
+                    <td>${escapeHtml(item.productName)}</td>
+                    <td class="num">${item.quantity}</td>
+                    <td class="num">${shipped}</td>
+                    <td class="num strong">${toPack}</td>
+                    ${showPrices ? `<td class="num">$${new Prisma.Decimal(item.price).toFixed(2)}</td>` : ''}
+                </tr>`;
+        })
+        .join('');
+
+    const cityLine = [order.shippingCity, order.shippingState].filter(Boolean).join(', ') + (order.shippingPostalCode ? ` ${order.shippingPostalCode}` : '');
+
+    return `
+        <section class="slip">
+            <header>
+                <div>
+                    <h1>Abominable Creamery</h1>
+                    <p>Packing Slip</p>
+                </div>
+                <div class="meta">
+                    <p><strong>Order #${order.id}</strong></p>
+                    <p>Placed ${order.createdAt.toLocaleDateString('en-US')}</p>
+                    <p>Status: ${escapeHtml(order.status)}</p>
+                </div>
+            </header>
+            <div class="columns">
+                <div>
+                    <h2>Ship To</h2>
+                    <p>${escapeHtml(order.shippingName)}</p>
+                    <p>${escapeHtml(order.shippingAddress1)}${order.shippingAddress2 ? `, ${escapeHtml(order.shippingAddress2)}` : ''}</p>
+                    <p>${escapeHtml(cityLine)}</p>
+                    <p>${escapeHtml(order.shippingCountry)}</p>
+                    ${order.isGift ? '' : `<p>${escapeHtml(order.contactPhone)}</p>`}
+                </div>
+                <div>
+                    <h2>Shipping</h2>
+                    <p>${escapeHtml(order.shippingMethodName) || 'Not specified'}</p>
+                    ${order.estimatedShipDate ? `<p>Ship by ${formatSlipDate(order.estimatedShipDate)}</p>` : ''}
+                    ${order.estimatedDeliveryDate ? `<p>Deliver by ${formatSlipDate(order.estimatedDeliveryDate)}</p>` : ''}
+                </div>
+            </div>
+            <table>
+                <thead>
+                    <tr><th></th><th>Item</th><th class="num">Ordered</th><th class="num">Shipped</th><th class="num">To Pack</th>${showPrices ? '<th class="num">Unit Price</th>' : ''}</tr>
+                </thead>
+                <tbody>${rows}</tbody>
+            </table>
+            ${order.isGift ? `<div class="gift"><h2>A Gift For You</h2>${order.giftMessage ? `<p>${escapeHtml(order.giftMessage)}</p>` : ''}</div>` : ''}
+            ${order.notes ? `<div class="notes"><h2>Customer Notes</h2><p>${escapeHtml(order.notes)}</p></div>` : ''}
+            <p class="footer">Keep frozen. Pack with dry ice and seal the insulated liner before boxing.</p>
+        </section>`;
+};
+
+/**
+ * Renders printable packing slips (one per page) as a standalone HTML document.
+ * Quantities already covered by earlier shipments are shown so partial shipments can be packed.
+ *
+ * @param orders Orders selected with packingSlipOrderSelect.
+ * @returns An HTML page that opens the print dialog when loaded.
+ */
+export const renderPackingSlips = (orders: PackingSlipOrder[]): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Packing Slips (${orders.length})</title>
+    <style>
+        body { font-family: Helvetica, Arial, sans-serif; color: #1e293b; margin: 0; }
+        .slip { padding: 32px; page-break-after: always; }
+        .slip:last-child { page-break-after: auto; }
+        header { display: flex; justify-content: space-between; border-bottom: 2px solid #1e293b; padding-bottom: 12px; }
+        h1 { margin: 0; font-size: 22px; }
+        h2 { font-size: 13px; text-transform: uppercase; color: #64748b; margin: 0 0 4px; }
+        p { margin: 2px 0; font-size: 14px; }
+        .meta { text-align: right; }
+        .columns { display: flex; gap: 48px; margin: 20px 0; }
+        table { width: 100%; border-collapse: collapse; font-size: 14px; }
+        th, td { border-bottom: 1px solid #cbd5e1; padding: 8px 6px; text-align: left; }
+        .num { text-align: right; }
+        .strong { font-weight: bold; }
+        .check { width: 24px; font-size: 18px; }
+        tr.done { color: #94a3b8; }
+        .notes { margin-top: 20px; padding: 12px; border: 1px dashed #94a3b8; }
+        .gift { margin-top: 20px; padding: 12px; border: 2px solid #1e293b; white-space: pre-line; }
+        .footer { margin-top: 24px; font-size: 12px; color: #64748b; }
+    </style>
+</head>
+<body onload="window.print()">
+${orders.length > 0 ? orders.map(renderPackingSlip).join('\n') : '<p style="padding: 32px">No orders to pack.</p>'}
+</body>
+</html>`;
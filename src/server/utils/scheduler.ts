@@ -0,0 +1,92 @@
+import { Client } from 'pg';
+
+// Minimal in-process job scheduler. Each run takes a Postgres advisory lock named after the job,
+// so with several server instances (or a CLI run alongside them) only one copy runs at a time.
+
+export interface ScheduledJob {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<unknown>; // Whatever it returns is logged as the run's result
+    timeoutMs?: number; // Runs longer than this are logged as overdue (default 10 minutes)
+}
+
+export type JobRunResult =
+    | { status: 'completed'; result: unknown; durationMs: number }
+    | { status: 'skipped' } // Another instance holds the lock
+    | { status: 'failed'; error: unknown };
+
+const DEFAULT_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+// Delay before the first run after startup, so jobs don't compete with the server coming up
+const STARTUP_DELAY_MS = 30 * 1000;
+
+const timers: NodeJS.Timeout[] = [];
+const runningJobs = new Set<string>();
+
+/**
+ * Runs a job once if no other process is running it.
+ * The lock is session-level (pg_try_advisory_lock) on a connection opened just for this run, so it is
+ * held for as long as the job takes and released when the connection closes, even if this process dies mid-run.
+ */
+export const runJobWithLock = async (job: ScheduledJob): Promise<JobRunResult> => {
+    if (runningJobs.has(job.name)) {
+        return { status: 'skipped' };
+    }
+    runningJobs.add(job.name);
+    const startedAt = Date.now();
+    // The job uses its own connections; this one only holds the lock
+    const lockConnection = new Client({ connectionString: process.env.DATABASE_URL });
+    try {
+        await lockConnection.connect();
+        const lockKey = `job:${job.name}`;
+        const { rows: [{ locked }] } = await lockConnection.query<{ locked: boolean }>('SELECT pg_try_advisory_lock(hashtext($1)) AS locked', [lockKey]);
+        if (!locked) {
+            console.log(`[Scheduler] ${job.name}: skipped, already running elsewhere.`);
+            return { status: 'skipped' };
+        }
+
+        // The job isn't interrupted; the lock stays held until it really finishes
+        const timeoutMs = job.timeoutMs ?? DEFAULT_JOB_TIMEOUT_MS;
+        const overdueTimer = setTimeout(() => {
+            console.warn(`[Scheduler] ${job.name}: still running after ${Math.round(timeoutMs / 60000)} min.`);
+        }, timeoutMs);
+        overdueTimer.unref();
+        let result: unknown;
+        try {
+            result = await job.run();
+        } finally {
+            clearTimeout(overdueTimer);
+            await lockConnection.query('SELECT pg_advisory_unlock(hashtext($1))', [lockKey]);
+        }
+
+        const durationMs = Date.now() - startedAt;
+        console.log(`[Scheduler] ${job.name}: completed in ${durationMs}ms`, result ?? '');
+        return { status: 'completed', result, durationMs };
+    } catch (error) {
+        console.error(`[Scheduler] ${job.name}: failed:`, error);
+        return { status: 'failed', error };
+    } finally {
+        runningJobs.delete(job.name);
+        await lockConnection.end().catch(() => undefined);
+    }
+};
+
+/**
+ * Starts running each job on its interval. Timers are unref'd so they never keep the process alive.
+ */
+export const startScheduler = (jobs: ScheduledJob[]): void => {
+    for (const job of jobs) {
+        const first = setTimeout(() => { runJobWithLock(job); }, STARTUP_DELAY_MS);
+        const repeat = setInterval(() => { runJobWithLock(job); }, job.intervalMs);
+        first.unref();
+        repeat.unref();
+        timers.push(first, repeat);
+    }
+    console.log(`[Scheduler] Started ${jobs.length} job(s): ${jobs.map(job => `${job.name} (every ${Math.round(job.intervalMs / 60000)} min)`).join(', ')}`);
+};
+
+/**
+ * Stops all scheduled runs (runs already in progress finish normally).
+ */
+export const stopScheduler = (): void => {
+    timers.splice(0).forEach(timer => clearTimeout(timer));
+};
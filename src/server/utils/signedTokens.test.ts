@@ -0,0 +1,63 @@
+import { createSignedToken, verifySignedToken } from './signedTokens';
+
+beforeAll(() => {
+    process.env.LINK_SIGNING_SECRET = 'test-link-secret';
+});
+
+afterEach(() => {
+    jest.useRealTimers();
+});
+
+describe('signed tokens', () => {
+    it('returns the data it was created with', () => {
+        const token = createSignedToken('cart-recovery', { cartId: 42 }, 60 * 1000);
+        expect(verifySignedToken('cart-recovery', token)).toMatchObject({ cartId: 42 });
+    });
+
+    it('rejects a token issued for another purpose', () => {
+        const token = createSignedToken('cart-recovery', { cartId: 42 }, null);
+        expect(verifySignedToken('unsubscribe', token)).toBeNull();
+    });
+
+    it('rejects a token whose payload was changed', () => {
+        const token = createSignedToken('unsubscribe', { userId: 1 }, null);
+        const signature = token.split('.')[1];
+        const forged = Buffer.from(JSON.stringify({ userId: 2 })).toString('base64url');
+        expect(verifySignedToken('unsubscribe', `${forged}.${signature}`)).toBeNull();
+    });
+
+    it('rejects a token signed with another secret', () => {
+        const token = createSignedToken('unsubscribe', { userId: 1 }, null);
+        process.env.LINK_SIGNING_SECRET = 'rotated-secret';
+        try {
+            expect(verifySignedToken('unsubscribe', token)).toBeNull();
+        } finally {
+            process.env.LINK_SIGNING_SECRET = 'test-link-secret';
+        }
+    });
+
+    it('rejects malformed tokens', () => {
+        expect(verifySignedToken('unsubscribe', '')).toBeNull();
+        expect(verifySignedToken('unsubscribe', 'no-signature')).toBeNull();
+        expect(verifySignedToken('unsubscribe', 'abc.def')).toBeNull();
+    });
+
+    it('expires after its lifetime', () => {
+        jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+        const token = createSignedToken('cart-recovery', { cartId: 42 }, 60 * 1000);
+
+        jest.setSystemTime(new Date('2025-06-01T12:00:59Z'));
+        expect(verifySignedToken('cart-recovery', token)).not.toBeNull();
+
+        jest.setSystemTime(new Date('2025-06-01T12:01:01Z'));
+        expect(verifySignedToken('cart-recovery', token)).toBeNull();
+    });
+
+    it('never expires without a lifetime', () => {
+        jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+        const token = createSignedToken('unsubscribe', { userId: 1 }, null);
+
+        jest.setSystemTime(new Date('2035-06-01T12:00:00Z'));
+        expect(verifySignedToken('unsubscribe', token)).toMatchObject({ userId: 1 });
+    });
+});
@@ -0,0 +1,52 @@
+import crypto from 'crypto';
+
+// Stateless tokens for links in emails: "<payload>.<HMAC-SHA256>", both base64url.
+// The purpose is part of the signature, so a token issued for one link type can't be used for another.
+
+const getSigningSecret = (): string => {
+    const secret = process.env.LINK_SIGNING_SECRET || process.env.SESSION_SECRET;
+    if (!secret) {
+        console.warn('LINK_SIGNING_SECRET and SESSION_SECRET are not set. Using an insecure development secret for signed links.');
+        return 'fallback-link-secret-for-dev-only';
+    }
+    return secret;
+};
+
+const sign = (purpose: string, payload: string): string =>
+    crypto.createHmac('sha256', getSigningSecret()).update(`${purpose}:${payload}`).digest('base64url');
+
+/**
+ * Creates a signed token carrying `data`.
+ * @param purpose What the token is for (e.g. 'cart-recovery').
+ * @param data JSON-serializable payload. Keep it small, it ends up in a URL.
+ * @param expiresInMs Lifetime, or null for a token that never expires (e.g. unsubscribe links).
+ */
+export const createSignedToken = (purpose: string, data: Record<string, unknown>, expiresInMs: number | null): string => {
+    const payload = Buffer.from(JSON.stringify({
+        ...data,
+        ...(expiresInMs !== null ? { exp: Date.now() + expiresInMs } : {}),
+    })).toString('base64url');
+    return `${payload}.${sign(purpose, payload)}`;
+};
+
+/**
+ * Checks a token's signature and expiry.
+ * @returns The payload, or null if the token is malformed, tampered with or expired.
+ */
+export const verifySignedToken = <T extends Record<string, unknown>>(purpose: string, token: string): T | null => {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return null;
+
+    const expected = Buffer.from(sign(purpose, payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (typeof data !== 'object' || data === null) return null;
+        if (typeof data.exp === 'number' && data.exp < Date.now()) return null;
+        return data as T;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthAction, startAuthAttempt, finishAuthAttempt } from '../services/authThrottle';
+
+const emailFromBody = (req: Request): string | null => (typeof req.body?.email === 'string' ? req.body.email : null);
+
+// Progressive delays and lockouts for endpoints that can be used to guess passwords or tokens
+// (services/authThrottle.ts). The attempt is recorded before the route runs, so parallel requests
+// count each other, and its outcome is filled in from the status code once the route has answered.
+// A route sets res.locals.authAttemptIncomplete when the attempt isn't over yet, so it counts neither way.
+//
+// getEmail finds the account the attempt is for; by default the email in the request body.
+export const throttle = (action: AuthAction, getEmail = emailFromBody) => async (req: Request, res: Response, next: NextFunction) => {
+    const ip = req.ip || req.socket.remoteAddress || 'unknown';
+    const email = getEmail(req);
+
+    let attemptId: number;
+    try {
+        const attempt = await startAuthAttempt(action, ip, email);
+        if (!attempt.allowed) {
+            res.set('Retry-After', String(attempt.retryAfterSeconds));
+            return res.status(429).json({ message: attempt.message });
+        }
+        attemptId = attempt.attemptId;
+    } catch (error) {
+        console.error("Auth Throttle Error:", error);
+        return res.status(500).json({ message: 'An internal error occurred. Please try again later.' });
+    }
+
+    res.on('finish', () => {
+        finishAuthAttempt(attemptId, action, email, res.locals.authAttemptIncomplete ? null : res.statusCode)
+            .catch(error => console.error("Error recording auth attempt:", error));
+    });
+    next();
+};
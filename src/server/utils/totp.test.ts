@@ -0,0 +1,50 @@
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from './totp';
+
+// The SHA1 key from the RFC 6238 test vectors ("12345678901234567890"), base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('verifyTotp', () => {
+    it.each([
+        [59, '287082'],
+        [1111111109, '081804'],
+        [1111111111, '050471'],
+        [1234567890, '005924'],
+        [2000000000, '279037'],
+    ])('matches the RFC 6238 code at %i seconds', (seconds, code) => {
+        expect(verifyTotp(RFC_SECRET, code, seconds * 1000)).toBe(Math.floor(seconds / 30));
+    });
+
+    it('accepts the code from one step either side', () => {
+        const step = Math.floor(1111111111 / 30);
+        expect(verifyTotp(RFC_SECRET, '050471', (1111111111 - 30) * 1000)).toBe(step);
+        expect(verifyTotp(RFC_SECRET, '050471', (1111111111 + 30) * 1000)).toBe(step);
+        expect(verifyTotp(RFC_SECRET, '050471', (1111111111 + 60) * 1000)).toBeNull();
+    });
+
+    it('ignores spaces and the case of the secret', () => {
+        expect(verifyTotp(RFC_SECRET.toLowerCase(), '050 471', 1111111111 * 1000)).toBe(Math.floor(1111111111 / 30));
+    });
+
+    it('rejects wrong and malformed codes', () => {
+        expect(verifyTotp(RFC_SECRET, '050472', 1111111111 * 1000)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, '05047', 1111111111 * 1000)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, '0504711', 1111111111 * 1000)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, 'abcdef', 1111111111 * 1000)).toBeNull();
+    });
+});
+
+describe('generateTotpSecret', () => {
+    it('makes a different 160-bit base32 secret each time', () => {
+        const secret = generateTotpSecret();
+        expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+        expect(generateTotpSecret()).not.toBe(secret);
+    });
+});
+
+describe('buildOtpauthUrl', () => {
+    it('labels the account with the issuer and encodes both', () => {
+        expect(buildOtpauthUrl('ABC234', 'jo@example.com', 'Abominable Creamery')).toBe(
+            'otpauth://totp/Abominable%20Creamery%3Ajo%40example.com?secret=ABC234&issuer=Abominable%20Creamery&algorithm=SHA1&digits=6&period=30'
+        );
+    });
+});
@@ -41,6 +41,76 @@ export interface OrderData {
     shippingState?: string | null;
     shippingZip?: string | null;
     shippingCountry?: string | null; // Added country just in case
+    shippingMethodName?: string | null;
+    shippingCost?: number | string;
+    estimatedDeliveryDate?: string | null; // "YYYY-MM-DD" or ISO date
+    // Gift orders ship to the recipient above; contactEmail is the buyer's
+    isGift?: boolean;
+    giftMessage?: string | null;
+    giftHidePrices?: boolean;
+    // Promotion applied at checkout
+    discountAmount?: number | string;
+    promoCodeText?: string | null;
+    // Sales tax included in totalAmount
+    taxAmount?: number | string;
+    // Part of totalAmount paid with a gift card (the rest was charged to the card)
+    giftCardAmount?: number | string;
+    // Packages sent for this order (an order can ship in several)
+    shipments?: ShipmentData[];
+    // Money returned to the customer (refundedAmount counts succeeded refunds only)
+    refundedAmount?: number | string;
+    refunds?: RefundData[];
+    // Why an ON_HOLD order is held back from fulfillment (admin view only)
+    holdReason?: string | null;
+}
+
+// A package shipped for an order, with the order items it contains
+export interface ShipmentData {
+    id: number;
+    carrier: string;
+    trackingNumber: string | null;
+    shippedAt: string;
+    deliveredAt: string | null;
+    items: { orderItemId: number; quantity: number }[];
+}
+
+// A refund issued against an order. Items are only set for per-item refunds
+export interface RefundData {
+    id: number;
+    amount: number | string;
+    status: string; // Stripe refund status (pending, succeeded, failed, canceled, requires_action)
+    reason: string | null;
+    note?: string | null; // Internal note, admin responses only
+    createdAt: string;
+    items: { orderItemId: number; quantity: number; amount: number | string }[];
+}
+
+// Shipping method quoted by POST /api/stripe/shipping-options (amount in dollars)
+export interface ShippingOptionData {
+    id: string;
+    name: string;
+    description: string | null;
+    amount: number;
+    minDays: number;
+    maxDays: number;
+    isFree: boolean;
+    estimatedShipDate: string; // "YYYY-MM-DD"
+    estimatedDeliveryDate: string; // "YYYY-MM-DD", latest expected arrival
+}
+
+// Promo code preview returned by POST /api/stripe/promo-code (amounts in dollars)
+export interface AppliedPromoCode {
+    code: string;
+    description: string | null;
+    itemsDiscount: number;
+    shippingDiscount: number;
+    discount: number;
+}
+
+// Gift card applied at checkout (from /api/gift-cards/check); dollars
+export interface AppliedGiftCard {
+    code: string;
+    balance: number;
 }
 
 // Structure for a saved address from API
@@ -107,7 +177,7 @@ export interface ApiOrder {
     id: number;
     userId: number | null; // Nullable for guest orders
     totalAmount: string; // Typically decimal/money is stringified
-    status: 'PENDING' | 'PAID' | 'SHIPPED' | 'FAILED';
+    status: 'PENDING' | 'PAID' | 'ON_HOLD' | 'PROCESSING' | 'PARTIALLY_SHIPPED' | 'SHIPPED' | 'DELIVERED' | 'FAILED' | 'CANCELED' | 'REFUNDED';
     contactEmail: string;
     contactPhone: string | null;
     shippingName: string;
@@ -132,4 +202,139 @@ export interface ApiSavedCard {
     expMonth: number;
     expYear: number;
     isDefault: boolean;
-} 
\ No newline at end of file
+} 
+// --- Admin Catalog (from /api/admin/catalog) ---
+
+// A price option as seen by admins (includes archived prices and raw stock)
+export interface AdminCatalogPrice {
+    id: string; // Stripe Price ID
+    active: boolean;
+    currency: string;
+    unitAmount: number | null; // In cents
+    recurringInterval: string | null;
+    packSize: string | null;
+    unitDescription: string | null;
+    displayName: string | null;
+    subscriptionId: string | null;
+    boxSize: number | null; // Pints per box (build-your-own box subscription prices only)
+    stockQuantity: number | null; // Null = stock not tracked
+}
+
+// A flavor/product as seen by admins, with metadata already parsed into fields
+export interface AdminCatalogProduct {
+    id: string; // Stripe Product ID
+    name: string;
+    description: string | null;
+    active: boolean;
+    images: string[];
+    defaultPriceId: string | null;
+    simpleName: string | null;
+    slug: string | null;
+    hasDairy: boolean;
+    hasEgg: boolean;
+    withoutDairy: boolean;
+    withoutEgg: boolean;
+    notFlavor: boolean;
+    boxEligible: boolean; // Can be picked for build-your-own boxes
+    prices: AdminCatalogPrice[];
+}
+
+// Editable fields of a flavor (what the admin form submits)
+export type AdminFlavorFormData = Omit<AdminCatalogProduct, 'id' | 'active' | 'images' | 'defaultPriceId' | 'prices'>;
+
+// Editable fields of a price option. unitAmount/currency/recurringInterval only apply on create (Stripe prices are immutable)
+export type AdminPriceFormData = Omit<AdminCatalogPrice, 'id' | 'active'> & { isDefault: boolean };
+
+// --- Subscription Plan Changes (from /api/subscriptions/:id/change/preview) ---
+
+export interface SubscriptionPlanPreview {
+    prorationDate: number; // Unix seconds, sent back with the change
+    currency: string;
+    prorationAmountCent: number; // Negative = credit for the unused part of the current plan
+    amountDueNowCent: number;
+    chargesImmediately: boolean; // Interval changes start a new billing period right away
+    nextPaymentCent: number;
+    newPlan: {
+        priceId: string;
+        productName: string;
+        unitDescription: string | null;
+        interval: string;
+        intervalCount: number;
+        quantity: number;
+        unitAmountCent: number;
+    };
+}
+
+// --- Build-Your-Own Box (from /api/subscriptions/:id/box) ---
+
+export interface SubscriptionBoxData {
+    boxSize: number; // Pints per box
+    boxCount: number; // Boxes per delivery
+    items: { productId: string; productName: string; quantity: number }[];
+    eligibleFlavors: { productId: string; name: string; imageSrc: string | null }[];
+    nextDeliveryDate: string | null;
+    editableUntil: string | null;
+    isLocked: boolean; // Past the cutoff for the next delivery
+}
+
+// A failed subscription renewal that is being retried (GET /api/subscriptions/dunning)
+export interface SubscriptionDunningNotice {
+    id: number;
+    stripeSubscriptionId: string;
+    productName: string;
+    amountDueCent: number;
+    attemptCount: number;
+    nextAttemptAt: string | null; // Null after the final attempt
+    requiresAction: boolean; // The bank wants the payment confirmed
+    hostedInvoiceUrl: string | null;
+    status: 'open' | 'recovered' | 'canceled';
+}
+
+// --- Gift Cards (from /api/gift-cards) ---
+
+// Status of a gift card purchase, for the page Stripe returns to (GET /api/gift-cards/purchase/:paymentIntentId)
+export interface GiftCardPurchaseStatus {
+    status: 'pending' | 'active' | 'voided';
+    amountCent: number;
+    recipientEmail: string;
+    recipientName: string | null;
+    delivered: boolean;
+}
+
+// One balance change on a gift card (amountCent is negative for redemptions and voids)
+export interface GiftCardTransactionData {
+    id: number;
+    type: 'issue' | 'redeem' | 'refund' | 'void';
+    amountCent: number;
+    balanceAfterCent: number;
+    orderId: number | null;
+    note: string | null;
+    createdAt: string;
+}
+
+// A gift card as seen by admins (GET /api/gift-cards/admin/lookup)
+export interface AdminGiftCard {
+    id: number;
+    code: string;
+    status: 'pending' | 'active' | 'voided';
+    initialAmountCent: number;
+    balanceCent: number;
+    recipientEmail: string;
+    recipientName: string | null;
+    senderName: string | null;
+    purchaserEmail: string;
+    stripePaymentIntentId: string | null;
+    deliveredAt: string | null;
+    voidedAt: string | null;
+    voidReason: string | null;
+    createdAt: string;
+    transactions: GiftCardTransactionData[];
+}
+
+// An account locked after too many failed logins (GET /api/admin/users/locked)
+export interface LockedAccount {
+    id: number;
+    email: string;
+    name: string | null;
+    lockedUntil: string;
+}
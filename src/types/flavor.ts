@@ -9,7 +9,11 @@ export interface PriceOption {
     // --- Fields relevant for Subscription UI V2 ---
     isSubscription: boolean;    // Determined by price.recurring != null on server
     recurringInterval: string | null; // e.g., 'month', 'week' from price.recurring
+    recurringIntervalCount: number | null; // e.g., 2 with 'week' for every other week
     subscriptionId: string | null; // ID of corresponding subscription price (from metadata on one-time price)
+    boxSize: number | null; // Pints per box for build-your-own box subscription prices
+    // --- Inventory ---
+    stockAvailable: number | null; // Units left to sell (stock minus active checkout reservations). Null = not tracked
 }
 
 export interface Flavor {
@@ -21,6 +25,7 @@ export interface Flavor {
     hasEgg: boolean;
     withoutDairy: boolean;
     withoutEgg: boolean;
+    boxEligible: boolean;    // Can be picked for build-your-own boxes
     imageSrc: string | null; // URL from Stripe Product images[0]
     prices: PriceOption[];   // Array of available prices/packs
     slug: string | null;     // New: Slug from Product metadata
@@ -0,0 +1,11 @@
+// Cart line naming shared by the flavor page and the server-side cart, so a cart loaded
+// from the account looks the same as one built in the browser.
+
+/**
+ * Builds the display name of a cart line, e.g. "Vanilla Bean (Pint) (Subscription)".
+ * @param productName - The flavor/product name.
+ * @param unitDescription - The price's unit description (e.g. "Pint"), if any.
+ * @param isSubscription - Whether the price is recurring.
+ */
+export const buildCartItemName = (productName: string, unitDescription: string | null | undefined, isSubscription: boolean): string =>
+    `${productName} ${unitDescription ? `(${unitDescription})` : ''}${isSubscription ? ' (Subscription)' : ''}`;
@@ -61,6 +61,9 @@ export const footerColumns = [
 			}, {
 				text: 'News',
 				ahref: '/news'
+			}, {
+				text: 'Gift Cards',
+				ahref: '/gift-cards'
 			}
 		]
 	}
@@ -1,6 +1,21 @@
 import sgMail from '@sendgrid/mail';
+import fs from 'fs';
+import path from 'path';
+import net from 'net';
 
-if (!process.env.SENDGRID_API_KEY) {
+// Where emails go: 'sendgrid' (default), 'file' (written to EMAIL_OUTBOX_DIR) or 'smtp' (plain SMTP to a local
+// capture server such as MailHog or Mailpit). The last two are for development and send nothing to real inboxes.
+type EmailTransport = 'sendgrid' | 'file' | 'smtp';
+const EMAIL_TRANSPORT: EmailTransport = (['file', 'smtp'].includes(process.env.EMAIL_TRANSPORT || '')
+  ? process.env.EMAIL_TRANSPORT
+  : 'sendgrid') as EmailTransport;
+const EMAIL_OUTBOX_DIR = process.env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'emails');
+const SMTP_CAPTURE_HOST = process.env.SMTP_CAPTURE_HOST || 'localhost';
+const SMTP_CAPTURE_PORT = parseInt(process.env.SMTP_CAPTURE_PORT || '1025', 10);
+
+if (EMAIL_TRANSPORT !== 'sendgrid') {
+  console.log(`Email transport: ${EMAIL_TRANSPORT}${EMAIL_TRANSPORT === 'file' ? ` (${EMAIL_OUTBOX_DIR})` : ` (${SMTP_CAPTURE_HOST}:${SMTP_CAPTURE_PORT})`}`);
+} else if (!process.env.SENDGRID_API_KEY) {
   console.warn('SENDGRID_API_KEY is not set. Email functionality will be disabled.');
 } else {
   sgMail.setApiKey(process.env.SENDGRID_API_KEY);
@@ -9,31 +24,155 @@ if (!process.env.SENDGRID_API_KEY) {
 interface EmailOptions {
   to: string;
   subject: string; // Subject can often be set in the template, but can be overridden
-  templateId: string; 
-  dynamicTemplateData: Record<string, any>; // Data to populate the template
+  // Either a SendGrid dynamic template...
+  templateId?: string;
+  dynamicTemplateData?: Record<string, any>; // Data to populate the template
+  // ...or content rendered by the app (see src/server/utils/emailTemplates.ts)
+  html?: string;
+  text?: string;
   from?: string; // Optional: defaults to a configured sender if not provided
 }
 
 const DEFAULT_FROM_EMAIL = process.env.SENDGRID_FROM_EMAIL || 'noreply@abominablecreamery.example'; // Replace with your actual verified sender
 
+// --- Development transports ---
+
+// Builds a plain RFC 822 message (multipart/alternative when there is both text and HTML)
+const buildMimeMessage = (from: string, options: EmailOptions): string => {
+  const encodedSubject = /^[\x20-\x7e]*$/.test(options.subject)
+    ? options.subject
+    : `=?UTF-8?B?${Buffer.from(options.subject, 'utf8').toString('base64')}?=`;
+  const headers = [
+    `From: ${from}`,
+    `To: ${options.to}`,
+    `Subject: ${encodedSubject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+  ];
+  // SendGrid template emails can't be rendered locally, so capture the template ID and data instead
+  const text = options.text ?? (options.templateId
+    ? `SendGrid template: ${options.templateId}\n\n${JSON.stringify(options.dynamicTemplateData ?? {}, null, 2)}`
+    : '');
+
+  if (!options.html) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: 8bit', '', text].join('\r\n');
+  }
+  const boundary = `----=_abominable_${Date.now().toString(36)}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    options.html,
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+};
+
+// Writes the message to EMAIL_OUTBOX_DIR as an .eml file (opens in any mail client)
+const writeToOutbox = async (message: string, options: EmailOptions): Promise<string> => {
+  await fs.promises.mkdir(EMAIL_OUTBOX_DIR, { recursive: true });
+  const slug = options.subject.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 50);
+  const filePath = path.join(EMAIL_OUTBOX_DIR, `${new Date().toISOString().replace(/[:.]/g, '-')}-${slug}.eml`);
+  await fs.promises.writeFile(filePath, message, 'utf8');
+  return filePath;
+};
+
+// Minimal SMTP client for local capture servers (no auth, no TLS)
+const sendViaSmtp = (message: string, from: string, to: string): Promise<void> => new Promise((resolve, reject) => {
+  const envelopeAddress = (address: string) => (address.match(/<([^>]+)>/)?.[1] ?? address).trim();
+  // Lines starting with "." must be doubled inside DATA
+  const body = message.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  const commands = [
+    'EHLO localhost',
+    `MAIL FROM:<${envelopeAddress(from)}>`,
+    `RCPT TO:<${envelopeAddress(to)}>`,
+    'DATA',
+    `${body}\r\n.`,
+    'QUIT',
+  ];
+  let step = -1; // -1 = waiting for the server greeting
+  let buffer = '';
+
+  const socket = net.createConnection({ host: SMTP_CAPTURE_HOST, port: SMTP_CAPTURE_PORT });
+  socket.setEncoding('utf8');
+  socket.setTimeout(10000, () => {
+    socket.destroy();
+    reject(new Error(`SMTP capture server at ${SMTP_CAPTURE_HOST}:${SMTP_CAPTURE_PORT} timed out.`));
+  });
+  socket.on('error', reject);
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    // Wait for the final line of a (possibly multi-line "250-...") reply
+    const lines = buffer.split('\r\n').filter(Boolean);
+    const lastLine = lines[lines.length - 1] || '';
+    if (!buffer.endsWith('\r\n') || !/^\d{3} /.test(lastLine)) return;
+    buffer = '';
+
+    if (parseInt(lastLine.slice(0, 3), 10) >= 400) {
+      socket.destroy();
+      reject(new Error(`SMTP capture server rejected the message: ${lastLine}`));
+      return;
+    }
+    step++;
+    if (step < commands.length) {
+      socket.write(`${commands[step]}\r\n`);
+    } else {
+      socket.end();
+      resolve();
+    }
+  });
+});
+
 /**
- * Sends an email using SendGrid dynamic templates.
- * @param options - Email options including to, subject, templateId, and dynamicTemplateData.
+ * Sends an email using the configured transport.
+ * SendGrid emails use a dynamic template (templateId) or app-rendered html/text.
+ * @param options - Email options including to, subject, and either templateId/dynamicTemplateData or html/text.
  */
 export const sendEmail = async (options: EmailOptions): Promise<void> => {
+  const from = options.from || DEFAULT_FROM_EMAIL; // Use default sender if not specified
+
+  if (EMAIL_TRANSPORT === 'file' || EMAIL_TRANSPORT === 'smtp') {
+    const message = buildMimeMessage(from, options);
+    if (EMAIL_TRANSPORT === 'file') {
+      const filePath = await writeToOutbox(message, options);
+      console.log(`Email to ${options.to} written to ${filePath}`);
+    } else {
+      await sendViaSmtp(message, from, options.to);
+      console.log(`Email to ${options.to} sent to SMTP capture server`);
+    }
+    return;
+  }
+
   if (!process.env.SENDGRID_API_KEY) {
     console.error('Attempted to send email without SENDGRID_API_KEY being set.');
     // In a real app, you might throw an error or handle this case differently
-    return; 
+    return;
   }
 
-  const msg = {
-    to: options.to,
-    from: options.from || DEFAULT_FROM_EMAIL, // Use default sender if not specified
-    subject: options.subject, // Subject line
-    templateId: options.templateId, // Specify the template ID
-    dynamicTemplateData: options.dynamicTemplateData, // Pass dynamic data for the template
-  };
+  const msg = options.templateId
+    ? {
+        to: options.to,
+        from,
+        subject: options.subject, // Subject line
+        templateId: options.templateId, // Specify the template ID
+        dynamicTemplateData: options.dynamicTemplateData, // Pass dynamic data for the template
+      }
+    : {
+        to: options.to,
+        from,
+        subject: options.subject,
+        text: options.text || '',
+        html: options.html || options.text || '',
+      };
 
   try {
     await sgMail.send(msg);
@@ -46,6 +185,6 @@ export const sendEmail = async (options: EmailOptions): Promise<void> => {
       console.error((error as any).response.body);
     }
     // Re-throw or handle the error appropriately for your application
-    throw error; 
+    throw error;
   }
-}; 
\ No newline at end of file
+};
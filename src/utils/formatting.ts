@@ -57,4 +57,32 @@ export const formatCurrency = (amount: number | string | null | undefined): stri
     const num = typeof amount === 'string' ? parseFloat(amount) : amount;
     if (isNaN(num)) return 'N/A';
     return `$${num.toFixed(2)}`;
-}; 
\ No newline at end of file
+}; 
+// Stock level at or below which "Only N left" is shown
+export const LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * Formats a price option's stock level into a short label for product cards/pages.
+ * @param stockAvailable - Units left to sell, or null if stock is not tracked.
+ * @returns "Sold out", "Only N left", or null when no label should be shown.
+ */
+export const formatStockStatus = (stockAvailable: number | null | undefined): string | null => {
+    if (stockAvailable === null || stockAvailable === undefined) return null;
+    if (stockAvailable <= 0) return 'Sold out';
+    if (stockAvailable <= LOW_STOCK_THRESHOLD) return `Only ${stockAvailable} left`;
+    return null;
+};
+
+/**
+ * Formats a calendar date (e.g. an estimated delivery date) as "Thu, May 15".
+ * Only the YYYY-MM-DD part is used so dates stored without a time don't shift across time zones.
+ * @param dateString - "YYYY-MM-DD" or an ISO string.
+ * @returns Formatted date string, or '' if missing/invalid.
+ */
+export const formatDeliveryDate = (dateString: string | null | undefined): string => {
+    if (!dateString) return '';
+    const match = dateString.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) return '';
+    const date = new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+};
@@ -0,0 +1,16 @@
+// Gift checkout options shared by the checkout page and the server.
+
+// Lengths a monthly subscription can be given for. The whole term is paid at checkout.
+export const GIFT_SUBSCRIPTION_MONTHS = [3, 6, 12] as const;
+
+// Longest gift message we print on the packing slip
+export const GIFT_MESSAGE_MAX_LENGTH = 500;
+
+// Order line name for a prepaid gift subscription, e.g. "Vanilla (Gift subscription, 6 months)"
+export const giftSubscriptionLineName = (productName: string, months: number): string =>
+    `${productName} (Gift subscription, ${months} months)`;
+
+// Gift card amounts (dollars): suggested values, and the range allowed for a custom amount
+export const GIFT_CARD_AMOUNTS = [25, 50, 100] as const;
+export const GIFT_CARD_MIN_AMOUNT = 10;
+export const GIFT_CARD_MAX_AMOUNT = 500;
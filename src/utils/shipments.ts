@@ -0,0 +1,34 @@
+// Shipment helpers shared by the admin UI, the order card and the server.
+
+// Carriers offered in the shipment form. Used by both the admin UI and the server.
+export const SHIPPING_CARRIERS = ['UPS', 'FedEx', 'USPS', 'DHL', 'Other'] as const;
+
+/**
+ * Builds the carrier's public tracking page URL for a tracking number.
+ * @param carrier - Carrier name as stored on the Shipment (case-insensitive).
+ * @param trackingNumber - The tracking number.
+ * @returns The tracking URL, or null for unknown carriers or a missing number.
+ */
+export const getTrackingUrl = (carrier: string | null | undefined, trackingNumber: string | null | undefined): string | null => {
+    if (!carrier || !trackingNumber) return null;
+    const number = encodeURIComponent(trackingNumber.trim());
+    switch (carrier.trim().toUpperCase()) {
+        case 'UPS':
+            return `https://www.ups.com/track?tracknum=${number}`;
+        case 'FEDEX':
+            return `https://www.fedex.com/fedextrack/?trknbr=${number}`;
+        case 'USPS':
+            return `https://tools.usps.com/go/TrackConfirmAction?tLabels=${number}`;
+        case 'DHL':
+            return `https://www.dhl.com/us-en/home/tracking.html?tracking-id=${number}`;
+        default:
+            return null;
+    }
+};
+
+/**
+ * Whether an order item is the shipping charge rather than something to pack.
+ * Older orders used the Stripe shipping price ID as productId; newer ones use "shipping_<method>".
+ */
+export const isShippingLineItem = (item: { productId: string; productName: string }): boolean =>
+    item.productId.startsWith('shipping_') || item.productName === 'Shipping' || item.productName.startsWith('Shipping (');
@@ -0,0 +1,66 @@
+// Subscription helpers shared by the server and the profile pages
+
+// Plain-language label for a billing interval, e.g. "every month" or "every 2 weeks"
+export const describeInterval = (interval: string, intervalCount: number = 1): string =>
+    intervalCount === 1 ? `every ${interval}` : `every ${intervalCount} ${interval}s`;
+
+/**
+ * Moves a date forward by a billing interval. Like Stripe, a month step from the 31st
+ * lands on the last day of a shorter month.
+ */
+export const addInterval = (date: Date, interval: string, intervalCount: number = 1): Date => {
+    const result = new Date(date.getTime());
+    switch (interval) {
+        case 'day':
+            result.setUTCDate(result.getUTCDate() + intervalCount);
+            return result;
+        case 'week':
+            result.setUTCDate(result.getUTCDate() + 7 * intervalCount);
+            return result;
+        case 'month':
+        case 'year': {
+            const months = interval === 'year' ? 12 * intervalCount : intervalCount;
+            const day = result.getUTCDate();
+            result.setUTCDate(1);
+            result.setUTCMonth(result.getUTCMonth() + months);
+            const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+            result.setUTCDate(Math.min(day, daysInMonth));
+            return result;
+        }
+        default:
+            return result;
+    }
+};
+
+interface DeliverySchedule {
+    status: string;
+    interval: string;
+    intervalCount: number;
+    currentPeriodEnd: Date | string | null;
+    cancelAtPeriodEnd: boolean;
+    collectionPaused: boolean;
+    pauseResumesAt: Date | string | null;
+}
+
+/**
+ * The next renewal that will actually ship: the period end, moved past any skip or dated pause.
+ * @returns Null when nothing is scheduled (canceled, cancelling, or paused until resumed).
+ */
+export const getNextDeliveryDate = (subscription: DeliverySchedule): Date | null => {
+    if (subscription.status === 'canceled' || subscription.cancelAtPeriodEnd || !subscription.currentPeriodEnd) {
+        return null;
+    }
+    let next = new Date(subscription.currentPeriodEnd);
+    if (!subscription.collectionPaused) {
+        return next;
+    }
+    if (!subscription.pauseResumesAt) {
+        return null;
+    }
+    const resumesAt = new Date(subscription.pauseResumesAt);
+    // Periods keep rolling while paused; the first one starting after the pause ends is delivered
+    for (let i = 0; i < 1000 && next < resumesAt; i++) {
+        next = addInterval(next, subscription.interval, subscription.intervalCount);
+    }
+    return next;
+};
@@ -68,4 +68,21 @@ const serverConfig = {
 	mode: "development"
 };
 
-module.exports = [browserConfig, serverConfig];
\ No newline at end of file
+// Standalone CLI jobs (e.g. `npm run sync-catalog`), built alongside the server
+const scriptsConfig = {
+	...serverConfig,
+	entry: {
+		syncCatalog: "./src/server/scripts/syncCatalog.ts",
+		cardExpiryNotices: "./src/server/scripts/cardExpiryNotices.ts",
+		abandonedCheckoutReminders: "./src/server/scripts/abandonedCheckoutReminders.ts",
+		runJobs: "./src/server/scripts/runJobs.ts",
+		previewEmails: "./src/server/scripts/previewEmails.ts"
+	},
+	output: {
+		path: __dirname,
+		filename: "./built/[name].js",
+		libraryTarget: "commonjs2"
+	}
+};
+
+module.exports = [browserConfig, serverConfig, scriptsConfig];
\ No newline at end of file